@@ -31,7 +31,9 @@ interface TabContainerProps {
     appointment: React.ReactNode;
     inspection: React.ReactNode;
     estimate: React.ReactNode;
+    frc: React.ReactNode;
     preincident: React.ReactNode;
+    notes: React.ReactNode;
   };
   initialData: {
     claim: any;
@@ -153,7 +155,7 @@ export default function TabContainer({ id, tabContents, initialData }: TabContai
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const tabParam = searchParams.get('tab');
-  const validTabs = ['overview', 'appointment', 'inspection', 'estimate', 'preincident'];
+  const validTabs = ['overview', 'appointment', 'inspection', 'estimate', 'frc', 'preincident', 'notes'];
   const [activeTab, setActiveTab] = useState(
     tabParam && validTabs.includes(tabParam) ? tabParam : 'overview'
   );
@@ -322,7 +324,7 @@ export default function TabContainer({ id, tabContents, initialData }: TabContai
         )}
 
         <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview" disabled={loadingTab !== null}>
               {loadingTab === 'overview' ? (
                 <div className="flex items-center">
@@ -363,6 +365,16 @@ export default function TabContainer({ id, tabContents, initialData }: TabContai
                 'Estimate'
               )}
             </TabsTrigger>
+            <TabsTrigger value="frc" disabled={loadingTab !== null}>
+              {loadingTab === 'frc' ? (
+                <div className="flex items-center">
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                  FRC
+                </div>
+              ) : (
+                'FRC'
+              )}
+            </TabsTrigger>
             <TabsTrigger value="preincident" disabled={loadingTab !== null}>
               {loadingTab === 'preincident' ? (
                 <div className="flex items-center">
@@ -373,6 +385,16 @@ export default function TabContainer({ id, tabContents, initialData }: TabContai
                 'Pre-Incident'
               )}
             </TabsTrigger>
+            <TabsTrigger value="notes" disabled={loadingTab !== null}>
+              {loadingTab === 'notes' ? (
+                <div className="flex items-center">
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                  Notes
+                </div>
+              ) : (
+                'Notes'
+              )}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-4">
@@ -395,9 +417,17 @@ export default function TabContainer({ id, tabContents, initialData }: TabContai
             {loadingTab === 'estimate' ? <TabLoadingSkeleton /> : tabContents.estimate}
           </TabsContent>
 
+          <TabsContent value="frc" className="space-y-4">
+            {loadingTab === 'frc' ? <TabLoadingSkeleton /> : tabContents.frc}
+          </TabsContent>
+
           <TabsContent value="preincident" className="space-y-4">
             {loadingTab === 'preincident' ? <TabLoadingSkeleton /> : tabContents.preincident}
           </TabsContent>
+
+          <TabsContent value="notes" className="space-y-4">
+            {loadingTab === 'notes' ? <TabLoadingSkeleton /> : tabContents.notes}
+          </TabsContent>
         </Tabs>
       </HydrationBoundary>
     </QueryClientProvider>
@@ -27,7 +27,9 @@ import AppointmentsTab from "./tabs/appointments/AppointmentsTab";
 import InspectionTab from "./tabs/inspection/InspectionTab";
 
 import EstimateTab from "./tabs/estimate/EstimateTab";
+import FrcTab from "./tabs/frc/FrcTab";
 import PreIncidentTab from "./tabs/preincident/PreIncidentTab";
+import NotesTab from "./tabs/notes/NotesTab";
 
 export default async function ClaimDetailsPage({ params }: { params: { id: string } }) {
   // Await params to satisfy Next.js requirement
@@ -99,6 +101,13 @@ export default async function ClaimDetailsPage({ params }: { params: { id: strin
         </Suspense>
       </ErrorBoundary>
     ),
+    frc: (
+      <ErrorBoundary fallback={<div>Error loading final costing</div>}>
+        <Suspense fallback={<div>Loading final costing...</div>}>
+          <FrcTab />
+        </Suspense>
+      </ErrorBoundary>
+    ),
     preincident: (
       <ErrorBoundary fallback={<div>Error loading pre-incident</div>}>
         <Suspense fallback={<div>Loading pre-incident...</div>}>
@@ -106,6 +115,13 @@ export default async function ClaimDetailsPage({ params }: { params: { id: strin
         </Suspense>
       </ErrorBoundary>
     ),
+    notes: (
+      <ErrorBoundary fallback={<div>Error loading notes</div>}>
+        <Suspense fallback={<div>Loading notes...</div>}>
+          <NotesTab claimId={id} claimData={claimData} />
+        </Suspense>
+      </ErrorBoundary>
+    ),
   };
 
   return (
@@ -2,8 +2,10 @@
 
 import { useState } from "react";
 import { useOptimisticUpdateClaimStatus } from "@/lib/api/domains/claims";
-import { ClaimStatus } from "@/lib/api/domains/claims/types";
+import { ClaimStatus, getAvailableClaimStatuses } from "@/lib/api/domains/claims/types";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -29,30 +31,10 @@ interface StatusUpdateProps {
 export function StatusUpdate({ claimId, currentStatus }: StatusUpdateProps) {
   const [open, setOpen] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState<ClaimStatus | undefined>(undefined);
+  const [reason, setReason] = useState("");
 
-  // Get available next statuses based on current status
-  const getAvailableStatuses = (current: ClaimStatus): ClaimStatus[] => {
-    switch (current) {
-      case ClaimStatus.NEW:
-        return [ClaimStatus.APPOINTED, ClaimStatus.CANCELED];
-      case ClaimStatus.APPOINTED:
-        return [ClaimStatus.INSPECTION_DONE, ClaimStatus.CANCELED];
-      case ClaimStatus.INSPECTION_DONE:
-        return [ClaimStatus.REPORT_SENT, ClaimStatus.CANCELED];
-      case ClaimStatus.REPORT_SENT:
-        return [ClaimStatus.AUTHORIZED, ClaimStatus.CANCELED];
-      case ClaimStatus.AUTHORIZED:
-        return [ClaimStatus.FRC_REQUESTED, ClaimStatus.CANCELED];
-      case ClaimStatus.FRC_REQUESTED:
-        return [ClaimStatus.FRC_ACTIVE, ClaimStatus.CANCELED];
-      case ClaimStatus.FRC_ACTIVE:
-        return [ClaimStatus.FRC_FINALIZED, ClaimStatus.CANCELED];
-      default:
-        return [];
-    }
-  };
-
-  const availableStatuses = getAvailableStatuses(currentStatus as ClaimStatus);
+  const availableStatuses = getAvailableClaimStatuses(currentStatus);
+  const requiresReason = selectedStatus === ClaimStatus.CANCELED;
 
   // Use the optimistic update hook from our DAL
   const updateStatus = useOptimisticUpdateClaimStatus();
@@ -61,9 +43,12 @@ export function StatusUpdate({ claimId, currentStatus }: StatusUpdateProps) {
     if (selectedStatus) {
       updateStatus.mutate({
         id: claimId,
-        status: selectedStatus
+        status: selectedStatus,
+        reason: reason.trim() || undefined
       });
       setOpen(false);
+      setSelectedStatus(undefined);
+      setReason("");
     }
   };
 
@@ -80,7 +65,16 @@ export function StatusUpdate({ claimId, currentStatus }: StatusUpdateProps) {
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
-          <Select onValueChange={(value) => setSelectedStatus(value as ClaimStatus)}>
+          {availableStatuses.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No further status changes are possible for this claim.
+            </p>
+          )}
+          <Select
+            value={selectedStatus}
+            onValueChange={(value) => setSelectedStatus(value as ClaimStatus)}
+            disabled={availableStatuses.length === 0}
+          >
             <SelectTrigger>
               <SelectValue placeholder="Select new status" />
             </SelectTrigger>
@@ -92,12 +86,23 @@ export function StatusUpdate({ claimId, currentStatus }: StatusUpdateProps) {
               ))}
             </SelectContent>
           </Select>
+          {requiresReason && (
+            <div className="grid gap-2">
+              <Label htmlFor="status-reason">Reason</Label>
+              <Textarea
+                id="status-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this claim being canceled?"
+              />
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button
             type="submit"
             onClick={handleStatusChange}
-            disabled={!selectedStatus || updateStatus.isPending}
+            disabled={!selectedStatus || (requiresReason && !reason.trim()) || updateStatus.isPending}
           >
             {updateStatus.isPending ? "Updating..." : "Update"}
           </Button>
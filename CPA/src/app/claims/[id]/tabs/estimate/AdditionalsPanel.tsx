@@ -0,0 +1,464 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, Plus, Trash, X } from "lucide-react";
+import {
+  type Estimate,
+  EstimateStatus,
+  LaborTrade,
+  OperationCode,
+  type PartType,
+} from "@/lib/api/domains/estimates/types";
+import {
+  type AdditionalLine,
+  AdditionalLineStatus,
+} from "@/lib/api/domains/additionals/types";
+import {
+  useAdditionalLines,
+  useRequestAdditional,
+  useDeleteAdditional,
+  useApproveAdditional,
+  useRejectAdditional,
+} from "@/lib/api/domains/additionals/hooks";
+import {
+  OPERATION_CODES,
+  OPERATION_CODES_SHORT,
+  PART_TYPE_OPTIONS,
+  PART_TYPE_OPTIONS_SHORT,
+  LABOR_TRADE_OPTIONS,
+  LABOR_TRADE_OPTIONS_SHORT,
+  ESTIMATE_LINE_COLUMNS,
+  canEditPartCost,
+} from "./estimate-line-columns";
+
+interface AdditionalsPanelProps {
+  estimate: Estimate;
+}
+
+interface AdditionalFormState {
+  operation_code: OperationCode;
+  description: string;
+  part_type: PartType | "";
+  part_number: string;
+  part_cost: string;
+  quantity: string;
+  labor_trade: LaborTrade;
+  strip_fit_hours: string;
+  repair_hours: string;
+  paint_hours: string;
+  sublet_cost: string;
+}
+
+const EMPTY_FORM: AdditionalFormState = {
+  operation_code: OperationCode.NEW,
+  description: "",
+  part_type: "",
+  part_number: "",
+  part_cost: "",
+  quantity: "1",
+  labor_trade: LaborTrade.PANEL,
+  strip_fit_hours: "",
+  repair_hours: "",
+  paint_hours: "",
+  sublet_cost: "",
+};
+
+// Number columns captured in the request dialog, in table order
+const NUMBER_FIELDS = ["part_cost", "quantity", "strip_fit_hours", "repair_hours", "paint_hours", "sublet_cost"] as const;
+
+// Parse number input handling both comma and period as decimal separators
+const parseOptionalNumber = (input: string): number | undefined => {
+  if (!input.trim()) return undefined;
+  const parsed = parseFloat(input.replace(/,/g, "."));
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Format number with decimal places
+const formatNumber = (value: number | null | undefined, decimals = 2) => {
+  if (value === null || value === undefined) return "";
+  return new Intl.NumberFormat("en-GB", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(value);
+};
+
+const STATUS_BADGE_VARIANTS: Record<AdditionalLineStatus, "outline" | "success" | "destructive"> = {
+  [AdditionalLineStatus.REQUESTED]: "outline",
+  [AdditionalLineStatus.APPROVED]: "success",
+  [AdditionalLineStatus.REJECTED]: "destructive",
+};
+
+export function AdditionalsPanel({ estimate }: AdditionalsPanelProps) {
+  const { data: additionalLines = [], isLoading } = useAdditionalLines(estimate.id);
+  const requestAdditional = useRequestAdditional();
+  const deleteAdditional = useDeleteAdditional(estimate.id);
+  const approveAdditional = useApproveAdditional();
+  const rejectAdditional = useRejectAdditional();
+
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
+  const [form, setForm] = useState<AdditionalFormState>(EMPTY_FORM);
+  const [rejectingLine, setRejectingLine] = useState<AdditionalLine | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const isAuthorized = estimate.status === EstimateStatus.AUTHORIZED;
+  const pendingCount = additionalLines.filter(
+    (line: AdditionalLine) => line.status === AdditionalLineStatus.REQUESTED
+  ).length;
+
+  const handleRequest = () => {
+    requestAdditional.mutate(
+      {
+        estimate_id: estimate.id,
+        operation_code: form.operation_code,
+        description: form.description.trim(),
+        part_type: form.part_type || undefined,
+        part_number: form.part_number.trim() || undefined,
+        part_cost: canEditPartCost(form) ? parseOptionalNumber(form.part_cost) : undefined,
+        quantity: parseOptionalNumber(form.quantity) ?? 1,
+        labor_trade: form.labor_trade,
+        strip_fit_hours: parseOptionalNumber(form.strip_fit_hours),
+        repair_hours: parseOptionalNumber(form.repair_hours),
+        paint_hours: parseOptionalNumber(form.paint_hours),
+        sublet_cost: parseOptionalNumber(form.sublet_cost),
+        is_included: true,
+      },
+      {
+        onSuccess: () => {
+          setForm(EMPTY_FORM);
+          setIsRequestOpen(false);
+        },
+      }
+    );
+  };
+
+  const handleReject = () => {
+    if (!rejectingLine || !rejectionReason.trim()) return;
+
+    rejectAdditional.mutate(
+      { id: rejectingLine.id, rejection_reason: rejectionReason.trim() },
+      {
+        onSuccess: () => {
+          setRejectingLine(null);
+          setRejectionReason("");
+        },
+      }
+    );
+  };
+
+  const handleDelete = (lineId: string) => {
+    if (confirm("Are you sure you want to delete this additional?")) {
+      deleteAdditional.mutate({ id: lineId });
+    }
+  };
+
+  // Render a read-only cell using the same column layout as the estimate lines table
+  const renderCell = (line: AdditionalLine, field: (typeof ESTIMATE_LINE_COLUMNS)[number]["field"]) => {
+    switch (field) {
+      case "sequence_number":
+        return line.sequence_number;
+      case "operation_code":
+        return OPERATION_CODES_SHORT.find((opt) => opt.value === line.operation_code)?.label;
+      case "part_type":
+        return PART_TYPE_OPTIONS_SHORT.find((opt) => opt.value === line.part_type)?.label ?? "";
+      case "labor_trade":
+        return LABOR_TRADE_OPTIONS_SHORT.find((opt) => opt.value === line.labor_trade)?.label ?? "";
+      case "description":
+      case "part_number":
+        return line[field] ?? "";
+      case "part_cost":
+        return canEditPartCost(line) ?
+          formatNumber(line.part_cost) :
+          <span className="text-muted-foreground text-sm">N/A</span>;
+      default:
+        return formatNumber(line[field]);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CardTitle>Additionals</CardTitle>
+          {pendingCount > 0 && (
+            <Badge variant="outline">{pendingCount} pending</Badge>
+          )}
+        </div>
+        <Button onClick={() => setIsRequestOpen(true)} disabled={!isAuthorized}>
+          <Plus className="mr-2 h-4 w-4" />
+          Request Additional
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!isAuthorized && (
+          <p className="mb-4 text-sm text-muted-foreground">
+            Additionals can be requested once the estimate has been authorized to a repairer.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div>Loading additionals...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {ESTIMATE_LINE_COLUMNS.map((column) => (
+                  <TableHead key={column.field} className={column.className || undefined}>
+                    {column.label}
+                  </TableHead>
+                ))}
+                <TableHead className="w-40">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {additionalLines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={ESTIMATE_LINE_COLUMNS.length + 1} className="text-center py-4">
+                    No additionals have been requested for this estimate.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                additionalLines.map((line: AdditionalLine) => (
+                  <TableRow key={line.id}>
+                    {ESTIMATE_LINE_COLUMNS.map((column) => (
+                      <TableCell
+                        key={column.field}
+                        className={NUMBER_FIELDS.includes(column.field as (typeof NUMBER_FIELDS)[number]) ? "text-right" : undefined}
+                      >
+                        {renderCell(line, column.field)}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <div className="flex items-center justify-between gap-2">
+                        <Badge
+                          variant={STATUS_BADGE_VARIANTS[line.status]}
+                          className="capitalize"
+                          title={line.rejection_reason ?? undefined}
+                        >
+                          {line.status}
+                        </Badge>
+                        {line.status === AdditionalLineStatus.REQUESTED && (
+                          <div className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => approveAdditional.mutate({ id: line.id })}
+                              disabled={approveAdditional.isPending}
+                              className="h-6 w-6"
+                              title="Approve"
+                            >
+                              <Check className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setRejectingLine(line)}
+                              className="h-6 w-6"
+                              title="Reject"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(line.id)}
+                              disabled={deleteAdditional.isPending}
+                              className="h-6 w-6"
+                              title="Delete"
+                            >
+                              <Trash className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Request additional dialog */}
+      <Dialog open={isRequestOpen} onOpenChange={setIsRequestOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Request Additional</DialogTitle>
+            <DialogDescription>
+              Capture supplementary work reported by the repairer. It stays pending until approved or rejected.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Operation</Label>
+              <Select
+                value={form.operation_code}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, operation_code: value as OperationCode }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATION_CODES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={form.part_type}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, part_type: value as PartType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PART_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Trade</Label>
+              <Select
+                value={form.labor_trade}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, labor_trade: value as LaborTrade }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABOR_TRADE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="additional-description">Description</Label>
+              <Input
+                id="additional-description"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="additional-part-number">Part #</Label>
+              <Input
+                id="additional-part-number"
+                value={form.part_number}
+                onChange={(e) => setForm((prev) => ({ ...prev, part_number: e.target.value }))}
+              />
+            </div>
+            {NUMBER_FIELDS.map((field) => {
+              const column = ESTIMATE_LINE_COLUMNS.find((col) => col.field === field);
+              const disabled = field === "part_cost" && !canEditPartCost(form);
+              return (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`additional-${field}`}>{column?.label}</Label>
+                  <Input
+                    id={`additional-${field}`}
+                    inputMode="decimal"
+                    className="text-right"
+                    value={disabled ? "" : form[field]}
+                    disabled={disabled}
+                    onChange={(e) => {
+                      if (/^[0-9]*[.,]?[0-9]*$/.test(e.target.value)) {
+                        setForm((prev) => ({ ...prev, [field]: e.target.value }));
+                      }
+                    }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRequestOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRequest}
+              disabled={!form.description.trim() || requestAdditional.isPending}
+            >
+              {requestAdditional.isPending ? "Requesting..." : "Request Additional"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject additional dialog */}
+      <Dialog
+        open={rejectingLine !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingLine(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Additional</DialogTitle>
+            <DialogDescription>
+              {rejectingLine?.description}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Explain why this additional is rejected"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingLine(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectionReason.trim() || rejectAdditional.isPending}
+            >
+              {rejectAdditional.isPending ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
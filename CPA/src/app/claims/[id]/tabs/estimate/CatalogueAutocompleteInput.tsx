@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { type PartCatalogueItem } from "@/lib/api/domains/part-catalogue/types";
+import { usePartCatalogueSearch } from "@/lib/api/domains/part-catalogue/hooks";
+import { LABOR_TRADE_OPTIONS_SHORT, OPERATION_CODES_SHORT } from "./estimate-line-columns";
+
+interface CatalogueAutocompleteInputProps extends React.ComponentProps<typeof Input> {
+  claimId: string;
+  onSelectItem: (item: PartCatalogueItem) => void;
+}
+
+const formatHours = (item: PartCatalogueItem) =>
+  [
+    item.typical_strip_fit_hours ? `S/F ${item.typical_strip_fit_hours}h` : null,
+    item.typical_repair_hours ? `Rep ${item.typical_repair_hours}h` : null,
+    item.typical_paint_hours ? `Paint ${item.typical_paint_hours}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Text input for an estimate line that suggests parts catalogue entries while typing
+ * Suggestions open only after typing, so moving through the cells with the keyboard is unchanged
+ */
+export function CatalogueAutocompleteInput({
+  claimId,
+  onSelectItem,
+  onChange,
+  onBlur,
+  onKeyDown,
+  ...inputProps
+}: CatalogueAutocompleteInputProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: suggestions = [] } = usePartCatalogueSearch(claimId, debouncedSearch, { enabled: open });
+  const showSuggestions = open && search.trim().length >= 2 && suggestions.length > 0;
+
+  const handleSelect = (item: PartCatalogueItem) => {
+    setOpen(false);
+    setHighlightedIndex(-1);
+    onSelectItem(item);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlightedIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" && highlightedIndex >= 0) {
+        e.preventDefault();
+        handleSelect(suggestions[highlightedIndex] as PartCatalogueItem);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setOpen(false);
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  return (
+    <Popover open={showSuggestions} onOpenChange={setOpen}>
+      <PopoverAnchor asChild>
+        <Input
+          {...inputProps}
+          autoComplete="off"
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setHighlightedIndex(-1);
+            setOpen(true);
+            onChange?.(e);
+          }}
+          onBlur={(e) => {
+            setOpen(false);
+            onBlur?.(e);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        className="w-96 p-1"
+        align="start"
+        // Keep the focus in the cell being typed in
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        {suggestions.map((item: PartCatalogueItem, index: number) => (
+          <button
+            key={item.id}
+            type="button"
+            className={cn(
+              "flex w-full flex-col rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent",
+              index === highlightedIndex && "bg-accent"
+            )}
+            // Select before the input loses focus and saves what was typed
+            onMouseDown={(e) => {
+              e.preventDefault();
+              handleSelect(item);
+            }}
+          >
+            <span className="flex w-full items-center justify-between gap-2">
+              <span className="truncate font-medium">{item.description}</span>
+              <span className="shrink-0 text-muted-foreground text-xs">
+                {OPERATION_CODES_SHORT.find((option) => option.value === item.operation_code)?.label}
+                {" · "}
+                {LABOR_TRADE_OPTIONS_SHORT.find((option) => option.value === item.labor_trade)?.label}
+              </span>
+            </span>
+            <span className="flex w-full justify-between gap-2 text-muted-foreground text-xs">
+              <span className="truncate">
+                {[item.part_number, formatHours(item)].filter(Boolean).join(" · ")}
+              </span>
+              {item.last_part_cost !== null && (
+                <span className="shrink-0">Last price {item.last_part_cost.toFixed(2)}</span>
+              )}
+            </span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
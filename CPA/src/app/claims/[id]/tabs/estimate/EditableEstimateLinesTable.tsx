@@ -6,12 +6,14 @@ import {
   Table,
   TableBody,
   TableCell,
+  TableFooter,
   TableHead,
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -19,59 +21,65 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Save, X, Trash, Edit, FileText } from "lucide-react";
+import { Plus, Save, X, Trash, Edit, FileText, Copy, ClipboardPaste, GripVertical } from "lucide-react";
 import {
   type Estimate,
   type EstimateLine,
   type EstimateLineCreate,
   type EstimateLineUpdate,
+  type EstimateLineBatchUpsert,
+  type EstimateLineBatchResult,
+  LaborTrade,
   OperationCode,
-  PartType
+  isEstimateLocked
 } from "@/lib/api/domains/estimates/types";
-import { useEstimateLines, useAddEstimateLine, useUpdateEstimateLine, useDeleteEstimateLine } from "@/lib/api/domains/estimates/hooks";
+import {
+  useEstimateLines,
+  useAddEstimateLine,
+  useUpdateEstimateLine,
+  useDeleteEstimateLine,
+  useBatchUpsertEstimateLines
+} from "@/lib/api/domains/estimates/hooks";
+import { calculateEstimateTotals, calculateLineTotals } from "@/lib/api/domains/estimates/calculation";
+import { type PartCatalogueItem } from "@/lib/api/domains/part-catalogue/types";
 import { useSyncStatusStore } from "@/stores/syncStatusStore";
+import {
+  OPERATION_CODES,
+  OPERATION_CODES_SHORT,
+  PART_TYPE_OPTIONS,
+  PART_TYPE_OPTIONS_SHORT,
+  LABOR_TRADE_OPTIONS,
+  LABOR_TRADE_OPTIONS_SHORT,
+  ESTIMATE_LINE_COLUMNS,
+  canEditPartCost
+} from "./estimate-line-columns";
+import { isSpreadsheetPaste, parseEstimateLineRows, type PastedEstimateLine } from "./estimate-line-paste";
+import { CatalogueAutocompleteInput } from "./CatalogueAutocompleteInput";
+
+// Copy a line's editable fields for creating a new line from it
+const toLineFields = (line: EstimateLine): PastedEstimateLine => ({
+  damage_id: line.damage_id ?? undefined,
+  description: line.description,
+  operation_code: line.operation_code,
+  part_type: line.part_type ?? undefined,
+  part_number: line.part_number ?? undefined,
+  part_cost: line.part_cost ?? undefined,
+  quantity: line.quantity,
+  labor_trade: line.labor_trade,
+  strip_fit_hours: line.strip_fit_hours ?? undefined,
+  repair_hours: line.repair_hours ?? undefined,
+  paint_hours: line.paint_hours ?? undefined,
+  sublet_cost: line.sublet_cost ?? undefined,
+  is_included: line.is_included,
+  line_notes: line.line_notes ?? undefined,
+});
 
 interface EditableEstimateLinesTableProps {
   estimate: Estimate;
+  readOnly?: boolean; // Used when viewing an older version of the estimate
 }
 
-const OPERATION_CODES = [
-  { value: OperationCode.NEW, label: "N - New" },
-  { value: OperationCode.REPAIR, label: "R - Repair" },
-  { value: OperationCode.ALIGN, label: "S - Aligning" },
-  { value: OperationCode.PAINT, label: "P - Paint" },
-  { value: OperationCode.BLEND, label: "B - Blend" },
-  { value: OperationCode.OTHER, label: "O - Other" },
-  { value: OperationCode.SPECIAL, label: "SC - Special Services" },
-];
-
-// Short display versions for the UI
-const OPERATION_CODES_SHORT = [
-  { value: OperationCode.NEW, label: "N" },
-  { value: OperationCode.REPAIR, label: "R" },
-  { value: OperationCode.ALIGN, label: "S" },
-  { value: OperationCode.PAINT, label: "P" },
-  { value: OperationCode.BLEND, label: "B" },
-  { value: OperationCode.OTHER, label: "O" },
-  { value: OperationCode.SPECIAL, label: "SC" },
-];
-
-const PART_TYPE_OPTIONS = [
-  { value: PartType.DEALER, label: "D - Dealer" },
-  { value: PartType.ALTERNATIVE, label: "ALT - Alternative" },
-  { value: PartType.USED, label: "U - Used" },
-  { value: PartType.OTHER, label: "O - Other" },
-];
-
-// Short display versions for the UI
-const PART_TYPE_OPTIONS_SHORT = [
-  { value: PartType.DEALER, label: "D" },
-  { value: PartType.ALTERNATIVE, label: "ALT" },
-  { value: PartType.USED, label: "U" },
-  { value: PartType.OTHER, label: "O" },
-];
-
-export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTableProps) {
+export function EditableEstimateLinesTable({ estimate, readOnly = false }: EditableEstimateLinesTableProps) {
   console.log("[EditableEstimateLinesTable] Rendering with estimate:", estimate);
 
   const {
@@ -113,6 +121,16 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
   const addLine = useAddEstimateLine();
   const updateLine = useUpdateEstimateLine();
   const deleteLine = useDeleteEstimateLine();
+  const batchUpsertLines = useBatchUpsertEstimateLines();
+
+  // Lines selected for bulk operations
+  const [selectedLineIds, setSelectedLineIds] = useState<string[]>([]);
+
+  // The line being dragged to a new position
+  const [draggedLineId, setDraggedLineId] = useState<string | null>(null);
+
+  // Lines are locked once the estimate has been submitted
+  const isLocked = readOnly || isEstimateLocked(estimate.status);
 
   // Track which row is currently being edited
   const [activeRowId, setActiveRowId] = useState<string | null>(null);
@@ -131,8 +149,8 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
 
   // Handle row click to activate editing for that row
   const handleRowClick = (lineId: string) => {
-    // If clicking on the same row, do nothing
-    if (activeRowId === lineId) return;
+    // If clicking on the same row or the lines are locked, do nothing
+    if (activeRowId === lineId || isLocked) return;
 
     // If there was a previously active row, save any pending changes
     if (activeRowId) {
@@ -203,13 +221,134 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
     return Math.max(...localLines.map(line => line.sequence_number)) + 1;
   };
 
-  // Check if part cost can be edited based on operation code
-  const canEditPartCost = (line: EstimateLine) => {
-    return line.operation_code === OperationCode.NEW ||
-           line.operation_code === OperationCode.OTHER ||
-           line.operation_code === OperationCode.SPECIAL;
+  // Bulk operations wait for lines that are still being created
+  const canBulkEdit = !isLocked && !batchUpsertLines.isPending && !syncingLines.new;
+
+  const selectedLines = localLines.filter(line => selectedLineIds.includes(line.id));
+
+  const toggleLineSelected = (lineId: string, selected: boolean) => {
+    setSelectedLineIds(prev =>
+      selected ? [...prev, lineId] : prev.filter(id => id !== lineId)
+    );
+  };
+
+  // Apply many line changes in one request; local state is restored if it fails
+  const applyBatch = (
+    changes: Omit<EstimateLineBatchUpsert, "estimate_id">,
+    previousLines: EstimateLine[],
+    successMessage: string
+  ) => {
+    const operationId = `batch-lines-${Date.now()}`;
+    useSyncStatusStore.getState().addOperation(operationId);
+
+    batchUpsertLines.mutate({ estimate_id: estimate.id, ...changes }, {
+      onSuccess: (result: EstimateLineBatchResult) => {
+        setLocalLines(result.lines);
+        setSelectedLineIds([]);
+        toast.success(successMessage);
+        useSyncStatusStore.getState().removeOperation(operationId);
+      },
+      onError: (error: Error) => {
+        console.error("[EditableEstimateLinesTable] Error applying line changes:", error);
+        setLocalLines(previousLines);
+        useSyncStatusStore.getState().setError(error.message);
+        useSyncStatusStore.getState().removeOperation(operationId);
+      }
+    });
+  };
+
+  // Move the dragged line to the position of the line it was dropped on
+  // Sequence numbers are renumbered to follow the new order
+  const handleDropLine = (targetLineId: string) => {
+    const fromIndex = localLines.findIndex(line => line.id === draggedLineId);
+    const toIndex = localLines.findIndex(line => line.id === targetLineId);
+    setDraggedLineId(null);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+    const reordered = [...localLines];
+    reordered.splice(toIndex, 0, ...reordered.splice(fromIndex, 1));
+
+    const renumbered = reordered.map((line, index) => ({ ...line, sequence_number: index + 1 }));
+    const changed = renumbered.filter(line =>
+      localLines.find(l => l.id === line.id)?.sequence_number !== line.sequence_number
+    );
+
+    const previousLines = localLines;
+    setLocalLines(renumbered);
+    applyBatch(
+      { update: changed.map(line => ({ id: line.id, sequence_number: line.sequence_number })) },
+      previousLines,
+      "Lines reordered"
+    );
+  };
+
+  // Append copies of the selected lines, in their current order
+  const handleDuplicateSelected = () => {
+    const nextSequenceNumber = getNextSequenceNumber();
+    applyBatch(
+      {
+        create: selectedLines.map((line, index) => ({
+          ...toLineFields(line),
+          sequence_number: nextSequenceNumber + index,
+        })),
+      },
+      localLines,
+      `${selectedLines.length} line${selectedLines.length === 1 ? "" : "s"} duplicated`
+    );
+  };
+
+  const handleDeleteSelected = () => {
+    if (!confirm(`Are you sure you want to delete ${selectedLines.length} line${selectedLines.length === 1 ? "" : "s"}?`)) {
+      return;
+    }
+
+    const previousLines = localLines;
+    setLocalLines(currentLines => currentLines.filter(line => !selectedLineIds.includes(line.id)));
+    applyBatch(
+      { delete_ids: selectedLineIds },
+      previousLines,
+      `${selectedLines.length} line${selectedLines.length === 1 ? "" : "s"} deleted`
+    );
+  };
+
+  // Append rows copied from a spreadsheet as new lines
+  const addPastedRows = (text: string) => {
+    const { lines, errors } = parseEstimateLineRows(text);
+
+    if (errors.length > 0) {
+      toast.warning(`${errors.length} pasted row${errors.length === 1 ? " was" : "s were"} skipped: ${errors.slice(0, 3).join("; ")}`);
+    }
+    if (lines.length === 0) return;
+
+    const nextSequenceNumber = getNextSequenceNumber();
+    applyBatch(
+      {
+        create: lines.map((line, index) => ({ ...line, sequence_number: nextSequenceNumber + index })),
+      },
+      localLines,
+      `${lines.length} pasted line${lines.length === 1 ? "" : "s"} added`
+    );
+  };
+
+  // Spreadsheet rows pasted anywhere in the table become new lines; other pastes edit the cell as usual
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const text = e.clipboardData.getData("text/plain");
+    if (!canBulkEdit || !isSpreadsheetPaste(text)) return;
+
+    e.preventDefault();
+    addPastedRows(text);
   };
 
+  const handlePasteFromClipboard = async () => {
+    try {
+      addPastedRows(await navigator.clipboard.readText());
+    } catch (error) {
+      console.error("[EditableEstimateLinesTable] Error reading the clipboard:", error);
+      toast.error("Could not read the clipboard. Paste the rows into the table with Ctrl+V instead.");
+    }
+  };
+
+  // Check if part cost can be edited based on operation code
   // Handle editing part number
   const handleEditPartNumber = (line: EstimateLine) => {
     // Focus on the part number input
@@ -255,11 +394,13 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
       part_type: null,
       part_number: null,
       part_cost: null,
+      labor_trade: LaborTrade.PANEL,
       strip_fit_hours: null,
       repair_hours: null,
       paint_hours: null,
       sublet_cost: null,
       line_notes: null,
+      source_line_id: null,
       calculated_part_total: null,
       calculated_labor_total: null,
       calculated_paint_material_total: null,
@@ -475,6 +616,74 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
     syncLineWithServer(line, field, value);
   };
 
+  // Fill a line from a parts catalogue entry
+  // Typical hours only fill hours the line doesn't have yet, so assessed hours are kept
+  const handleSelectCatalogueItem = (line: EstimateLine, item: PartCatalogueItem) => {
+    const changes: Partial<EstimateLine> = {
+      description: item.description,
+      operation_code: item.operation_code,
+      labor_trade: item.labor_trade,
+    };
+    if (item.part_type) changes.part_type = item.part_type;
+    if (item.part_number) changes.part_number = item.part_number;
+    if (item.last_part_cost !== null && canEditPartCost({ operation_code: item.operation_code })) {
+      changes.part_cost = item.last_part_cost;
+    }
+    if (!line.strip_fit_hours && item.typical_strip_fit_hours) changes.strip_fit_hours = item.typical_strip_fit_hours;
+    if (!line.repair_hours && item.typical_repair_hours) changes.repair_hours = item.typical_repair_hours;
+    if (!line.paint_hours && item.typical_paint_hours) changes.paint_hours = item.typical_paint_hours;
+
+    const operationId = `catalogue-${line.id}-${Date.now()}`;
+    useSyncStatusStore.getState().addOperation(operationId);
+    setSyncingLines(prev => ({ ...prev, [line.id]: true }));
+
+    setLocalLines(currentLines =>
+      currentLines.map(l => (l.id === line.id ? { ...l, ...changes } : l))
+    );
+
+    const clearSyncing = () => {
+      setSyncingLines(prev => {
+        const updated = { ...prev };
+        delete updated[line.id];
+        return updated;
+      });
+      useSyncStatusStore.getState().removeOperation(operationId);
+    };
+
+    updateLine.mutate({ id: line.id, estimate_id: line.estimate_id, ...changes } as EstimateLineUpdate, {
+      onSuccess: (serverResponse: EstimateLine) => {
+        // Only the filled fields are taken from the server, keeping other unsaved edits
+        setLocalLines(currentLines =>
+          currentLines.map(l =>
+            l.id === serverResponse.id
+              ? { ...l, ...Object.fromEntries(Object.keys(changes).map(key => [key, serverResponse[key as keyof EstimateLine]])) }
+              : l
+          )
+        );
+        clearSyncing();
+      },
+      onError: (error: Error) => {
+        console.error("[EditableEstimateLinesTable] Error applying catalogue entry:", error);
+
+        // Revert the filled fields to the server state
+        const serverLine = serverLines.find((l: EstimateLine) => l.id === line.id);
+        if (serverLine) {
+          setLocalLines(currentLines =>
+            currentLines.map(l =>
+              l.id === line.id
+                ? { ...l, ...Object.fromEntries(Object.keys(changes).map(key => [key, serverLine[key as keyof EstimateLine]])) }
+                : l
+            )
+          );
+        }
+
+        toast.error(`Failed to update line: ${error.message}`);
+        useSyncStatusStore.getState().setError(error.message);
+        clearSyncing();
+      }
+    });
+  };
+
   // Delete a line
   const handleDeleteLine = (lineId: string) => {
     if (confirm("Are you sure you want to delete this line?")) {
@@ -605,7 +814,7 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
   // Define the order of editable fields for keyboard navigation
   const EDITABLE_FIELDS: (keyof EstimateLine)[] = [
     'operation_code', 'description', 'part_type', 'part_number',
-    'part_cost', 'quantity', 'strip_fit_hours', 'repair_hours',
+    'part_cost', 'quantity', 'labor_trade', 'strip_fit_hours', 'repair_hours',
     'paint_hours', 'sublet_cost'
   ];
 
@@ -704,7 +913,7 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
         break;
       case 'ArrowRight':
         // Only navigate if at the end of the input or if it's a select
-        if (field === 'operation_code' || field === 'part_type' ||
+        if (field === 'operation_code' || field === 'part_type' || field === 'labor_trade' ||
             (e.currentTarget as HTMLInputElement).selectionStart === (e.currentTarget as HTMLInputElement).value.length) {
           e.preventDefault();
           navigateHorizontally(rowIndex, fieldIndex, true);
@@ -712,7 +921,7 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
         break;
       case 'ArrowLeft':
         // Only navigate if at the beginning of the input or if it's a select
-        if (field === 'operation_code' || field === 'part_type' ||
+        if (field === 'operation_code' || field === 'part_type' || field === 'labor_trade' ||
             (e.currentTarget as HTMLInputElement).selectionStart === 0) {
           e.preventDefault();
           navigateHorizontally(rowIndex, fieldIndex, false);
@@ -808,6 +1017,8 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
         displayOptions = OPERATION_CODES_SHORT;
       } else if (field === "part_type" && options === PART_TYPE_OPTIONS) {
         displayOptions = PART_TYPE_OPTIONS_SHORT;
+      } else if (field === "labor_trade" && options === LABOR_TRADE_OPTIONS) {
+        displayOptions = LABOR_TRADE_OPTIONS_SHORT;
       }
 
       // Always show as a dropdown for better UX
@@ -962,35 +1173,46 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
     }
 
     // For text fields
-    return (
-      <Input
-        type="text"
-        name={`${field}-${line.id}`} // Add name attribute for selection
-        value={value as string || ""}
-        onFocus={(e) => {
-          // Mark field as being edited
-          markFieldAsEditing(line.id, field);
-          // Set as focused cell
-          setFocusedCell({ rowId: line.id, field });
-          // Select all text for easier editing
-          e.target.select();
-        }}
-        onChange={(e) => {
-          // Update local state immediately for responsive feel
-          updateLocalLine(line.id, field, e.target.value);
-        }}
-        onBlur={(e) => {
-          // Mark field as no longer being edited
-          markFieldAsNotEditing(line.id, field);
-
-          // Sync with server when focus is lost
-          handleUpdateLineField(line, field, e.target.value);
-        }}
-        onKeyDown={(e) => handleKeyDown(e, line, field)}
-        className={`h-8 w-full ${isLoading ? 'opacity-50' : ''} ${isFocused ? 'ring-2 ring-primary' : ''}`}
-        disabled={isDisabled}
-      />
-    );
+    const textInputProps = {
+      type: "text",
+      name: `${field}-${line.id}`, // Add name attribute for selection
+      value: value as string || "",
+      onFocus: (e: React.FocusEvent<HTMLInputElement>) => {
+        // Mark field as being edited
+        markFieldAsEditing(line.id, field);
+        // Set as focused cell
+        setFocusedCell({ rowId: line.id, field });
+        // Select all text for easier editing
+        e.target.select();
+      },
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+        // Update local state immediately for responsive feel
+        updateLocalLine(line.id, field, e.target.value);
+      },
+      onBlur: (e: React.FocusEvent<HTMLInputElement>) => {
+        // Mark field as no longer being edited
+        markFieldAsNotEditing(line.id, field);
+
+        // Sync with server when focus is lost
+        handleUpdateLineField(line, field, e.target.value);
+      },
+      onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => handleKeyDown(e, line, field),
+      className: `h-8 w-full ${isLoading ? 'opacity-50' : ''} ${isFocused ? 'ring-2 ring-primary' : ''}`,
+      disabled: isDisabled,
+    };
+
+    // Descriptions and part numbers suggest entries from the parts catalogue
+    if (field === "description" || field === "part_number") {
+      return (
+        <CatalogueAutocompleteInput
+          {...textInputProps}
+          claimId={estimate.claim_id}
+          onSelectItem={(item) => handleSelectCatalogueItem(localLine, item)}
+        />
+      );
+    }
+
+    return <Input {...textInputProps} />;
   };
 
   // We no longer need the renderNewLineCell function since we're creating lines directly in the database
@@ -1000,35 +1222,72 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
   }
 
   return (
-    <div>
-      <div className="mb-4">
-        <Button onClick={handleAddLine} disabled={addLine.isPending}>
+    <div onPaste={handlePaste}>
+      <div className="mb-4 flex items-center gap-4">
+        <Button onClick={handleAddLine} disabled={addLine.isPending || isLocked}>
           <Plus className="mr-2 h-4 w-4" />
           {addLine.isPending ? "Adding..." : "Add Line"}
         </Button>
+        {!isLocked && (
+          <>
+            <Button variant="outline" onClick={handlePasteFromClipboard} disabled={!canBulkEdit}>
+              <ClipboardPaste className="mr-2 h-4 w-4" />
+              Paste Rows
+            </Button>
+            {selectedLines.length > 0 && (
+              <>
+                <Button variant="outline" onClick={handleDuplicateSelected} disabled={!canBulkEdit}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicate ({selectedLines.length})
+                </Button>
+                <Button variant="outline" onClick={handleDeleteSelected} disabled={!canBulkEdit}>
+                  <Trash className="mr-2 h-4 w-4" />
+                  Delete ({selectedLines.length})
+                </Button>
+              </>
+            )}
+          </>
+        )}
+        {isLocked && (
+          <span className="text-sm text-muted-foreground">
+            {readOnly
+              ? `Version ${estimate.version} is an earlier version and cannot be changed.`
+              : `Lines are locked because the estimate is ${estimate.status}.`}
+          </span>
+        )}
       </div>
 
       <Table>
         <TableHeader>
           <TableRow>
-            <TableHead className="w-12">Seq</TableHead>
-            <TableHead className="w-28">Operation</TableHead>
-            <TableHead>Description</TableHead>
-            <TableHead className="w-16">Type</TableHead>
-            <TableHead className="w-24">Part #</TableHead>
-            <TableHead className="w-24">Part Cost</TableHead>
-            <TableHead className="w-16">Qty</TableHead>
-            <TableHead className="w-20">S/A</TableHead>
-            <TableHead className="w-20">Labor</TableHead>
-            <TableHead className="w-20">Paint</TableHead>
-            <TableHead className="w-24">Specialist</TableHead>
+            <TableHead className="w-14">
+              {!isLocked && (
+                <Checkbox
+                  aria-label="Select all lines"
+                  checked={
+                    selectedLines.length > 0 && selectedLines.length === localLines.length
+                      ? true
+                      : selectedLines.length > 0 ? "indeterminate" : false
+                  }
+                  onCheckedChange={(checked) =>
+                    setSelectedLineIds(checked === true ? localLines.map(line => line.id) : [])
+                  }
+                />
+              )}
+            </TableHead>
+            {ESTIMATE_LINE_COLUMNS.map((column) => (
+              <TableHead key={column.field} className={column.className || undefined}>
+                {column.label}
+              </TableHead>
+            ))}
+            <TableHead className="w-24 text-right">Total</TableHead>
             <TableHead className="w-16">Status</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {localLines.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={12} className="text-center py-4">
+              <TableCell colSpan={ESTIMATE_LINE_COLUMNS.length + 3} className="text-center py-4">
                 No estimate lines added yet. Click "Add Line" to add a new line.
               </TableCell>
             </TableRow>
@@ -1047,9 +1306,42 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
               return (
                 <TableRow
                   key={line.id}
-                  className={`${isLoading ? 'opacity-70' : ''} ${activeRowId === line.id ? 'bg-muted/50' : ''} cursor-pointer`}
+                  className={`${isLoading ? 'opacity-70' : ''} ${activeRowId === line.id ? 'bg-muted/50' : ''} ${draggedLineId === line.id ? 'opacity-40' : ''} cursor-pointer`}
                   onClick={() => handleRowClick(line.id)}
+                  onDragOver={(e) => {
+                    if (draggedLineId) e.preventDefault();
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDropLine(line.id);
+                  }}
                 >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    {!isLocked && (
+                      <div className="flex items-center gap-1">
+                        {/* Only the handle starts a drag, so text in the cells can still be selected */}
+                        <span
+                          draggable={canBulkEdit}
+                          onDragStart={(e) => {
+                            const row = e.currentTarget.closest("tr");
+                            if (row) e.dataTransfer.setDragImage(row, 0, 0);
+                            e.dataTransfer.effectAllowed = "move";
+                            setDraggedLineId(line.id);
+                          }}
+                          onDragEnd={() => setDraggedLineId(null)}
+                          className={canBulkEdit ? "cursor-grab text-muted-foreground" : "text-muted-foreground/40"}
+                          title="Drag to reorder"
+                        >
+                          <GripVertical className="h-4 w-4" />
+                        </span>
+                        <Checkbox
+                          aria-label={`Select line ${line.sequence_number}`}
+                          checked={selectedLineIds.includes(line.id)}
+                          onCheckedChange={(checked) => toggleLineSelected(line.id, checked === true)}
+                        />
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{line.sequence_number}</TableCell>
                   <TableCell>
                     <div className="flex items-center">
@@ -1096,6 +1388,11 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
                       {renderEditableCell(line, "quantity", "number")}
                     </div>
                   </TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      {renderEditableCell(line, "labor_trade", "select", LABOR_TRADE_OPTIONS)}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center">
                       {renderEditableCell(line, "strip_fit_hours", "number")}
@@ -1116,6 +1413,10 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
                       {renderEditableCell(line, "sublet_cost", "number")}
                     </div>
                   </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {/* Calculated locally so edits show before the server recalculates */}
+                    {formatNumber(calculateLineTotals(estimate, line).lineTotal)}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center justify-between">
                       {isLoading ? (
@@ -1128,7 +1429,7 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
                             e.stopPropagation(); // Prevent row click
                             handleDeleteLine(line.id);
                           }}
-                          disabled={isLoading}
+                          disabled={isLoading || isLocked}
                           className="h-6 w-6"
                         >
                           <Trash className="h-3 w-3" />
@@ -1141,6 +1442,21 @@ export function EditableEstimateLinesTable({ estimate }: EditableEstimateLinesTa
             })
           )}
         </TableBody>
+        {localLines.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={ESTIMATE_LINE_COLUMNS.length + 1} className="text-right">
+                Total (excl. VAT)
+              </TableCell>
+              <TableCell className="text-right">
+                {formatNumber(
+                  calculateEstimateTotals(estimate, localLines.filter(line => line.is_included)).totalBeforeVat
+                )}
+              </TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        )}
       </Table>
     </div>
   );
@@ -31,6 +31,19 @@ import {
 } from "@/lib/api/domains/estimates/types";
 import { useCreateEstimate } from "@/lib/api/domains/estimates/hooks";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { RepairerPicker } from "@/components/repairers/RepairerPicker";
+import {
+  type EstimateRateField,
+  type Repairer,
+  getRepairerDefaultRates,
+} from "@/lib/api/domains/repairers/types";
+
+// Per-trade labor rates that are optional on an estimate
+const OPTIONAL_LABOR_RATE_FIELDS = [
+  { name: "strip_fit_labor_rate", label: "Strip/Fit Labor Rate (per hour)", placeholder: "Same as panel rate" },
+  { name: "mechanical_labor_rate", label: "Mechanical Labor Rate (per hour)", placeholder: "Same as panel rate" },
+  { name: "electrical_labor_rate", label: "Electrical Labor Rate (per hour)", placeholder: "Same as panel rate" },
+] as const;
 
 interface EstimateFormProps {
   claimId: string;
@@ -48,13 +61,23 @@ export function EstimateForm({ claimId, onCancel }: EstimateFormProps) {
       estimate_type: EstimateType.INCIDENT,
       estimate_source: EstimateSource.IN_HOUSE,
       vat_rate_percentage: 15,
-      panel_labor_rate: 350.00, // Single labor rate for all labor types - updated to 350
+      panel_labor_rate: 350.00, // Panel labor rate, also used for trades without their own rate
       paint_material_rate: 2000.00, // Per panel rate - updated to 2000 (no markup)
       special_markup_percentage: 25, // Special services markup - updated to 25%
       part_markup_percentage: 25, // Markup only on parts - updated to 25%
     },
   });
 
+  // Pre-fill the rates from the chosen repairer's defaults
+  const handleRepairerChange = (repairer: Repairer | null) => {
+    form.setValue("repairer_id", repairer?.id);
+    if (!repairer) return;
+    const rates = getRepairerDefaultRates(repairer);
+    for (const field of Object.keys(rates) as EstimateRateField[]) {
+      form.setValue(field, rates[field]);
+    }
+  };
+
   const onSubmit = (data: EstimateCreate) => {
     console.log("Submitting estimate data:", data);
     setError(null);
@@ -91,6 +114,21 @@ export function EstimateForm({ claimId, onCancel }: EstimateFormProps) {
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
 
+              {/* Repairer */}
+              <FormField
+                control={form.control}
+                name="repairer_id"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Repairer</FormLabel>
+                    <FormControl>
+                      <RepairerPicker value={field.value} onChange={handleRepairerChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* VAT Rate */}
               <FormField
                 control={form.control}
@@ -116,13 +154,13 @@ export function EstimateForm({ claimId, onCancel }: EstimateFormProps) {
                 )}
               />
 
-              {/* Labor Rate */}
+              {/* Panel Labor Rate */}
               <FormField
                 control={form.control}
                 name="panel_labor_rate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Labor Rate (per hour)</FormLabel>
+                    <FormLabel>Panel Labor Rate (per hour)</FormLabel>
                     <FormControl>
                       <Input
                         type="text"
@@ -141,6 +179,35 @@ export function EstimateForm({ claimId, onCancel }: EstimateFormProps) {
                 )}
               />
 
+              {/* Trade Labor Rates - left empty, they fall back to the panel labor rate */}
+              {OPTIONAL_LABOR_RATE_FIELDS.map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          inputMode="decimal"
+                          className="text-right"
+                          placeholder={placeholder}
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => {
+                            const value = e.target.value.replace(/[^0-9.]/g, '');
+                            field.onChange(value ? parseFloat(value) : undefined);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
               {/* Paint Material Rate */}
               <FormField
                 control={form.control}
@@ -0,0 +1,350 @@
+"use client";
+
+import { useState } from "react";
+import { FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RepairerPicker } from "@/components/repairers/RepairerPicker";
+import { type Estimate } from "@/lib/api/domains/estimates/types";
+import { useImportThirdPartyQuote } from "@/lib/api/domains/estimates/hooks";
+import {
+  IMPORT_FIELDS,
+  IMPORT_OPTION_FIELDS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportOptionField,
+  type QuoteTable,
+  type ValueMapping,
+  buildImportLines,
+  getDistinctValues,
+  guessColumnMapping,
+  guessValueMapping,
+  parseQuoteFile,
+} from "./estimate-import";
+import { OPERATION_CODES_SHORT, PART_TYPE_OPTIONS_SHORT } from "./estimate-line-columns";
+
+// Select items can't have an empty value
+const NOT_MAPPED = "__not_mapped";
+
+type ImportStep = "upload" | "columns" | "preview";
+
+interface EstimateImportDialogProps {
+  claimId: string;
+  // The estimate to import into; a new third-party estimate is created without one
+  estimate?: Estimate;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Guess the option of each quote value for the mapped option fields
+const guessValueMappings = (table: QuoteTable, mapping: ColumnMapping): ValueMapping =>
+  Object.fromEntries(
+    (Object.keys(IMPORT_OPTION_FIELDS) as ImportOptionField[])
+      .filter((field) => mapping[field])
+      .map((field) => [field, guessValueMapping(field, getDistinctValues(table, mapping[field] as string))])
+  );
+
+/**
+ * Wizard for importing a third-party repairer's quote from a CSV or JSON file
+ * The user maps the quote's columns and codes, reviews the lines and imports them in one batch
+ */
+export function EstimateImportDialog({ claimId, estimate, open, onOpenChange }: EstimateImportDialogProps) {
+  const importQuote = useImportThirdPartyQuote();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [quote, setQuote] = useState<QuoteTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [valueMapping, setValueMapping] = useState<ValueMapping>({});
+  const [repairerId, setRepairerId] = useState<string | null>(estimate?.repairer_id ?? null);
+  const [replaceExistingLines, setReplaceExistingLines] = useState(false);
+
+  const resetWizard = () => {
+    setStep("upload");
+    setFileName(null);
+    setFileError(null);
+    setQuote(null);
+    setColumnMapping({});
+    setValueMapping({});
+    setReplaceExistingLines(false);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) resetWizard();
+    onOpenChange(isOpen);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setFileError(null);
+
+    try {
+      const table = parseQuoteFile(file.name, await file.text());
+      const mapping = guessColumnMapping(table.columns);
+      setQuote(table);
+      setColumnMapping(mapping);
+      setValueMapping(guessValueMappings(table, mapping));
+    } catch (error) {
+      setQuote(null);
+      setFileError(error instanceof Error ? error.message : "The file could not be read");
+    }
+  };
+
+  const handleColumnChange = (field: ImportField, column: string) => {
+    const mapping = { ...columnMapping, [field]: column === NOT_MAPPED ? undefined : column };
+    setColumnMapping(mapping);
+    if (quote && field in IMPORT_OPTION_FIELDS) {
+      // Keep the values already mapped for other fields
+      setValueMapping({ ...valueMapping, ...guessValueMappings(quote, { [field]: mapping[field] }) });
+    }
+  };
+
+  const handleValueChange = (field: ImportOptionField, value: string, option: string) => {
+    setValueMapping({
+      ...valueMapping,
+      [field]: { ...valueMapping[field], [value]: option === NOT_MAPPED ? "" : option },
+    });
+  };
+
+  const results = quote && step === "preview" ? buildImportLines(quote, columnMapping, valueMapping) : [];
+  const validLines = results.flatMap((result) => (result.line ? [result.line] : []));
+  const invalidCount = results.length - validLines.length;
+
+  const handleImport = () => {
+    if (!repairerId || validLines.length === 0) return;
+
+    importQuote.mutate(
+      {
+        claim_id: claimId,
+        estimate_id: estimate?.id,
+        repairer_id: repairerId,
+        replace_existing_lines: replaceExistingLines,
+        lines: validLines,
+      },
+      {
+        onSuccess: () => handleOpenChange(false),
+      }
+    );
+  };
+
+  const mappedOptionFields = (Object.keys(IMPORT_OPTION_FIELDS) as ImportOptionField[]).filter(
+    (field) => quote && columnMapping[field]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Third-Party Quote</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Choose the repairer and the quote file (CSV or JSON)."}
+            {step === "columns" && "Match the quote's columns and codes to the estimate line fields."}
+            {step === "preview" && "Review the lines before importing. Rows with errors are left out."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Repairer</Label>
+              <RepairerPicker value={repairerId} onChange={(repairer) => setRepairerId(repairer?.id ?? null)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-file">Quote File</Label>
+              <Input
+                id="quote-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              {fileError && <p className="text-destructive text-sm">{fileError}</p>}
+              {quote && (
+                <p className="text-muted-foreground text-sm">
+                  {fileName}: {quote.rows.length} rows, {quote.columns.length} columns
+                </p>
+              )}
+            </div>
+            {estimate && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="replace-existing-lines"
+                  checked={replaceExistingLines}
+                  onCheckedChange={(checked) => setReplaceExistingLines(checked === true)}
+                />
+                <Label htmlFor="replace-existing-lines">Replace the estimate's existing lines</Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "columns" && quote && (
+          <div className="max-h-[60vh] space-y-6 overflow-y-auto">
+            <div className="grid grid-cols-3 gap-4">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}</Label>
+                  <Select
+                    value={columnMapping[field] ?? NOT_MAPPED}
+                    onValueChange={(column) => handleColumnChange(field, column)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in quote</SelectItem>
+                      {quote.columns.map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {mappedOptionFields.map((field) => {
+              const { long } = IMPORT_OPTION_FIELDS[field];
+              const values = getDistinctValues(quote, columnMapping[field] as string);
+              return (
+                <div key={field} className="space-y-2">
+                  <h4 className="font-medium text-sm">
+                    {IMPORT_FIELDS.find((importField) => importField.field === field)?.label} values
+                  </h4>
+                  <div className="grid grid-cols-3 gap-4">
+                    {values.map((value) => (
+                      <div key={value} className="flex items-center gap-2">
+                        <span className="w-24 truncate text-sm" title={value}>{value}</span>
+                        <Select
+                          value={valueMapping[field]?.[value] || NOT_MAPPED}
+                          onValueChange={(option) => handleValueChange(field, value, option)}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                            {long.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {validLines.length} line{validLines.length === 1 ? "" : "s"} ready to import
+              {invalidCount > 0 && (
+                <span className="text-destructive">, {invalidCount} row{invalidCount === 1 ? "" : "s"} with errors</span>
+              )}
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead className="w-16">Op</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-16">Type</TableHead>
+                    <TableHead className="w-24">Part #</TableHead>
+                    <TableHead className="w-24 text-right">Part Cost</TableHead>
+                    <TableHead className="w-12 text-right">Qty</TableHead>
+                    <TableHead className="w-32 text-right">S/A · Labor · Paint</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(({ rowNumber, line, errors }) => (
+                    <TableRow key={rowNumber} className={errors.length > 0 ? "bg-destructive/5" : undefined}>
+                      <TableCell>{rowNumber}</TableCell>
+                      {line ? (
+                        <>
+                          <TableCell>
+                            {OPERATION_CODES_SHORT.find((option) => option.value === line.operation_code)?.label}
+                          </TableCell>
+                          <TableCell>{line.description}</TableCell>
+                          <TableCell>
+                            {PART_TYPE_OPTIONS_SHORT.find((option) => option.value === line.part_type)?.label}
+                          </TableCell>
+                          <TableCell>{line.part_number}</TableCell>
+                          <TableCell className="text-right">{line.part_cost?.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{line.quantity}</TableCell>
+                          <TableCell className="text-right">
+                            {[line.strip_fit_hours, line.repair_hours, line.paint_hours]
+                              .map((hours) => hours ?? "-")
+                              .join(" · ")}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={7} className="text-destructive text-sm">
+                          {errors.join("; ")}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button variant="outline" onClick={() => setStep(step === "preview" ? "columns" : "upload")}>
+              Back
+            </Button>
+          )}
+          {step === "upload" && (
+            <Button onClick={() => setStep("columns")} disabled={!quote || !repairerId}>
+              Next
+            </Button>
+          )}
+          {step === "columns" && (
+            <Button onClick={() => setStep("preview")} disabled={!columnMapping.description}>
+              Preview
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button onClick={handleImport} disabled={validLines.length === 0 || importQuote.isPending}>
+              <FileUp className="mr-2 h-4 w-4" />
+              {importQuote.isPending
+                ? "Importing..."
+                : `Import ${validLines.length} Line${validLines.length === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Send, ShieldCheck, X } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+import { type Estimate, EstimateStatus } from "@/lib/api/domains/estimates/types";
+import {
+  useSubmitEstimate,
+  useApproveEstimate,
+  useRejectEstimate,
+  useAuthorizeEstimate,
+} from "@/lib/api/domains/estimates/hooks";
+
+interface EstimateStatusActionsProps {
+  estimate: Estimate;
+}
+
+const STATUS_BADGE_VARIANTS: Record<EstimateStatus, "outline" | "secondary" | "success" | "destructive" | "default"> = {
+  [EstimateStatus.DRAFT]: "outline",
+  [EstimateStatus.SUBMITTED]: "secondary",
+  [EstimateStatus.APPROVED]: "success",
+  [EstimateStatus.REJECTED]: "destructive",
+  [EstimateStatus.AUTHORIZED]: "default",
+};
+
+export function EstimateStatusActions({ estimate }: EstimateStatusActionsProps) {
+  const submitEstimate = useSubmitEstimate();
+  const approveEstimate = useApproveEstimate();
+  const rejectEstimate = useRejectEstimate();
+  const authorizeEstimate = useAuthorizeEstimate();
+
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const isPending =
+    submitEstimate.isPending ||
+    approveEstimate.isPending ||
+    rejectEstimate.isPending ||
+    authorizeEstimate.isPending;
+
+  const handleReject = () => {
+    if (!rejectionReason.trim()) return;
+
+    rejectEstimate.mutate(
+      { id: estimate.id, reason: rejectionReason.trim() },
+      {
+        onSuccess: () => {
+          setIsRejectOpen(false);
+          setRejectionReason("");
+        },
+      }
+    );
+  };
+
+  // Describe when the estimate reached its current state
+  const statusDetail =
+    estimate.status === EstimateStatus.AUTHORIZED && estimate.authorized_at
+      ? `Authorized on ${formatDate(estimate.authorized_at)}`
+      : estimate.status === EstimateStatus.APPROVED && estimate.approved_at
+        ? `Approved on ${formatDate(estimate.approved_at)}`
+        : null;
+
+  return (
+    <div className="flex items-center gap-3">
+      <Badge variant={STATUS_BADGE_VARIANTS[estimate.status]} className="capitalize">
+        {estimate.status}
+      </Badge>
+      {statusDetail && (
+        <span className="text-sm text-muted-foreground">{statusDetail}</span>
+      )}
+
+      {(estimate.status === EstimateStatus.DRAFT || estimate.status === EstimateStatus.REJECTED) && (
+        <Button
+          size="sm"
+          onClick={() => submitEstimate.mutate({ id: estimate.id })}
+          disabled={isPending}
+        >
+          <Send className="mr-2 h-4 w-4" />
+          {submitEstimate.isPending ? "Submitting..." : "Submit for Approval"}
+        </Button>
+      )}
+
+      {estimate.status === EstimateStatus.SUBMITTED && (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsRejectOpen(true)}
+            disabled={isPending}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => approveEstimate.mutate({ id: estimate.id })}
+            disabled={isPending}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            {approveEstimate.isPending ? "Approving..." : "Approve"}
+          </Button>
+        </>
+      )}
+
+      {estimate.status === EstimateStatus.APPROVED && (
+        <Button
+          size="sm"
+          onClick={() => authorizeEstimate.mutate({ id: estimate.id })}
+          disabled={isPending || !estimate.repairer_id}
+          title={estimate.repairer_id ? undefined : "Assign a repairer to the estimate before authorizing"}
+        >
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          {authorizeEstimate.isPending ? "Authorizing..." : "Authorize to Repairer"}
+        </Button>
+      )}
+
+      {/* Reject estimate dialog */}
+      <Dialog
+        open={isRejectOpen}
+        onOpenChange={(open) => {
+          setIsRejectOpen(open);
+          if (!open) setRejectionReason("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Estimate</DialogTitle>
+            <DialogDescription>
+              The estimate will be sent back so its lines can be changed and resubmitted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="estimate-rejection-reason">Reason</Label>
+            <Textarea
+              id="estimate-rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Explain why this estimate is rejected"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRejectOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectionReason.trim() || rejectEstimate.isPending}
+            >
+              {rejectEstimate.isPending ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,6 +3,14 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { type Estimate } from "@/lib/api/domains/estimates/types";
 
+// Labor subtotals per trade, shown under the labor subtotal
+const LABOR_BREAKDOWN = [
+  { field: "subtotal_panel_labor", label: "Panel" },
+  { field: "subtotal_strip_fit_labor", label: "Strip/Fit" },
+  { field: "subtotal_mechanical_labor", label: "Mechanical" },
+  { field: "subtotal_electrical_labor", label: "Electrical" },
+] as const satisfies readonly { field: keyof Estimate; label: string }[];
+
 interface EstimateSummaryProps {
   estimate: Estimate;
 }
@@ -29,9 +37,21 @@ export function EstimateSummary({ estimate }: EstimateSummaryProps) {
               <h3 className="text-sm font-medium text-muted-foreground">Rates</h3>
               <div className="mt-2 space-y-1">
                 <div className="flex justify-between">
-                  <span>Labor Rate (per hour):</span>
+                  <span>Panel Labor Rate (per hour):</span>
                   <span>{formatNumber(estimate.panel_labor_rate, 2)}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Strip/Fit Labor Rate (per hour):</span>
+                  <span>{formatNumber(estimate.strip_fit_labor_rate ?? estimate.panel_labor_rate, 2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Mechanical Labor Rate (per hour):</span>
+                  <span>{formatNumber(estimate.mechanical_labor_rate ?? estimate.panel_labor_rate, 2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Electrical Labor Rate (per hour):</span>
+                  <span>{formatNumber(estimate.electrical_labor_rate ?? estimate.panel_labor_rate, 2)}</span>
+                </div>
                 <div className="flex justify-between">
                   <span>Paint Material Rate (per panel, no markup):</span>
                   <span>{formatNumber(estimate.paint_material_rate, 2)}</span>
@@ -68,6 +88,12 @@ export function EstimateSummary({ estimate }: EstimateSummaryProps) {
                 <span>Labor:</span>
                 <span>{formatNumber(estimate.subtotal_labor)}</span>
               </div>
+              {LABOR_BREAKDOWN.filter(({ field }) => estimate[field]).map(({ field, label }) => (
+                <div key={field} className="flex justify-between pl-4 text-sm text-muted-foreground">
+                  <span>{label}:</span>
+                  <span>{formatNumber(estimate[field])}</span>
+                </div>
+              ))}
               <div className="flex justify-between">
                 <span>Paint Materials:</span>
                 <span>{formatNumber(estimate.subtotal_paint_materials)}</span>
@@ -4,18 +4,39 @@ import { useState } from "react";
 import { useParams } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus, ClipboardList } from "lucide-react";
-import { useEstimate, useCreateEstimate } from "@/lib/api/domains/estimates/hooks";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, ClipboardList, Copy, GitCompare, FileUp } from "lucide-react";
+import {
+  useEstimate,
+  useCreateEstimate,
+  useEstimateVersions,
+  useCreateEstimateRevision,
+} from "@/lib/api/domains/estimates/hooks";
+import { type Estimate, EstimateStatus, isEstimateLocked } from "@/lib/api/domains/estimates/types";
 import { EstimateForm } from "./EstimateForm";
 import { EditableEstimateLinesTable } from "./EditableEstimateLinesTable";
 import { EstimateSummary } from "./EstimateSummary";
-import { SyncStatusIndicator } from "@/components/ui/SyncStatusIndicator";
+import { AdditionalsPanel } from "./AdditionalsPanel";
+import { EstimateStatusActions } from "./EstimateStatusActions";
+import { EstimateVersionDiff } from "./EstimateVersionDiff";
+import { EstimateImportDialog } from "./EstimateImportDialog";
 
 export function EstimateTabContent() {
   const { id: claimId } = useParams();
   const { data: estimate, isLoading, refetch } = useEstimate(claimId as string);
   const createEstimate = useCreateEstimate();
+  const { data: versions = [] } = useEstimateVersions(claimId as string);
+  const createRevision = useCreateEstimateRevision();
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [showVersionDiff, setShowVersionDiff] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
 
   // Function to handle cancellation or completion of the form
   const handleFormClose = () => {
@@ -26,70 +47,162 @@ export function EstimateTabContent() {
 
   if (isLoading) {
     return (
-      <>
-        <SyncStatusIndicator />
-        <div>Loading estimate data...</div>
-      </>
+      <div>Loading estimate data...</div>
     );
   }
 
   if (!estimate && !showCreateForm) {
     return (
-      <>
-        <SyncStatusIndicator />
-        <div className="space-y-6">
-          <h2 className="text-xl font-semibold">Repair Estimate</h2>
-          <Card>
-            <CardHeader>
-              <CardTitle>Create Estimate</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-col items-center justify-center py-8 text-center">
-                <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-medium">No estimate has been created for this claim yet.</h3>
-                <p className="text-muted-foreground mt-2 mb-4">
-                  Create an estimate to add repair lines and calculate costs.
-                </p>
+      <div className="space-y-6">
+        <h2 className="text-xl font-semibold">Repair Estimate</h2>
+        <Card>
+          <CardHeader>
+            <CardTitle>Create Estimate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium">No estimate has been created for this claim yet.</h3>
+              <p className="text-muted-foreground mt-2 mb-4">
+                Create an estimate to add repair lines and calculate costs.
+              </p>
+              <div className="flex gap-2">
                 <Button onClick={() => setShowCreateForm(true)}>
                   <Plus className="mr-2 h-4 w-4" />
                   Create Estimate
                 </Button>
+                <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                  <FileUp className="mr-2 h-4 w-4" />
+                  Import Third-Party Quote
+                </Button>
               </div>
-            </CardContent>
-          </Card>
-        </div>
-      </>
+            </div>
+          </CardContent>
+        </Card>
+
+        <EstimateImportDialog
+          claimId={claimId as string}
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+        />
+      </div>
     );
   }
 
   if (showCreateForm) {
     return (
-      <>
-        <SyncStatusIndicator />
-        <EstimateForm claimId={claimId as string} onCancel={handleFormClose} />
-      </>
+      <EstimateForm claimId={claimId as string} onCancel={handleFormClose} />
     );
   }
 
+  // Older versions are shown read-only; the latest version is the working estimate
+  const displayedEstimate = versions.find((version: Estimate) => version.id === selectedVersionId) ?? estimate;
+  const isLatestVersion = displayedEstimate.id === estimate.id;
+
+  const handleCreateRevision = () => {
+    createRevision.mutate(
+      { id: estimate.id },
+      {
+        onSuccess: () => setSelectedVersionId(null),
+      }
+    );
+  };
+
   return (
     <>
-      <SyncStatusIndicator />
       <div className="space-y-6">
-        <h2 className="text-xl font-semibold">Repair Estimate</h2>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <h2 className="text-xl font-semibold">Repair Estimate</h2>
+            {versions.length > 1 && (
+              <Select
+                value={displayedEstimate.id}
+                onValueChange={(value) => setSelectedVersionId(value === estimate.id ? null : value)}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version: Estimate) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      Version {version.version}{version.id === estimate.id ? " (latest)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {versions.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => setShowVersionDiff(true)}>
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare Versions
+              </Button>
+            )}
+            {/* Authorized estimates are changed through additionals rather than revisions */}
+            {isLatestVersion &&
+              estimate.status !== EstimateStatus.DRAFT &&
+              estimate.status !== EstimateStatus.AUTHORIZED && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCreateRevision}
+                  disabled={createRevision.isPending}
+                >
+                  <Copy className="mr-2 h-4 w-4" />
+                  {createRevision.isPending ? "Creating..." : "Create Revision"}
+                </Button>
+              )}
+            {isLatestVersion ? (
+              <EstimateStatusActions estimate={estimate} />
+            ) : (
+              <span className="text-sm text-muted-foreground">
+                Viewing version {displayedEstimate.version} ({displayedEstimate.status})
+              </span>
+            )}
+          </div>
+        </div>
 
         {/* Estimate Lines */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Estimate Lines</CardTitle>
+            {isLatestVersion && !isEstimateLocked(estimate.status) && (
+              <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Import Quote
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
-            <EditableEstimateLinesTable estimate={estimate} />
+            <EditableEstimateLinesTable
+              key={displayedEstimate.id}
+              estimate={displayedEstimate}
+              readOnly={!isLatestVersion}
+            />
           </CardContent>
         </Card>
 
         {/* Estimate Summary */}
-        <EstimateSummary estimate={estimate} />
+        <EstimateSummary estimate={displayedEstimate} />
+
+        {/* Additionals requested after authorization */}
+        {isLatestVersion && <AdditionalsPanel estimate={estimate} />}
       </div>
+
+      <EstimateVersionDiff
+        versions={versions}
+        open={showVersionDiff}
+        onOpenChange={setShowVersionDiff}
+      />
+
+      <EstimateImportDialog
+        key={estimate.id}
+        claimId={claimId as string}
+        estimate={estimate}
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+      />
     </>
   );
 }
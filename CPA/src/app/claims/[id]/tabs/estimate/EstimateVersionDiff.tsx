@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type Estimate } from "@/lib/api/domains/estimates/types";
+import { useEstimateLines } from "@/lib/api/domains/estimates/hooks";
+import {
+  type EstimateLineDiff,
+  type EstimateLineDiffType,
+  diffEstimateLines,
+  diffEstimateTotals,
+} from "@/lib/api/domains/estimates/diff";
+import { ESTIMATE_LINE_COLUMNS } from "./estimate-line-columns";
+
+interface EstimateVersionDiffProps {
+  versions: Estimate[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DIFF_BADGE_VARIANTS: Record<EstimateLineDiffType, "success" | "destructive" | "secondary" | "outline"> = {
+  added: "success",
+  removed: "destructive",
+  changed: "secondary",
+  unchanged: "outline",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(ESTIMATE_LINE_COLUMNS.map((column) => [column.field, column.label])),
+  is_included: "Included",
+};
+
+export function EstimateVersionDiff({ versions, open, onOpenChange }: EstimateVersionDiffProps) {
+  // Versions are ordered newest first; compare the previous version to the latest by default
+  const [selectedBaseId, setBaseId] = useState<string>("");
+  const [selectedCompareId, setCompareId] = useState<string>("");
+  const baseId = selectedBaseId || versions[1]?.id || "";
+  const compareId = selectedCompareId || versions[0]?.id || "";
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setBaseId("");
+      setCompareId("");
+    }
+    onOpenChange(isOpen);
+  };
+
+  const base = versions.find((version) => version.id === baseId);
+  const compare = versions.find((version) => version.id === compareId);
+
+  const { data: baseLines = [], isLoading: isBaseLoading } = useEstimateLines(baseId);
+  const { data: compareLines = [], isLoading: isCompareLoading } = useEstimateLines(compareId);
+
+  const lineDiffs = base && compare ? diffEstimateLines(baseLines, compareLines) : [];
+  const changedLines = lineDiffs.filter((diff) => diff.type !== "unchanged");
+  const totalDiffs = base && compare ? diffEstimateTotals(base, compare) : [];
+
+  // Format number with decimal places
+  const formatNumber = (amount: number | null | undefined, decimals = 2) => {
+    if (amount === null || amount === undefined) return "-";
+    return new Intl.NumberFormat('en-GB', {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  };
+
+  const formatDelta = (delta: number) => {
+    if (delta === 0) return "-";
+    return `${delta > 0 ? "+" : ""}${formatNumber(delta)}`;
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === "") return "-";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    return String(value);
+  };
+
+  const describeLine = (diff: EstimateLineDiff) => {
+    if (diff.type === "added") return diff.compare?.description || "-";
+    if (diff.type === "removed") return diff.base?.description || "-";
+    return diff.changes
+      .map((change) => `${FIELD_LABELS[change.field]}: ${formatValue(change.from)} → ${formatValue(change.to)}`)
+      .join(", ");
+  };
+
+  const renderVersionSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            Version {version.version} ({version.status})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare Estimate Versions</DialogTitle>
+          <DialogDescription>
+            Lines are matched on their sequence number.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="diff-base-version">From</Label>
+            {renderVersionSelect("diff-base-version", baseId, setBaseId)}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="diff-compare-version">To</Label>
+            {renderVersionSelect("diff-compare-version", compareId, setCompareId)}
+          </div>
+        </div>
+
+        {isBaseLoading || isCompareLoading ? (
+          <div>Loading estimate lines...</div>
+        ) : base && compare ? (
+          <div className="max-h-[60vh] space-y-6 overflow-y-auto">
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-muted-foreground">Lines</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Seq</TableHead>
+                    <TableHead className="w-24">Change</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="w-28 text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changedLines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="py-4 text-center">
+                        The lines of these versions are the same.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    changedLines.map((diff) => (
+                      <TableRow key={diff.key}>
+                        <TableCell>{diff.sequence_number}</TableCell>
+                        <TableCell>
+                          <Badge variant={DIFF_BADGE_VARIANTS[diff.type]} className="capitalize">
+                            {diff.type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="whitespace-normal">{describeLine(diff)}</TableCell>
+                        <TableCell className="text-right">{formatDelta(diff.lineTotalDelta)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-muted-foreground">Totals</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead className="text-right">Version {base.version}</TableHead>
+                    <TableHead className="text-right">Version {compare.version}</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {totalDiffs.map((total) => (
+                    <TableRow key={total.field}>
+                      <TableCell>{total.label}</TableCell>
+                      <TableCell className="text-right">{formatNumber(total.from)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(total.to)}</TableCell>
+                      <TableCell className="text-right">{formatDelta(total.delta)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">Select two versions to compare.</div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,335 @@
+import type { z } from "zod";
+import { EstimateImportSchema, OperationCode } from "@/lib/api/domains/estimates/types";
+import {
+  LABOR_TRADE_OPTIONS,
+  LABOR_TRADE_OPTIONS_SHORT,
+  OPERATION_CODES,
+  OPERATION_CODES_SHORT,
+  PART_TYPE_OPTIONS,
+  PART_TYPE_OPTIONS_SHORT,
+  canEditPartCost,
+} from "./estimate-line-columns";
+import { findOption, parseNumberCell } from "./estimate-line-paste";
+
+/**
+ * Reading third-party repairer quotes (CSV or JSON) into estimate lines
+ * The user maps the quote's columns to line fields and its codes to operation, part type and trade values
+ */
+
+const ImportedLineSchema = EstimateImportSchema.shape.lines.element;
+export type ImportedLine = z.input<typeof ImportedLineSchema>;
+
+// A quote read into rows of cells keyed by column name
+export interface QuoteTable {
+  // CSV quotes have a header row, so their line rows are numbered from 2 as in a spreadsheet
+  format: "csv" | "json";
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export type ImportField =
+  | "description"
+  | "operation_code"
+  | "part_type"
+  | "part_number"
+  | "part_cost"
+  | "quantity"
+  | "labor_trade"
+  | "strip_fit_hours"
+  | "repair_hours"
+  | "paint_hours"
+  | "sublet_cost"
+  | "line_notes";
+
+// Line fields a quote column can fill, labelled as in the lines table
+// Aliases are the column names quotes commonly use for the field
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: "operation_code", label: "Operation", aliases: ["op", "oper", "operation code"] },
+  { field: "description", label: "Description", aliases: ["desc", "item", "details"] },
+  { field: "part_type", label: "Type", aliases: ["part type"] },
+  { field: "part_number", label: "Part #", aliases: ["part number", "part no", "part", "partno"] },
+  { field: "part_cost", label: "Part Cost", aliases: ["part price", "price", "cost", "unit price"] },
+  { field: "quantity", label: "Qty", aliases: ["quantity"] },
+  { field: "labor_trade", label: "Trade", aliases: ["labor trade", "labour trade"] },
+  { field: "strip_fit_hours", label: "S/A", aliases: ["strip fit", "strip and fit", "s&a", "r&r", "strip fit hours"] },
+  { field: "repair_hours", label: "Labor", aliases: ["repair", "repair hours", "labour", "labor hours", "labour hours"] },
+  { field: "paint_hours", label: "Paint", aliases: ["paint panels", "paint hours"] },
+  { field: "sublet_cost", label: "Specialist", aliases: ["sublet", "outwork", "sublet cost"] },
+  { field: "line_notes", label: "Notes", aliases: ["note", "comments", "remarks"] },
+];
+
+// Fields whose quote values are mapped onto a fixed set of options
+export const IMPORT_OPTION_FIELDS = {
+  operation_code: { long: OPERATION_CODES, short: OPERATION_CODES_SHORT },
+  part_type: { long: PART_TYPE_OPTIONS, short: PART_TYPE_OPTIONS_SHORT },
+  labor_trade: { long: LABOR_TRADE_OPTIONS, short: LABOR_TRADE_OPTIONS_SHORT },
+} as const;
+
+export type ImportOptionField = keyof typeof IMPORT_OPTION_FIELDS;
+
+// Quote column per line field
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// Option value per quote value, for each option field
+export type ValueMapping = Partial<Record<ImportOptionField, Record<string, string>>>;
+
+export interface ImportRowResult {
+  rowNumber: number;
+  line: ImportedLine | null;
+  errors: string[];
+}
+
+const NUMBER_FIELDS = ["part_cost", "quantity", "strip_fit_hours", "repair_hours", "paint_hours", "sublet_cost"] as const;
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ");
+
+/**
+ * Split CSV text into rows of cells
+ * Quoted cells may hold delimiters, line breaks and doubled quotes
+ */
+function parseCsvRows(text: string): string[][] {
+  // Quotes exported with European settings use semicolons; tab-separated text is also accepted
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function parseCsvQuote(text: string): QuoteTable {
+  const [header, ...dataRows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+
+  // Unnamed or repeated headers get a number so every column can be mapped
+  const columns = header.map((name, index) => {
+    const trimmed = name.trim() || `Column ${index + 1}`;
+    return header.slice(0, index).some((previous) => previous.trim() === trimmed) ? `${trimmed} (${index + 1})` : trimmed;
+  });
+
+  return {
+    format: "csv",
+    columns,
+    rows: dataRows.map((cells) =>
+      Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ""]))
+    ),
+  };
+}
+
+function parseJsonQuote(text: string): QuoteTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  // Accept an array of lines, or an object holding one under a common key
+  const container = data as Record<string, unknown> | null;
+  const items = Array.isArray(data)
+    ? data
+    : ["lines", "items", "quote_lines", "data"].map((key) => container?.[key]).find(Array.isArray);
+
+  if (!items) {
+    throw new Error("The JSON file has no list of quote lines");
+  }
+
+  const objects = items.filter((item): item is Record<string, unknown> => !!item && typeof item === "object");
+  const columns = [...new Set(objects.flatMap((item) => Object.keys(item)))];
+
+  return {
+    format: "json",
+    columns,
+    rows: objects.map((item) =>
+      Object.fromEntries(
+        columns.map((column) => {
+          const value = item[column];
+          return [column, value === null || value === undefined ? "" : String(value).trim()];
+        })
+      )
+    ),
+  };
+}
+
+/**
+ * Read a CSV or JSON quote file into a table
+ * @param fileName The file name, used to tell the format apart
+ * @param text The file contents
+ * @throws Error with a message for the user when the file can't be read
+ */
+export function parseQuoteFile(fileName: string, text: string): QuoteTable {
+  const isJson = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+  const table = isJson ? parseJsonQuote(text) : parseCsvQuote(text);
+
+  if (table.rows.length === 0) {
+    throw new Error("The quote has no lines");
+  }
+
+  return table;
+}
+
+/**
+ * Guess which quote column fills each line field from the column names
+ * @param columns The quote's column names
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const { field, label, aliases } of IMPORT_FIELDS) {
+    const names = [field, label, ...aliases].map(normalizeName);
+    const column = columns.find((name) => !used.has(name) && names.includes(normalizeName(name)));
+    if (column) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Get the distinct values of a quote column, in the order they first appear
+ * @param table The quote
+ * @param column The column name
+ */
+export function getDistinctValues(table: QuoteTable, column: string): string[] {
+  return [...new Set(table.rows.map((row) => row[column] ?? "").filter(Boolean))];
+}
+
+/**
+ * Guess the option each quote value stands for, matching option values and labels
+ * Values that match no option are left unmapped
+ * @param field The option field
+ * @param values The quote's distinct values for the field
+ */
+export function guessValueMapping(field: ImportOptionField, values: string[]): Record<string, string> {
+  const { long, short } = IMPORT_OPTION_FIELDS[field];
+  return Object.fromEntries(
+    values.map((value) => [value, findOption<string>([...long, ...short], value) ?? ""])
+  );
+}
+
+/**
+ * Build estimate lines from the quote rows with the user's mappings
+ * Rows with errors are returned without a line so they can be shown and left out
+ * @param table The quote
+ * @param columnMapping Quote column per line field
+ * @param valueMapping Option value per quote value
+ */
+export function buildImportLines(
+  table: QuoteTable,
+  columnMapping: ColumnMapping,
+  valueMapping: ValueMapping
+): ImportRowResult[] {
+  const firstRowNumber = table.format === "csv" ? 2 : 1;
+
+  return table.rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = columnMapping[field];
+      return column ? (row[column] ?? "").trim() : "";
+    };
+
+    const option = (field: ImportOptionField, fallback?: string) => {
+      const value = cell(field);
+      if (!value) return fallback;
+      const mapped = valueMapping[field]?.[value];
+      if (!mapped) {
+        const label = IMPORT_FIELDS.find((importField) => importField.field === field)?.label;
+        errors.push(`${label} "${value}" is not mapped`);
+      }
+      return mapped || undefined;
+    };
+
+    const operationCode = option("operation_code", OperationCode.NEW) as OperationCode | undefined;
+    const partType = option("part_type");
+    const laborTrade = option("labor_trade");
+
+    const numbers: Partial<Record<(typeof NUMBER_FIELDS)[number], number>> = {};
+    for (const field of NUMBER_FIELDS) {
+      const parsed = parseNumberCell(cell(field));
+      if (parsed === undefined) continue;
+      if (Number.isNaN(parsed)) {
+        const label = IMPORT_FIELDS.find((importField) => importField.field === field)?.label;
+        errors.push(`${label} "${cell(field)}" is not a number`);
+        continue;
+      }
+      numbers[field] = parsed;
+    }
+
+    if (!cell("description")) {
+      errors.push("Description is required");
+    }
+
+    const candidate = {
+      description: cell("description"),
+      operation_code: operationCode,
+      part_type: partType,
+      part_number: cell("part_number") || undefined,
+      // Part cost only applies to some operations, as in the lines table
+      part_cost: operationCode && canEditPartCost({ operation_code: operationCode }) ? numbers.part_cost : undefined,
+      quantity: numbers.quantity || 1,
+      labor_trade: laborTrade,
+      strip_fit_hours: numbers.strip_fit_hours,
+      repair_hours: numbers.repair_hours,
+      paint_hours: numbers.paint_hours,
+      sublet_cost: numbers.sublet_cost,
+      is_included: true,
+      line_notes: cell("line_notes") || undefined,
+    };
+
+    if (errors.length === 0) {
+      const result = ImportedLineSchema.safeParse(candidate);
+      if (!result.success) {
+        errors.push(...result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`));
+      }
+    }
+
+    return {
+      rowNumber: index + firstRowNumber,
+      line: errors.length === 0 ? (candidate as ImportedLine) : null,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { LaborTrade, OperationCode, PartType } from "@/lib/api/domains/estimates/types";
+
+/**
+ * Shared column layout for estimate-style line tables
+ * Used by the estimate lines table and the additionals panel so both line up
+ */
+
+export const OPERATION_CODES = [
+  { value: OperationCode.NEW, label: "N - New" },
+  { value: OperationCode.REPAIR, label: "R - Repair" },
+  { value: OperationCode.ALIGN, label: "S - Aligning" },
+  { value: OperationCode.PAINT, label: "P - Paint" },
+  { value: OperationCode.BLEND, label: "B - Blend" },
+  { value: OperationCode.OTHER, label: "O - Other" },
+  { value: OperationCode.SPECIAL, label: "SC - Special Services" },
+];
+
+// Short display versions for the UI
+export const OPERATION_CODES_SHORT = [
+  { value: OperationCode.NEW, label: "N" },
+  { value: OperationCode.REPAIR, label: "R" },
+  { value: OperationCode.ALIGN, label: "S" },
+  { value: OperationCode.PAINT, label: "P" },
+  { value: OperationCode.BLEND, label: "B" },
+  { value: OperationCode.OTHER, label: "O" },
+  { value: OperationCode.SPECIAL, label: "SC" },
+];
+
+export const PART_TYPE_OPTIONS = [
+  { value: PartType.DEALER, label: "D - Dealer" },
+  { value: PartType.ALTERNATIVE, label: "ALT - Alternative" },
+  { value: PartType.USED, label: "U - Used" },
+  { value: PartType.OTHER, label: "O - Other" },
+];
+
+// Short display versions for the UI
+export const PART_TYPE_OPTIONS_SHORT = [
+  { value: PartType.DEALER, label: "D" },
+  { value: PartType.ALTERNATIVE, label: "ALT" },
+  { value: PartType.USED, label: "U" },
+  { value: PartType.OTHER, label: "O" },
+];
+
+export const LABOR_TRADE_OPTIONS = [
+  { value: LaborTrade.PANEL, label: "Panel" },
+  { value: LaborTrade.MECHANICAL, label: "Mechanical" },
+  { value: LaborTrade.ELECTRICAL, label: "Electrical" },
+];
+
+// Short display versions for the UI
+export const LABOR_TRADE_OPTIONS_SHORT = [
+  { value: LaborTrade.PANEL, label: "Pnl" },
+  { value: LaborTrade.MECHANICAL, label: "Mech" },
+  { value: LaborTrade.ELECTRICAL, label: "Elec" },
+];
+
+// Line fields shown as columns, in display order
+// Each table appends its own trailing status/actions column
+export const ESTIMATE_LINE_COLUMNS = [
+  { field: "sequence_number", label: "Seq", className: "w-12" },
+  { field: "operation_code", label: "Operation", className: "w-28" },
+  { field: "description", label: "Description", className: "" },
+  { field: "part_type", label: "Type", className: "w-16" },
+  { field: "part_number", label: "Part #", className: "w-24" },
+  { field: "part_cost", label: "Part Cost", className: "w-24" },
+  { field: "quantity", label: "Qty", className: "w-16" },
+  { field: "labor_trade", label: "Trade", className: "w-24" },
+  { field: "strip_fit_hours", label: "S/A", className: "w-20" },
+  { field: "repair_hours", label: "Labor", className: "w-20" },
+  { field: "paint_hours", label: "Paint", className: "w-20" },
+  { field: "sublet_cost", label: "Specialist", className: "w-24" },
+] as const;
+
+// Part cost only applies to new parts and other/special operations
+export const canEditPartCost = (line: { operation_code: OperationCode }) => {
+  return line.operation_code === OperationCode.NEW ||
+         line.operation_code === OperationCode.OTHER ||
+         line.operation_code === OperationCode.SPECIAL;
+};
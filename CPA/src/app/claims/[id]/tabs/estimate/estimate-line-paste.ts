@@ -0,0 +1,143 @@
+import { type EstimateLineCreate, OperationCode } from "@/lib/api/domains/estimates/types";
+import {
+  ESTIMATE_LINE_COLUMNS,
+  LABOR_TRADE_OPTIONS,
+  LABOR_TRADE_OPTIONS_SHORT,
+  OPERATION_CODES,
+  OPERATION_CODES_SHORT,
+  PART_TYPE_OPTIONS,
+  PART_TYPE_OPTIONS_SHORT,
+  canEditPartCost,
+} from "./estimate-line-columns";
+
+/**
+ * Parsing of rows copied from a spreadsheet (tab-separated) into new estimate lines
+ * Columns are expected in the order the lines table shows them, without the sequence number
+ */
+
+export type PastedEstimateLine = Omit<EstimateLineCreate, "estimate_id" | "sequence_number">;
+
+export interface PastedEstimateLines {
+  lines: PastedEstimateLine[];
+  // One message per row that could not be read; those rows are left out
+  errors: string[];
+}
+
+// Columns a pasted row fills, in table order
+const PASTE_FIELDS = ESTIMATE_LINE_COLUMNS
+  .map((column) => column.field)
+  .filter((field) => field !== "sequence_number");
+
+const NUMBER_FIELDS = [
+  "part_cost",
+  "quantity",
+  "strip_fit_hours",
+  "repair_hours",
+  "paint_hours",
+  "sublet_cost",
+] as const;
+
+// Match an option on its value or on its long or short label, ignoring case
+export const findOption = <T extends string>(options: { value: T; label: string }[], cell: string) => {
+  const normalized = cell.trim().toLowerCase();
+  return options.find(
+    (option) => option.value.toLowerCase() === normalized || option.label.toLowerCase() === normalized
+  )?.value;
+};
+
+/**
+ * Parse a spreadsheet number, accepting both comma and period decimal separators
+ * When both appear, the comma is taken as a thousands separator (1,234.50)
+ * @returns The number, undefined for an empty cell, or NaN when the cell is not a number
+ */
+export const parseNumberCell = (cell: string): number | undefined => {
+  // Spaces (thousands separators) and a leading Rand sign are ignored
+  let normalized = cell.replace(/\s/g, "").replace(/^R/i, "");
+  if (!normalized) return undefined;
+  normalized = normalized.includes(".") ? normalized.replace(/,/g, "") : normalized.replace(/,/g, ".");
+  return /^-?\d*\.?\d+$/.test(normalized) ? Number.parseFloat(normalized) : Number.NaN;
+};
+
+/**
+ * Check whether pasted text holds spreadsheet rows rather than a single value
+ * @param text The pasted text
+ */
+export const isSpreadsheetPaste = (text: string) => text.includes("\t");
+
+/**
+ * Parse tab-separated rows into new estimate lines
+ * A header row copied along with the data is skipped
+ * @param text The pasted text
+ */
+export function parseEstimateLineRows(text: string): PastedEstimateLines {
+  const lines: PastedEstimateLine[] = [];
+  const errors: string[] = [];
+
+  const rows = text.replace(/\r\n?/g, "\n").split("\n");
+
+  rows.forEach((row, rowIndex) => {
+    const cells = row.split("\t");
+    if (cells.every((cell) => !cell.trim())) return;
+
+    const value = (field: (typeof PASTE_FIELDS)[number]) => cells[PASTE_FIELDS.indexOf(field)]?.trim() ?? "";
+
+    // Skip a copied header row
+    if (rowIndex === 0 && value("description").toLowerCase() === "description") return;
+
+    const rowLabel = `Row ${rowIndex + 1}`;
+
+    // Operation defaults to a new part when the cell is empty
+    const operationCode = value("operation_code")
+      ? findOption([...OPERATION_CODES, ...OPERATION_CODES_SHORT], value("operation_code"))
+      : OperationCode.NEW;
+    if (!operationCode) {
+      errors.push(`${rowLabel}: unknown operation "${value("operation_code")}"`);
+      return;
+    }
+
+    const partType = value("part_type")
+      ? findOption([...PART_TYPE_OPTIONS, ...PART_TYPE_OPTIONS_SHORT], value("part_type"))
+      : undefined;
+    if (value("part_type") && !partType) {
+      errors.push(`${rowLabel}: unknown part type "${value("part_type")}"`);
+      return;
+    }
+
+    const laborTrade = value("labor_trade")
+      ? findOption([...LABOR_TRADE_OPTIONS, ...LABOR_TRADE_OPTIONS_SHORT], value("labor_trade"))
+      : undefined;
+    if (value("labor_trade") && !laborTrade) {
+      errors.push(`${rowLabel}: unknown trade "${value("labor_trade")}"`);
+      return;
+    }
+
+    const numbers: Partial<Record<(typeof NUMBER_FIELDS)[number], number>> = {};
+    for (const field of NUMBER_FIELDS) {
+      const parsed = parseNumberCell(value(field));
+      if (parsed === undefined) continue;
+      if (Number.isNaN(parsed) || parsed < 0) {
+        errors.push(`${rowLabel}: "${value(field)}" is not a valid ${field.replace(/_/g, " ")}`);
+        return;
+      }
+      numbers[field] = parsed;
+    }
+
+    lines.push({
+      description: value("description"),
+      operation_code: operationCode,
+      part_type: partType,
+      part_number: value("part_number") || undefined,
+      // Part cost only applies to some operations, as in the table
+      part_cost: canEditPartCost({ operation_code: operationCode }) ? numbers.part_cost : undefined,
+      quantity: numbers.quantity || 1,
+      labor_trade: laborTrade,
+      strip_fit_hours: numbers.strip_fit_hours,
+      repair_hours: numbers.repair_hours,
+      paint_hours: numbers.paint_hours,
+      sublet_cost: numbers.sublet_cost,
+      is_included: true,
+    });
+  });
+
+  return { lines, errors };
+}
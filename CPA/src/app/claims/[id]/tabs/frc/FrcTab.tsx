@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import { FrcTabContent } from "./FrcTabContent";
+import { LoadingSpinner } from "@/components/ui/loading-states";
+
+export default function FrcTab() {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <FrcTabContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Calculator, ClipboardList } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+import { useEstimate, useCalculateFinalCosting } from "@/lib/api/domains/estimates/hooks";
+import { type Estimate, EstimateStatus } from "@/lib/api/domains/estimates/types";
+import { useAdditionalLines } from "@/lib/api/domains/additionals/hooks";
+import { type AdditionalLine, AdditionalLineStatus } from "@/lib/api/domains/additionals/types";
+
+// Rows of the original vs final comparison, in display order
+const COSTING_ROWS: { label: string; original: keyof Estimate; final: keyof Estimate; isTotal?: boolean }[] = [
+  { label: "Parts (incl. markup)", original: "subtotal_parts", final: "final_subtotal_parts" },
+  { label: "Labor", original: "subtotal_labor", final: "final_subtotal_labor" },
+  { label: "Paint Materials", original: "subtotal_paint_materials", final: "final_subtotal_paint_materials" },
+  { label: "Specialist", original: "subtotal_sublet", final: "final_subtotal_sublet" },
+  { label: "Special Services", original: "subtotal_special", final: "final_subtotal_special" },
+  { label: "Other", original: "subtotal_other", final: "final_subtotal_other" },
+  { label: "Total (excl. VAT)", original: "total_before_vat", final: "final_total_before_vat", isTotal: true },
+  { label: "VAT", original: "total_vat", final: "final_total_vat" },
+  { label: "Total (incl. VAT)", original: "total_amount", final: "final_total_amount", isTotal: true },
+];
+
+export function FrcTabContent() {
+  const { id: claimId } = useParams();
+  const { data: estimate, isLoading } = useEstimate(claimId as string);
+  const { data: additionalLines = [] } = useAdditionalLines(estimate?.id ?? "");
+  const calculateFinalCosting = useCalculateFinalCosting();
+
+  // Format number with decimal places
+  const formatNumber = (amount: number | null | undefined, decimals = 2) => {
+    if (amount === null || amount === undefined) return "-";
+    return new Intl.NumberFormat('en-GB', {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  };
+
+  if (isLoading) {
+    return <div>Loading final costing...</div>;
+  }
+
+  if (!estimate) {
+    return (
+      <Card>
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium">No estimate has been created for this claim yet.</h3>
+            <p className="text-muted-foreground mt-2">
+              The final repair costing is based on the authorized estimate and its approved additionals.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isAuthorized = estimate.status === EstimateStatus.AUTHORIZED;
+  const hasFinalCosting = !!estimate.final_costing_calculated_at;
+  const countByStatus = (status: AdditionalLineStatus) =>
+    additionalLines.filter((line: AdditionalLine) => line.status === status).length;
+  const pendingCount = countByStatus(AdditionalLineStatus.REQUESTED);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Final Repair Costing</h2>
+        <Button
+          onClick={() => calculateFinalCosting.mutate({ estimate_id: estimate.id })}
+          disabled={!isAuthorized || calculateFinalCosting.isPending}
+        >
+          <Calculator className="mr-2 h-4 w-4" />
+          {calculateFinalCosting.isPending
+            ? "Calculating..."
+            : hasFinalCosting ? "Recalculate Final Costing" : "Calculate Final Costing"}
+        </Button>
+      </div>
+
+      {!isAuthorized && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Estimate not authorized</AlertTitle>
+          <AlertDescription>
+            Final costing can be calculated once the estimate has been authorized to a repairer.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {pendingCount > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Pending additionals</AlertTitle>
+          <AlertDescription>
+            {pendingCount} additional{pendingCount === 1 ? " is" : "s are"} still awaiting a decision and will not be included in the final costing.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Original vs Final</CardTitle>
+          <div className="flex items-center gap-2">
+            <Badge variant="success">{countByStatus(AdditionalLineStatus.APPROVED)} approved</Badge>
+            <Badge variant="destructive">{countByStatus(AdditionalLineStatus.REJECTED)} rejected</Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">Original Estimate</TableHead>
+                <TableHead className="text-right">Final Costing</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {COSTING_ROWS.map((row) => {
+                const original = estimate[row.original] as number | null;
+                const final = estimate[row.final] as number | null;
+                const difference = hasFinalCosting ? (final || 0) - (original || 0) : null;
+
+                return (
+                  <TableRow key={row.label} className={row.isTotal ? "font-medium" : undefined}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell className="text-right">{formatNumber(original)}</TableCell>
+                    <TableCell className="text-right">{hasFinalCosting ? formatNumber(final) : "-"}</TableCell>
+                    <TableCell className={`text-right ${difference && difference > 0 ? "text-destructive" : ""}`}>
+                      {formatNumber(difference)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="mt-4 flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {hasFinalCosting && estimate.final_costing_calculated_at
+                ? `Calculated on ${formatDate(estimate.final_costing_calculated_at)}`
+                : "Final costing has not been calculated yet."}
+            </span>
+            {hasFinalCosting && (
+              <span className="font-semibold">
+                Variance: {formatNumber(estimate.variance_amount)}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
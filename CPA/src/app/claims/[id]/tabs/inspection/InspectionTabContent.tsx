@@ -3,13 +3,39 @@
 import { useState, useEffect, useRef } from "react";
 import { useClaimFullDetails } from "@/lib/api/domains/claims/hooks";
 import { useVehicle } from "@/lib/api/domains/vehicles/hooks";
-import { useInspectionsByClaim, useCreateInspection } from "@/lib/api/domains/inspections/hooks";
+import {
+  useInspectionsByClaim,
+  useCreateInspection,
+  useUpdateInspection,
+  useCompleteInspection,
+  useReopenInspection,
+  useCanReopenInspection,
+} from "@/lib/api/domains/inspections/hooks";
+import {
+  InspectionStatus,
+  type AdditionalTyreRecord,
+  type InspectionCreateInput,
+  type InspectionUpdateInput,
+} from "@/lib/api/domains/inspections/types";
+import {
+  EMPTY_TYRE_MEASUREMENTS,
+  fromTyreMeasurementColumns,
+  getInspectionTyreReadings,
+  getTyreFlags,
+  toTyreMeasurementColumns,
+} from "@/lib/api/domains/inspections/tyres";
+import { getMissingInspectionPhotos, resolveInspectionTemplate } from "@/lib/api/domains/inspections/requirements";
+import { useClaimInspectionTemplate } from "@/lib/api/domains/inspection-templates/hooks";
+import { type InspectionSectionKey } from "@/lib/api/domains/inspection-templates/types";
+import { formatDate } from "@/lib/utils";
 import { useParams } from "next/navigation";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { Loader2, Save, CheckCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Loader2, Save, CheckCircle, Lock, RotateCcw, ClipboardCheck } from "lucide-react";
 import { useFormPersistence } from "@/hooks/useFormPersistence";
+import { enqueueOperation, isOffline } from "@/utils/offline-queue";
 import { StatusBadge } from "@/components/inspection/StatusBadge";
 
 // Import section components
@@ -18,14 +44,79 @@ import { RegistrationLicenseWrapper } from "@/components/inspection/sections/Reg
 import { VinSection } from "@/components/inspection/sections/VinSection";
 import { ThreeSixtyViewSection } from "@/components/inspection/sections/ThreeSixtyViewSection";
 import { InteriorSection } from "@/components/inspection/sections/InteriorSection";
+import { DamagesSection } from "@/components/inspection/sections/DamagesSection";
+import { AccessoriesSection } from "@/components/inspection/sections/AccessoriesSection";
 import { MechanicalSection } from "@/components/inspection/sections/MechanicalSection";
 import { TyresSection, type AdditionalTyre } from "@/components/inspection/sections/TyresSection";
 import { NotesSection } from "@/components/inspection/sections/NotesSection";
+import { TemplatePhotosSection } from "@/components/inspection/sections/TemplatePhotosSection";
+import { InspectionSummary } from "@/components/inspection/sections/InspectionSummary";
 
 interface InspectionTabContentProps {
   inspectionsData?: any[];
 }
 
+// Additional tyres are edited in camel case and stored in snake case
+function toAdditionalTyreRecord(tyre: AdditionalTyre): AdditionalTyreRecord {
+  return {
+    id: tyre.id,
+    label: tyre.label,
+    axle: tyre.axle || null,
+    face_photo_path: tyre.facePhotoPath,
+    measurement_photo_path: tyre.measurementPhotoPath,
+    tread_photo_path: tyre.treadPhotoPath,
+    make: tyre.make,
+    size: tyre.size,
+    load_speed: tyre.loadSpeed,
+    tread_inner_mm: tyre.treadInnerMm,
+    tread_centre_mm: tyre.treadCentreMm,
+    tread_outer_mm: tyre.treadOuterMm,
+    dot_week: tyre.dotWeek,
+    dot_year: tyre.dotYear,
+    condition: tyre.condition || null,
+  };
+}
+
+function fromAdditionalTyreRecord(tyre: AdditionalTyreRecord): AdditionalTyre {
+  return {
+    id: tyre.id,
+    label: tyre.label,
+    axle: tyre.axle || "",
+    facePhotoPath: tyre.face_photo_path,
+    measurementPhotoPath: tyre.measurement_photo_path,
+    treadPhotoPath: tyre.tread_photo_path,
+    make: tyre.make,
+    size: tyre.size,
+    loadSpeed: tyre.load_speed,
+    treadInnerMm: tyre.tread_inner_mm ?? null,
+    treadCentreMm: tyre.tread_centre_mm ?? null,
+    treadOuterMm: tyre.tread_outer_mm ?? null,
+    dotWeek: tyre.dot_week ?? null,
+    dotYear: tyre.dot_year ?? null,
+    condition: tyre.condition || "",
+  };
+}
+
+// Fields of a draft submission that differ from the saved inspection
+// Fields the form left empty are sent as "" so a saved text value is cleared
+function pickChangedFields(fields: Record<string, unknown>, saved: Record<string, unknown>) {
+  const normalize = (value: unknown) => {
+    if (value === undefined || value === null || value === "") return null;
+    if (value instanceof Date) return value.toISOString().split("T")[0];
+    return JSON.stringify(value);
+  };
+
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([field, value]) => normalize(value) !== normalize(saved[field]))
+      .map(([field, value]) => [
+        field,
+        value === undefined && typeof saved[field] === "string" ? "" : value,
+      ])
+      .filter(([, value]) => value !== undefined)
+  );
+}
+
 export default function InspectionTabContent({ inspectionsData = [] }: InspectionTabContentProps) {
   const params = useParams();
   const claimId = params.id as string;
@@ -39,6 +130,13 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
 
   // Mutations
   const createInspection = useCreateInspection();
+  const updateInspection = useUpdateInspection();
+  const completeInspection = useCompleteInspection();
+  const reopenInspection = useReopenInspection();
+  const { data: canReopen = false } = useCanReopenInspection();
+
+  // The client's checklist decides which sections are shown and which photos are required
+  const { data: inspectionTemplate } = useClaimInspectionTemplate(claimId);
 
   // Default form state
   const defaultFormState = {
@@ -103,6 +201,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
     tyreRfMake: "",
     tyreRfSize: "",
     tyreRfLoadSpeed: "",
+    tyreRfMeasurements: EMPTY_TYRE_MEASUREMENTS,
 
     tyreRrFacePhotoPath: null as string | null,
     tyreRrMeasurementPhotoPath: null as string | null,
@@ -110,6 +209,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
     tyreRrMake: "",
     tyreRrSize: "",
     tyreRrLoadSpeed: "",
+    tyreRrMeasurements: EMPTY_TYRE_MEASUREMENTS,
 
     tyreLrFacePhotoPath: null as string | null,
     tyreLrMeasurementPhotoPath: null as string | null,
@@ -117,6 +217,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
     tyreLrMake: "",
     tyreLrSize: "",
     tyreLrLoadSpeed: "",
+    tyreLrMeasurements: EMPTY_TYRE_MEASUREMENTS,
 
     tyreLfFacePhotoPath: null as string | null,
     tyreLfMeasurementPhotoPath: null as string | null,
@@ -124,6 +225,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
     tyreLfMake: "",
     tyreLfSize: "",
     tyreLfLoadSpeed: "",
+    tyreLfMeasurements: EMPTY_TYRE_MEASUREMENTS,
 
     tyreSpareFacePhotoPath: null as string | null,
     tyreSpareMeasurementPhotoPath: null as string | null,
@@ -131,10 +233,14 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
     tyreSpareMake: "",
     tyreSparSize: "",
     tyreSparLoadSpeed: "",
+    tyreSpareMeasurements: EMPTY_TYRE_MEASUREMENTS,
 
     // Additional tyres for larger vehicles
     additionalTyres: [] as AdditionalTyre[],
 
+    // Photos the client's inspection template adds, keyed by slot
+    extraPhotos: {} as Record<string, string>,
+
     // Notes
     notes: ""
   };
@@ -155,17 +261,14 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
       const existingInspection = inspections?.[0];
 
       // Prepare the data for submission
-      const submissionData = {
-        claim_id: claimId,
-        vehicle_id: vehicle.id,
-
+      const fields = {
         // Registration details
         registration_number: data.registrationNumber || undefined,
         registration_photo_path: data.registrationPhotoPath || undefined,
 
         // License disc details
         license_disc_present: data.licenseDiscPresent,
-        license_disc_expiry: data.licenseDiscExpiry || undefined,
+        license_disc_expiry: data.licenseDiscExpiry ? new Date(data.licenseDiscExpiry) : undefined,
         license_disc_photo_path: data.licenseDiscPhotoPath || undefined,
 
         // VIN details
@@ -217,6 +320,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyre_rf_make: data.tyreRfMake || undefined,
         tyre_rf_size: data.tyreRfSize || undefined,
         tyre_rf_load_speed: data.tyreRfLoadSpeed || undefined,
+        ...toTyreMeasurementColumns("rf", data.tyreRfMeasurements),
 
         tyre_rr_face_photo_path: data.tyreRrFacePhotoPath || undefined,
         tyre_rr_measurement_photo_path: data.tyreRrMeasurementPhotoPath || undefined,
@@ -224,6 +328,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyre_rr_make: data.tyreRrMake || undefined,
         tyre_rr_size: data.tyreRrSize || undefined,
         tyre_rr_load_speed: data.tyreRrLoadSpeed || undefined,
+        ...toTyreMeasurementColumns("rr", data.tyreRrMeasurements),
 
         tyre_lr_face_photo_path: data.tyreLrFacePhotoPath || undefined,
         tyre_lr_measurement_photo_path: data.tyreLrMeasurementPhotoPath || undefined,
@@ -231,6 +336,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyre_lr_make: data.tyreLrMake || undefined,
         tyre_lr_size: data.tyreLrSize || undefined,
         tyre_lr_load_speed: data.tyreLrLoadSpeed || undefined,
+        ...toTyreMeasurementColumns("lr", data.tyreLrMeasurements),
 
         tyre_lf_face_photo_path: data.tyreLfFacePhotoPath || undefined,
         tyre_lf_measurement_photo_path: data.tyreLfMeasurementPhotoPath || undefined,
@@ -238,6 +344,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyre_lf_make: data.tyreLfMake || undefined,
         tyre_lf_size: data.tyreLfSize || undefined,
         tyre_lf_load_speed: data.tyreLfLoadSpeed || undefined,
+        ...toTyreMeasurementColumns("lf", data.tyreLfMeasurements),
 
         tyre_spare_face_photo_path: data.tyreSpareFacePhotoPath || undefined,
         tyre_spare_measurement_photo_path: data.tyreSpareMeasurementPhotoPath || undefined,
@@ -245,19 +352,52 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyre_spare_make: data.tyreSpareMake || undefined,
         tyre_spare_size: data.tyreSparSize || undefined,
         tyre_spare_load_speed: data.tyreSparLoadSpeed || undefined,
+        ...toTyreMeasurementColumns("spare", data.tyreSpareMeasurements),
 
         // Additional tyres for larger vehicles
-        additional_tyres: data.additionalTyres.length > 0 ? data.additionalTyres : undefined,
+        additional_tyres: data.additionalTyres.map(toAdditionalTyreRecord),
+
+        // Photos the client's inspection template adds
+        extra_photos: data.extraPhotos,
 
         // Notes
         notes: data.notes || undefined
       };
 
-      // Save to server
-      await createInspection.mutateAsync(submissionData);
+      if (existingInspection) {
+        // Save only the sections that changed into the draft
+        const changes = pickChangedFields(fields, existingInspection);
+        if (Object.keys(changes).length > 0) {
+          const input: InspectionUpdateInput = {
+            id: existingInspection.id,
+            ...(changes as Omit<InspectionUpdateInput, "id">),
+          };
+          if (isOffline()) {
+            // Replayed against the version loaded here, so newer server changes are not overwritten
+            await enqueueOperation({
+              kind: "inspection.update",
+              input: { ...input, expected_updated_at: new Date(existingInspection.updated_at).toISOString() },
+            });
+          } else {
+            await updateInspection.mutateAsync(input);
+          }
+        }
+      } else {
+        // The form keeps free-text values; the server validates them against the schema
+        const input = {
+          claim_id: claimId,
+          vehicle_id: vehicle.id,
+          ...fields,
+        } as InspectionCreateInput;
+        if (isOffline()) {
+          await enqueueOperation({ kind: "inspection.create", input });
+        } else {
+          await createInspection.mutateAsync(input);
+        }
+      }
 
       // Show success toast
-      toast.success("Inspection saved successfully");
+      toast.success(isOffline() ? "Offline: inspection draft will sync when back online" : "Inspection draft saved");
     }
   );
 
@@ -328,6 +468,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyreRfMake: existingInspection.tyre_rf_make || "",
         tyreRfSize: existingInspection.tyre_rf_size || "",
         tyreRfLoadSpeed: existingInspection.tyre_rf_load_speed || "",
+        tyreRfMeasurements: fromTyreMeasurementColumns("rf", existingInspection),
 
         tyreRrFacePhotoPath: existingInspection.tyre_rr_face_photo_path,
         tyreRrMeasurementPhotoPath: existingInspection.tyre_rr_measurement_photo_path,
@@ -335,6 +476,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyreRrMake: existingInspection.tyre_rr_make || "",
         tyreRrSize: existingInspection.tyre_rr_size || "",
         tyreRrLoadSpeed: existingInspection.tyre_rr_load_speed || "",
+        tyreRrMeasurements: fromTyreMeasurementColumns("rr", existingInspection),
 
         tyreLrFacePhotoPath: existingInspection.tyre_lr_face_photo_path,
         tyreLrMeasurementPhotoPath: existingInspection.tyre_lr_measurement_photo_path,
@@ -342,6 +484,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyreLrMake: existingInspection.tyre_lr_make || "",
         tyreLrSize: existingInspection.tyre_lr_size || "",
         tyreLrLoadSpeed: existingInspection.tyre_lr_load_speed || "",
+        tyreLrMeasurements: fromTyreMeasurementColumns("lr", existingInspection),
 
         tyreLfFacePhotoPath: existingInspection.tyre_lf_face_photo_path,
         tyreLfMeasurementPhotoPath: existingInspection.tyre_lf_measurement_photo_path,
@@ -349,6 +492,7 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyreLfMake: existingInspection.tyre_lf_make || "",
         tyreLfSize: existingInspection.tyre_lf_size || "",
         tyreLfLoadSpeed: existingInspection.tyre_lf_load_speed || "",
+        tyreLfMeasurements: fromTyreMeasurementColumns("lf", existingInspection),
 
         tyreSpareFacePhotoPath: existingInspection.tyre_spare_face_photo_path,
         tyreSpareMeasurementPhotoPath: existingInspection.tyre_spare_measurement_photo_path,
@@ -356,9 +500,13 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         tyreSpareMake: existingInspection.tyre_spare_make || "",
         tyreSparSize: existingInspection.tyre_spare_size || "",
         tyreSparLoadSpeed: existingInspection.tyre_spare_load_speed || "",
+        tyreSpareMeasurements: fromTyreMeasurementColumns("spare", existingInspection),
 
         // Additional tyres for larger vehicles
-        additionalTyres: existingInspection.additional_tyres || [],
+        additionalTyres: (existingInspection.additional_tyres || []).map(fromAdditionalTyreRecord),
+
+        // Photos the client's inspection template adds
+        extraPhotos: existingInspection.extra_photos || {},
 
         // Notes
         notes: existingInspection.notes || ""
@@ -452,9 +600,65 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
 
   const existingInspection = inspections?.[0];
   const inspectionId = existingInspection?.id || "new";
+  const isCompleted = existingInspection?.status === InspectionStatus.COMPLETED;
+  const templateSections = resolveInspectionTemplate(inspectionTemplate?.sections);
+  const isSectionEnabled = (key: InspectionSectionKey) =>
+    templateSections.find((section) => section.section === key)?.enabled ?? true;
+  const updateExtraPhoto = (key: string, path: string | null) => {
+    const { [key]: _removed, ...extraPhotos } = formData.extraPhotos;
+    updateFormData({ extraPhotos: path ? { ...extraPhotos, [key]: path } : extraPhotos });
+  };
+  // Photo slots the template adds are shown after the section's standard photos
+  const renderTemplatePhotos = (key: InspectionSectionKey) => {
+    const section = templateSections.find((item) => item.section === key);
+    if (!section?.enabled || section.extraPhotos.length === 0) return null;
+
+    return (
+      <ErrorBoundary fallback={<div>Error loading additional {section.label} photos</div>}>
+        <TemplatePhotosSection
+          claimId={claimId}
+          inspectionId={inspectionId}
+          title={`Additional ${section.label} Photos`}
+          slots={section.extraPhotos}
+          photos={formData.extraPhotos}
+          onPhotoPathChange={updateExtraPhoto}
+        />
+      </ErrorBoundary>
+    );
+  };
+  const missingPhotos = existingInspection
+    ? getMissingInspectionPhotos(existingInspection, inspectionTemplate?.sections)
+    : [];
+  const tyreFlags = existingInspection ? getTyreFlags(getInspectionTyreReadings(existingInspection)) : [];
 
   return (
     <div className="space-y-8">
+      {isCompleted && existingInspection && (
+        <Alert>
+          <Lock className="h-4 w-4" />
+          <AlertTitle>Inspection completed</AlertTitle>
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              {existingInspection.completed_at
+                ? `Completed on ${formatDate(existingInspection.completed_at)}. `
+                : ""}
+              The inspection is read-only{canReopen ? "." : "; ask an admin to reopen it to make changes."}
+            </span>
+            {canReopen && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => reopenInspection.mutate({ id: existingInspection.id })}
+                disabled={reopenInspection.isPending}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {reopenInspection.isPending ? "Reopening..." : "Reopen Inspection"}
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <ErrorBoundary fallback={<div>Error loading inspection header</div>}>
         <InspectionHeader
           claimId={claimId}
@@ -466,259 +670,330 @@ export default function InspectionTabContent({ inspectionsData = [] }: Inspectio
         />
       </ErrorBoundary>
 
-      <div ref={registrationLicenseRef}>
-        <ErrorBoundary fallback={<div>Error loading registration and license disc details</div>}>
-          <RegistrationLicenseWrapper
-            claimId={claimId}
-            inspectionId={inspectionId}
-            registrationNumber={formData.registrationNumber}
-            registrationPhotoPath={formData.registrationPhotoPath}
-            onRegistrationNumberChange={(value) =>
-              updateFormData({ registrationNumber: value })
-            }
-            onRegistrationPhotoPathChange={(path) =>
-              updateFormData({ registrationPhotoPath: path })
-            }
-            licenseDiscPresent={formData.licenseDiscPresent}
-            licenseDiscExpiry={formData.licenseDiscExpiry}
-            licenseDiscPhotoPath={formData.licenseDiscPhotoPath}
-            onLicenseDiscPresentChange={(value) =>
-              updateFormData({ licenseDiscPresent: value })
-            }
-            onLicenseDiscExpiryChange={(value) =>
-              updateFormData({ licenseDiscExpiry: value })
-            }
-            onLicenseDiscPhotoPathChange={(path) =>
-              updateFormData({ licenseDiscPhotoPath: path })
-            }
-          />
+      {/* Completed inspections are locked until they are reopened */}
+      <fieldset disabled={isCompleted} className="space-y-8">
+        {isSectionEnabled("registration") && (
+          <div ref={registrationLicenseRef}>
+            <ErrorBoundary fallback={<div>Error loading registration and license disc details</div>}>
+              <RegistrationLicenseWrapper
+                claimId={claimId}
+                inspectionId={inspectionId}
+                registrationNumber={formData.registrationNumber}
+                registrationPhotoPath={formData.registrationPhotoPath}
+                onRegistrationNumberChange={(value) =>
+                  updateFormData({ registrationNumber: value })
+                }
+                onRegistrationPhotoPathChange={(path) =>
+                  updateFormData({ registrationPhotoPath: path })
+                }
+                licenseDiscPresent={formData.licenseDiscPresent}
+                licenseDiscExpiry={formData.licenseDiscExpiry}
+                licenseDiscPhotoPath={formData.licenseDiscPhotoPath}
+                onLicenseDiscPresentChange={(value) =>
+                  updateFormData({ licenseDiscPresent: value })
+                }
+                onLicenseDiscExpiryChange={(value) =>
+                  updateFormData({ licenseDiscExpiry: value })
+                }
+                onLicenseDiscPhotoPathChange={(path) =>
+                  updateFormData({ licenseDiscPhotoPath: path })
+                }
+              />
+            </ErrorBoundary>
+          </div>
+        )}
+        {renderTemplatePhotos("registration")}
+
+        {isSectionEnabled("vin") && (
+          <div ref={vinRef}>
+            <ErrorBoundary fallback={<div>Error loading VIN details</div>}>
+              <VinSection
+                claimId={claimId}
+                inspectionId={inspectionId}
+                vehicleId={vehicle.id}
+                vin={formData.vinNumber}
+                vehicleMake={(vehicle as any).make}
+                vehicleYear={(vehicle as any).year}
+                vinDashPhotoPath={formData.vinDashPhotoPath}
+                vinPlatePhotoPath={formData.vinPlatePhotoPath}
+                vinNumberPhotoPath={formData.vinNumberPhotoPath}
+                onVinChange={(value) =>
+                  updateFormData({ vinNumber: value })
+                }
+                onVinDashPhotoPathChange={(path) =>
+                  updateFormData({ vinDashPhotoPath: path })
+                }
+                onVinPlatePhotoPathChange={(path) =>
+                  updateFormData({ vinPlatePhotoPath: path })
+                }
+                onVinNumberPhotoPathChange={(path) =>
+                  updateFormData({ vinNumberPhotoPath: path })
+                }
+              />
+            </ErrorBoundary>
+          </div>
+        )}
+        {renderTemplatePhotos("vin")}
+
+        {isSectionEnabled("threeSixty") && (
+          <div ref={threeSixtyRef}>
+            <ErrorBoundary fallback={<div>Error loading 360° view</div>}>
+              <ThreeSixtyViewSection
+                claimId={claimId}
+                inspectionId={inspectionId}
+                frontViewPhotoPath={formData.frontViewPhotoPath}
+                rightFrontViewPhotoPath={formData.rightFrontViewPhotoPath}
+                rightSideViewPhotoPath={formData.rightSideViewPhotoPath}
+                rightRearViewPhotoPath={formData.rightRearViewPhotoPath}
+                rearViewPhotoPath={formData.rearViewPhotoPath}
+                leftRearViewPhotoPath={formData.leftRearViewPhotoPath}
+                leftSideViewPhotoPath={formData.leftSideViewPhotoPath}
+                leftFrontViewPhotoPath={formData.leftFrontViewPhotoPath}
+                overallCondition={formData.overallCondition}
+                onFrontViewPhotoPathChange={(path) =>
+                  updateFormData({ frontViewPhotoPath: path })
+                }
+                onRightFrontViewPhotoPathChange={(path) =>
+                  updateFormData({ rightFrontViewPhotoPath: path })
+                }
+                onRightSideViewPhotoPathChange={(path) =>
+                  updateFormData({ rightSideViewPhotoPath: path })
+                }
+                onRightRearViewPhotoPathChange={(path) =>
+                  updateFormData({ rightRearViewPhotoPath: path })
+                }
+                onRearViewPhotoPathChange={(path) =>
+                  updateFormData({ rearViewPhotoPath: path })
+                }
+                onLeftRearViewPhotoPathChange={(path) =>
+                  updateFormData({ leftRearViewPhotoPath: path })
+                }
+                onLeftSideViewPhotoPathChange={(path) =>
+                  updateFormData({ leftSideViewPhotoPath: path })
+                }
+                onLeftFrontViewPhotoPathChange={(path) =>
+                  updateFormData({ leftFrontViewPhotoPath: path })
+                }
+                onOverallConditionChange={(value) =>
+                  updateFormData({ overallCondition: value })
+                }
+              />
+            </ErrorBoundary>
+          </div>
+        )}
+        {renderTemplatePhotos("threeSixty")}
+
+        {isSectionEnabled("interior") && (
+          <div ref={interiorRef}>
+            <ErrorBoundary fallback={<div>Error loading interior section</div>}>
+              {sectionsInView.interior && (
+                <InteriorSection
+                  claimId={claimId}
+                  inspectionId={inspectionId}
+                  mileagePhotoPath={formData.mileagePhotoPath}
+                  radioPresent={formData.radioPresent}
+                  radioMake={formData.radioMake}
+                  radioModel={formData.radioModel}
+                  radioPhotoPath={formData.radioPhotoPath}
+                  gearType={formData.gearType}
+                  interiorFrontPhotoPath={formData.interiorFrontPhotoPath}
+                  interiorRearPhotoPath={formData.interiorRearPhotoPath}
+                  leatherSeats={formData.leatherSeats}
+                  interiorCondition={formData.interiorCondition}
+                  srsActivated={formData.srsActivated}
+                  srsDamagePhotoPath1={formData.srsDamagePhotoPath1}
+                  srsDamagePhotoPath2={formData.srsDamagePhotoPath2}
+                  srsDamagePhotoPath3={formData.srsDamagePhotoPath3}
+                  srsDamagePhotoPath4={formData.srsDamagePhotoPath4}
+                  jackToolsPresent={formData.jackToolsPresent}
+                  jackToolsPhotoPath={formData.jackToolsPhotoPath}
+                  onMileagePhotoPathChange={(path) => updateFormData({ mileagePhotoPath: path })}
+                  onRadioPresentChange={(value) => updateFormData({ radioPresent: value })}
+                  onRadioMakeChange={(value) => updateFormData({ radioMake: value })}
+                  onRadioModelChange={(value) => updateFormData({ radioModel: value })}
+                  onRadioPhotoPathChange={(path) => updateFormData({ radioPhotoPath: path })}
+                  onGearTypeChange={(value) => updateFormData({ gearType: value })}
+                  onInteriorFrontPhotoPathChange={(path) => updateFormData({ interiorFrontPhotoPath: path })}
+                  onInteriorRearPhotoPathChange={(path) => updateFormData({ interiorRearPhotoPath: path })}
+                  onLeatherSeatsChange={(value) => updateFormData({ leatherSeats: value })}
+                  onInteriorConditionChange={(value) => updateFormData({ interiorCondition: value })}
+                  onSrsActivatedChange={(value) => updateFormData({ srsActivated: value })}
+                  onSrsDamagePhotoPath1Change={(path) => updateFormData({ srsDamagePhotoPath1: path })}
+                  onSrsDamagePhotoPath2Change={(path) => updateFormData({ srsDamagePhotoPath2: path })}
+                  onSrsDamagePhotoPath3Change={(path) => updateFormData({ srsDamagePhotoPath3: path })}
+                  onSrsDamagePhotoPath4Change={(path) => updateFormData({ srsDamagePhotoPath4: path })}
+                  onJackToolsPresentChange={(value) => updateFormData({ jackToolsPresent: value })}
+                  onJackToolsPhotoPathChange={(path) => updateFormData({ jackToolsPhotoPath: path })}
+                />
+              )}
+            </ErrorBoundary>
+          </div>
+        )}
+        {renderTemplatePhotos("interior")}
+
+        <ErrorBoundary fallback={<div>Error loading damages</div>}>
+          <DamagesSection claimId={claimId} inspectionId={inspectionId} />
         </ErrorBoundary>
-      </div>
 
-      <div ref={vinRef}>
-        <ErrorBoundary fallback={<div>Error loading VIN details</div>}>
-          <VinSection
+        <ErrorBoundary fallback={<div>Error loading accessories</div>}>
+          <AccessoriesSection
             claimId={claimId}
             inspectionId={inspectionId}
             vehicleId={vehicle.id}
-            vin={formData.vinNumber}
-            vinDashPhotoPath={formData.vinDashPhotoPath}
-            vinPlatePhotoPath={formData.vinPlatePhotoPath}
-            vinNumberPhotoPath={formData.vinNumberPhotoPath}
-            onVinChange={(value) =>
-              updateFormData({ vinNumber: value })
-            }
-            onVinDashPhotoPathChange={(path) =>
-              updateFormData({ vinDashPhotoPath: path })
-            }
-            onVinPlatePhotoPathChange={(path) =>
-              updateFormData({ vinPlatePhotoPath: path })
-            }
-            onVinNumberPhotoPathChange={(path) =>
-              updateFormData({ vinNumberPhotoPath: path })
-            }
           />
         </ErrorBoundary>
-      </div>
-
-      <div ref={threeSixtyRef}>
-        <ErrorBoundary fallback={<div>Error loading 360° view</div>}>
-          <ThreeSixtyViewSection
-            claimId={claimId}
-            inspectionId={inspectionId}
-            frontViewPhotoPath={formData.frontViewPhotoPath}
-            rightFrontViewPhotoPath={formData.rightFrontViewPhotoPath}
-            rightSideViewPhotoPath={formData.rightSideViewPhotoPath}
-            rightRearViewPhotoPath={formData.rightRearViewPhotoPath}
-            rearViewPhotoPath={formData.rearViewPhotoPath}
-            leftRearViewPhotoPath={formData.leftRearViewPhotoPath}
-            leftSideViewPhotoPath={formData.leftSideViewPhotoPath}
-            leftFrontViewPhotoPath={formData.leftFrontViewPhotoPath}
-            overallCondition={formData.overallCondition}
-            onFrontViewPhotoPathChange={(path) =>
-              updateFormData({ frontViewPhotoPath: path })
-            }
-            onRightFrontViewPhotoPathChange={(path) =>
-              updateFormData({ rightFrontViewPhotoPath: path })
-            }
-            onRightSideViewPhotoPathChange={(path) =>
-              updateFormData({ rightSideViewPhotoPath: path })
-            }
-            onRightRearViewPhotoPathChange={(path) =>
-              updateFormData({ rightRearViewPhotoPath: path })
-            }
-            onRearViewPhotoPathChange={(path) =>
-              updateFormData({ rearViewPhotoPath: path })
-            }
-            onLeftRearViewPhotoPathChange={(path) =>
-              updateFormData({ leftRearViewPhotoPath: path })
-            }
-            onLeftSideViewPhotoPathChange={(path) =>
-              updateFormData({ leftSideViewPhotoPath: path })
-            }
-            onLeftFrontViewPhotoPathChange={(path) =>
-              updateFormData({ leftFrontViewPhotoPath: path })
-            }
-            onOverallConditionChange={(value) =>
-              updateFormData({ overallCondition: value })
-            }
-          />
-        </ErrorBoundary>
-      </div>
-
-      <div ref={interiorRef}>
-        <ErrorBoundary fallback={<div>Error loading interior section</div>}>
-          {sectionsInView.interior && (
-            <InteriorSection
-              claimId={claimId}
-              inspectionId={inspectionId}
-              mileagePhotoPath={formData.mileagePhotoPath}
-              radioPresent={formData.radioPresent}
-              radioMake={formData.radioMake}
-              radioModel={formData.radioModel}
-              radioPhotoPath={formData.radioPhotoPath}
-              gearType={formData.gearType}
-              interiorFrontPhotoPath={formData.interiorFrontPhotoPath}
-              interiorRearPhotoPath={formData.interiorRearPhotoPath}
-              leatherSeats={formData.leatherSeats}
-              interiorCondition={formData.interiorCondition}
-              srsActivated={formData.srsActivated}
-              srsDamagePhotoPath1={formData.srsDamagePhotoPath1}
-              srsDamagePhotoPath2={formData.srsDamagePhotoPath2}
-              srsDamagePhotoPath3={formData.srsDamagePhotoPath3}
-              srsDamagePhotoPath4={formData.srsDamagePhotoPath4}
-              jackToolsPresent={formData.jackToolsPresent}
-              jackToolsPhotoPath={formData.jackToolsPhotoPath}
-              onMileagePhotoPathChange={(path) => updateFormData({ mileagePhotoPath: path })}
-              onRadioPresentChange={(value) => updateFormData({ radioPresent: value })}
-              onRadioMakeChange={(value) => updateFormData({ radioMake: value })}
-              onRadioModelChange={(value) => updateFormData({ radioModel: value })}
-              onRadioPhotoPathChange={(path) => updateFormData({ radioPhotoPath: path })}
-              onGearTypeChange={(value) => updateFormData({ gearType: value })}
-              onInteriorFrontPhotoPathChange={(path) => updateFormData({ interiorFrontPhotoPath: path })}
-              onInteriorRearPhotoPathChange={(path) => updateFormData({ interiorRearPhotoPath: path })}
-              onLeatherSeatsChange={(value) => updateFormData({ leatherSeats: value })}
-              onInteriorConditionChange={(value) => updateFormData({ interiorCondition: value })}
-              onSrsActivatedChange={(value) => updateFormData({ srsActivated: value })}
-              onSrsDamagePhotoPath1Change={(path) => updateFormData({ srsDamagePhotoPath1: path })}
-              onSrsDamagePhotoPath2Change={(path) => updateFormData({ srsDamagePhotoPath2: path })}
-              onSrsDamagePhotoPath3Change={(path) => updateFormData({ srsDamagePhotoPath3: path })}
-              onSrsDamagePhotoPath4Change={(path) => updateFormData({ srsDamagePhotoPath4: path })}
-              onJackToolsPresentChange={(value) => updateFormData({ jackToolsPresent: value })}
-              onJackToolsPhotoPathChange={(path) => updateFormData({ jackToolsPhotoPath: path })}
-            />
-          )}
-        </ErrorBoundary>
-      </div>
-
-      <div ref={mechanicalRef}>
-        <ErrorBoundary fallback={<div>Error loading mechanical section</div>}>
-          {sectionsInView.mechanical && (
-            <MechanicalSection
-              claimId={claimId}
-              inspectionId={inspectionId}
-              engineBayPhotoPath={formData.engineBayPhotoPath}
-              batteryPhotoPath={formData.batteryPhotoPath}
-              mechanicalCondition={formData.mechanicalCondition}
-              electricalCondition={formData.electricalCondition}
-              onEngineBayPhotoPathChange={(path) => updateFormData({ engineBayPhotoPath: path })}
-              onBatteryPhotoPathChange={(path) => updateFormData({ batteryPhotoPath: path })}
-              onMechanicalConditionChange={(value) => updateFormData({ mechanicalCondition: value })}
-              onElectricalConditionChange={(value) => updateFormData({ electricalCondition: value })}
-            />
-          )}
-        </ErrorBoundary>
-      </div>
 
-      <div ref={tyresRef}>
-        <ErrorBoundary fallback={<div>Error loading tyres section</div>}>
-          {sectionsInView.tyres && (
-            <TyresSection
-              claimId={claimId}
-              inspectionId={inspectionId}
-              tyreData={{
-                tyreRfFacePhotoPath: formData.tyreRfFacePhotoPath,
-                tyreRfMeasurementPhotoPath: formData.tyreRfMeasurementPhotoPath,
-                tyreRfTreadPhotoPath: formData.tyreRfTreadPhotoPath,
-                tyreRfMake: formData.tyreRfMake,
-                tyreRfSize: formData.tyreRfSize,
-                tyreRfLoadSpeed: formData.tyreRfLoadSpeed,
-
-                tyreRrFacePhotoPath: formData.tyreRrFacePhotoPath,
-                tyreRrMeasurementPhotoPath: formData.tyreRrMeasurementPhotoPath,
-                tyreRrTreadPhotoPath: formData.tyreRrTreadPhotoPath,
-                tyreRrMake: formData.tyreRrMake,
-                tyreRrSize: formData.tyreRrSize,
-                tyreRrLoadSpeed: formData.tyreRrLoadSpeed,
-
-                tyreLrFacePhotoPath: formData.tyreLrFacePhotoPath,
-                tyreLrMeasurementPhotoPath: formData.tyreLrMeasurementPhotoPath,
-                tyreLrTreadPhotoPath: formData.tyreLrTreadPhotoPath,
-                tyreLrMake: formData.tyreLrMake,
-                tyreLrSize: formData.tyreLrSize,
-                tyreLrLoadSpeed: formData.tyreLrLoadSpeed,
-
-                tyreLfFacePhotoPath: formData.tyreLfFacePhotoPath,
-                tyreLfMeasurementPhotoPath: formData.tyreLfMeasurementPhotoPath,
-                tyreLfTreadPhotoPath: formData.tyreLfTreadPhotoPath,
-                tyreLfMake: formData.tyreLfMake,
-                tyreLfSize: formData.tyreLfSize,
-                tyreLfLoadSpeed: formData.tyreLfLoadSpeed,
-
-                tyreSpareFacePhotoPath: formData.tyreSpareFacePhotoPath,
-                tyreSpareMeasurementPhotoPath: formData.tyreSpareMeasurementPhotoPath,
-                tyreSpareTreadPhotoPath: formData.tyreSpareTreadPhotoPath,
-                tyreSpareMake: formData.tyreSpareMake,
-                tyreSparSize: formData.tyreSparSize,
-                tyreSparLoadSpeed: formData.tyreSparLoadSpeed
+        {isSectionEnabled("mechanical") && (
+          <div ref={mechanicalRef}>
+            <ErrorBoundary fallback={<div>Error loading mechanical section</div>}>
+              {sectionsInView.mechanical && (
+                <MechanicalSection
+                  claimId={claimId}
+                  inspectionId={inspectionId}
+                  engineBayPhotoPath={formData.engineBayPhotoPath}
+                  batteryPhotoPath={formData.batteryPhotoPath}
+                  mechanicalCondition={formData.mechanicalCondition}
+                  electricalCondition={formData.electricalCondition}
+                  onEngineBayPhotoPathChange={(path) => updateFormData({ engineBayPhotoPath: path })}
+                  onBatteryPhotoPathChange={(path) => updateFormData({ batteryPhotoPath: path })}
+                  onMechanicalConditionChange={(value) => updateFormData({ mechanicalCondition: value })}
+                  onElectricalConditionChange={(value) => updateFormData({ electricalCondition: value })}
+                />
+              )}
+            </ErrorBoundary>
+          </div>
+        )}
+        {renderTemplatePhotos("mechanical")}
+
+        {isSectionEnabled("tyres") && (
+          <div ref={tyresRef}>
+            <ErrorBoundary fallback={<div>Error loading tyres section</div>}>
+              {sectionsInView.tyres && (
+                <TyresSection
+                  claimId={claimId}
+                  inspectionId={inspectionId}
+                  tyreData={{
+                    tyreRfFacePhotoPath: formData.tyreRfFacePhotoPath,
+                    tyreRfMeasurementPhotoPath: formData.tyreRfMeasurementPhotoPath,
+                    tyreRfTreadPhotoPath: formData.tyreRfTreadPhotoPath,
+                    tyreRfMake: formData.tyreRfMake,
+                    tyreRfSize: formData.tyreRfSize,
+                    tyreRfLoadSpeed: formData.tyreRfLoadSpeed,
+                    tyreRfMeasurements: formData.tyreRfMeasurements,
+
+                    tyreRrFacePhotoPath: formData.tyreRrFacePhotoPath,
+                    tyreRrMeasurementPhotoPath: formData.tyreRrMeasurementPhotoPath,
+                    tyreRrTreadPhotoPath: formData.tyreRrTreadPhotoPath,
+                    tyreRrMake: formData.tyreRrMake,
+                    tyreRrSize: formData.tyreRrSize,
+                    tyreRrLoadSpeed: formData.tyreRrLoadSpeed,
+                    tyreRrMeasurements: formData.tyreRrMeasurements,
+
+                    tyreLrFacePhotoPath: formData.tyreLrFacePhotoPath,
+                    tyreLrMeasurementPhotoPath: formData.tyreLrMeasurementPhotoPath,
+                    tyreLrTreadPhotoPath: formData.tyreLrTreadPhotoPath,
+                    tyreLrMake: formData.tyreLrMake,
+                    tyreLrSize: formData.tyreLrSize,
+                    tyreLrLoadSpeed: formData.tyreLrLoadSpeed,
+                    tyreLrMeasurements: formData.tyreLrMeasurements,
+
+                    tyreLfFacePhotoPath: formData.tyreLfFacePhotoPath,
+                    tyreLfMeasurementPhotoPath: formData.tyreLfMeasurementPhotoPath,
+                    tyreLfTreadPhotoPath: formData.tyreLfTreadPhotoPath,
+                    tyreLfMake: formData.tyreLfMake,
+                    tyreLfSize: formData.tyreLfSize,
+                    tyreLfLoadSpeed: formData.tyreLfLoadSpeed,
+                    tyreLfMeasurements: formData.tyreLfMeasurements,
+
+                    tyreSpareFacePhotoPath: formData.tyreSpareFacePhotoPath,
+                    tyreSpareMeasurementPhotoPath: formData.tyreSpareMeasurementPhotoPath,
+                    tyreSpareTreadPhotoPath: formData.tyreSpareTreadPhotoPath,
+                    tyreSpareMake: formData.tyreSpareMake,
+                    tyreSparSize: formData.tyreSparSize,
+                    tyreSparLoadSpeed: formData.tyreSparLoadSpeed,
+                    tyreSpareMeasurements: formData.tyreSpareMeasurements
+                  }}
+                  onTyreDataChange={(updates) => updateFormData(updates)}
+                  additionalTyres={formData.additionalTyres}
+                  onAdditionalTyresChange={(tyres) => updateFormData({ additionalTyres: tyres })}
+                />
+              )}
+            </ErrorBoundary>
+          </div>
+        )}
+        {renderTemplatePhotos("tyres")}
+
+        <div ref={notesRef}>
+          <ErrorBoundary fallback={<div>Error loading notes</div>}>
+            <NotesSection
+              notes={formData.notes}
+              onNotesChange={(value) => {
+                if (!isCompleted) updateFormData({ notes: value });
               }}
-              onTyreDataChange={(updates) => updateFormData(updates)}
-              additionalTyres={formData.additionalTyres}
-              onAdditionalTyresChange={(tyres) => updateFormData({ additionalTyres: tyres })}
+              onSubmit={saveToServer}
             />
-          )}
-        </ErrorBoundary>
-      </div>
-
-      <div ref={notesRef}>
-        <ErrorBoundary fallback={<div>Error loading notes</div>}>
-          <NotesSection
-            notes={formData.notes}
-            onNotesChange={(value) =>
-              updateFormData({ notes: value })
-            }
-            onSubmit={saveToServer}
+          </ErrorBoundary>
+        </div>
+      </fieldset>
+
+      {existingInspection && (
+        <ErrorBoundary fallback={<div>Error loading inspection summary</div>}>
+          <InspectionSummary
+            missingPhotos={isCompleted ? undefined : missingPhotos}
+            tyreFlags={tyreFlags}
+            templateName={inspectionTemplate?.name}
           />
         </ErrorBoundary>
-      </div>
-
-      <div className="flex justify-between items-center pb-8">
-        <StatusBadge status={status} className="ml-2" />
-
-        <Button
-          onClick={saveToServer}
-          disabled={status === 'saving' || !hasUnsavedChanges()}
-          size="lg"
-          className="gap-1"
-        >
-          {status === 'saving' ? (
-            <>
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span>Saving to Server...</span>
-            </>
-          ) : status === 'saved' && !hasUnsavedChanges() ? (
-            <>
-              <CheckCircle className="h-4 w-4" />
-              <span>All Changes Saved</span>
-            </>
-          ) : (
-            <>
-              <Save className="h-4 w-4" />
-              <span>Save to Server</span>
-            </>
-          )}
-        </Button>
-      </div>
+      )}
+
+      {!isCompleted && (
+        <div className="flex justify-between items-center pb-8">
+          <StatusBadge status={status} className="ml-2" />
+
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={saveToServer}
+              disabled={status === 'saving' || !hasUnsavedChanges()}
+              size="lg"
+              className="gap-1"
+            >
+              {status === 'saving' ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Saving to Server...</span>
+                </>
+              ) : status === 'saved' && !hasUnsavedChanges() ? (
+                <>
+                  <CheckCircle className="h-4 w-4" />
+                  <span>All Changes Saved</span>
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  <span>Save Draft</span>
+                </>
+              )}
+            </Button>
+
+            <Button
+              onClick={() => existingInspection && completeInspection.mutate({ id: existingInspection.id })}
+              disabled={
+                !existingInspection ||
+                hasUnsavedChanges() ||
+                missingPhotos.length > 0 ||
+                completeInspection.isPending
+              }
+              title={hasUnsavedChanges() ? "Save the draft before completing the inspection" : undefined}
+              size="lg"
+              variant="secondary"
+              className="gap-1"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              <span>{completeInspection.isPending ? "Completing..." : "Complete Inspection"}</span>
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
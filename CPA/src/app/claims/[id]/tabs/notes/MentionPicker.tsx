@@ -0,0 +1,79 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AtSign, X } from "lucide-react";
+import { useEmployees } from "@/lib/api/domains/lookups/hooks";
+
+interface MentionPickerProps {
+  value: string[];
+  onChange: (userIds: string[]) => void;
+  // Called with the name of a newly picked employee, so the mention can be written into the note
+  onMention?: (name: string) => void;
+  disabled?: boolean;
+}
+
+export function MentionPicker({ value, onChange, onMention, disabled }: MentionPickerProps) {
+  const { data: employees = [], isLoading } = useEmployees();
+
+  const toggle = (employee: { id: string; name: string }, checked: boolean) => {
+    onChange(checked ? [...value, employee.id] : value.filter((id) => id !== employee.id));
+    if (checked) onMention?.(employee.name);
+  };
+
+  const mentioned = employees.filter((employee) => value.includes(employee.id));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={disabled}>
+            <AtSign className="mr-2 h-4 w-4" />
+            Mention
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-2">
+          {isLoading ? (
+            <div className="p-2 text-sm text-muted-foreground">Loading employees...</div>
+          ) : employees.length === 0 ? (
+            <div className="p-2 text-sm text-muted-foreground">No employees found</div>
+          ) : (
+            <div className="max-h-64 space-y-1 overflow-y-auto">
+              {employees.map((employee) => (
+                <label
+                  key={employee.id}
+                  htmlFor={`mention-${employee.id}`}
+                  className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+                >
+                  <Checkbox
+                    id={`mention-${employee.id}`}
+                    checked={value.includes(employee.id)}
+                    onCheckedChange={(checked) => toggle(employee, checked === true)}
+                  />
+                  {employee.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {mentioned.map((employee) => (
+        <Badge key={employee.id} variant="secondary" className="gap-1">
+          @{employee.name}
+          {!disabled && (
+            <button
+              type="button"
+              onClick={() => toggle(employee, false)}
+              aria-label={`Remove mention of ${employee.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
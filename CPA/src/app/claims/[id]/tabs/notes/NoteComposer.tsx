@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RichTextEditor } from "@/components/inspection/RichTextEditor";
+import { MentionPicker } from "./MentionPicker";
+import { type ClaimNote } from "@/lib/api/domains/notes/types";
+import { useCreateClaimNote, useUpdateClaimNote } from "@/lib/api/domains/notes/hooks";
+import { findMentionedEmployees, formatMention } from "@/lib/api/domains/notes/mentions";
+import { useEmployees } from "@/lib/api/domains/lookups/hooks";
+
+interface NoteComposerProps {
+  claimId: string;
+  // The note being edited; a new note is written when omitted
+  note?: ClaimNote;
+  onDone?: () => void;
+}
+
+// The editor produces an empty paragraph when all text is removed
+const isEmptyBody = (body: string) => body.replace(/<[^>]*>/g, "").trim() === "";
+
+// Write a mention at the end of the note's last paragraph
+const appendMention = (body: string, name: string) => {
+  const mention = formatMention(name).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  if (isEmptyBody(body)) return `<p>${mention} </p>`;
+  return body.endsWith("</p>") ? `${body.slice(0, -"</p>".length)} ${mention} </p>` : `${body}<p>${mention} </p>`;
+};
+
+export function NoteComposer({ claimId, note, onDone }: NoteComposerProps) {
+  const createNote = useCreateClaimNote();
+  const updateNote = useUpdateClaimNote();
+  const { data: employees = [] } = useEmployees();
+
+  const [body, setBody] = useState(note?.body ?? "");
+  const [isClientVisible, setIsClientVisible] = useState(note ? !note.is_internal : false);
+  const [mentionedUserIds, setMentionedUserIds] = useState<string[]>(note?.mentioned_user_ids ?? []);
+
+  const isPending = createNote.isPending || updateNote.isPending;
+  const switchId = note ? `note-client-visible-${note.id}` : "note-client-visible";
+
+  const reset = () => {
+    setBody("");
+    setIsClientVisible(false);
+    setMentionedUserIds([]);
+  };
+
+  const handleSubmit = () => {
+    if (isEmptyBody(body)) return;
+
+    const values = {
+      body,
+      is_internal: !isClientVisible,
+      // Employees whose mention was removed from the text are no longer mentioned
+      mentioned_user_ids: mentionedUserIds.filter((userId) => {
+        const employee = employees.find((item) => item.id === userId);
+        return !employee || findMentionedEmployees(body, [employee]).length > 0;
+      }),
+    };
+
+    if (note) {
+      updateNote.mutate({ id: note.id, ...values }, { onSuccess: () => onDone?.() });
+    } else {
+      createNote.mutate(
+        { claim_id: claimId, ...values },
+        {
+          onSuccess: () => {
+            reset();
+            onDone?.();
+          },
+        }
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <RichTextEditor
+        content={body}
+        onChange={setBody}
+        onSubmit={handleSubmit}
+        addTimestamp={false}
+        submitLabel={isPending ? "Saving..." : note ? "Save Note" : "Add Note"}
+        submitDisabled={isPending || isEmptyBody(body)}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <MentionPicker
+          value={mentionedUserIds}
+          onChange={setMentionedUserIds}
+          onMention={(name) => setBody((current) => appendMention(current, name))}
+          disabled={isPending}
+        />
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={switchId}
+              checked={isClientVisible}
+              onCheckedChange={setIsClientVisible}
+              disabled={isPending}
+            />
+            <Label htmlFor={switchId}>Visible to client</Label>
+          </div>
+          {note && (
+            <Button type="button" variant="ghost" size="sm" onClick={onDone} disabled={isPending}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
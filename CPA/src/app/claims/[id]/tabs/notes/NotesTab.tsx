@@ -1,55 +1,200 @@
+"use client";
+
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Pin, PinOff, Trash2 } from "lucide-react";
+import { RichTextContent } from "@/components/inspection/RichTextEditor";
 import { type ClaimDetails } from "@/lib/api/domains/claims/types";
+import { type ClaimNote } from "@/lib/api/domains/notes/types";
+import {
+  useClaimNotes,
+  useSetClaimNotePinned,
+  useDeleteClaimNote,
+} from "@/lib/api/domains/notes/hooks";
+import { useEmployees } from "@/lib/api/domains/lookups/hooks";
 import { formatDate } from "@/lib/utils";
+import { NoteComposer } from "./NoteComposer";
 
 interface NotesTabProps {
+  claimId: string;
   claimData: {
     details?: ClaimDetails | null;
     summary?: any | null;
   };
 }
 
-export default function NotesTab({ claimData }: NotesTabProps) {
-  // Use details if available
+const formatTimestamp = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "unknown date";
+
+export default function NotesTab({ claimId, claimData }: NotesTabProps) {
   const data = claimData.details;
-  
-  if (!data) {
-    return (
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">Notes</h2>
-        <p className="text-muted-foreground">No claim data available</p>
-      </div>
-    );
-  }
 
-  // For now, we'll just display the accident description as a note
-  // In a real implementation, this would be replaced with actual notes from the database
-  const hasNotes = !!data.accident_description;
+  const { data: notes = [], isLoading, error } = useClaimNotes(claimId);
+  const { data: employees = [] } = useEmployees();
+  const setPinned = useSetClaimNotePinned();
+  const deleteNote = useDeleteClaimNote(claimId);
+
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [noteToDelete, setNoteToDelete] = useState<ClaimNote | null>(null);
+
+  const employeeNames = new Map(employees.map((employee) => [employee.id, employee.name]));
+
+  const renderNote = (note: ClaimNote) => {
+    const isEdited = !!note.updated_at && !!note.created_at && note.updated_at !== note.created_at;
+    const mentionedNames = note.mentioned_user_ids
+      .map((userId) => employeeNames.get(userId))
+      .filter(Boolean);
 
-  if (!hasNotes) {
     return (
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">Notes</h2>
-        <p className="text-muted-foreground">No notes available</p>
-      </div>
+      <Card key={note.id} className={note.is_pinned ? "border-primary" : undefined}>
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <CardTitle className="text-base">{note.author_name || "Unknown author"}</CardTitle>
+                <Badge variant={note.is_internal ? "outline" : "secondary"}>
+                  {note.is_internal ? "Internal" : "Client-visible"}
+                </Badge>
+                {note.is_pinned && (
+                  <Badge variant="default" className="gap-1">
+                    <Pin className="h-3 w-3" />
+                    Pinned
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatTimestamp(note.created_at)}
+                {isEdited && ` (edited ${formatTimestamp(note.updated_at)})`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setPinned.mutate({ id: note.id, is_pinned: !note.is_pinned })}
+                disabled={setPinned.isPending}
+                title={note.is_pinned ? "Unpin note" : "Pin note"}
+              >
+                {note.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+              {note.is_author && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setEditingNoteId(note.id)}
+                    disabled={editingNoteId === note.id}
+                    title="Edit note"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setNoteToDelete(note)}
+                    title="Delete note"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {editingNoteId === note.id ? (
+            <NoteComposer claimId={claimId} note={note} onDone={() => setEditingNoteId(null)} />
+          ) : (
+            <>
+              <RichTextContent content={note.body} />
+              {mentionedNames.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Mentioned: {mentionedNames.map((name) => `@${name}`).join(", ")}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
     );
-  }
+  };
 
   return (
     <div className="space-y-6">
       <h2 className="text-xl font-semibold">Notes</h2>
-      
+
       <Card>
         <CardHeader className="pb-2">
-          <CardTitle className="text-lg">Accident Description</CardTitle>
-          <p className="text-sm text-muted-foreground">
-            Added on {data.created_at ? formatDate(new Date(data.created_at)) : 'unknown date'}
-          </p>
+          <CardTitle className="text-lg">Add Note</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="whitespace-pre-wrap">{data.accident_description}</p>
+          <NoteComposer claimId={claimId} />
         </CardContent>
       </Card>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading notes...</p>
+      ) : error ? (
+        <p className="text-destructive">Failed to load notes: {error.message}</p>
+      ) : notes.length === 0 ? (
+        <p className="text-muted-foreground">No notes available</p>
+      ) : (
+        <div className="space-y-4">{notes.map(renderNote)}</div>
+      )}
+
+      {data?.accident_description && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Accident Description</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Added on {data.created_at ? formatDate(new Date(data.created_at)) : 'unknown date'}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <p className="whitespace-pre-wrap">{data.accident_description}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Delete note confirmation */}
+      <AlertDialog open={!!noteToDelete} onOpenChange={(open) => !open && setNoteToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Note</AlertDialogTitle>
+            <AlertDialogDescription>
+              This note will be removed from the claim. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (noteToDelete) {
+                  deleteNote.mutate({ id: noteToDelete.id });
+                }
+                setNoteToDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
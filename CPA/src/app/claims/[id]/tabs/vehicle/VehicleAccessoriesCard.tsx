@@ -0,0 +1,64 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { StorageImage } from "@/components/ui/StorageImage";
+import { conditionBadgeVariant } from "@/components/inspection/sections/AccessoriesSection";
+import { useVehicleAccessories, type VehicleAccessory } from "@/lib/api/domains/vehicle-accessories";
+
+interface VehicleAccessoriesCardProps {
+  vehicleId: string;
+}
+
+export function VehicleAccessoriesCard({ vehicleId }: VehicleAccessoriesCardProps) {
+  const { data: accessories = [], isLoading } = useVehicleAccessories(vehicleId);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Accessories</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading accessories...</p>
+        ) : accessories.length === 0 ? (
+          <p className="text-muted-foreground">No accessories recorded</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {accessories.map((accessory: VehicleAccessory) => (
+              <div key={accessory.id} className="flex gap-4 rounded-md border p-3">
+                <div className="relative h-20 w-20 shrink-0 overflow-hidden rounded-md bg-muted">
+                  {accessory.photo_path ? (
+                    <StorageImage
+                      filePath={accessory.photo_path}
+                      alt={accessory.accessory_type}
+                      fill
+                      sizes="80px"
+                      objectFit="cover"
+                      thumbnail
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                      No photo
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{accessory.accessory_type}</p>
+                    {accessory.condition && (
+                      <Badge variant={conditionBadgeVariant(accessory.condition)} className="capitalize">
+                        {accessory.condition}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{accessory.description || 'No description'}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { type ClaimDetails, type ClaimSummary } from "@/lib/api/domains/claims/types";
 import { type Vehicle } from "@/lib/api/domains/vehicles/types";
+import { VehicleAccessoriesCard } from "./VehicleAccessoriesCard";
 
 interface VehicleTabProps {
   claimData: {
@@ -96,6 +97,8 @@ export default function VehicleTab({ claimData, vehicleData }: VehicleTabProps)
           </CardContent>
         </Card>
       )}
+
+      <VehicleAccessoriesCard vehicleId={vehicle.id} />
     </div>
   );
 }
@@ -28,6 +28,8 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { ClaimInstruction } from "@/lib/api/domains/claims";
 import { useRouter } from "next/navigation";
+import { ClientContactPicker } from "@/components/clients/ClientContactPicker";
+import { type ClientContact } from "@/lib/api/domains/client-contacts/types";
 
 interface ClaimInfoTabProps {
   form: UseFormReturn<FormValues>;
@@ -45,6 +47,17 @@ export function ClaimInfoTab({
   goToNextTab,
 }: ClaimInfoTabProps) {
   const router = useRouter();
+  const clientId = form.watch("client_id");
+
+  // Fill the claims handler fields from the selected contact
+  const handleContactChange = (contact: ClientContact | null) => {
+    form.setValue("primary_client_contact_id", contact?.id ?? null);
+    if (contact) {
+      form.setValue("claims_handler_name", contact.full_name);
+      form.setValue("claims_handler_contact", contact.phone || "");
+      form.setValue("claims_handler_email", contact.email || "");
+    }
+  };
 
   // Use tRPC hooks directly
   const {
@@ -346,6 +359,27 @@ export function ClaimInfoTab({
       <div className="space-y-6">
         <h3 className="text-lg font-medium mb-6 pb-2 border-b">Claims Handler Information</h3>
         <div className="grid grid-cols-1 gap-x-6 gap-y-8 md:grid-cols-2 md:items-start">
+          {/* Client Contact */}
+          <FormField
+            control={form.control}
+            name="primary_client_contact_id"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Client Contact</FormLabel>
+                <ClientContactPicker
+                  clientId={clientId}
+                  value={field.value}
+                  onChange={handleContactChange}
+                  disabled={isSubmitting}
+                />
+                <FormDescription>
+                  Select a saved contact to fill in the handler details, or add a new one
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           {/* Claims Handler Name */}
           <FormField
             control={form.control}
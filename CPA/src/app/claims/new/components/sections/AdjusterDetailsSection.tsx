@@ -9,6 +9,8 @@ import { EnhancedSelect } from "@/components/ui/enhanced-select";
 // Import the direct tRPC API instead of the custom hook
 import { api } from "@/trpc/react";
 import { Loader2 } from "lucide-react";
+import { ClientContactPicker } from "@/components/clients/ClientContactPicker";
+import { type ClientContact } from "@/lib/api/domains/client-contacts/types";
 
 interface AdjusterDetailsSectionProps {
   form: any;
@@ -49,6 +51,26 @@ export function AdjusterDetailsSection({ form, isSubmitting }: AdjusterDetailsSe
     }
   }, [adjusters, isLoadingAdjusters, refetch]);
 
+  // A contact belongs to one client, so drop the selection when the client changes
+  const clientId = form.watch("client_id");
+  const previousClientId = React.useRef(clientId);
+  React.useEffect(() => {
+    if (previousClientId.current !== clientId) {
+      previousClientId.current = clientId;
+      form.setValue("primary_client_contact_id", null);
+    }
+  }, [clientId, form]);
+
+  // Fill the claims handler fields from the selected contact
+  const handleContactChange = (contact: ClientContact | null) => {
+    form.setValue("primary_client_contact_id", contact?.id ?? null);
+    if (contact) {
+      form.setValue("claims_handler_name", contact.full_name);
+      form.setValue("claims_handler_contact", contact.phone || "");
+      form.setValue("claims_handler_email", contact.email || "");
+    }
+  };
+
   return (
     <Card className="mb-6">
       <CardHeader>
@@ -59,6 +81,24 @@ export function AdjusterDetailsSection({ form, isSubmitting }: AdjusterDetailsSe
       </CardHeader>
       <CardContent className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Client Contact */}
+          <FormField
+            control={form.control}
+            name="primary_client_contact_id"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Client Contact</FormLabel>
+                <ClientContactPicker
+                  clientId={clientId}
+                  value={field.value}
+                  onChange={handleContactChange}
+                  disabled={isSubmitting}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           {/* Claims Handler Name */}
           <FormField
             control={form.control}
@@ -59,6 +59,7 @@ export function useClaimSubmission() {
         time_of_loss: data.time_of_loss,
         type_of_loss: data.type_of_loss as TypeOfLoss || undefined,
         accident_description: data.accident_description || undefined,
+        primary_client_contact_id: data.primary_client_contact_id || undefined,
         claims_handler_name: data.claims_handler_name || undefined,
         claims_handler_contact: data.claims_handler_contact || undefined,
         claims_handler_email: data.claims_handler_email || undefined,
@@ -31,6 +31,7 @@ export const formSchema = z.object({
   accident_description: z.string().optional(),
 
   // Claims Handler Information
+  primary_client_contact_id: z.string().uuid().optional().nullable(),
   claims_handler_name: z.string().optional().nullable(),
   claims_handler_contact: z.string().optional().nullable(),
   claims_handler_email: z.string().email("Invalid email address").optional().nullable(),
@@ -119,6 +120,7 @@ export const defaultFormValues: Partial<FormValues> = {
   accident_description: "",
 
   // Claims Handler Information
+  primary_client_contact_id: null,
   claims_handler_name: "",
   claims_handler_contact: "",
   claims_handler_email: "",
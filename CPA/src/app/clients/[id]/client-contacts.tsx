@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Plus, UserX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ClientContactDialog } from "@/components/clients/ClientContactDialog";
+import {
+  useClientContacts,
+  useDeactivateClientContact,
+} from "@/lib/api/domains/client-contacts/hooks";
+import { type ClientContact } from "@/lib/api/domains/client-contacts/types";
+
+interface ClientContactsProps {
+  clientId: string;
+}
+
+export function ClientContacts({ clientId }: ClientContactsProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingContact, setEditingContact] = useState<ClientContact | null>(null);
+
+  const { data: contacts = [], isLoading } = useClientContacts({ client_id: clientId });
+  const deactivateContact = useDeactivateClientContact();
+
+  const openDialog = (contact: ClientContact | null) => {
+    setEditingContact(contact);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Contacts</CardTitle>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Contact
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div>Loading contacts...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Job Title</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contacts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                    No contacts have been added for this client yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                contacts.map((contact: ClientContact) => (
+                  <TableRow key={contact.id}>
+                    <TableCell className="font-medium">
+                      {contact.full_name}
+                      {contact.is_primary && (
+                        <Badge variant="secondary" className="ml-2">Primary</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{contact.job_title || "-"}</TableCell>
+                    <TableCell>{contact.phone || "-"}</TableCell>
+                    <TableCell>{contact.email || "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDialog(contact)}
+                          title="Edit contact"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deactivateContact.mutate({ id: contact.id })}
+                          disabled={deactivateContact.isPending}
+                          title="Deactivate contact"
+                        >
+                          <UserX className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ClientContactDialog
+        clientId={clientId}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        contact={editingContact}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DetailLoadingSkeleton, TableLoadingSkeleton } from "@/components/ui/loading-states";
+import { useRouter } from "next/navigation";
+import { formatDate } from "@/lib/utils";
+import { useClient, useClientStats, useDeleteClient } from "@/lib/api/domains/clients/hooks";
+import { useClaimsList, type ClaimListItem, type ClaimListResponse } from "@/lib/api/domains/claims";
+import { ClientForm } from "../client-form";
+import { ClientContacts } from "./client-contacts";
+import { InspectionTemplateCard } from "./inspection-template";
+
+const CLAIMS_PAGE_SIZE = 10;
+
+interface ClientDetailProps {
+  id: string;
+}
+
+export function ClientDetail({ id }: ClientDetailProps) {
+  const router = useRouter();
+  const [claimsPage, setClaimsPage] = useState(1);
+
+  const { data: client, isLoading, isError, error } = useClient(id);
+  const { data: stats } = useClientStats(id);
+  const claimsQuery = useClaimsList({
+    filter: "all",
+    client_id: id,
+    page: claimsPage,
+    limit: CLAIMS_PAGE_SIZE,
+    sortBy: "created_at",
+    sortOrder: "desc",
+  });
+  const deleteClient = useDeleteClient();
+
+  const claimsData = claimsQuery.data as ClaimListResponse | undefined;
+  const isLoadingClaims = claimsQuery.isLoading;
+  const claims: ClaimListItem[] = claimsData?.items ?? [];
+  const claimsPagination = claimsData?.pagination;
+
+  if (isLoading) {
+    return <DetailLoadingSkeleton />;
+  }
+
+  if (isError || !client) {
+    return (
+      <div className="space-y-4">
+        <Link href="/clients">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Clients
+          </Button>
+        </Link>
+        <div className="p-6 bg-red-50 border border-red-200 rounded-md">
+          <h3 className="text-lg font-medium text-red-800 mb-2">Error Loading Client</h3>
+          <p className="text-red-700">{error?.message || "The client could not be found."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const kpis = [
+    { label: "Total Claims", value: stats?.total_claims ?? "-" },
+    { label: "Open Claims", value: stats?.open_claims ?? "-" },
+    { label: "Finalized", value: stats?.finalized_claims ?? "-" },
+    { label: "Canceled", value: stats?.canceled_claims ?? "-" },
+    {
+      label: "Last Claim",
+      value: stats?.last_claim_at ? formatDate(new Date(stats.last_claim_at)) : "-",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link href="/clients">
+        <Button variant="ghost" size="sm">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Clients
+        </Button>
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-3xl font-bold tracking-tight">{client.name}</h2>
+          {client.code && <Badge variant="outline">{client.code}</Badge>}
+        </div>
+
+        {stats?.total_claims === 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={deleteClient.isPending}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                {deleteClient.isPending ? "Deleting..." : "Delete"}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this client?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The client and its contacts will be permanently deleted.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() =>
+                    deleteClient.mutate(
+                      { id: client.id },
+                      { onSuccess: () => router.push("/clients") }
+                    )
+                  }
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        {kpis.map((kpi) => (
+          <Card key={kpi.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{kpi.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{kpi.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Claims</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoadingClaims ? (
+            <TableLoadingSkeleton rows={5} />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job Number</TableHead>
+                  <TableHead>Client Reference</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claims.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                      No claims have been logged for this client yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  claims.map((claim) => (
+                    <TableRow key={claim.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/claims/${claim.id}`} className="hover:underline">
+                          {claim.job_number || "-"}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{claim.client_reference || "-"}</TableCell>
+                      <TableCell>
+                        {claim.vehicle
+                          ? [claim.vehicle.make, claim.vehicle.model, claim.vehicle.registration_number]
+                              .filter(Boolean)
+                              .join(" ")
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{claim.status}</Badge>
+                      </TableCell>
+                      <TableCell>{claim.created_at ? formatDate(claim.created_at) : "-"}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          {claimsPagination && claimsPagination.pages > 1 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                Page {claimsPagination.current} of {claimsPagination.pages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setClaimsPage((current) => current - 1)}
+                  disabled={claimsPage <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setClaimsPage((current) => current + 1)}
+                  disabled={!claimsPagination.hasMore}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ClientContacts clientId={client.id} />
+
+      <InspectionTemplateCard clientId={client.id} />
+
+      <ClientForm key={client.id} client={client} />
+    </div>
+  );
+}
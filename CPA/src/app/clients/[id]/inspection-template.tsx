@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  useInspectionTemplate,
+  useResetInspectionTemplate,
+  useSaveInspectionTemplate,
+} from "@/lib/api/domains/inspection-templates/hooks";
+import {
+  type InspectionExtraPhotoSlot,
+  type InspectionTemplate,
+  type InspectionTemplateSection,
+} from "@/lib/api/domains/inspection-templates/types";
+import { resolveInspectionTemplate } from "@/lib/api/domains/inspections/requirements";
+
+interface InspectionTemplateCardProps {
+  clientId: string;
+}
+
+export function InspectionTemplateCard({ clientId }: InspectionTemplateCardProps) {
+  const { data: template, isLoading } = useInspectionTemplate(clientId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Inspection Checklist</CardTitle>
+        <Badge variant="outline">{template ? template.name : "Default checklist"}</Badge>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div>Loading inspection checklist...</div>
+        ) : (
+          // Remount when the saved template changes so the form starts from it
+          <InspectionTemplateEditor
+            key={template?.updated_at ?? "default"}
+            clientId={clientId}
+            template={template ?? null}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface InspectionTemplateEditorProps {
+  clientId: string;
+  template: InspectionTemplate | null;
+}
+
+function InspectionTemplateEditor({ clientId, template }: InspectionTemplateEditorProps) {
+  const saveTemplate = useSaveInspectionTemplate();
+  const resetTemplate = useResetInspectionTemplate();
+
+  const [name, setName] = useState(template?.name ?? "");
+  const [sections, setSections] = useState<InspectionTemplateSection[]>(() =>
+    resolveInspectionTemplate(template?.sections).map(({ section, enabled, photos, extraPhotos }) => ({
+      section,
+      enabled,
+      photos: Object.fromEntries(photos.map((photo) => [photo.field, photo.requirement])),
+      extra_photos: extraPhotos,
+    }))
+  );
+
+  const updateSection = (key: string, changes: Partial<InspectionTemplateSection>) => {
+    setSections((current) =>
+      current.map((section) => (section.section === key ? { ...section, ...changes } : section))
+    );
+  };
+
+  const updateExtraPhotos = (
+    key: string,
+    update: (extraPhotos: InspectionExtraPhotoSlot[]) => InspectionExtraPhotoSlot[]
+  ) => {
+    setSections((current) =>
+      current.map((section) =>
+        section.section === key ? { ...section, extra_photos: update(section.extra_photos) } : section
+      )
+    );
+  };
+
+  const updateExtraPhoto = (key: string, slotKey: string, changes: Partial<InspectionExtraPhotoSlot>) =>
+    updateExtraPhotos(key, (extraPhotos) =>
+      extraPhotos.map((slot) => (slot.key === slotKey ? { ...slot, ...changes } : slot))
+    );
+
+  const isPending = saveTemplate.isPending || resetTemplate.isPending;
+  const hasUnnamedPhotos = sections.some((section) => section.extra_photos.some((slot) => !slot.label.trim()));
+
+  return (
+    <div className="space-y-6">
+      <div className="max-w-sm space-y-2">
+        <Label htmlFor="inspection-template-name">Template Name</Label>
+        <Input
+          id="inspection-template-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Standard motor checklist"
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {resolveInspectionTemplate(sections).map((section) => {
+          const configured = sections.find((item) => item.section === section.section);
+          const switchId = `inspection-template-${section.section}`;
+
+          return (
+            <div key={section.section} className="space-y-3 rounded-md border p-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={switchId} className="font-medium">{section.label}</Label>
+                <Switch
+                  id={switchId}
+                  checked={section.enabled}
+                  onCheckedChange={(enabled) => updateSection(section.section, { enabled })}
+                />
+              </div>
+
+              {section.enabled && (
+                <div className="space-y-2">
+                  {section.photos.map((photo) => {
+                    const checkboxId = `${switchId}-${photo.field}`;
+
+                    return (
+                      <div key={photo.field} className="flex items-center gap-2">
+                        <Checkbox
+                          id={checkboxId}
+                          checked={photo.requirement === "required"}
+                          onCheckedChange={(checked) =>
+                            updateSection(section.section, {
+                              photos: {
+                                ...configured?.photos,
+                                [photo.field]: checked === true ? "required" : "optional",
+                              },
+                            })
+                          }
+                        />
+                        <Label htmlFor={checkboxId} className="text-sm font-normal">
+                          {photo.label}
+                          {photo.when && (
+                            <span className="text-muted-foreground"> (when present)</span>
+                          )}
+                        </Label>
+                      </div>
+                    );
+                  })}
+
+                  {section.extraPhotos.map((slot) => (
+                    <div key={slot.key} className="flex items-center gap-2">
+                      <Checkbox
+                        aria-label={`${slot.label || "Photo"} required`}
+                        checked={slot.requirement === "required"}
+                        onCheckedChange={(checked) =>
+                          updateExtraPhoto(section.section, slot.key, {
+                            requirement: checked === true ? "required" : "optional",
+                          })
+                        }
+                      />
+                      <Input
+                        value={slot.label}
+                        onChange={(e) => updateExtraPhoto(section.section, slot.key, { label: e.target.value })}
+                        placeholder="Photo name, e.g. Roof"
+                        className="h-8"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() =>
+                          updateExtraPhotos(section.section, (extraPhotos) =>
+                            extraPhotos.filter((item) => item.key !== slot.key)
+                          )
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      updateExtraPhotos(section.section, (extraPhotos) => [
+                        ...extraPhotos,
+                        { key: uuidv4(), label: "", requirement: "required" },
+                      ])
+                    }
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Photo
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Ticked photos are required before an inspection for this client can be completed. Added photos
+        are asked for in their section, after its standard photos. Disabled sections are hidden from
+        the inspection.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        {template && (
+          <Button
+            variant="outline"
+            onClick={() => resetTemplate.mutate({ client_id: clientId })}
+            disabled={isPending}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {resetTemplate.isPending ? "Resetting..." : "Reset to Default"}
+          </Button>
+        )}
+        <Button
+          onClick={() => saveTemplate.mutate({ client_id: clientId, name: name.trim(), sections })}
+          disabled={isPending || !name.trim() || hasUnnamedPhotos}
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {saveTemplate.isPending ? "Saving..." : "Save Checklist"}
+        </Button>
+      </div>
+    </div>
+  );
+}
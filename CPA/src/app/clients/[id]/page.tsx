@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { isValidUUID } from "@/lib/utils";
+import { ClientDetail } from "./client-detail";
+
+export const metadata: Metadata = {
+  title: "Client Details",
+  description: "View a client and its claims.",
+};
+
+export default async function ClientDetailsPage({ params }: { params: { id: string } }) {
+  // Ensure params is properly awaited
+  const { id } = await Promise.resolve(params);
+
+  if (!isValidUUID(id)) {
+    notFound();
+  }
+
+  return <ClientDetail id={id} />;
+}
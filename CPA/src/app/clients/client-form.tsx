@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { type z } from "zod";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  useCreateClient,
+  useUpdateClient,
+  useClientCodeAvailability,
+} from "@/lib/api/domains/clients/hooks";
+import {
+  type Client,
+  type ClientCreate,
+  ClientCodeSchema,
+  ClientCreateSchema,
+} from "@/lib/api/domains/clients/types";
+
+interface ClientFormProps {
+  // The client to edit; a new client is created when omitted
+  client?: Client;
+}
+
+export function ClientForm({ client }: ClientFormProps) {
+  const router = useRouter();
+  const createClient = useCreateClient();
+  const updateClient = useUpdateClient();
+
+  const form = useForm<z.input<typeof ClientCreateSchema>, unknown, ClientCreate>({
+    resolver: zodResolver(ClientCreateSchema),
+    defaultValues: {
+      name: client?.name ?? "",
+      code: client?.code ?? "",
+      address: client?.address ?? "",
+      phone: client?.phone ?? "",
+      email: client?.email ?? "",
+      contact_person: client?.contact_person ?? "",
+    },
+  });
+
+  // Check the code against other clients once the user stops typing
+  const code = form.watch("code");
+  const [debouncedCode, setDebouncedCode] = useState(code);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedCode(code), 400);
+    return () => clearTimeout(timeout);
+  }, [code]);
+
+  const isCodeValid = ClientCodeSchema.safeParse(debouncedCode).success;
+  const isOwnCode = !!client?.code && debouncedCode.toUpperCase() === client.code;
+  const { data: isCodeAvailable, isLoading: isCheckingCode } = useClientCodeAvailability(
+    { code: debouncedCode, exclude_id: client?.id },
+    isCodeValid && !isOwnCode
+  );
+  const isCodeTaken = isCodeValid && !isOwnCode && isCodeAvailable === false;
+
+  const isPending = createClient.isPending || updateClient.isPending;
+
+  const onSubmit = (data: ClientCreate) => {
+    if (isCodeTaken) return;
+
+    if (client) {
+      updateClient.mutate({ id: client.id, ...data });
+      return;
+    }
+
+    createClient.mutate(data, {
+      onSuccess: (created: Client) => {
+        router.push(`/clients/${created.id}`);
+      },
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Client Details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      maxLength={5}
+                      className="uppercase"
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      disabled={isPending}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    {isCheckingCode && isCodeValid && !isOwnCode
+                      ? "Checking code..."
+                      : "Prefix of this client's job numbers, e.g. ABC0001."}
+                  </FormDescription>
+                  {isCodeTaken ? (
+                    <p className="text-sm font-medium text-destructive">
+                      This code is already used by another client.
+                    </p>
+                  ) : (
+                    <FormMessage />
+                  )}
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contact_person"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact Person</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {client && (
+              <div className="space-y-2">
+                <Label htmlFor="client-last-claim-sequence">Last Claim Sequence</Label>
+                <Input
+                  id="client-last-claim-sequence"
+                  value={client.last_claim_sequence ?? 0}
+                  readOnly
+                  disabled
+                />
+                <p className="text-sm text-muted-foreground">
+                  Maintained automatically when claims are created.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => router.push("/clients")} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isPending || isCodeTaken}>
+            {isPending ? "Saving..." : client ? "Save Changes" : "Create Client"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
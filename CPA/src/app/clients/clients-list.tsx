@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableLoadingSkeleton } from "@/components/ui/loading-states";
+import { useClientsList } from "@/lib/api/domains/clients/hooks";
+import { type Client } from "@/lib/api/domains/clients/types";
+
+const PAGE_SIZE = 10;
+
+export function ClientsList() {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+
+  // Debounce the search input so every keystroke does not hit the server
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data, isLoading, isError, error } = useClientsList({
+    page,
+    limit: PAGE_SIZE,
+    search: search || undefined,
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+
+  const clients: Client[] = data?.items ?? [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="space-y-4">
+      <div className="relative w-full max-w-sm">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search by name or code..."
+          className="pl-8"
+        />
+      </div>
+
+      {isLoading ? (
+        <TableLoadingSkeleton rows={8} />
+      ) : isError ? (
+        <div className="p-4 border border-red-200 bg-red-50 rounded-md text-red-700">
+          Error loading clients: {error?.message}
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Contact Person</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="text-right">Claims Logged</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clients.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                    No clients found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                clients.map((client) => (
+                  <TableRow key={client.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/clients/${client.id}`} className="hover:underline">
+                        {client.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {client.code ? <Badge variant="outline">{client.code}</Badge> : "-"}
+                    </TableCell>
+                    <TableCell>{client.contact_person || "-"}</TableCell>
+                    <TableCell>{client.phone || "-"}</TableCell>
+                    <TableCell>{client.email || "-"}</TableCell>
+                    <TableCell className="text-right">{client.last_claim_sequence ?? 0}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            Page {pagination.current} of {pagination.pages} ({pagination.total} clients)
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((current) => current - 1)}
+              disabled={page <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((current) => current + 1)}
+              disabled={!pagination.hasMore}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
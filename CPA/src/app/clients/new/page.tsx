@@ -0,0 +1,35 @@
+import type { Metadata } from "next";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { ClientForm } from "../client-form";
+
+export const metadata: Metadata = {
+  title: "New Client",
+  description: "Add a client organization.",
+};
+
+export default function NewClientPage() {
+  return (
+    <div className="space-y-4">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/clients">Clients</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>New Client</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <h2 className="text-3xl font-bold tracking-tight">Create New Client</h2>
+      <ClientForm />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ClientsList } from "./clients-list";
+
+export const metadata: Metadata = {
+  title: "Clients",
+  description: "Manage the clients requesting claims.",
+};
+
+export default function ClientsPage() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Clients</h2>
+          <p className="text-muted-foreground">
+            Manage insurers, brokers and fleets and their job number codes
+          </p>
+        </div>
+        <Link href="/clients/new">
+          <Button>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            New Client
+          </Button>
+        </Link>
+      </div>
+      <ClientsList />
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Toaster } from "sonner";
 import { TRPCReactProvider } from "@/trpc/react";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AuthProvider } from "@/components/providers/AuthProvider";
+import { OfflineSyncProvider } from "@/components/providers/OfflineSyncProvider";
 import LayoutWithCounts from "./layout-with-counts";
 
 export const metadata: Metadata = {
@@ -28,10 +29,12 @@ export default function RootLayout({
 			<body className="overflow-hidden">
 				<TRPCReactProvider>
 					<AuthProvider>
-						<SidebarProvider defaultOpen={true}>
-							{/* LayoutWithCounts includes the server-side claim counts provider */}
-							<LayoutWithCounts>{children}</LayoutWithCounts>
-						</SidebarProvider>
+						<OfflineSyncProvider>
+							<SidebarProvider defaultOpen={true}>
+								{/* LayoutWithCounts includes the server-side claim counts provider */}
+								<LayoutWithCounts>{children}</LayoutWithCounts>
+							</SidebarProvider>
+						</OfflineSyncProvider>
 					</AuthProvider>
 				</TRPCReactProvider>
 				<Toaster richColors position="top-right" />
@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { isValidUUID } from "@/lib/utils";
+import { RepairerDetail } from "./repairer-detail";
+
+export const metadata: Metadata = {
+  title: "Repairer Details",
+  description: "View and edit a repairer.",
+};
+
+export default async function RepairerDetailsPage({ params }: { params: { id: string } }) {
+  // Ensure params is properly awaited
+  const { id } = await Promise.resolve(params);
+
+  if (!isValidUUID(id)) {
+    notFound();
+  }
+
+  return <RepairerDetail id={id} />;
+}
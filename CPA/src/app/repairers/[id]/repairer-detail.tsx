@@ -0,0 +1,98 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { FormLoadingSkeleton } from "@/components/ui/loading-states";
+import { useRepairer, useDeactivateRepairer } from "@/lib/api/domains/repairers/hooks";
+import { RepairerForm } from "../repairer-form";
+
+interface RepairerDetailProps {
+  id: string;
+}
+
+export function RepairerDetail({ id }: RepairerDetailProps) {
+  const { data: repairer, isLoading, isError, error } = useRepairer(id);
+  const deactivateRepairer = useDeactivateRepairer();
+
+  if (isLoading) {
+    return <FormLoadingSkeleton sections={2} fieldsPerSection={4} />;
+  }
+
+  if (isError || !repairer) {
+    return (
+      <div className="space-y-4">
+        <Link href="/repairers">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Repairers
+          </Button>
+        </Link>
+        <div className="p-6 bg-red-50 border border-red-200 rounded-md">
+          <h3 className="text-lg font-medium text-red-800 mb-2">Error Loading Repairer</h3>
+          <p className="text-red-700">{error?.message || "The repairer could not be found."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Link href="/repairers">
+        <Button variant="ghost" size="sm">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Repairers
+        </Button>
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-3xl font-bold tracking-tight">{repairer.name}</h2>
+          <Badge variant={repairer.is_active ? "success" : "outline"}>
+            {repairer.is_active ? "Active" : "Inactive"}
+          </Badge>
+        </div>
+
+        {repairer.is_active && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={deactivateRepairer.isPending}>
+                <Ban className="mr-2 h-4 w-4" />
+                {deactivateRepairer.isPending ? "Deactivating..." : "Deactivate"}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Deactivate this repairer?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The repairer will no longer be offered in the repairer pickers. Existing
+                  appointments and estimates keep their repairer.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => deactivateRepairer.mutate({ id: repairer.id })}>
+                  Deactivate
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      <RepairerForm key={repairer.id} repairer={repairer} />
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { Metadata } from "next";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { RepairerForm } from "../repairer-form";
+
+export const metadata: Metadata = {
+  title: "New Repairer",
+  description: "Add a repairer to the directory.",
+};
+
+export default function NewRepairerPage() {
+  return (
+    <div className="space-y-4">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/repairers">Repairers</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>New Repairer</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <h2 className="text-3xl font-bold tracking-tight">Create New Repairer</h2>
+      <RepairerForm />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RepairersList } from "./repairers-list";
+
+export const metadata: Metadata = {
+  title: "Repairers",
+  description: "Manage the repairers directory.",
+};
+
+export default function RepairersPage() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Repairers</h2>
+          <p className="text-muted-foreground">
+            Manage repairers and their default rates
+          </p>
+        </div>
+        <Link href="/repairers/new">
+          <Button>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            New Repairer
+          </Button>
+        </Link>
+      </div>
+      <RepairersList />
+    </div>
+  );
+}
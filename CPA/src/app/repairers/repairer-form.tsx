@@ -0,0 +1,323 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { type z } from "zod";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/trpc/react";
+import { useCreateRepairer, useUpdateRepairer } from "@/lib/api/domains/repairers/hooks";
+import {
+  type Repairer,
+  type RepairerCreate,
+  type RepairerType,
+  RepairerCreateSchema,
+  RepairerTypeOptions,
+} from "@/lib/api/domains/repairers/types";
+
+// Default rates pre-filled on estimates for the repairer
+const DEFAULT_RATE_FIELDS = [
+  { name: "default_panel_labor_rate", label: "Panel Labor Rate (per hour)" },
+  { name: "default_strip_fit_labor_rate", label: "Strip/Fit Labor Rate (per hour)" },
+  { name: "default_mechanical_labor_rate", label: "Mechanical Labor Rate (per hour)" },
+  { name: "default_electrical_labor_rate", label: "Electrical Labor Rate (per hour)" },
+  { name: "default_paint_material_rate", label: "Paint Material Rate (per panel)" },
+] as const;
+
+interface RepairerFormProps {
+  // The repairer to edit; a new repairer is created when omitted
+  repairer?: Repairer;
+}
+
+export function RepairerForm({ repairer }: RepairerFormProps) {
+  const router = useRouter();
+  const createRepairer = useCreateRepairer();
+  const updateRepairer = useUpdateRepairer();
+  const { data: provinces = [] } = api.lookup.getProvinces.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  const form = useForm<z.input<typeof RepairerCreateSchema>, unknown, RepairerCreate>({
+    resolver: zodResolver(RepairerCreateSchema),
+    defaultValues: {
+      name: repairer?.name ?? "",
+      address: repairer?.address ?? "",
+      province_id: repairer?.province_id ?? undefined,
+      contact_person: repairer?.contact_person ?? "",
+      phone: repairer?.phone ?? "",
+      email: repairer?.email ?? "",
+      types: (repairer?.types ?? []) as RepairerType[],
+      is_globally_approved: repairer?.is_globally_approved ?? false,
+      default_panel_labor_rate: repairer?.default_panel_labor_rate ?? undefined,
+      default_strip_fit_labor_rate: repairer?.default_strip_fit_labor_rate ?? undefined,
+      default_mechanical_labor_rate: repairer?.default_mechanical_labor_rate ?? undefined,
+      default_electrical_labor_rate: repairer?.default_electrical_labor_rate ?? undefined,
+      default_paint_material_rate: repairer?.default_paint_material_rate ?? undefined,
+      notes: repairer?.notes ?? "",
+    },
+  });
+
+  const isPending = createRepairer.isPending || updateRepairer.isPending;
+
+  const onSubmit = (data: RepairerCreate) => {
+    if (repairer) {
+      updateRepairer.mutate({ id: repairer.id, ...data });
+      return;
+    }
+
+    createRepairer.mutate(data, {
+      onSuccess: (created: Repairer) => {
+        router.push(`/repairers/${created.id}`);
+      },
+    });
+  };
+
+  // Parse an optional rate input, keeping an empty input unset
+  const parseRate = (value: string) => {
+    if (value === "") return undefined;
+    const rate = parseFloat(value);
+    return Number.isNaN(rate) ? undefined : rate;
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Repairer Details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contact_person"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact Person</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="province_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Province</FormLabel>
+                  <Select
+                    value={field.value || ""}
+                    onValueChange={field.onChange}
+                    disabled={isPending}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select province" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {provinces.map((province: { id: string; name: string }) => (
+                        <SelectItem key={province.id} value={province.id}>
+                          {province.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="types"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Services</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {RepairerTypeOptions.map((option) => {
+                      const selected = field.value ?? [];
+                      return (
+                        <label key={option.value} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={selected.includes(option.value)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...selected, option.value]
+                                  : selected.filter((type) => type !== option.value)
+                              )
+                            }
+                            disabled={isPending}
+                          />
+                          {option.label}
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_globally_approved"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 md:col-span-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      disabled={isPending}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Globally approved</FormLabel>
+                    <FormDescription>
+                      Approved by all clients, not only by specific insurers.
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Default Rates</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            {DEFAULT_RATE_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="text-right"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(parseRate(e.target.value))}
+                        disabled={isPending}
+                      />
+                    </FormControl>
+                    <FormDescription>Pre-filled on estimates for this repairer.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value || ""} rows={3} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => router.push("/repairers")} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : repairer ? "Save Changes" : "Create Repairer"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableLoadingSkeleton } from "@/components/ui/loading-states";
+import { useRepairersList } from "@/lib/api/domains/repairers/hooks";
+import { type Repairer } from "@/lib/api/domains/repairers/types";
+
+const PAGE_SIZE = 10;
+
+export function RepairersList() {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [page, setPage] = useState(1);
+
+  // Debounce the search input so every keystroke does not hit the server
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data, isLoading, isError, error } = useRepairersList({
+    page,
+    limit: PAGE_SIZE,
+    search: search || undefined,
+    include_inactive: includeInactive,
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+
+  const repairers: Repairer[] = data?.items ?? [];
+  const pagination = data?.pagination;
+
+  // Format number with decimal places
+  const formatRate = (rate: number | null) => {
+    if (rate === null || rate === undefined) return "-";
+    return new Intl.NumberFormat('en-GB', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(rate);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="relative w-full max-w-sm">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name, contact or email..."
+            className="pl-8"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="include-inactive-repairers"
+            checked={includeInactive}
+            onCheckedChange={(checked) => {
+              setIncludeInactive(checked);
+              setPage(1);
+            }}
+          />
+          <Label htmlFor="include-inactive-repairers">Show inactive</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <TableLoadingSkeleton rows={8} />
+      ) : isError ? (
+        <div className="p-4 border border-red-200 bg-red-50 rounded-md text-red-700">
+          Error loading repairers: {error?.message}
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact Person</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="text-right">Labor Rate</TableHead>
+                <TableHead className="text-right">Paint Rate</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {repairers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                    No repairers found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                repairers.map((repairer) => (
+                  <TableRow key={repairer.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/repairers/${repairer.id}`} className="hover:underline">
+                        {repairer.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{repairer.contact_person || "-"}</TableCell>
+                    <TableCell>{repairer.phone || "-"}</TableCell>
+                    <TableCell>{repairer.email || "-"}</TableCell>
+                    <TableCell className="text-right">{formatRate(repairer.default_panel_labor_rate)}</TableCell>
+                    <TableCell className="text-right">{formatRate(repairer.default_paint_material_rate)}</TableCell>
+                    <TableCell>
+                      <Badge variant={repairer.is_active ? "success" : "outline"}>
+                        {repairer.is_active ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            Page {pagination.current} of {pagination.pages} ({pagination.total} repairers)
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((current) => current - 1)}
+              disabled={page <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((current) => current + 1)}
+              disabled={!pagination.hasMore}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
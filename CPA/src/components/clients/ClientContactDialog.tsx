@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { type z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  useCreateClientContact,
+  useUpdateClientContact,
+} from "@/lib/api/domains/client-contacts/hooks";
+import {
+  type ClientContact,
+  type ClientContactCreate,
+  ClientContactCreateSchema,
+} from "@/lib/api/domains/client-contacts/types";
+
+interface ClientContactDialogProps {
+  clientId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The contact to edit; a new contact is created when omitted
+  contact?: ClientContact | null;
+  onSaved?: (contact: ClientContact) => void;
+}
+
+export function ClientContactDialog({
+  clientId,
+  open,
+  onOpenChange,
+  contact,
+  onSaved,
+}: ClientContactDialogProps) {
+  const createContact = useCreateClientContact();
+  const updateContact = useUpdateClientContact();
+
+  const form = useForm<z.input<typeof ClientContactCreateSchema>, unknown, ClientContactCreate>({
+    resolver: zodResolver(ClientContactCreateSchema),
+    defaultValues: {
+      client_id: clientId,
+      full_name: "",
+      job_title: "",
+      phone: "",
+      email: "",
+      is_primary: false,
+    },
+  });
+
+  // Load the contact being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      client_id: clientId,
+      full_name: contact?.full_name ?? "",
+      job_title: contact?.job_title ?? "",
+      phone: contact?.phone ?? "",
+      email: contact?.email ?? "",
+      is_primary: contact?.is_primary ?? false,
+    });
+  }, [open, contact, clientId, form]);
+
+  const isPending = createContact.isPending || updateContact.isPending;
+
+  const handleSaved = (saved: ClientContact) => {
+    onSaved?.(saved);
+    onOpenChange(false);
+  };
+
+  const onSubmit = (data: ClientContactCreate) => {
+    if (contact) {
+      const { client_id, ...updateData } = data;
+      updateContact.mutate({ id: contact.id, ...updateData }, { onSuccess: handleSaved });
+      return;
+    }
+
+    createContact.mutate(data, { onSuccess: handleSaved });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{contact ? "Edit Contact" : "New Contact"}</DialogTitle>
+          <DialogDescription>
+            Contacts can be selected as the claims handler when logging a claim.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          {/* Stop the submit from reaching a surrounding form, e.g. the new claim form */}
+          <form
+            onSubmit={(e) => {
+              e.stopPropagation();
+              form.handleSubmit(onSubmit)(e);
+            }}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="full_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="job_title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Job Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} placeholder="e.g. Claims Handler" disabled={isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} disabled={isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} value={field.value || ""} disabled={isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="is_primary"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      disabled={isPending}
+                    />
+                  </FormControl>
+                  <FormLabel>Primary contact for this client</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Saving..." : contact ? "Save Changes" : "Add Contact"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
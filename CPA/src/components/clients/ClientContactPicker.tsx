@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useClientContacts } from "@/lib/api/domains/client-contacts/hooks";
+import { type ClientContact } from "@/lib/api/domains/client-contacts/types";
+import { ClientContactDialog } from "./ClientContactDialog";
+
+interface ClientContactPickerProps {
+  clientId: string | null | undefined;
+  value: string | null | undefined;
+  onChange: (contact: ClientContact | null) => void;
+  disabled?: boolean;
+}
+
+// Select value used for entering the handler details by hand
+const MANUAL_ENTRY = "__manual__";
+
+export function ClientContactPicker({
+  clientId,
+  value,
+  onChange,
+  disabled = false,
+}: ClientContactPickerProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { data: contacts = [], isLoading } = useClientContacts({ client_id: clientId ?? "" });
+
+  const handleValueChange = (contactId: string) => {
+    if (contactId === MANUAL_ENTRY) {
+      onChange(null);
+      return;
+    }
+    onChange(contacts.find((contact: ClientContact) => contact.id === contactId) ?? null);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={value || MANUAL_ENTRY}
+        onValueChange={handleValueChange}
+        disabled={disabled || !clientId || isLoading}
+      >
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder={clientId ? "Select contact" : "Select a client first"} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={MANUAL_ENTRY}>Enter details manually</SelectItem>
+          {contacts.map((contact: ClientContact) => (
+            <SelectItem key={contact.id} value={contact.id}>
+              {contact.full_name}
+              {contact.job_title ? ` (${contact.job_title})` : ""}
+              {contact.is_primary ? " - Primary" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => setIsDialogOpen(true)}
+        disabled={disabled || !clientId}
+        title="Add new contact"
+      >
+        <UserPlus className="h-4 w-4" />
+      </Button>
+
+      {clientId && (
+        <ClientContactDialog
+          clientId={clientId}
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          onSaved={onChange}
+        />
+      )}
+    </div>
+  );
+}
@@ -8,13 +8,19 @@ import { RegistrationDetails } from "./RegistrationDetails";
 import { LicenseDiscDetails } from "./LicenseDiscDetails";
 import { VinDetails } from "./VinDetails";
 import { ThreeSixtyView } from "./ThreeSixtyView";
-import { useCreateInspection } from "@/lib/api/domains/inspections/hooks";
-import { type Inspection } from "@/lib/api/domains/inspections/types";
+import { DamagesSection } from "./sections/DamagesSection";
+import { AccessoriesSection } from "./sections/AccessoriesSection";
+import { useCreateInspection, useUpdateInspection } from "@/lib/api/domains/inspections/hooks";
+import { InspectionStatus, type Inspection } from "@/lib/api/domains/inspections/types";
+import { resolveInspectionTemplate } from "@/lib/api/domains/inspections/requirements";
+import { useClaimInspectionTemplate } from "@/lib/api/domains/inspection-templates/hooks";
+import { type InspectionSectionKey } from "@/lib/api/domains/inspection-templates/types";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-import { Loader2, Save, ArrowLeft } from "lucide-react";
+import { Loader2, Save, ArrowLeft, Lock } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 interface InspectionFormProps {
   claimId: string;
@@ -29,8 +35,28 @@ export function InspectionForm({
 }: InspectionFormProps) {
   const router = useRouter();
   const createInspection = useCreateInspection();
+  const updateInspection = useUpdateInspection();
   const [activeTab, setActiveTab] = useState("registration");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Completed inspections are locked until an admin reopens them
+  const isCompleted = existingInspection?.status === InspectionStatus.COMPLETED;
+
+  // Only the sections enabled in the client's checklist are shown
+  const { data: inspectionTemplate } = useClaimInspectionTemplate(claimId);
+  const templateSections = resolveInspectionTemplate(inspectionTemplate?.sections);
+  const isSectionEnabled = (key: InspectionSectionKey) =>
+    templateSections.find((section) => section.section === key)?.enabled ?? true;
+
+  // The notes live on the 360° tab, so it stays as a notes tab when the 360° section is disabled
+  const tabs = [
+    { value: "registration", label: "Registration", enabled: isSectionEnabled("registration") },
+    { value: "license", label: "License Disc", enabled: isSectionEnabled("registration") },
+    { value: "vin", label: "VIN Details", enabled: isSectionEnabled("vin") },
+    { value: "360", label: isSectionEnabled("threeSixty") ? "360° View" : "Notes", enabled: true },
+    { value: "damages", label: "Damages", enabled: true },
+    { value: "accessories", label: "Accessories", enabled: true },
+  ].filter((tab) => tab.enabled);
+  const currentTab = tabs.some((tab) => tab.value === activeTab) ? activeTab : (tabs[0]?.value ?? "360");
   
   // Form state
   const [formData, setFormData] = useState({
@@ -64,13 +90,11 @@ export function InspectionForm({
   });
   
   const handleSubmit = async () => {
+    if (isCompleted) return;
     setIsSubmitting(true);
     
     try {
-      await createInspection.mutateAsync({
-        claim_id: claimId,
-        vehicle_id: vehicleId,
-        
+      const fields = {
         // Registration details
         registration_number: formData.registrationNumber || undefined,
         registration_photo_path: formData.registrationPhotoPath || undefined,
@@ -98,7 +122,14 @@ export function InspectionForm({
         
         // Notes
         notes: formData.notes || undefined,
-      });
+      };
+
+      // A claim has one inspection, so an existing one is saved as a draft update
+      if (existingInspection) {
+        await updateInspection.mutateAsync({ id: existingInspection.id, ...fields });
+      } else {
+        await createInspection.mutateAsync({ claim_id: claimId, vehicle_id: vehicleId, ...fields });
+      }
       
       toast.success("Inspection saved successfully");
       router.push(`/claims/${claimId}`);
@@ -124,7 +155,7 @@ export function InspectionForm({
         
         <Button
           onClick={handleSubmit}
-          disabled={isSubmitting}
+          disabled={isSubmitting || isCompleted}
           className="gap-1"
         >
           {isSubmitting ? (
@@ -141,152 +172,178 @@ export function InspectionForm({
         </Button>
       </div>
       
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-4 mb-6">
-          <TabsTrigger value="registration">Registration</TabsTrigger>
-          <TabsTrigger value="license">License Disc</TabsTrigger>
-          <TabsTrigger value="vin">VIN Details</TabsTrigger>
-          <TabsTrigger value="360">360° View</TabsTrigger>
+      {isCompleted && (
+        <Alert>
+          <Lock className="h-4 w-4" />
+          <AlertTitle>Inspection completed</AlertTitle>
+          <AlertDescription>The inspection is read-only; ask an admin to reopen it to make changes.</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs value={currentTab} onValueChange={setActiveTab}>
+        <TabsList className="grid mb-6" style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}>
+          {tabs.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+          ))}
         </TabsList>
-        
-        <TabsContent value="registration">
-          <RegistrationDetails
-            claimId={claimId}
-            inspectionId={existingInspection?.id || "new"}
-            registrationNumber={formData.registrationNumber}
-            registrationPhotoPath={formData.registrationPhotoPath}
-            onRegistrationNumberChange={(value) => 
-              setFormData((prev) => ({ ...prev, registrationNumber: value }))
-            }
-            onRegistrationPhotoPathChange={(path) => 
-              setFormData((prev) => ({ ...prev, registrationPhotoPath: path }))
-            }
-            existingInspection={existingInspection}
-          />
-        </TabsContent>
-        
-        <TabsContent value="license">
-          <LicenseDiscDetails
-            claimId={claimId}
-            inspectionId={existingInspection?.id || "new"}
-            licenseDiscPresent={formData.licenseDiscPresent}
-            licenseDiscExpiry={formData.licenseDiscExpiry}
-            licenseDiscPhotoPath={formData.licenseDiscPhotoPath}
-            onLicenseDiscPresentChange={(value) => 
-              setFormData((prev) => ({ ...prev, licenseDiscPresent: value }))
-            }
-            onLicenseDiscExpiryChange={(date) => 
-              setFormData((prev) => ({ ...prev, licenseDiscExpiry: date }))
-            }
-            onLicenseDiscPhotoPathChange={(path) => 
-              setFormData((prev) => ({ ...prev, licenseDiscPhotoPath: path }))
-            }
-            existingInspection={existingInspection}
-          />
-        </TabsContent>
-        
-        <TabsContent value="vin">
-          <VinDetails
-            claimId={claimId}
-            inspectionId={existingInspection?.id || "new"}
-            vinNumber={formData.vinNumber}
-            vinDashPhotoPath={formData.vinDashPhotoPath}
-            vinPlatePhotoPath={formData.vinPlatePhotoPath}
-            vinNumberPhotoPath={formData.vinNumberPhotoPath}
-            onVinNumberChange={(value) => 
-              setFormData((prev) => ({ ...prev, vinNumber: value }))
-            }
-            onVinDashPhotoPathChange={(path) => 
-              setFormData((prev) => ({ ...prev, vinDashPhotoPath: path }))
-            }
-            onVinPlatePhotoPathChange={(path) => 
-              setFormData((prev) => ({ ...prev, vinPlatePhotoPath: path }))
-            }
-            onVinNumberPhotoPathChange={(path) => 
-              setFormData((prev) => ({ ...prev, vinNumberPhotoPath: path }))
-            }
-            existingInspection={existingInspection}
-          />
-        </TabsContent>
-        
-        <TabsContent value="360">
-          <div className="space-y-6">
-            <ThreeSixtyView
+
+        <fieldset disabled={isCompleted}>
+          <TabsContent value="registration">
+            <RegistrationDetails
               claimId={claimId}
               inspectionId={existingInspection?.id || "new"}
-              frontViewPhotoPath={formData.frontViewPhotoPath}
-              rightFrontViewPhotoPath={formData.rightFrontViewPhotoPath}
-              rightSideViewPhotoPath={formData.rightSideViewPhotoPath}
-              rightRearViewPhotoPath={formData.rightRearViewPhotoPath}
-              rearViewPhotoPath={formData.rearViewPhotoPath}
-              leftRearViewPhotoPath={formData.leftRearViewPhotoPath}
-              leftSideViewPhotoPath={formData.leftSideViewPhotoPath}
-              leftFrontViewPhotoPath={formData.leftFrontViewPhotoPath}
-              onFrontViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, frontViewPhotoPath: path }))
+              registrationNumber={formData.registrationNumber}
+              registrationPhotoPath={formData.registrationPhotoPath}
+              onRegistrationNumberChange={(value) => 
+                setFormData((prev) => ({ ...prev, registrationNumber: value }))
               }
-              onRightFrontViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, rightFrontViewPhotoPath: path }))
+              onRegistrationPhotoPathChange={(path) => 
+                setFormData((prev) => ({ ...prev, registrationPhotoPath: path }))
               }
-              onRightSideViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, rightSideViewPhotoPath: path }))
+              existingInspection={existingInspection}
+            />
+          </TabsContent>
+
+          <TabsContent value="license">
+            <LicenseDiscDetails
+              claimId={claimId}
+              inspectionId={existingInspection?.id || "new"}
+              licenseDiscPresent={formData.licenseDiscPresent}
+              licenseDiscExpiry={formData.licenseDiscExpiry}
+              licenseDiscPhotoPath={formData.licenseDiscPhotoPath}
+              onLicenseDiscPresentChange={(value) => 
+                setFormData((prev) => ({ ...prev, licenseDiscPresent: value }))
               }
-              onRightRearViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, rightRearViewPhotoPath: path }))
+              onLicenseDiscExpiryChange={(date) => 
+                setFormData((prev) => ({ ...prev, licenseDiscExpiry: date }))
               }
-              onRearViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, rearViewPhotoPath: path }))
+              onLicenseDiscPhotoPathChange={(path) => 
+                setFormData((prev) => ({ ...prev, licenseDiscPhotoPath: path }))
               }
-              onLeftRearViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, leftRearViewPhotoPath: path }))
+              existingInspection={existingInspection}
+            />
+          </TabsContent>
+
+          <TabsContent value="vin">
+            <VinDetails
+              claimId={claimId}
+              inspectionId={existingInspection?.id || "new"}
+              vinNumber={formData.vinNumber}
+              vinDashPhotoPath={formData.vinDashPhotoPath}
+              vinPlatePhotoPath={formData.vinPlatePhotoPath}
+              vinNumberPhotoPath={formData.vinNumberPhotoPath}
+              onVinNumberChange={(value) => 
+                setFormData((prev) => ({ ...prev, vinNumber: value }))
               }
-              onLeftSideViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, leftSideViewPhotoPath: path }))
+              onVinDashPhotoPathChange={(path) => 
+                setFormData((prev) => ({ ...prev, vinDashPhotoPath: path }))
               }
-              onLeftFrontViewPhotoPathChange={(path) => 
-                setFormData((prev) => ({ ...prev, leftFrontViewPhotoPath: path }))
+              onVinPlatePhotoPathChange={(path) => 
+                setFormData((prev) => ({ ...prev, vinPlatePhotoPath: path }))
+              }
+              onVinNumberPhotoPathChange={(path) => 
+                setFormData((prev) => ({ ...prev, vinNumberPhotoPath: path }))
               }
               existingInspection={existingInspection}
             />
-            
-            <Card>
-              <CardHeader>
-                <CardTitle>Additional Notes</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
-                  <Textarea
-                    id="notes"
-                    value={formData.notes || ""}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
-                    placeholder="Enter any additional notes about the vehicle inspection"
-                    rows={4}
-                  />
-                </div>
-              </CardContent>
-              <CardFooter className="flex justify-end">
-                <Button
-                  onClick={handleSubmit}
-                  disabled={isSubmitting}
-                  className="gap-1"
-                >
-                  {isSubmitting ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>Saving...</span>
-                    </>
-                  ) : (
-                    <>
-                      <Save className="h-4 w-4" />
-                      <span>Save Inspection</span>
-                    </>
-                  )}
-                </Button>
-              </CardFooter>
-            </Card>
-          </div>
-        </TabsContent>
+          </TabsContent>
+
+          <TabsContent value="360">
+            <div className="space-y-6">
+              {isSectionEnabled("threeSixty") && (
+                <ThreeSixtyView
+                  claimId={claimId}
+                  inspectionId={existingInspection?.id || "new"}
+                  frontViewPhotoPath={formData.frontViewPhotoPath}
+                  rightFrontViewPhotoPath={formData.rightFrontViewPhotoPath}
+                  rightSideViewPhotoPath={formData.rightSideViewPhotoPath}
+                  rightRearViewPhotoPath={formData.rightRearViewPhotoPath}
+                  rearViewPhotoPath={formData.rearViewPhotoPath}
+                  leftRearViewPhotoPath={formData.leftRearViewPhotoPath}
+                  leftSideViewPhotoPath={formData.leftSideViewPhotoPath}
+                  leftFrontViewPhotoPath={formData.leftFrontViewPhotoPath}
+                  onFrontViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, frontViewPhotoPath: path }))
+                  }
+                  onRightFrontViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, rightFrontViewPhotoPath: path }))
+                  }
+                  onRightSideViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, rightSideViewPhotoPath: path }))
+                  }
+                  onRightRearViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, rightRearViewPhotoPath: path }))
+                  }
+                  onRearViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, rearViewPhotoPath: path }))
+                  }
+                  onLeftRearViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, leftRearViewPhotoPath: path }))
+                  }
+                  onLeftSideViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, leftSideViewPhotoPath: path }))
+                  }
+                  onLeftFrontViewPhotoPathChange={(path) => 
+                    setFormData((prev) => ({ ...prev, leftFrontViewPhotoPath: path }))
+                  }
+                  existingInspection={existingInspection}
+                />
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Additional Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Textarea
+                      id="notes"
+                      value={formData.notes || ""}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                      placeholder="Enter any additional notes about the vehicle inspection"
+                      rows={4}
+                    />
+                  </div>
+                </CardContent>
+                <CardFooter className="flex justify-end">
+                  <Button
+                    onClick={handleSubmit}
+                    disabled={isSubmitting || isCompleted}
+                    className="gap-1"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        <span>Saving...</span>
+                      </>
+                    ) : (
+                      <>
+                        <Save className="h-4 w-4" />
+                        <span>Save Inspection</span>
+                      </>
+                    )}
+                  </Button>
+                </CardFooter>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="damages">
+            <DamagesSection
+              claimId={claimId}
+              inspectionId={existingInspection?.id || "new"}
+            />
+          </TabsContent>
+
+          <TabsContent value="accessories">
+            <AccessoriesSection
+              claimId={claimId}
+              inspectionId={existingInspection?.id || "new"}
+              vehicleId={vehicleId}
+            />
+          </TabsContent>
+        </fieldset>
       </Tabs>
     </div>
   );
@@ -3,12 +3,21 @@
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Button } from '@/components/ui/button';
-import { Upload, X, Image as ImageIcon, Download } from 'lucide-react';
+import { Upload, X, Image as ImageIcon, Download, AlertTriangle } from 'lucide-react';
 import { useSupabaseStorage } from '@/hooks/useSupabaseStorage';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { StorageImage } from '@/components/ui/StorageImage';
 import { ImagePreviewWrapper } from '@/components/ui/ImagePreviewWrapper';
+import { Progress } from '@/components/ui/progress';
+import { enqueueOperation, isOffline } from '@/utils/offline-queue';
+import {
+  readPhotoExif,
+  useClaimPhotoMetadata,
+  useRecordPhotoMetadata,
+  type PhotoMetadata,
+  type PhotoMetadataWarning,
+} from '@/lib/api/domains/photo-metadata';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +34,7 @@ interface PhotoUploadCardProps {
   description?: string;
   imagePath: string | null;
   onImagePathChange: (path: string | null) => void;
+  onFileUploaded?: (file: File, path: string) => void;
   bucketName?: string;
   uploadPath: string;
   size?: "default" | "small";
@@ -32,11 +42,16 @@ interface PhotoUploadCardProps {
   className?: string;
 }
 
+// Inspection photos are uploaded under claims/<claim id>/, which ties their capture details to the claim
+const getClaimIdFromPath = (path: string) =>
+  /^claims\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\//i.exec(path)?.[1] ?? null;
+
 export function PhotoUploadCard({
   title,
   description,
   imagePath,
   onImagePathChange,
+  onFileUploaded,
   bucketName = "claim-attachments",
   uploadPath,
   size = "default",
@@ -44,30 +59,57 @@ export function PhotoUploadCard({
   className
 }: PhotoUploadCardProps) {
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const { uploadFile, deleteFile, downloadFile } = useSupabaseStorage();
+  const recordPhotoMetadata = useRecordPhotoMetadata();
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    if (acceptedFiles.length === 0) return;
+  // Loaded once per claim and shared by every card through the query cache
+  const claimId = getClaimIdFromPath(uploadPath);
+  const { data: claimPhotoMetadata = [] } = useClaimPhotoMetadata(claimId ?? '');
+  const photoWarnings = claimPhotoMetadata.find((metadata: PhotoMetadata) => metadata.file_path === imagePath)?.warnings ?? [];
 
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
+    if (!file) return;
     setIsUploading(true);
+    setUploadProgress(0);
 
     try {
       // Prevent browser navigation by using preventDefault in case of any events
       const result = await uploadFile({
         bucketName,
         path: uploadPath,
-        file
+        file,
+        onProgress: setUploadProgress
       });
 
       if (result) {
         // Store the URL but prevent any automatic navigation
         onImagePathChange(result);
+        onFileUploaded?.(file, result);
+
+        // Capture time and position are read from the original file, as storage keeps only the image
+        const exif = await readPhotoExif(file);
+        const metadata = {
+          bucket_name: bucketName,
+          file_path: result,
+          claim_id: claimId,
+          captured_at: exif.capturedAt,
+          latitude: exif.latitude,
+          longitude: exif.longitude,
+          camera_make: exif.cameraMake,
+          camera_model: exif.cameraModel,
+        };
+        if (isOffline()) {
+          await enqueueOperation({ kind: 'photo.metadata', input: metadata });
+        } else {
+          recordPhotoMetadata.mutate(metadata);
+        }
 
         // Use setTimeout to ensure the state update completes before showing the toast
         setTimeout(() => {
-          toast.success("Image uploaded successfully");
+          toast.success(isOffline() ? "Image saved offline; it will upload when back online" : "Image uploaded successfully");
         }, 100);
       } else {
         toast.error("Failed to upload image");
@@ -78,7 +120,7 @@ export function PhotoUploadCard({
     } finally {
       setIsUploading(false);
     }
-  }, [bucketName, uploadPath, uploadFile, onImagePathChange]);
+  }, [bucketName, uploadPath, uploadFile, onImagePathChange, onFileUploaded, claimId, recordPhotoMetadata]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -179,10 +221,20 @@ export function PhotoUploadCard({
                 sizes="(max-width: 768px) 100vw, 200px"
                 className="object-cover"
                 unoptimized
+                thumbnail
               />
             </div>
           </ImagePreviewWrapper>
 
+          {photoWarnings.length > 0 && (
+            <div
+              className="absolute top-1 left-1 flex h-6 w-6 items-center justify-center rounded-full bg-amber-500 text-white"
+              title={photoWarnings.map((warning: PhotoMetadataWarning) => warning.message).join('\n')}
+            >
+              <AlertTriangle className="h-3 w-3" />
+            </div>
+          )}
+
           <div className="absolute top-1 right-1 flex gap-1">
             <Button
               variant="secondary"
@@ -222,7 +274,8 @@ export function PhotoUploadCard({
           {isUploading ? (
             <div className="flex flex-col items-center justify-center">
               <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary mb-1"></div>
-              <p className={`${textSize} font-medium`}>Uploading...</p>
+              <p className={`${textSize} font-medium`}>Uploading... {uploadProgress}%</p>
+              <Progress value={uploadProgress} className="mt-1 h-1 w-16" />
             </div>
           ) : (
             <>
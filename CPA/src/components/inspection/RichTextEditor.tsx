@@ -23,7 +23,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
-import { useCallback } from 'react';
+import { useCallback, useEffect } from 'react';
 
 interface RichTextEditorProps {
   content: string;
@@ -31,8 +31,28 @@ interface RichTextEditorProps {
   onSubmit?: () => void;
   placeholder?: string;
   className?: string;
+  submitLabel?: string;
+  submitDisabled?: boolean;
+  // Stamp the current time into the content before submitting
+  addTimestamp?: boolean;
 }
 
+interface RichTextContentProps {
+  content: string;
+  className?: string;
+}
+
+const extensions = [
+  StarterKit,
+  Bold,
+  Underline,
+  Heading.configure({
+    levels: [1, 2, 3],
+  }),
+  TextStyle,
+  Color,
+];
+
 const colors = [
   { name: 'Default', value: 'inherit' },
   { name: 'Black', value: '#000000' },
@@ -146,18 +166,18 @@ const MenuBar = ({ editor }: { editor: Editor | null }) => {
   );
 };
 
-export function RichTextEditor({ content, onChange, onSubmit, placeholder, className }: RichTextEditorProps) {
+export function RichTextEditor({
+  content,
+  onChange,
+  onSubmit,
+  placeholder,
+  className,
+  submitLabel = 'Add Note',
+  submitDisabled = false,
+  addTimestamp = true,
+}: RichTextEditorProps) {
   const editor = useEditor({
-    extensions: [
-      StarterKit,
-      Bold,
-      Underline,
-      Heading.configure({
-        levels: [1, 2, 3],
-      }),
-      TextStyle,
-      Color,
-    ],
+    extensions,
     content,
     onUpdate: ({ editor }) => {
       onChange(editor.getHTML());
@@ -169,6 +189,13 @@ export function RichTextEditor({ content, onChange, onSubmit, placeholder, class
     },
   });
 
+  // Follow content set from outside the editor, e.g. clearing it after a submit
+  useEffect(() => {
+    if (editor && content !== editor.getHTML()) {
+      editor.commands.setContent(content, false);
+    }
+  }, [editor, content]);
+
   const addTimeStampedNote = useCallback(() => {
     if (!editor) return;
 
@@ -197,16 +224,44 @@ export function RichTextEditor({ content, onChange, onSubmit, placeholder, class
           type="button"
           variant="outline"
           size="sm"
+          disabled={submitDisabled}
           onClick={() => {
-            addTimeStampedNote();
+            if (addTimestamp) {
+              addTimeStampedNote();
+            }
             if (onSubmit) {
               onSubmit();
             }
           }}
         >
-          Add Note
+          {submitLabel}
         </Button>
       </div>
     </div>
   );
 }
+
+/**
+ * Read-only rendering of editor content
+ * The content is parsed by the editor schema, so markup the editor does not support is dropped
+ */
+export function RichTextContent({ content, className }: RichTextContentProps) {
+  const editor = useEditor({
+    extensions,
+    content,
+    editable: false,
+    editorProps: {
+      attributes: {
+        class: 'prose prose-sm max-w-none focus:outline-none',
+      },
+    },
+  });
+
+  useEffect(() => {
+    if (editor && content !== editor.getHTML()) {
+      editor.commands.setContent(content, false);
+    }
+  }, [editor, content]);
+
+  return <EditorContent editor={editor} className={className} />;
+}
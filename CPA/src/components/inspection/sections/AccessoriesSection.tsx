@@ -0,0 +1,286 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { PhotoUploadCard } from '@/components/inspection/PhotoUploadCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  useVehicleAccessories,
+  useCreateVehicleAccessory,
+  useUpdateVehicleAccessory,
+  useDeleteVehicleAccessory,
+  AccessoryCondition,
+  AccessoryConditionOptions,
+  AccessoryTypeOptions,
+  type VehicleAccessory,
+} from '@/lib/api/domains/vehicle-accessories';
+
+interface AccessoriesSectionProps {
+  claimId: string;
+  inspectionId: string;
+  vehicleId: string;
+}
+
+// Value of the type select that reveals a free text type input
+const OTHER_ACCESSORY_TYPE = "other";
+
+interface NewAccessoryState {
+  accessoryType: string;
+  otherType: string;
+  description: string;
+  condition: AccessoryCondition | "";
+}
+
+const EMPTY_ACCESSORY: NewAccessoryState = {
+  accessoryType: "",
+  otherType: "",
+  description: "",
+  condition: "",
+};
+
+export const conditionBadgeVariant = (condition: AccessoryCondition | null) => {
+  if (condition === AccessoryCondition.DAMAGED || condition === AccessoryCondition.MISSING) return "destructive";
+  if (condition === AccessoryCondition.GOOD) return "success";
+  return "outline";
+};
+
+export function AccessoriesSection({ claimId, inspectionId, vehicleId }: AccessoriesSectionProps) {
+  const { data: accessories = [], isLoading } = useVehicleAccessories(vehicleId);
+  const createAccessory = useCreateVehicleAccessory();
+  const [newAccessory, setNewAccessory] = useState<NewAccessoryState>(EMPTY_ACCESSORY);
+
+  const accessoryType = newAccessory.accessoryType === OTHER_ACCESSORY_TYPE
+    ? newAccessory.otherType.trim()
+    : newAccessory.accessoryType;
+
+  const handleAddAccessory = () => {
+    if (!accessoryType) return;
+
+    createAccessory.mutate(
+      {
+        vehicle_id: vehicleId,
+        accessory_type: accessoryType,
+        description: newAccessory.description.trim() || null,
+        condition: newAccessory.condition || null,
+      },
+      {
+        onSuccess: () => setNewAccessory(EMPTY_ACCESSORY),
+      }
+    );
+  };
+
+  const accessoriesWithPhotos = accessories.filter((accessory: VehicleAccessory) => !!accessory.photo_path).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Accessories</CardTitle>
+          <Badge variant={accessories.length > 0 && accessoriesWithPhotos === accessories.length ? "success" : "outline"}>
+            {accessoriesWithPhotos} of {accessories.length} photographed
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : accessories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accessories have been recorded for this vehicle yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {accessories.map((accessory: VehicleAccessory) => (
+              <AccessoryItem
+                key={accessory.id}
+                accessory={accessory}
+                claimId={claimId}
+                inspectionId={inspectionId}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Record a new accessory */}
+        <div className="rounded-md border p-4 space-y-4">
+          <h4 className="text-sm font-medium">Add Accessory</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={newAccessory.accessoryType}
+                onValueChange={(value) => setNewAccessory((prev) => ({ ...prev, accessoryType: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select accessory" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AccessoryTypeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_ACCESSORY_TYPE}>Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {newAccessory.accessoryType === OTHER_ACCESSORY_TYPE && (
+              <div className="space-y-2">
+                <Label htmlFor="new-accessory-other-type">Accessory</Label>
+                <Input
+                  id="new-accessory-other-type"
+                  value={newAccessory.otherType}
+                  onChange={(e) => setNewAccessory((prev) => ({ ...prev, otherType: e.target.value }))}
+                  placeholder="e.g. Snorkel"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select
+                value={newAccessory.condition}
+                onValueChange={(value) => setNewAccessory((prev) => ({ ...prev, condition: value as AccessoryCondition }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select condition" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AccessoryConditionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-accessory-description">Description</Label>
+            <Input
+              id="new-accessory-description"
+              value={newAccessory.description}
+              onChange={(e) => setNewAccessory((prev) => ({ ...prev, description: e.target.value }))}
+              placeholder="e.g. Brand, model or size"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleAddAccessory}
+              disabled={!accessoryType || createAccessory.isPending}
+              className="gap-1"
+            >
+              {createAccessory.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              <span>Add Accessory</span>
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface AccessoryItemProps {
+  accessory: VehicleAccessory;
+  claimId: string;
+  inspectionId: string;
+}
+
+function AccessoryItem({ accessory, claimId, inspectionId }: AccessoryItemProps) {
+  const updateAccessory = useUpdateVehicleAccessory();
+  const deleteAccessory = useDeleteVehicleAccessory();
+  const [description, setDescription] = useState(accessory.description ?? "");
+
+  const handleDelete = () => {
+    if (confirm(`Delete the ${accessory.accessory_type} accessory?`)) {
+      deleteAccessory.mutate({ id: accessory.id, vehicle_id: accessory.vehicle_id });
+    }
+  };
+
+  const handleDescriptionBlur = () => {
+    const trimmed = description.trim();
+    if (trimmed === (accessory.description ?? "")) return;
+    updateAccessory.mutate({ id: accessory.id, vehicle_id: accessory.vehicle_id, description: trimmed || null });
+  };
+
+  return (
+    <div className="rounded-md border p-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="h-36 w-36 shrink-0">
+          <PhotoUploadCard
+            title={accessory.accessory_type}
+            description={`Photo of the ${accessory.accessory_type}`}
+            imagePath={accessory.photo_path}
+            onImagePathChange={(path) =>
+              updateAccessory.mutate({ id: accessory.id, vehicle_id: accessory.vehicle_id, photo_path: path })
+            }
+            uploadPath={`claims/${claimId}/inspections/${inspectionId}/accessories/${accessory.id}`}
+            size="small"
+          />
+        </div>
+
+        <div className="flex-1 space-y-4">
+          <div className="flex justify-between items-start">
+            <div className="flex items-center gap-2">
+              <h4 className="font-medium">{accessory.accessory_type}</h4>
+              {accessory.condition && (
+                <Badge variant={conditionBadgeVariant(accessory.condition)} className="capitalize">
+                  {accessory.condition}
+                </Badge>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDelete}
+              disabled={deleteAccessory.isPending}
+              aria-label="Delete accessory"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`accessory-description-${accessory.id}`}>Description</Label>
+              <Input
+                id={`accessory-description-${accessory.id}`}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                onBlur={handleDescriptionBlur}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select
+                value={accessory.condition ?? ""}
+                onValueChange={(value) =>
+                  updateAccessory.mutate({
+                    id: accessory.id,
+                    vehicle_id: accessory.vehicle_id,
+                    condition: value as AccessoryCondition,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select condition" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AccessoryConditionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
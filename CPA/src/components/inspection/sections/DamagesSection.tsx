@@ -0,0 +1,389 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { PhotoUploadCard } from '@/components/inspection/PhotoUploadCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  useDamages,
+  useCreateDamage,
+  useUpdateDamage,
+  useDeleteDamage,
+  useAddDamagePhoto,
+  useRemoveDamagePhoto,
+  DamageSeverity,
+  DamageSeverityOptions,
+  DamageCauseOptions,
+  PointOfImpactOptions,
+  type Damage,
+  type DamageCause,
+  type PointOfImpact,
+} from '@/lib/api/domains/damages';
+
+interface DamagesSectionProps {
+  claimId: string;
+  inspectionId: string;
+}
+
+interface NewDamageState {
+  damageLocation: string;
+  damageDescription: string;
+  severity: DamageSeverity | "";
+  damageCause: DamageCause | "";
+  pointOfImpact: PointOfImpact | "";
+  isStructural: boolean;
+}
+
+const EMPTY_DAMAGE: NewDamageState = {
+  damageLocation: "",
+  damageDescription: "",
+  severity: "",
+  damageCause: "",
+  pointOfImpact: "",
+  isStructural: false,
+};
+
+const severityBadgeVariant = (severity: DamageSeverity | null) => {
+  if (severity === DamageSeverity.SEVERE) return "destructive";
+  if (severity === DamageSeverity.MODERATE) return "secondary";
+  return "outline";
+};
+
+export function DamagesSection({ claimId, inspectionId }: DamagesSectionProps) {
+  const { data: damages = [], isLoading } = useDamages(claimId);
+  const createDamage = useCreateDamage();
+  const [newDamage, setNewDamage] = useState<NewDamageState>(EMPTY_DAMAGE);
+
+  const canAddDamage = newDamage.damageLocation.trim() !== "" && newDamage.damageDescription.trim() !== "";
+
+  const handleAddDamage = () => {
+    if (!canAddDamage) return;
+
+    createDamage.mutate(
+      {
+        claim_id: claimId,
+        damage_location: newDamage.damageLocation.trim(),
+        damage_description: newDamage.damageDescription.trim(),
+        severity: newDamage.severity || undefined,
+        damage_cause: newDamage.damageCause || undefined,
+        point_of_impact: newDamage.pointOfImpact || undefined,
+        is_structural: newDamage.isStructural,
+      },
+      {
+        onSuccess: () => setNewDamage(EMPTY_DAMAGE),
+      }
+    );
+  };
+
+  const damagesWithPhotos = damages.filter((damage: Damage) => damage.photos.length > 0).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Damages</CardTitle>
+          <Badge variant={damages.length > 0 && damagesWithPhotos === damages.length ? "success" : "outline"}>
+            {damagesWithPhotos} of {damages.length} photographed
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : damages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No damage has been recorded for this claim yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {damages.map((damage: Damage) => (
+              <DamageItem
+                key={damage.id}
+                damage={damage}
+                claimId={claimId}
+                inspectionId={inspectionId}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Record a new damage point */}
+        <div className="rounded-md border p-4 space-y-4">
+          <h4 className="text-sm font-medium">Record Damage</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-damage-location">Location</Label>
+              <Input
+                id="new-damage-location"
+                value={newDamage.damageLocation}
+                onChange={(e) => setNewDamage((prev) => ({ ...prev, damageLocation: e.target.value }))}
+                placeholder="e.g. LH Front Fender"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Point of Impact</Label>
+              <Select
+                value={newDamage.pointOfImpact}
+                onValueChange={(value) => setNewDamage((prev) => ({ ...prev, pointOfImpact: value as PointOfImpact }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select point of impact" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PointOfImpactOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-damage-description">Description</Label>
+            <Textarea
+              id="new-damage-description"
+              value={newDamage.damageDescription}
+              onChange={(e) => setNewDamage((prev) => ({ ...prev, damageDescription: e.target.value }))}
+              placeholder="Describe the damage"
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select
+                value={newDamage.severity}
+                onValueChange={(value) => setNewDamage((prev) => ({ ...prev, severity: value as DamageSeverity }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select severity" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DamageSeverityOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Cause</Label>
+              <Select
+                value={newDamage.damageCause}
+                onValueChange={(value) => setNewDamage((prev) => ({ ...prev, damageCause: value as DamageCause }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select cause" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DamageCauseOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch
+                id="new-damage-structural"
+                checked={newDamage.isStructural}
+                onCheckedChange={(checked) => setNewDamage((prev) => ({ ...prev, isStructural: checked }))}
+              />
+              <Label htmlFor="new-damage-structural">Structural damage</Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleAddDamage}
+              disabled={!canAddDamage || createDamage.isPending}
+              className="gap-1"
+            >
+              {createDamage.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              <span>Add Damage</span>
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DamageItemProps {
+  damage: Damage;
+  claimId: string;
+  inspectionId: string;
+}
+
+function DamageItem({ damage, claimId, inspectionId }: DamageItemProps) {
+  const updateDamage = useUpdateDamage();
+  const deleteDamage = useDeleteDamage();
+  const addPhoto = useAddDamagePhoto(claimId);
+  const removePhoto = useRemoveDamagePhoto(claimId);
+  const [description, setDescription] = useState(damage.damage_description);
+
+  const photoUploadPath = `claims/${claimId}/inspections/${inspectionId}/damages/${damage.id}`;
+
+  const handleDelete = () => {
+    if (confirm(`Delete the damage recorded at ${damage.damage_location}?`)) {
+      deleteDamage.mutate({ id: damage.id });
+    }
+  };
+
+  const handleDescriptionBlur = () => {
+    const trimmed = description.trim();
+    if (!trimmed || trimmed === damage.damage_description) {
+      setDescription(damage.damage_description);
+      return;
+    }
+    updateDamage.mutate({ id: damage.id, claim_id: claimId, damage_description: trimmed });
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-4">
+      <div className="flex justify-between items-start">
+        <div className="flex items-center gap-2">
+          <h4 className="font-medium">{damage.damage_location}</h4>
+          {damage.severity && (
+            <Badge variant={severityBadgeVariant(damage.severity)} className="capitalize">
+              {damage.severity}
+            </Badge>
+          )}
+          {damage.is_structural && <Badge variant="destructive">Structural</Badge>}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleDelete}
+          disabled={deleteDamage.isPending}
+          aria-label="Delete damage"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={handleDescriptionBlur}
+        rows={2}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Severity</Label>
+          <Select
+            value={damage.severity ?? ""}
+            onValueChange={(value) =>
+              updateDamage.mutate({ id: damage.id, claim_id: claimId, severity: value as DamageSeverity })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select severity" />
+            </SelectTrigger>
+            <SelectContent>
+              {DamageSeverityOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Cause</Label>
+          <Select
+            value={damage.damage_cause ?? ""}
+            onValueChange={(value) =>
+              updateDamage.mutate({ id: damage.id, claim_id: claimId, damage_cause: value as DamageCause })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select cause" />
+            </SelectTrigger>
+            <SelectContent>
+              {DamageCauseOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Point of Impact</Label>
+          <Select
+            value={damage.point_of_impact ?? ""}
+            onValueChange={(value) =>
+              updateDamage.mutate({ id: damage.id, claim_id: claimId, point_of_impact: value as PointOfImpact })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select point of impact" />
+            </SelectTrigger>
+            <SelectContent>
+              {PointOfImpactOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch
+            id={`damage-structural-${damage.id}`}
+            checked={!!damage.is_structural}
+            onCheckedChange={(checked) =>
+              updateDamage.mutate({ id: damage.id, claim_id: claimId, is_structural: checked })
+            }
+          />
+          <Label htmlFor={`damage-structural-${damage.id}`}>Structural</Label>
+        </div>
+      </div>
+
+      {/* Damage photos - existing photos plus an empty slot for the next upload */}
+      <div className="flex flex-wrap gap-4">
+        {damage.photos.map((photo, index) => (
+          <div key={photo.id} className="h-36 w-36">
+            <PhotoUploadCard
+              title={`${damage.damage_location} ${index + 1}`}
+              imagePath={photo.file_path}
+              onImagePathChange={(path) => {
+                if (path === null) {
+                  removePhoto.mutate({ id: photo.id });
+                }
+              }}
+              uploadPath={photoUploadPath}
+              size="small"
+            />
+          </div>
+        ))}
+        <div className="h-36 w-36">
+          <PhotoUploadCard
+            title="Add Photo"
+            description={`Photo of ${damage.damage_location}`}
+            imagePath={null}
+            onImagePathChange={() => {}}
+            onFileUploaded={(file, path) =>
+              addPhoto.mutate({
+                damage_id: damage.id,
+                claim_id: claimId,
+                file_path: path,
+                file_name: file.name,
+                mime_type: file.type,
+                file_size: file.size,
+              })
+            }
+            uploadPath={photoUploadPath}
+            size="small"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, ClipboardCheck } from 'lucide-react';
+import { type MissingInspectionPhoto } from '@/lib/api/domains/inspections/requirements';
+import { type TyreFlag } from '@/lib/api/domains/inspections/tyres';
+
+interface InspectionSummaryProps {
+  // Required photos still missing; omitted once the inspection is completed
+  missingPhotos?: MissingInspectionPhoto[];
+  tyreFlags: TyreFlag[];
+  // Name of the client's checklist, when the client has one
+  templateName?: string;
+}
+
+export function InspectionSummary({ missingPhotos, tyreFlags, templateName }: InspectionSummaryProps) {
+  const missingPhotosBySection = (missingPhotos || []).reduce<Record<string, string[]>>((sections, photo) => {
+    sections[photo.sectionLabel] = [...(sections[photo.sectionLabel] || []), photo.label];
+    return sections;
+  }, {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Inspection Summary</CardTitle>
+          {templateName && <Badge variant="outline">{templateName}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {missingPhotos && (
+          <div className="space-y-2">
+            <h3 className="flex items-center gap-2 font-medium">
+              <ClipboardCheck className="h-4 w-4" />
+              Required Photos
+            </h3>
+            {missingPhotos.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                All required photos have been taken
+              </p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {Object.entries(missingPhotosBySection).map(([section, labels]) => (
+                  <li key={section}>
+                    <span className="font-medium">{section}:</span> {labels.join(", ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            Tyre Roadworthiness
+          </h3>
+          {tyreFlags.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              No tyre issues found
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {tyreFlags.map((flag) => (
+                <li key={`${flag.type}-${flag.message}`} className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {flag.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { PhotoUploadCard } from "@/components/inspection/PhotoUploadCard";
+import type { InspectionExtraPhotoSlot } from "@/lib/api/domains/inspection-templates/types";
+
+interface TemplatePhotosSectionProps {
+  claimId: string;
+  inspectionId: string;
+  title: string;
+  // Photo slots the client's inspection template adds to the section
+  slots: InspectionExtraPhotoSlot[];
+  photos: Record<string, string>;
+  onPhotoPathChange: (key: string, path: string | null) => void;
+}
+
+export function TemplatePhotosSection({
+  claimId,
+  inspectionId,
+  title,
+  slots,
+  photos,
+  onPhotoPathChange
+}: TemplatePhotosSectionProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-4 gap-4">
+          {slots.map((slot) => (
+            <div key={slot.key} className="h-44 space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>{slot.label}</Label>
+                {slot.requirement === "required" && <Badge variant="outline">Required</Badge>}
+              </div>
+              <div className="h-36">
+                <PhotoUploadCard
+                  title={slot.label}
+                  imagePath={photos[slot.key] ?? null}
+                  onImagePathChange={(path) => onPhotoPathChange(slot.key, path)}
+                  uploadPath={`claims/${claimId}/inspections/${inspectionId}/template/${slot.key}`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,10 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { PhotoUploadCard } from '@/components/inspection/PhotoUploadCard';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { TYRE_CONDITIONS, type TyreFlag, type TyreMeasurements } from '@/lib/api/domains/inspections/tyres';
 
 interface TyreSingleProps {
   title: string;
@@ -17,14 +21,21 @@ interface TyreSingleProps {
   make: string;
   size: string;
   loadSpeed: string;
+  measurements: TyreMeasurements;
+  // Roadworthiness flags raised for this tyre
+  flags?: TyreFlag[];
   onFacePhotoPathChange: (path: string | null) => void;
   onMeasurementPhotoPathChange: (path: string | null) => void;
   onTreadPhotoPathChange: (path: string | null) => void;
   onMakeChange: (value: string) => void;
   onSizeChange: (value: string) => void;
   onLoadSpeedChange: (value: string) => void;
+  onMeasurementsChange: (updates: Partial<TyreMeasurements>) => void;
 }
 
+// Empty number inputs are stored as null rather than 0
+const toNumberOrNull = (value: string) => (value === "" ? null : Number(value));
+
 export function TyreSingle({
   title,
   claimId,
@@ -36,17 +47,28 @@ export function TyreSingle({
   make,
   size,
   loadSpeed,
+  measurements,
+  flags = [],
   onFacePhotoPathChange,
   onMeasurementPhotoPathChange,
   onTreadPhotoPathChange,
   onMakeChange,
   onSizeChange,
-  onLoadSpeedChange
+  onLoadSpeedChange,
+  onMeasurementsChange
 }: TyreSingleProps) {
   return (
-    <Card>
+    <Card className={flags.length > 0 ? "border-destructive" : undefined}>
       <CardHeader>
-        <CardTitle className="text-base">{title}</CardTitle>
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-base">{title}</CardTitle>
+          {flags.length > 0 && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Not roadworthy
+            </Badge>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -127,6 +149,106 @@ export function TyreSingle({
               />
             </div>
           </div>
+
+          {/* Tread depth - inner, centre and outer */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${position}-tread-inner`}>Tread Inner (mm)</Label>
+              <Input
+                id={`${position}-tread-inner`}
+                type="number"
+                min={0}
+                step={0.1}
+                placeholder="e.g., 4.5"
+                value={measurements.treadInnerMm ?? ""}
+                onChange={(e) => onMeasurementsChange({ treadInnerMm: toNumberOrNull(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`${position}-tread-centre`}>Tread Centre (mm)</Label>
+              <Input
+                id={`${position}-tread-centre`}
+                type="number"
+                min={0}
+                step={0.1}
+                placeholder="e.g., 4.5"
+                value={measurements.treadCentreMm ?? ""}
+                onChange={(e) => onMeasurementsChange({ treadCentreMm: toNumberOrNull(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`${position}-tread-outer`}>Tread Outer (mm)</Label>
+              <Input
+                id={`${position}-tread-outer`}
+                type="number"
+                min={0}
+                step={0.1}
+                placeholder="e.g., 4.5"
+                value={measurements.treadOuterMm ?? ""}
+                onChange={(e) => onMeasurementsChange({ treadOuterMm: toNumberOrNull(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          {/* DOT manufacture date and condition */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${position}-dot-week`}>DOT Week</Label>
+              <Input
+                id={`${position}-dot-week`}
+                type="number"
+                min={1}
+                max={53}
+                placeholder="e.g., 23"
+                value={measurements.dotWeek ?? ""}
+                onChange={(e) => onMeasurementsChange({ dotWeek: toNumberOrNull(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`${position}-dot-year`}>DOT Year</Label>
+              <Input
+                id={`${position}-dot-year`}
+                type="number"
+                min={1990}
+                placeholder="e.g., 2021"
+                value={measurements.dotYear ?? ""}
+                onChange={(e) => onMeasurementsChange({ dotYear: toNumberOrNull(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`${position}-condition`}>Condition</Label>
+              <Select
+                value={measurements.condition}
+                onValueChange={(value) => onMeasurementsChange({ condition: value })}
+              >
+                <SelectTrigger id={`${position}-condition`}>
+                  <SelectValue placeholder="Select condition" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TYRE_CONDITIONS.map((condition) => (
+                    <SelectItem key={condition.value} value={condition.value}>
+                      {condition.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {flags.length > 0 && (
+            <ul className="space-y-1">
+              {flags.map((flag) => (
+                <li key={`${flag.type}-${flag.message}`} className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {flag.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -6,14 +6,23 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Plus, X } from "lucide-react";
+import { AlertTriangle, Plus, X } from "lucide-react";
 import { TyreSingle } from "./TyreSingle";
+import {
+  EMPTY_TYRE_MEASUREMENTS,
+  STANDARD_TYRES,
+  getTyreFlags,
+  type StandardTyrePosition,
+  type TyreMeasurements,
+} from "@/lib/api/domains/inspections/tyres";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
 
 // Define the type for an additional tyre
-export interface AdditionalTyre {
+export interface AdditionalTyre extends TyreMeasurements {
   id: string;
   label: string;
+  // Tyres with the same axle are checked for mismatches
+  axle: string;
   facePhotoPath: string | null;
   measurementPhotoPath: string | null;
   treadPhotoPath: string | null;
@@ -33,6 +42,7 @@ interface TyresSectionProps {
     tyreRfMake: string;
     tyreRfSize: string;
     tyreRfLoadSpeed: string;
+    tyreRfMeasurements: TyreMeasurements;
     
     // RR Tyre
     tyreRrFacePhotoPath: string | null;
@@ -41,6 +51,7 @@ interface TyresSectionProps {
     tyreRrMake: string;
     tyreRrSize: string;
     tyreRrLoadSpeed: string;
+    tyreRrMeasurements: TyreMeasurements;
     
     // LR Tyre
     tyreLrFacePhotoPath: string | null;
@@ -49,6 +60,7 @@ interface TyresSectionProps {
     tyreLrMake: string;
     tyreLrSize: string;
     tyreLrLoadSpeed: string;
+    tyreLrMeasurements: TyreMeasurements;
     
     // LF Tyre
     tyreLfFacePhotoPath: string | null;
@@ -57,6 +69,7 @@ interface TyresSectionProps {
     tyreLfMake: string;
     tyreLfSize: string;
     tyreLfLoadSpeed: string;
+    tyreLfMeasurements: TyreMeasurements;
     
     // Spare Tyre
     tyreSpareFacePhotoPath: string | null;
@@ -65,6 +78,7 @@ interface TyresSectionProps {
     tyreSpareMake: string;
     tyreSparSize: string;
     tyreSparLoadSpeed: string;
+    tyreSpareMeasurements: TyreMeasurements;
   };
   onTyreDataChange: (updates: Partial<TyresSectionProps["tyreData"]>) => void;
   additionalTyres: AdditionalTyre[];
@@ -80,6 +94,7 @@ export function TyresSection({
   onAdditionalTyresChange
 }: TyresSectionProps) {
   const [newTyreLabel, setNewTyreLabel] = useState("");
+  const [newTyreAxle, setNewTyreAxle] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   
   // Calculate completion status
@@ -103,13 +118,40 @@ export function TyresSection({
     }
   });
   
+  // Check the tread depths against the legal minimum and the tyres of each axle against each other
+  const standardTyreData: Record<StandardTyrePosition, { size: string; measurements: TyreMeasurements }> = {
+    rf: { size: tyreData.tyreRfSize, measurements: tyreData.tyreRfMeasurements },
+    rr: { size: tyreData.tyreRrSize, measurements: tyreData.tyreRrMeasurements },
+    lr: { size: tyreData.tyreLrSize, measurements: tyreData.tyreLrMeasurements },
+    lf: { size: tyreData.tyreLfSize, measurements: tyreData.tyreLfMeasurements },
+    spare: { size: tyreData.tyreSparSize, measurements: tyreData.tyreSpareMeasurements },
+  };
+  const tyreFlags = getTyreFlags([
+    ...STANDARD_TYRES.map(({ position, label, axle }) => ({
+      key: position,
+      label,
+      axle,
+      ...standardTyreData[position],
+    })),
+    ...additionalTyres.map((tyre) => ({
+      key: tyre.id,
+      label: tyre.label,
+      axle: tyre.axle || null,
+      size: tyre.size,
+      measurements: tyre,
+    })),
+  ]);
+  const getFlagsFor = (key: string) => tyreFlags.filter((flag) => flag.tyreKeys.includes(key));
+
   // Handle adding a new tyre
   const handleAddTyre = () => {
     if (!newTyreLabel.trim()) return;
     
     const newTyre: AdditionalTyre = {
+      ...EMPTY_TYRE_MEASUREMENTS,
       id: `tyre-${Date.now()}`,
       label: newTyreLabel.trim(),
+      axle: newTyreAxle.trim(),
       facePhotoPath: null,
       measurementPhotoPath: null,
       treadPhotoPath: null,
@@ -120,6 +162,7 @@ export function TyresSection({
     
     onAdditionalTyresChange([...additionalTyres, newTyre]);
     setNewTyreLabel("");
+    setNewTyreAxle("");
     setIsDialogOpen(false);
   };
   
@@ -142,9 +185,17 @@ export function TyresSection({
       <CardHeader>
         <div className="flex justify-between items-center">
           <CardTitle>Tyres</CardTitle>
-          <Badge variant={completedStandardTyres === totalStandardTyres ? "success" : "outline"}>
-            {completedStandardTyres} of {totalStandardTyres} standard tyres complete
-          </Badge>
+          <div className="flex items-center gap-2">
+            {tyreFlags.length > 0 && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {tyreFlags.length} roadworthiness {tyreFlags.length === 1 ? "issue" : "issues"}
+              </Badge>
+            )}
+            <Badge variant={completedStandardTyres === totalStandardTyres ? "success" : "outline"}>
+              {completedStandardTyres} of {totalStandardTyres} standard tyres complete
+            </Badge>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-8">
@@ -162,12 +213,17 @@ export function TyresSection({
             make={tyreData.tyreRfMake}
             size={tyreData.tyreRfSize}
             loadSpeed={tyreData.tyreRfLoadSpeed}
+            measurements={tyreData.tyreRfMeasurements}
+            flags={getFlagsFor("rf")}
             onFacePhotoPathChange={(path) => onTyreDataChange({ tyreRfFacePhotoPath: path })}
             onMeasurementPhotoPathChange={(path) => onTyreDataChange({ tyreRfMeasurementPhotoPath: path })}
             onTreadPhotoPathChange={(path) => onTyreDataChange({ tyreRfTreadPhotoPath: path })}
             onMakeChange={(value) => onTyreDataChange({ tyreRfMake: value })}
             onSizeChange={(value) => onTyreDataChange({ tyreRfSize: value })}
             onLoadSpeedChange={(value) => onTyreDataChange({ tyreRfLoadSpeed: value })}
+            onMeasurementsChange={(updates) =>
+              onTyreDataChange({ tyreRfMeasurements: { ...tyreData.tyreRfMeasurements, ...updates } })
+            }
           />
           
           {/* RR Tyre */}
@@ -182,12 +238,17 @@ export function TyresSection({
             make={tyreData.tyreRrMake}
             size={tyreData.tyreRrSize}
             loadSpeed={tyreData.tyreRrLoadSpeed}
+            measurements={tyreData.tyreRrMeasurements}
+            flags={getFlagsFor("rr")}
             onFacePhotoPathChange={(path) => onTyreDataChange({ tyreRrFacePhotoPath: path })}
             onMeasurementPhotoPathChange={(path) => onTyreDataChange({ tyreRrMeasurementPhotoPath: path })}
             onTreadPhotoPathChange={(path) => onTyreDataChange({ tyreRrTreadPhotoPath: path })}
             onMakeChange={(value) => onTyreDataChange({ tyreRrMake: value })}
             onSizeChange={(value) => onTyreDataChange({ tyreRrSize: value })}
             onLoadSpeedChange={(value) => onTyreDataChange({ tyreRrLoadSpeed: value })}
+            onMeasurementsChange={(updates) =>
+              onTyreDataChange({ tyreRrMeasurements: { ...tyreData.tyreRrMeasurements, ...updates } })
+            }
           />
           
           {/* LR Tyre */}
@@ -202,12 +263,17 @@ export function TyresSection({
             make={tyreData.tyreLrMake}
             size={tyreData.tyreLrSize}
             loadSpeed={tyreData.tyreLrLoadSpeed}
+            measurements={tyreData.tyreLrMeasurements}
+            flags={getFlagsFor("lr")}
             onFacePhotoPathChange={(path) => onTyreDataChange({ tyreLrFacePhotoPath: path })}
             onMeasurementPhotoPathChange={(path) => onTyreDataChange({ tyreLrMeasurementPhotoPath: path })}
             onTreadPhotoPathChange={(path) => onTyreDataChange({ tyreLrTreadPhotoPath: path })}
             onMakeChange={(value) => onTyreDataChange({ tyreLrMake: value })}
             onSizeChange={(value) => onTyreDataChange({ tyreLrSize: value })}
             onLoadSpeedChange={(value) => onTyreDataChange({ tyreLrLoadSpeed: value })}
+            onMeasurementsChange={(updates) =>
+              onTyreDataChange({ tyreLrMeasurements: { ...tyreData.tyreLrMeasurements, ...updates } })
+            }
           />
           
           {/* LF Tyre */}
@@ -222,12 +288,17 @@ export function TyresSection({
             make={tyreData.tyreLfMake}
             size={tyreData.tyreLfSize}
             loadSpeed={tyreData.tyreLfLoadSpeed}
+            measurements={tyreData.tyreLfMeasurements}
+            flags={getFlagsFor("lf")}
             onFacePhotoPathChange={(path) => onTyreDataChange({ tyreLfFacePhotoPath: path })}
             onMeasurementPhotoPathChange={(path) => onTyreDataChange({ tyreLfMeasurementPhotoPath: path })}
             onTreadPhotoPathChange={(path) => onTyreDataChange({ tyreLfTreadPhotoPath: path })}
             onMakeChange={(value) => onTyreDataChange({ tyreLfMake: value })}
             onSizeChange={(value) => onTyreDataChange({ tyreLfSize: value })}
             onLoadSpeedChange={(value) => onTyreDataChange({ tyreLfLoadSpeed: value })}
+            onMeasurementsChange={(updates) =>
+              onTyreDataChange({ tyreLfMeasurements: { ...tyreData.tyreLfMeasurements, ...updates } })
+            }
           />
           
           {/* Spare Tyre */}
@@ -242,12 +313,17 @@ export function TyresSection({
             make={tyreData.tyreSpareMake}
             size={tyreData.tyreSparSize}
             loadSpeed={tyreData.tyreSparLoadSpeed}
+            measurements={tyreData.tyreSpareMeasurements}
+            flags={getFlagsFor("spare")}
             onFacePhotoPathChange={(path) => onTyreDataChange({ tyreSpareFacePhotoPath: path })}
             onMeasurementPhotoPathChange={(path) => onTyreDataChange({ tyreSpareMeasurementPhotoPath: path })}
             onTreadPhotoPathChange={(path) => onTyreDataChange({ tyreSpareTreadPhotoPath: path })}
             onMakeChange={(value) => onTyreDataChange({ tyreSpareMake: value })}
             onSizeChange={(value) => onTyreDataChange({ tyreSparSize: value })}
             onLoadSpeedChange={(value) => onTyreDataChange({ tyreSparLoadSpeed: value })}
+            onMeasurementsChange={(updates) =>
+              onTyreDataChange({ tyreSpareMeasurements: { ...tyreData.tyreSpareMeasurements, ...updates } })
+            }
           />
         </div>
         
@@ -268,7 +344,7 @@ export function TyresSection({
                 </Button>
                 
                 <TyreSingle
-                  title={tyre.label}
+                  title={tyre.axle ? `${tyre.label} (${tyre.axle} axle)` : tyre.label}
                   claimId={claimId}
                   inspectionId={inspectionId}
                   position={`additional-${tyre.id}`}
@@ -278,12 +354,15 @@ export function TyresSection({
                   make={tyre.make}
                   size={tyre.size}
                   loadSpeed={tyre.loadSpeed}
+                  measurements={tyre}
+                  flags={getFlagsFor(tyre.id)}
                   onFacePhotoPathChange={(path) => handleUpdateAdditionalTyre(tyre.id, { facePhotoPath: path })}
                   onMeasurementPhotoPathChange={(path) => handleUpdateAdditionalTyre(tyre.id, { measurementPhotoPath: path })}
                   onTreadPhotoPathChange={(path) => handleUpdateAdditionalTyre(tyre.id, { treadPhotoPath: path })}
                   onMakeChange={(value) => handleUpdateAdditionalTyre(tyre.id, { make: value })}
                   onSizeChange={(value) => handleUpdateAdditionalTyre(tyre.id, { size: value })}
                   onLoadSpeedChange={(value) => handleUpdateAdditionalTyre(tyre.id, { loadSpeed: value })}
+                  onMeasurementsChange={(updates) => handleUpdateAdditionalTyre(tyre.id, updates)}
                 />
               </div>
             ))}
@@ -311,6 +390,18 @@ export function TyresSection({
                   onChange={(e) => setNewTyreLabel(e.target.value)}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="tyre-axle">Axle</Label>
+                <Input
+                  id="tyre-axle"
+                  placeholder="e.g., Rear 2, Trailer front"
+                  value={newTyreAxle}
+                  onChange={(e) => setNewTyreAxle(e.target.value)}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Tyres on the same axle are checked for matching sizes and tread depths.
+                </p>
+              </div>
             </div>
             <DialogFooter>
               <DialogClose asChild>
@@ -5,12 +5,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PhotoUploadCard } from '@/components/inspection/PhotoUploadCard';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { decodeVin, getVinFlags } from '@/lib/api/domains/vehicles/vin';
 
 interface VinSectionProps {
   claimId: string;
   inspectionId: string;
   vehicleId: string;
   vin: string | null;
+  // Make and year captured at claim creation, which the decoded VIN is checked against
+  vehicleMake?: string | null;
+  vehicleYear?: number | null;
   vinDashPhotoPath: string | null;
   vinPlatePhotoPath: string | null;
   vinNumberPhotoPath: string | null;
@@ -25,6 +31,8 @@ export function VinSection({
   inspectionId,
   vehicleId,
   vin,
+  vehicleMake,
+  vehicleYear,
   vinDashPhotoPath,
   vinPlatePhotoPath,
   vinNumberPhotoPath,
@@ -33,10 +41,21 @@ export function VinSection({
   onVinPlatePhotoPathChange,
   onVinNumberPhotoPathChange
 }: VinSectionProps) {
+  const decodedVin = vin?.trim() ? decodeVin(vin) : null;
+  const mismatchFlags = getVinFlags(vin, { make: vehicleMake, year: vehicleYear })
+    .filter((flag) => flag.type !== "vin_invalid");
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Vehicle Identification Number (VIN)</CardTitle>
+        <div className="flex justify-between items-center">
+          <CardTitle>Vehicle Identification Number (VIN)</CardTitle>
+          {decodedVin && decodedVin.errors.length === 0 && (
+            <Badge variant={mismatchFlags.length > 0 ? "destructive" : "success"}>
+              {mismatchFlags.length > 0 ? "Does not match vehicle" : "VIN valid"}
+            </Badge>
+          )}
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
         <div className="grid grid-cols-4 gap-4">
@@ -50,6 +69,30 @@ export function VinSection({
               placeholder="Enter the vehicle's VIN"
               className="font-mono w-full"
             />
+            {decodedVin && decodedVin.errors.length > 0 && (
+              <ul className="space-y-1">
+                {decodedVin.errors.map((error) => (
+                  <li key={error} className="text-sm text-destructive">{error}</li>
+                ))}
+              </ul>
+            )}
+            {decodedVin && decodedVin.errors.length === 0 && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                {decodedVin.manufacturer || `Unknown manufacturer (${decodedVin.wmi})`}
+                {decodedVin.modelYears.length > 0 && `, model year ${decodedVin.modelYears.join(" or ")}`}
+              </p>
+            )}
+            {mismatchFlags.length > 0 && (
+              <ul className="space-y-1">
+                {mismatchFlags.map((flag) => (
+                  <li key={flag.type} className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {flag.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {/* VIN Photos - each in a single column */}
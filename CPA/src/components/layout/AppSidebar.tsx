@@ -75,13 +75,13 @@ export function AppSidebar() {
       icon: <Users className="h-4 w-4" />,
       label: "Clients",
       href: "/clients",
-      isActive: pathname === "/clients",
+      isActive: pathname.startsWith("/clients"),
     },
     {
       icon: <Wrench className="h-4 w-4" />,
       label: "Repairers",
       href: "/repairers",
-      isActive: pathname === "/repairers",
+      isActive: pathname.startsWith("/repairers"),
     },
     {
       icon: <Settings className="h-4 w-4" />,
@@ -41,6 +41,8 @@ export function LogEntry({ log }: LogEntryProps) {
         return <ClipboardCheck className="h-4 w-4 text-purple-500" />;
       case ClaimLogType.INSPECTION_COMPLETED:
         return <CheckCircle className="h-4 w-4 text-purple-500" />;
+      case ClaimLogType.INSPECTION_REOPENED:
+        return <ClipboardCheck className="h-4 w-4 text-amber-500" />;
       case ClaimLogType.ESTIMATE_CREATED:
         return <FileText className="h-4 w-4 text-indigo-500" />;
       case ClaimLogType.ESTIMATE_UPDATED:
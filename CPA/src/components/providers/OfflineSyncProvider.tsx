@@ -0,0 +1,19 @@
+"use client";
+
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { SyncStatusIndicator } from "@/components/ui/SyncStatusIndicator";
+
+/**
+ * Replays changes made offline when the browser reconnects and shows
+ * the sync status on every page
+ */
+export function OfflineSyncProvider({ children }: { children: React.ReactNode }) {
+  const { resolveRejected } = useOfflineSync();
+
+  return (
+    <>
+      {children}
+      <SyncStatusIndicator onResolveRejected={resolveRejected} />
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, ChevronsUpDown, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { type Repairer } from "@/lib/api/domains/repairers/types";
+import { useRepairer, useRepairerSearch } from "@/lib/api/domains/repairers/hooks";
+
+interface RepairerPickerProps {
+  value: string | null | undefined;
+  onChange: (repairer: Repairer | null) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+export function RepairerPicker({
+  value,
+  onChange,
+  disabled = false,
+  placeholder = "Select repairer",
+}: RepairerPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: repairers = [], isLoading } = useRepairerSearch(debouncedSearch, { enabled: open });
+  const { data: selectedRepairer } = useRepairer(value ?? "");
+
+  const handleSelect = (repairer: Repairer | null) => {
+    onChange(repairer);
+    setOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          <span className={cn("truncate", !selectedRepairer && "text-muted-foreground")}>
+            {selectedRepairer?.name ?? placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-2" align="start">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search repairers..."
+          className="mb-2"
+          autoFocus
+        />
+        <div className="max-h-60 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          ) : repairers.length === 0 ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">No repairers found.</div>
+          ) : (
+            repairers.map((repairer: Repairer) => (
+              <button
+                key={repairer.id}
+                type="button"
+                className="flex w-full items-center rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                onClick={() => handleSelect(repairer)}
+              >
+                <Check className={cn("mr-2 h-4 w-4", repairer.id === value ? "opacity-100" : "opacity-0")} />
+                <div className="flex-1 truncate">
+                  <div>{repairer.name}</div>
+                  {repairer.contact_person && (
+                    <div className="text-xs text-muted-foreground">{repairer.contact_person}</div>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+        {value && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="mt-2 w-full"
+            onClick={() => handleSelect(null)}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Clear selection
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
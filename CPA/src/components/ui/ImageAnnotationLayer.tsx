@@ -0,0 +1,180 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  getAnnotationStyle,
+  getArrowHeadPoints,
+  type ImageAnnotation,
+  type ImageAnnotationType,
+} from "@/lib/api/domains/photo-annotations";
+
+interface ImageAnnotationLayerProps {
+  annotations: ImageAnnotation[];
+  // Natural size of the image; the layer is stretched over the displayed image
+  width: number;
+  height: number;
+  // Tool used to draw; the layer ignores the pointer when no tool is selected
+  tool?: ImageAnnotationType | null;
+  color?: string;
+  onAnnotationAdd?: (annotation: ImageAnnotation) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Drags shorter than this fraction of the image are treated as clicks
+const MIN_DRAG = 0.01;
+
+/**
+ * Build the annotation drawn by dragging from one point to another
+ */
+function toAnnotation(tool: "arrow" | "circle", color: string, start: Point, end: Point): ImageAnnotation {
+  if (tool === "arrow") {
+    return { id: uuidv4(), type: "arrow", color, x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+  }
+  return {
+    id: uuidv4(),
+    type: "circle",
+    color,
+    cx: (start.x + end.x) / 2,
+    cy: (start.y + end.y) / 2,
+    rx: Math.abs(end.x - start.x) / 2,
+    ry: Math.abs(end.y - start.y) / 2,
+  };
+}
+
+/**
+ * An SVG layer that renders annotations over an image and lets the user draw new ones
+ */
+export function ImageAnnotationLayer({
+  annotations,
+  width,
+  height,
+  tool = null,
+  color = "#ef4444",
+  onAnnotationAdd,
+}: ImageAnnotationLayerProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+
+  if (!width || !height) return null;
+
+  const { strokeWidth, fontSize } = getAnnotationStyle(width, height);
+
+  // Pointer position as fractions of the image, which also holds while the image is zoomed
+  const toPoint = (e: React.PointerEvent<SVGSVGElement>): Point => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool) return;
+    e.stopPropagation();
+
+    const point = toPoint(e);
+    if (tool === "text") {
+      const text = window.prompt("Label text")?.trim();
+      if (text) {
+        onAnnotationAdd?.({ id: uuidv4(), type: "text", color, x: point.x, y: point.y, text });
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragStart) setDragEnd(toPoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragStart || !tool || tool === "text") return;
+
+    const end = toPoint(e);
+    if (Math.hypot(end.x - dragStart.x, end.y - dragStart.y) >= MIN_DRAG) {
+      onAnnotationAdd?.(toAnnotation(tool, color, dragStart, end));
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const draft = dragStart && dragEnd && tool && tool !== "text"
+    ? toAnnotation(tool, color, dragStart, dragEnd)
+    : null;
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-0 h-full w-full"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      style={{ pointerEvents: tool ? "auto" : "none", cursor: tool ? "crosshair" : undefined, touchAction: "none" }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <title>Photo annotations</title>
+      {[...annotations, ...(draft ? [draft] : [])].map((annotation) => {
+        if (annotation.type === "arrow") {
+          const head = getArrowHeadPoints(annotation, width, height);
+          const tip = `${annotation.x2 * width},${annotation.y2 * height}`;
+          return (
+            <g key={annotation.id} stroke={annotation.color} strokeWidth={strokeWidth} strokeLinecap="round" fill="none">
+              <line
+                x1={annotation.x1 * width}
+                y1={annotation.y1 * height}
+                x2={annotation.x2 * width}
+                y2={annotation.y2 * height}
+              />
+              <polyline points={`${head[0]?.join(",")} ${tip} ${head[1]?.join(",")}`} strokeLinejoin="round" />
+            </g>
+          );
+        }
+
+        if (annotation.type === "circle") {
+          return (
+            <ellipse
+              key={annotation.id}
+              cx={annotation.cx * width}
+              cy={annotation.cy * height}
+              rx={annotation.rx * width}
+              ry={annotation.ry * height}
+              stroke={annotation.color}
+              strokeWidth={strokeWidth}
+              fill="none"
+            />
+          );
+        }
+
+        return (
+          <text
+            key={annotation.id}
+            x={annotation.x * width}
+            y={annotation.y * height}
+            fill={annotation.color}
+            stroke="rgba(0, 0, 0, 0.6)"
+            strokeWidth={strokeWidth}
+            paintOrder="stroke"
+            fontSize={fontSize}
+            fontWeight="bold"
+            fontFamily="sans-serif"
+          >
+            {annotation.text}
+          </text>
+        );
+      })}
+    </svg>
+  );
+}
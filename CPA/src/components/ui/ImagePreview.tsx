@@ -4,11 +4,39 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { Dialog, DialogTrigger } from "@/components/ui/dialog";
 import { StorageImage } from "@/components/ui/StorageImage";
 import { Button } from "@/components/ui/button";
-import { ZoomIn, ZoomOut, Download, X, Maximize2, Minimize2, RotateCw } from "lucide-react";
+import { ImageAnnotationLayer } from "@/components/ui/ImageAnnotationLayer";
+import {
+  ZoomIn,
+  ZoomOut,
+  Download,
+  X,
+  Maximize2,
+  Minimize2,
+  RotateCw,
+  MoveUpRight,
+  Circle,
+  Type,
+  Undo2,
+  Save,
+  ImageDown,
+  Loader2,
+  Info,
+  AlertTriangle,
+} from "lucide-react";
 import { useSupabaseStorage } from "@/hooks/useSupabaseStorage";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { createClient } from "@/utils/supabase/client";
 import { Rnd } from "react-rnd";
+import {
+  AnnotationColorOptions,
+  renderAnnotatedImage,
+  usePhotoAnnotations,
+  useSavePhotoAnnotations,
+  type ImageAnnotation,
+  type ImageAnnotationType,
+} from "@/lib/api/domains/photo-annotations";
+import { usePhotoMetadata, type PhotoMetadataWarning } from "@/lib/api/domains/photo-metadata";
 
 interface ImagePreviewProps {
   bucketName?: string;
@@ -19,6 +47,27 @@ interface ImagePreviewProps {
   onClose?: () => void;
 }
 
+const ANNOTATION_TOOLS: { value: ImageAnnotationType; label: string; icon: typeof Circle }[] = [
+  { value: "arrow", label: "Arrow", icon: MoveUpRight },
+  { value: "circle", label: "Circle", icon: Circle },
+  { value: "text", label: "Text label", icon: Type },
+];
+
+// Extract the storage path from a public URL; plain paths are returned as they are
+function toStoragePath(filePath: string) {
+  if (!filePath.startsWith("http")) return filePath;
+
+  const urlPath = new URL(filePath).pathname;
+
+  // Match different Supabase URL patterns
+  const pathMatch = urlPath.match(/\/storage\/v1\/object(?:\/public)?\/([^/]+)\/(.+)/);
+  if (pathMatch?.[2]) return pathMatch[2];
+
+  // Try another pattern with project ref
+  const projectRefMatch = urlPath.match(/\/[^/]+\/storage\/v1\/object(?:\/public)?\/([^/]+)\/(.+)/);
+  return projectRefMatch?.[2] ?? filePath;
+}
+
 export function ImagePreview({
   bucketName = "claim-attachments",
   filePath,
@@ -71,11 +120,31 @@ export function ImagePreview({
   const [preMaximizedState, setPreMaximizedState] = useState<{ size: { width: number, height: number }, position: { x: number, y: number } } | null>(null);
   const [aspectRatio, setAspectRatio] = useState(1.33); // Default 4:3
 
+  // Annotations are stored apart from the photo, which is never changed
+  const [annotationTool, setAnnotationTool] = useState<ImageAnnotationType | null>(null);
+  const [annotationColor, setAnnotationColor] = useState(AnnotationColorOptions[0]?.value ?? "#ef4444");
+  const [annotations, setAnnotations] = useState<ImageAnnotation[]>([]);
+  const [hasUnsavedAnnotations, setHasUnsavedAnnotations] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+
+  const { data: savedAnnotations } = usePhotoAnnotations(bucketName, filePath, {
+    enabled: isOpen && !!filePath,
+  });
+  const saveAnnotations = useSavePhotoAnnotations();
+
+  // EXIF capture details recorded when the photo was uploaded
+  const [showMetadata, setShowMetadata] = useState(false);
+  const { data: metadata, isLoading: isMetadataLoading } = usePhotoMetadata(bucketName, filePath, {
+    enabled: isOpen && !!filePath,
+  });
+  const metadataWarnings = metadata?.warnings ?? [];
+
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const dialogOpenedRef = useRef<boolean>(false);
 
-  const { downloadFile } = useSupabaseStorage();
+  const { downloadFile, uploadFile } = useSupabaseStorage();
 
   // Set mounted state on component mount
   useEffect(() => {
@@ -149,6 +218,8 @@ export function ImagePreview({
     setIsDragging(false);
     setTouchStartDistance(null);
     setInitialZoom(1);
+    setAnnotationTool(null);
+    setHasUnsavedAnnotations(false);
 
     console.log("FilePath changed, resetting state");
   }, [filePath, externalIsOpen, onClose]);
@@ -160,11 +231,19 @@ export function ImagePreview({
       img.onload = () => {
         const ratio = img.naturalWidth / img.naturalHeight;
         setAspectRatio(ratio);
+        setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
       };
       img.src = filePath;
     }
   }, [isOpen, filePath]);
 
+  // Show the saved annotations unless there are edits that have not been saved yet
+  useEffect(() => {
+    if (!hasUnsavedAnnotations) {
+      setAnnotations(savedAnnotations?.annotations ?? []);
+    }
+  }, [savedAnnotations, hasUnsavedAnnotations]);
+
   const handleZoomIn = useCallback(() => {
     setZoomLevel(prev => Math.min(prev + 0.25, 5));
   }, []);
@@ -190,8 +269,8 @@ export function ImagePreview({
   // Mouse event handlers for panning
   // Only activate panning when clicking directly on the image element
   const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    // Only enable panning when zoomed in
-    if (zoomLevel > 1) {
+    // Only enable panning when zoomed in and not drawing an annotation
+    if (zoomLevel > 1 && !annotationTool) {
       // Check if the click target is the image or its container
       const target = e.target as HTMLElement;
       const isImageOrContainer =
@@ -207,7 +286,7 @@ export function ImagePreview({
         });
       }
     }
-  }, [zoomLevel, panPosition]);
+  }, [zoomLevel, panPosition, annotationTool]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     if (isDragging && zoomLevel > 1) {
@@ -231,7 +310,7 @@ export function ImagePreview({
       );
       setTouchStartDistance(distance);
       setInitialZoom(zoomLevel);
-    } else if (e.touches.length === 1 && zoomLevel > 1) {
+    } else if (e.touches.length === 1 && zoomLevel > 1 && !annotationTool) {
       // Check if the touch target is the image or its container
       const target = e.target as HTMLElement;
       const isImageOrContainer =
@@ -248,7 +327,7 @@ export function ImagePreview({
         });
       }
     }
-  }, [zoomLevel, panPosition]);
+  }, [zoomLevel, panPosition, annotationTool]);
 
   const handleTouchMove = useCallback((e: React.TouchEvent<HTMLDivElement>) => {
     e.preventDefault(); // Prevent default browser behavior
@@ -366,26 +445,7 @@ export function ImagePreview({
     try {
       if (!filePath) return;
 
-      // Extract the path from the URL if it's a full URL
-      let path = filePath;
-      if (filePath.startsWith("http") || filePath.startsWith("https")) {
-        const url = new URL(filePath);
-        const urlPath = url.pathname;
-
-        // Match different Supabase URL patterns
-        const pathMatch = urlPath.match(/\/storage\/v1\/object(?:\/public)?\/([^/]+)\/(.+)/);
-        if (pathMatch) {
-          path = pathMatch[2];
-        } else {
-          // Try another pattern with project ref
-          const projectRefMatch = urlPath.match(/\/[^/]+\/storage\/v1\/object(?:\/public)?\/([^/]+)\/(.+)/);
-          if (projectRefMatch) {
-            path = projectRefMatch[2];
-          }
-        }
-      }
-
-      await downloadFile(bucketName, path);
+      await downloadFile(bucketName, toStoragePath(filePath));
       toast.success("Image downloaded successfully");
     } catch (error) {
       console.error("Error downloading image:", error);
@@ -393,6 +453,58 @@ export function ImagePreview({
     }
   };
 
+  const handleAnnotationAdd = (annotation: ImageAnnotation) => {
+    setAnnotations(prev => [...prev, annotation]);
+    setHasUnsavedAnnotations(true);
+  };
+
+  const handleUndoAnnotation = () => {
+    setAnnotations(prev => prev.slice(0, -1));
+    setHasUnsavedAnnotations(true);
+  };
+
+  // Saving changed annotations clears the exported copy, which no longer matches them
+  const handleSaveAnnotations = () => {
+    saveAnnotations.mutate(
+      { bucket_name: bucketName, file_path: filePath, annotations },
+      { onSuccess: () => setHasUnsavedAnnotations(false) }
+    );
+  };
+
+  // Upload a flattened copy with the annotations drawn on it, for use in reports
+  const handleExportAnnotated = async () => {
+    try {
+      setIsExporting(true);
+
+      const storagePath = toStoragePath(filePath);
+      const imageUrl = filePath.startsWith("http")
+        ? filePath
+        : createClient().storage.from(bucketName).getPublicUrl(storagePath).data.publicUrl;
+      const blob = await renderAnnotatedImage(imageUrl, annotations);
+
+      const folder = [...storagePath.split("/").slice(0, -1), "annotated"].join("/");
+      const flattenedPath = await uploadFile({
+        bucketName,
+        path: folder,
+        file: new File([blob], "annotated.jpg", { type: "image/jpeg" }),
+      });
+
+      if (!flattenedPath) {
+        throw new Error("Failed to upload the annotated copy");
+      }
+
+      saveAnnotations.mutate(
+        { bucket_name: bucketName, file_path: filePath, annotations, flattened_path: flattenedPath },
+        { onSuccess: () => setHasUnsavedAnnotations(false) }
+      );
+    } catch (error) {
+      console.error("Error exporting annotated image:", error);
+      toast.error("Failed to export annotated image");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Only render the dialog when the component is mounted
   // This prevents issues with the dialog opening automatically
   if (!isMounted) {
@@ -514,6 +626,15 @@ export function ImagePreview({
             <Button variant="secondary" size="icon" onClick={handleDownload} title="Download">
               <Download className="h-4 w-4" />
             </Button>
+            <Button
+              variant={showMetadata ? "default" : "secondary"}
+              size="icon"
+              className={cn(!showMetadata && metadataWarnings.length > 0 && "text-amber-600")}
+              onClick={() => setShowMetadata(!showMetadata)}
+              title="Photo details"
+            >
+              {metadataWarnings.length > 0 ? <AlertTriangle className="h-4 w-4" /> : <Info className="h-4 w-4" />}
+            </Button>
             <Button
               variant="secondary"
               size="icon"
@@ -557,10 +678,123 @@ export function ImagePreview({
             </Button>
           </div>
 
+          {/* Annotation tools */}
+          <div className="absolute top-2 left-2 z-10 flex gap-2">
+            {ANNOTATION_TOOLS.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={annotationTool === value ? "default" : "secondary"}
+                size="icon"
+                onClick={() => setAnnotationTool(annotationTool === value ? null : value)}
+                title={label}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+            <div className="flex items-center gap-1 rounded-md bg-secondary px-2">
+              {AnnotationColorOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={cn(
+                    "h-5 w-5 rounded-full border",
+                    annotationColor === option.value && "ring-2 ring-primary ring-offset-1"
+                  )}
+                  style={{ backgroundColor: option.value }}
+                  onClick={() => setAnnotationColor(option.value)}
+                  title={option.label}
+                />
+              ))}
+            </div>
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={handleUndoAnnotation}
+              disabled={annotations.length === 0}
+              title="Undo last annotation"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={handleSaveAnnotations}
+              disabled={!hasUnsavedAnnotations || saveAnnotations.isPending}
+              title="Save annotations"
+            >
+              <Save className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={handleExportAnnotated}
+              disabled={annotations.length === 0 || isExporting}
+              title="Export annotated copy"
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageDown className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          {/* Capture details */}
+          {showMetadata && (
+            <div className="absolute bottom-2 right-2 z-10 w-72 space-y-2 rounded-md bg-background/90 p-3 text-xs shadow">
+              <p className="font-medium text-sm">Photo details</p>
+              {isMetadataLoading ? (
+                <p className="text-muted-foreground">Loading...</p>
+              ) : !metadata ? (
+                <p className="text-muted-foreground">No capture details were recorded for this photo</p>
+              ) : (
+                <>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                    <dt className="text-muted-foreground">Captured</dt>
+                    <dd>{metadata.captured_at ? new Date(metadata.captured_at).toLocaleString() : "Unknown"}</dd>
+                    <dt className="text-muted-foreground">Location</dt>
+                    <dd>
+                      {metadata.latitude !== null && metadata.longitude !== null ? (
+                        <a
+                          href={`https://www.google.com/maps?q=${metadata.latitude},${metadata.longitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline"
+                        >
+                          {metadata.latitude.toFixed(5)}, {metadata.longitude.toFixed(5)}
+                        </a>
+                      ) : (
+                        "Unknown"
+                      )}
+                    </dd>
+                    {metadata.distance_km !== null && (
+                      <>
+                        <dt className="text-muted-foreground">From appointment</dt>
+                        <dd>{metadata.distance_km.toFixed(1)} km</dd>
+                      </>
+                    )}
+                    {(metadata.camera_make || metadata.camera_model) && (
+                      <>
+                        <dt className="text-muted-foreground">Camera</dt>
+                        <dd>{[metadata.camera_make, metadata.camera_model].filter(Boolean).join(" ")}</dd>
+                      </>
+                    )}
+                  </dl>
+                  {metadataWarnings.map((warning: PhotoMetadataWarning) => (
+                    <p key={warning.type} className="flex items-start gap-1 text-amber-600">
+                      <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                      {warning.message}
+                    </p>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+
           {/* Zoom level and pan indicator */}
           <div className="absolute bottom-2 left-2 bg-background/80 px-2 py-1 rounded text-xs flex items-center gap-2">
             <span>{Math.round(zoomLevel * 100)}%</span>
-            {zoomLevel > 1 && (
+            {annotationTool ? (
+              <span className="text-muted-foreground">
+                {annotationTool === "text" ? "Click to place a label" : "Drag on the photo to draw"}
+              </span>
+            ) : zoomLevel > 1 && (
               <span className="text-muted-foreground flex items-center">
                 <span className="inline-block w-3 h-3 rounded-full border border-current mr-1 animate-pulse"></span>
                 Click and drag to pan
@@ -615,6 +849,14 @@ export function ImagePreview({
                 }}
                 unoptimized
               />
+              <ImageAnnotationLayer
+                annotations={annotations}
+                width={naturalSize.width}
+                height={naturalSize.height}
+                tool={annotationTool}
+                color={annotationColor}
+                onAnnotationAdd={handleAnnotationAdd}
+              />
             </div>
           </div>
         </div>
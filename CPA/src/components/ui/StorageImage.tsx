@@ -6,6 +6,8 @@ import Image from "next/image";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuthStore } from "@/stores/authStore";
 import { createClient } from "@/utils/supabase/client";
+import { getThumbnailPath } from "@/utils/image-compression";
+import { getQueuedPhotoUrl } from "@/utils/offline-queue";
 
 // Create a global cache for image URLs
 // This will persist across component renders but will be reset on page refresh
@@ -25,6 +27,8 @@ interface StorageImageProps {
   unoptimized?: boolean;
   style?: React.CSSProperties;
   onClick?: (e: React.MouseEvent<HTMLImageElement>) => void;
+  // Show the small copy stored at upload, falling back to the original for older photos
+  thumbnail?: boolean;
 }
 
 /**
@@ -45,8 +49,10 @@ export const StorageImage = forwardRef<HTMLImageElement, StorageImageProps>(({
   unoptimized = true,
   style,
   onClick,
+  thumbnail = false,
 }, ref) => {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const { user } = useAuthStore();
@@ -138,6 +144,25 @@ export const StorageImage = forwardRef<HTMLImageElement, StorageImageProps>(({
         console.log("StorageImage: Final path for URL generation:", path);
         console.log("StorageImage: Using bucket:", extractedBucketName);
 
+        // Photos taken offline are shown from the device until they have uploaded
+        const queuedUrl = await getQueuedPhotoUrl(path);
+        if (queuedUrl) {
+          setFallbackUrl(null);
+          setImageUrl(queuedUrl);
+          setIsLoading(false);
+          return;
+        }
+
+        // Create a Supabase client using the project's createClient function
+        const supabase = createClient();
+
+        if (thumbnail) {
+          setFallbackUrl(supabase.storage.from(extractedBucketName).getPublicUrl(path).data.publicUrl);
+          path = getThumbnailPath(path);
+        } else {
+          setFallbackUrl(null);
+        }
+
         // Create a cache key based on bucket name and file path
         const cacheKey = `${extractedBucketName}:${path}`;
 
@@ -152,9 +177,6 @@ export const StorageImage = forwardRef<HTMLImageElement, StorageImageProps>(({
           }
         }
 
-        // Create a Supabase client using the project's createClient function
-        const supabase = createClient();
-
         // Generate a fresh public URL but don't use download parameter to prevent direct navigation
         // Instead, we'll handle downloads separately through the downloadFile function
         const { data } = supabase.storage.from(extractedBucketName).getPublicUrl(path, {
@@ -177,7 +199,7 @@ export const StorageImage = forwardRef<HTMLImageElement, StorageImageProps>(({
     };
 
     fetchImageUrl();
-  }, [bucketName, filePath, user?.id]);
+  }, [bucketName, filePath, thumbnail, user?.id]);
 
   if (isLoading) {
     return <Skeleton className={className || (fill ? "w-full h-full" : `w-${width} h-${height}`)} />;
@@ -205,6 +227,12 @@ export const StorageImage = forwardRef<HTMLImageElement, StorageImageProps>(({
       priority={priority}
       unoptimized={unoptimized}
       onClick={onClick}
+      onError={() => {
+        // Photos uploaded before thumbnails were stored have none
+        if (fallbackUrl && imageUrl !== fallbackUrl) {
+          setImageUrl(fallbackUrl);
+        }
+      }}
     />
   );
 });
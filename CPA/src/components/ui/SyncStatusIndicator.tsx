@@ -1,21 +1,28 @@
 'use client';
 
-import { useEffect } from 'react';
-import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, CloudOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { useSyncStatusStore, SyncStatus } from '@/stores/syncStatusStore';
 
+interface SyncStatusIndicatorProps {
+  // Called when the user overwrites or discards offline changes the server rejected
+  onResolveRejected?: (resolution: 'overwrite' | 'discard') => void;
+}
+
 /**
  * A global indicator that shows the current synchronization status
+ * and the state of the offline queue
  * Displays in the top-right corner of the page
  */
-export function SyncStatusIndicator() {
-  const { status, message } = useSyncStatusStore();
-  
+export function SyncStatusIndicator({ onResolveRejected }: SyncStatusIndicatorProps) {
+  const { status, message, isOnline, queuedCount, conflictCount, failedCount } = useSyncStatusStore();
+  const rejectedCount = conflictCount + failedCount;
+
   // Don't render anything if idle and no message
-  if (status === 'idle' && !message) {
+  if (status === 'idle' && !message && isOnline && queuedCount === 0 && rejectedCount === 0) {
     return null;
   }
-  
+
   // Define status-specific properties
   const getStatusProps = (status: SyncStatus) => {
     switch (status) {
@@ -49,17 +56,57 @@ export function SyncStatusIndicator() {
         };
     }
   };
-  
+
   const { icon, bgColor, textColor, borderColor } = getStatusProps(status);
-  
+
+  // Queued changes, shown while offline or until they have synced
+  const queueMessage = !isOnline
+    ? `Offline${queuedCount > 0 ? ` - ${queuedCount} change${queuedCount === 1 ? '' : 's'} will sync when back online` : ''}`
+    : queuedCount > 0 && status !== 'syncing'
+      ? `${queuedCount} offline change${queuedCount === 1 ? '' : 's'} waiting to sync`
+      : null;
+
+  const rejectedMessage = [
+    conflictCount > 0 && `${conflictCount} offline change${conflictCount === 1 ? '' : 's'} conflict with newer server changes`,
+    failedCount > 0 && `${failedCount} offline change${failedCount === 1 ? '' : 's'} could not be saved`,
+  ].filter(Boolean).join('; ');
+
   return (
-    <div 
-      className={`fixed top-4 right-4 z-50 flex items-center gap-2 px-3 py-1.5 rounded-md border ${bgColor} ${textColor} ${borderColor} shadow-sm transition-all duration-300 ease-in-out`}
-      role="status"
-      aria-live="polite"
-    >
-      {icon}
-      <span className="text-sm font-medium">{message}</span>
+    <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-2" role="status" aria-live="polite">
+      {(status !== 'idle' || message) && (
+        <div
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-md border ${bgColor} ${textColor} ${borderColor} shadow-sm transition-all duration-300 ease-in-out`}
+        >
+          {icon}
+          <span className="text-sm font-medium">{message}</span>
+        </div>
+      )}
+
+      {queueMessage && (
+        <div className="flex items-center gap-2 px-3 py-1.5 rounded-md border bg-amber-50 text-amber-700 border-amber-200 shadow-sm">
+          <CloudOff className="h-4 w-4" />
+          <span className="text-sm font-medium">{queueMessage}</span>
+        </div>
+      )}
+
+      {rejectedCount > 0 && (
+        <div className="max-w-sm space-y-2 px-3 py-2 rounded-md border bg-red-50 text-red-700 border-red-200 shadow-sm">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <span className="text-sm font-medium">{rejectedMessage}</span>
+          </div>
+          {onResolveRejected && (
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => onResolveRejected('discard')}>
+                Discard mine
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => onResolveRejected('overwrite')}>
+                Save mine anyway
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
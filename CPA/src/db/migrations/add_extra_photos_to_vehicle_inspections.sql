@@ -0,0 +1,8 @@
+-- Migration to add the photos of template-defined photo slots to the vehicle_inspections table
+
+-- Add the new column
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS extra_photos JSONB NOT NULL DEFAULT '{}'::jsonb; -- Object of {slot key: storage path}
+
+-- Add a comment to explain the purpose of this field
+COMMENT ON COLUMN vehicle_inspections.extra_photos IS 'Photos of the slots a client''s inspection template adds to a section, e.g. the extra angles of a 12-point 360, keyed by slot key';
@@ -0,0 +1,6 @@
+-- Migration to add final_subtotal_special column to estimates table
+-- Final costing mirrors the original subtotals, including special services (SC lines)
+
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS final_subtotal_special numeric(12, 2) NULL;
+
+COMMENT ON COLUMN estimates.final_subtotal_special IS 'Special services subtotal (with special markup) of the estimate plus approved additionals';
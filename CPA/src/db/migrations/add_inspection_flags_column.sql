@@ -0,0 +1,8 @@
+-- Migration to add inspection flags to the vehicle_inspections table
+
+-- Add the new column
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS flags JSONB NOT NULL DEFAULT '[]'::jsonb; -- Array of {type, message}
+
+-- Add a comment to explain the purpose of this field
+COMMENT ON COLUMN vehicle_inspections.flags IS 'Problems found during the inspection, e.g. a VIN that does not match the make or year captured at claim creation';
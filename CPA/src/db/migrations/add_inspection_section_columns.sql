@@ -0,0 +1,76 @@
+-- Migration to add the interior, mechanical and tyre sections to the vehicle_inspections table
+
+-- Overall condition from the 360 view section
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS overall_condition TEXT;
+
+-- Interior section
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS mileage_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS radio_present BOOLEAN,
+ADD COLUMN IF NOT EXISTS radio_make TEXT,
+ADD COLUMN IF NOT EXISTS radio_model TEXT,
+ADD COLUMN IF NOT EXISTS radio_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS gear_type TEXT,
+ADD COLUMN IF NOT EXISTS interior_front_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS interior_rear_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS leather_seats BOOLEAN,
+ADD COLUMN IF NOT EXISTS interior_condition TEXT,
+ADD COLUMN IF NOT EXISTS srs_activated BOOLEAN,
+ADD COLUMN IF NOT EXISTS srs_damage_photo_path_1 TEXT,
+ADD COLUMN IF NOT EXISTS srs_damage_photo_path_2 TEXT,
+ADD COLUMN IF NOT EXISTS srs_damage_photo_path_3 TEXT,
+ADD COLUMN IF NOT EXISTS srs_damage_photo_path_4 TEXT,
+ADD COLUMN IF NOT EXISTS jack_tools_present BOOLEAN,
+ADD COLUMN IF NOT EXISTS jack_tools_photo_path TEXT;
+
+-- Mechanical section
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS engine_bay_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS battery_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS mechanical_condition TEXT,
+ADD COLUMN IF NOT EXISTS electrical_condition TEXT;
+
+-- Tyres section - standard tyres
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS tyre_rf_face_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rf_measurement_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rf_tread_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rf_make TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rf_size TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rf_load_speed TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_face_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_measurement_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_tread_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_make TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_size TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_load_speed TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_face_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_measurement_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_tread_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_make TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_size TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_load_speed TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_face_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_measurement_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_tread_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_make TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_size TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_load_speed TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_face_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_measurement_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_tread_photo_path TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_make TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_size TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_load_speed TEXT;
+
+-- Additional tyres for larger vehicles
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS additional_tyres JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Add comments to explain the purpose of these fields
+COMMENT ON COLUMN vehicle_inspections.overall_condition IS 'Overall condition of the vehicle: excellent, good, fair, poor or very_poor';
+COMMENT ON COLUMN vehicle_inspections.interior_condition IS 'Interior condition: no_damage, good, poor or very_poor';
+COMMENT ON COLUMN vehicle_inspections.mechanical_condition IS 'Mechanical condition: working, not_working or other';
+COMMENT ON COLUMN vehicle_inspections.electrical_condition IS 'Electrical condition: working, not_working or other';
+COMMENT ON COLUMN vehicle_inspections.additional_tyres IS 'Tyres beyond the standard four and spare, as an array of {id, label, photo paths, make, size, load_speed}';
@@ -0,0 +1,12 @@
+-- Migration to add the draft and completed lifecycle to the vehicle_inspections table
+
+-- Add the new columns
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'completed')),
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS completed_by_employee_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Add a comment to explain the purpose of these fields
+COMMENT ON COLUMN vehicle_inspections.status IS 'draft while the inspection is being captured; completed inspections are read-only until an admin reopens them';
+COMMENT ON COLUMN vehicle_inspections.completed_at IS 'When the inspection was completed';
+COMMENT ON COLUMN vehicle_inspections.completed_by_employee_id IS 'Reference to the profile who completed the inspection';
@@ -0,0 +1,9 @@
+-- Migration to add is_active column to repairers table
+-- Repairers are deactivated rather than deleted because appointments and estimates reference them
+
+ALTER TABLE repairers ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+-- Create an index for filtering active repairers in pickers
+CREATE INDEX IF NOT EXISTS idx_repairers_is_active ON repairers(is_active);
+
+COMMENT ON COLUMN repairers.is_active IS 'Inactive repairers are hidden from pickers but kept for existing appointments and estimates';
@@ -0,0 +1,26 @@
+-- Migration to add labor trades to estimate and additional lines and per-trade labor subtotals to estimates
+-- Lines bill their labor hours at the rate of their trade instead of a single panel labor rate
+
+ALTER TABLE estimate_lines ADD COLUMN IF NOT EXISTS labor_trade TEXT NOT NULL DEFAULT 'panel';
+ALTER TABLE additional_lines ADD COLUMN IF NOT EXISTS labor_trade TEXT NOT NULL DEFAULT 'panel';
+
+COMMENT ON COLUMN estimate_lines.labor_trade IS 'Trade the line''s labor hours are billed at (panel, mechanical, electrical)';
+COMMENT ON COLUMN additional_lines.labor_trade IS 'Trade the line''s labor hours are billed at, same values as estimate_lines.labor_trade';
+
+-- The per-trade rates already exist on most databases
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS strip_fit_labor_rate numeric(12, 2) NULL;
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS mechanical_labor_rate numeric(12, 2) NULL;
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS electrical_labor_rate numeric(12, 2) NULL;
+
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS subtotal_panel_labor numeric(12, 2) NULL;
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS subtotal_strip_fit_labor numeric(12, 2) NULL;
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS subtotal_mechanical_labor numeric(12, 2) NULL;
+ALTER TABLE estimates ADD COLUMN IF NOT EXISTS subtotal_electrical_labor numeric(12, 2) NULL;
+
+COMMENT ON COLUMN estimates.strip_fit_labor_rate IS 'Hourly rate for strip/fit hours on panel lines; falls back to panel_labor_rate when empty';
+COMMENT ON COLUMN estimates.mechanical_labor_rate IS 'Hourly rate for mechanical lines; falls back to panel_labor_rate when empty';
+COMMENT ON COLUMN estimates.electrical_labor_rate IS 'Hourly rate for electrical lines; falls back to panel_labor_rate when empty';
+COMMENT ON COLUMN estimates.subtotal_panel_labor IS 'Repair hours of panel lines at the panel labor rate';
+COMMENT ON COLUMN estimates.subtotal_strip_fit_labor IS 'Strip/fit hours of panel lines at the strip/fit labor rate';
+COMMENT ON COLUMN estimates.subtotal_mechanical_labor IS 'Strip/fit and repair hours of mechanical lines at the mechanical labor rate';
+COMMENT ON COLUMN estimates.subtotal_electrical_labor IS 'Strip/fit and repair hours of electrical lines at the electrical labor rate';
@@ -0,0 +1,6 @@
+-- Migration to add part_type column to additional_lines table
+-- Additional lines mirror estimate_lines so they can be captured and displayed with the same columns
+
+ALTER TABLE additional_lines ADD COLUMN IF NOT EXISTS part_type TEXT NULL;
+
+COMMENT ON COLUMN additional_lines.part_type IS 'Part source type, same values as estimate_lines.part_type (D, ALT, U, O)';
@@ -0,0 +1,9 @@
+-- Migration to link the lines of an estimate revision to the lines they were copied from
+-- Version diffs match lines on this link, so reordering lines doesn't show them as changed
+
+ALTER TABLE estimate_lines
+ADD COLUMN IF NOT EXISTS source_line_id UUID NULL REFERENCES estimate_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_estimate_lines_source_line_id ON estimate_lines(source_line_id);
+
+COMMENT ON COLUMN estimate_lines.source_line_id IS 'Line of the previous estimate version this line was copied from when the revision was created';
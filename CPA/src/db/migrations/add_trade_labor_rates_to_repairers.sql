@@ -0,0 +1,10 @@
+-- Migration to add default per-trade labor rates to the repairers table
+-- Estimates for a repairer are pre-filled with every rate the repairer has a default for
+
+ALTER TABLE repairers ADD COLUMN IF NOT EXISTS default_strip_fit_labor_rate numeric(12, 2) NULL;
+ALTER TABLE repairers ADD COLUMN IF NOT EXISTS default_mechanical_labor_rate numeric(12, 2) NULL;
+ALTER TABLE repairers ADD COLUMN IF NOT EXISTS default_electrical_labor_rate numeric(12, 2) NULL;
+
+COMMENT ON COLUMN repairers.default_strip_fit_labor_rate IS 'Default strip/fit labor rate per hour for estimates of this repairer';
+COMMENT ON COLUMN repairers.default_mechanical_labor_rate IS 'Default mechanical labor rate per hour for estimates of this repairer';
+COMMENT ON COLUMN repairers.default_electrical_labor_rate IS 'Default electrical labor rate per hour for estimates of this repairer';
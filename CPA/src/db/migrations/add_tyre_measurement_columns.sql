@@ -0,0 +1,40 @@
+-- Migration to add tread depth, DOT date and condition to the tyres of the vehicle_inspections table
+
+-- Tyres section - tread depth in millimetres, DOT manufacture week/year and condition
+ALTER TABLE vehicle_inspections
+ADD COLUMN IF NOT EXISTS tyre_rf_tread_inner_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_rf_tread_centre_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_rf_tread_outer_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_rf_dot_week SMALLINT CHECK (tyre_rf_dot_week BETWEEN 1 AND 53),
+ADD COLUMN IF NOT EXISTS tyre_rf_dot_year SMALLINT,
+ADD COLUMN IF NOT EXISTS tyre_rf_condition TEXT,
+ADD COLUMN IF NOT EXISTS tyre_rr_tread_inner_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_rr_tread_centre_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_rr_tread_outer_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_rr_dot_week SMALLINT CHECK (tyre_rr_dot_week BETWEEN 1 AND 53),
+ADD COLUMN IF NOT EXISTS tyre_rr_dot_year SMALLINT,
+ADD COLUMN IF NOT EXISTS tyre_rr_condition TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lr_tread_inner_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_lr_tread_centre_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_lr_tread_outer_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_lr_dot_week SMALLINT CHECK (tyre_lr_dot_week BETWEEN 1 AND 53),
+ADD COLUMN IF NOT EXISTS tyre_lr_dot_year SMALLINT,
+ADD COLUMN IF NOT EXISTS tyre_lr_condition TEXT,
+ADD COLUMN IF NOT EXISTS tyre_lf_tread_inner_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_lf_tread_centre_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_lf_tread_outer_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_lf_dot_week SMALLINT CHECK (tyre_lf_dot_week BETWEEN 1 AND 53),
+ADD COLUMN IF NOT EXISTS tyre_lf_dot_year SMALLINT,
+ADD COLUMN IF NOT EXISTS tyre_lf_condition TEXT,
+ADD COLUMN IF NOT EXISTS tyre_spare_tread_inner_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_spare_tread_centre_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_spare_tread_outer_mm NUMERIC(3,1),
+ADD COLUMN IF NOT EXISTS tyre_spare_dot_week SMALLINT CHECK (tyre_spare_dot_week BETWEEN 1 AND 53),
+ADD COLUMN IF NOT EXISTS tyre_spare_dot_year SMALLINT,
+ADD COLUMN IF NOT EXISTS tyre_spare_condition TEXT;
+
+-- Add comments to explain the purpose of these fields
+COMMENT ON COLUMN vehicle_inspections.tyre_rf_tread_inner_mm IS 'Tread depth in millimetres on the inner side of the tyre; the centre and outer columns and the other tyres follow the same pattern';
+COMMENT ON COLUMN vehicle_inspections.tyre_rf_dot_week IS 'Week of manufacture from the DOT code on the sidewall';
+COMMENT ON COLUMN vehicle_inspections.tyre_rf_condition IS 'Tyre condition: good, fair, worn or damaged';
+COMMENT ON COLUMN vehicle_inspections.additional_tyres IS 'Tyres beyond the standard four and spare, as an array of {id, label, axle, photo paths, make, size, load_speed, tread depths, dot_week, dot_year, condition}';
@@ -0,0 +1,121 @@
+-- Migration to create the claim_notes and notifications tables
+
+-- Create the claim_notes table
+CREATE TABLE IF NOT EXISTS claim_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id UUID NOT NULL REFERENCES claims(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  body TEXT NOT NULL, -- Rich text (HTML) produced by the note editor
+  is_internal BOOLEAN NOT NULL DEFAULT true, -- false when the note may be shared with the client
+  is_pinned BOOLEAN NOT NULL DEFAULT false,
+  mentioned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_claim_notes_claim_id ON claim_notes(claim_id);
+CREATE INDEX IF NOT EXISTS idx_claim_notes_created_at ON claim_notes(created_at);
+
+-- Create the notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  claim_id UUID REFERENCES claims(id) ON DELETE CASCADE,
+  type TEXT NOT NULL, -- e.g., 'note_mention'
+  message TEXT NOT NULL,
+  details JSONB, -- For storing additional structured data, such as the note ID
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_read_at ON notifications(read_at);
+
+-- Add RLS policies for the claim_notes table
+ALTER TABLE claim_notes ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to select claim notes
+CREATE POLICY "Allow authenticated users to select claim notes"
+ON claim_notes
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to insert claim notes
+CREATE POLICY "Allow authenticated users to insert claim notes"
+ON claim_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow authors to update their own claim notes; pinning goes through set_claim_note_pinned
+CREATE POLICY "Allow authors to update their own claim notes"
+ON claim_notes
+FOR UPDATE
+TO authenticated
+USING (author_id = auth.uid())
+WITH CHECK (author_id = auth.uid());
+
+-- Allow authors to delete their own claim notes
+CREATE POLICY "Allow authors to delete their own claim notes"
+ON claim_notes
+FOR DELETE
+TO authenticated
+USING (author_id = auth.uid());
+
+-- Create a function to pin or unpin a claim note, which any user working on the claim may do
+-- It runs as the table owner, so users can change only the pin of notes they did not write
+CREATE OR REPLACE FUNCTION set_claim_note_pinned(
+  p_note_id UUID,
+  p_is_pinned BOOLEAN
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE claim_notes SET is_pinned = p_is_pinned WHERE id = p_note_id;
+
+  -- false when the note does not exist
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_claim_note_pinned(UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_claim_note_pinned(UUID, BOOLEAN) TO authenticated;
+
+-- Add RLS policies for the notifications table
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to select their own notifications
+CREATE POLICY "Allow users to select their own notifications"
+ON notifications
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Allow authenticated users to insert notifications
+CREATE POLICY "Allow authenticated users to insert notifications"
+ON notifications
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow users to mark their own notifications as read
+CREATE POLICY "Allow users to update their own notifications"
+ON notifications
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Add comments to explain the purpose of these tables
+COMMENT ON TABLE claim_notes IS 'Stores notes written on claims, either internal or visible to the client.';
+COMMENT ON COLUMN claim_notes.mentioned_user_ids IS 'Profiles mentioned in the note, each of which is notified once';
+COMMENT ON TABLE notifications IS 'Stores notifications for users, such as being mentioned in a claim note.';
+COMMENT ON FUNCTION set_claim_note_pinned(UUID, BOOLEAN) IS 'Pins or unpins a claim note for any authenticated user, while other changes to a note are limited to its author.';
@@ -0,0 +1,46 @@
+-- Migration to create the inspection_templates table
+
+-- Create the inspection_templates table, one template per client
+CREATE TABLE IF NOT EXISTS inspection_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL UNIQUE REFERENCES clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb, -- Array of {section, enabled, photos: {column: 'required' | 'optional'}, extra_photos: [{key, label, requirement}]}
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add RLS policies for the inspection_templates table
+ALTER TABLE inspection_templates ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to select inspection templates
+CREATE POLICY "Allow authenticated users to select inspection templates"
+ON inspection_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to insert inspection templates
+CREATE POLICY "Allow authenticated users to insert inspection templates"
+ON inspection_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow authenticated users to update inspection templates
+CREATE POLICY "Allow authenticated users to update inspection templates"
+ON inspection_templates
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to delete inspection templates
+CREATE POLICY "Allow authenticated users to delete inspection templates"
+ON inspection_templates
+FOR DELETE
+TO authenticated
+USING (true);
+
+-- Add comments to explain the purpose of this table
+COMMENT ON TABLE inspection_templates IS 'Stores the inspection checklist of a client: which sections are shown and which photos are required to complete an inspection.';
+COMMENT ON COLUMN inspection_templates.sections IS 'Sections and photo slots not listed keep the default requirements';
@@ -0,0 +1,137 @@
+-- Migration to create the part_catalogue_items table
+-- The catalogue learns standard line descriptions, typical hours and last part prices from authorized estimates
+
+-- Create the part_catalogue_items table, one entry per description and operation, optionally per vehicle
+CREATE TABLE IF NOT EXISTS part_catalogue_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  description TEXT NOT NULL,
+  description_key TEXT NOT NULL, -- Lower-cased, trimmed description used to match lines
+  operation_code TEXT NOT NULL,
+  part_type TEXT NULL,
+  part_number TEXT NULL,
+  labor_trade TEXT NOT NULL DEFAULT 'panel',
+  vehicle_make TEXT NULL, -- Lower-cased; NULL for entries that apply to every vehicle
+  vehicle_model TEXT NULL, -- Lower-cased; NULL for entries that apply to every model of the make
+  typical_strip_fit_hours numeric(12, 2) NULL,
+  typical_repair_hours numeric(12, 2) NULL,
+  typical_paint_hours numeric(12, 2) NULL,
+  -- Number of lines each typical hours value is averaged over; lines without those hours are left out
+  strip_fit_hours_samples INTEGER NOT NULL DEFAULT 0,
+  repair_hours_samples INTEGER NOT NULL DEFAULT 0,
+  paint_hours_samples INTEGER NOT NULL DEFAULT 0,
+  last_part_cost numeric(12, 2) NULL,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT part_catalogue_items_unique_entry
+    UNIQUE NULLS NOT DISTINCT (description_key, operation_code, vehicle_make, vehicle_model)
+);
+
+-- Create indexes for the autocomplete searches
+CREATE INDEX IF NOT EXISTS idx_part_catalogue_items_description_key ON part_catalogue_items(description_key);
+CREATE INDEX IF NOT EXISTS idx_part_catalogue_items_part_number ON part_catalogue_items(part_number);
+
+-- Add RLS policies for the part_catalogue_items table
+ALTER TABLE part_catalogue_items ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to select catalogue items
+CREATE POLICY "Allow authenticated users to select part catalogue items"
+ON part_catalogue_items
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to insert catalogue items
+CREATE POLICY "Allow authenticated users to insert part catalogue items"
+ON part_catalogue_items
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow authenticated users to update catalogue items
+CREATE POLICY "Allow authenticated users to update part catalogue items"
+ON part_catalogue_items
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- Fill the catalogue from the estimates that were already authorized
+-- Every line is counted for its vehicle and once more for the catalogue of all vehicles
+WITH authorized_lines AS (
+  SELECT
+    trim(el.description) AS description,
+    el.operation_code::text AS operation_code,
+    el.part_type::text AS part_type,
+    el.part_number,
+    el.labor_trade,
+    el.strip_fit_hours,
+    el.repair_hours,
+    el.paint_hours,
+    el.part_cost,
+    e.authorized_at,
+    lower(trim(v.make)) AS make_key,
+    lower(trim(v.model)) AS model_key
+  FROM estimate_lines el
+  JOIN estimates e ON e.id = el.estimate_id
+  JOIN claims c ON c.id = e.claim_id
+  LEFT JOIN vehicles v ON v.id = c.vehicle_id
+  WHERE e.status = 'authorized'
+    AND el.is_included
+    AND trim(el.description) <> ''
+),
+scoped_lines AS (
+  SELECT *, make_key AS vehicle_make, model_key AS vehicle_model
+  FROM authorized_lines
+  WHERE make_key IS NOT NULL
+  UNION ALL
+  SELECT *, NULL::text AS vehicle_make, NULL::text AS vehicle_model
+  FROM authorized_lines
+)
+INSERT INTO part_catalogue_items (
+  description,
+  description_key,
+  operation_code,
+  part_type,
+  part_number,
+  labor_trade,
+  vehicle_make,
+  vehicle_model,
+  typical_strip_fit_hours,
+  typical_repair_hours,
+  typical_paint_hours,
+  strip_fit_hours_samples,
+  repair_hours_samples,
+  paint_hours_samples,
+  last_part_cost,
+  usage_count,
+  last_used_at
+)
+SELECT
+  (array_agg(description ORDER BY authorized_at DESC NULLS LAST))[1],
+  lower(description),
+  operation_code,
+  (array_agg(part_type ORDER BY authorized_at DESC NULLS LAST) FILTER (WHERE part_type IS NOT NULL))[1],
+  (array_agg(part_number ORDER BY authorized_at DESC NULLS LAST) FILTER (WHERE part_number IS NOT NULL AND part_number <> ''))[1],
+  (array_agg(labor_trade ORDER BY authorized_at DESC NULLS LAST))[1],
+  vehicle_make,
+  vehicle_model,
+  round(avg(NULLIF(strip_fit_hours, 0)), 2),
+  round(avg(NULLIF(repair_hours, 0)), 2),
+  round(avg(NULLIF(paint_hours, 0)), 2),
+  count(NULLIF(strip_fit_hours, 0)),
+  count(NULLIF(repair_hours, 0)),
+  count(NULLIF(paint_hours, 0)),
+  (array_agg(part_cost ORDER BY authorized_at DESC NULLS LAST) FILTER (WHERE part_cost IS NOT NULL))[1],
+  count(*),
+  max(authorized_at)
+FROM scoped_lines
+GROUP BY lower(description), operation_code, vehicle_make, vehicle_model
+ON CONFLICT DO NOTHING;
+
+-- Add comments to explain the purpose of this table
+COMMENT ON TABLE part_catalogue_items IS 'Standard estimate line descriptions with typical hours and last part prices, learned from authorized estimates and suggested while estimate lines are typed.';
+COMMENT ON COLUMN part_catalogue_items.typical_strip_fit_hours IS 'Average strip/fit hours of the authorized lines that had any';
+COMMENT ON COLUMN part_catalogue_items.typical_paint_hours IS 'Average painted panels of the authorized lines that had any';
+COMMENT ON COLUMN part_catalogue_items.last_part_cost IS 'Part cost on the most recently authorized line, before markup';
+COMMENT ON COLUMN part_catalogue_items.usage_count IS 'Number of authorized lines the entry was learned from';
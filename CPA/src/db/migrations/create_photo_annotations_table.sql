@@ -0,0 +1,43 @@
+-- Migration to create the photo_annotations table
+
+-- Create the photo_annotations table; annotations are kept apart from the photo so the original is never changed
+CREATE TABLE IF NOT EXISTS photo_annotations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bucket_name TEXT NOT NULL DEFAULT 'claim-attachments',
+  file_path TEXT NOT NULL, -- The photo as stored on its record (storage path or public URL)
+  annotations JSONB NOT NULL DEFAULT '[]'::jsonb, -- Array of arrow, circle and text annotations
+  flattened_path TEXT, -- Exported copy of the photo with the annotations drawn on it
+  updated_by_employee_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (bucket_name, file_path)
+);
+
+-- Add RLS policies for the photo_annotations table
+ALTER TABLE photo_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to select photo annotations
+CREATE POLICY "Allow authenticated users to select photo annotations"
+ON photo_annotations
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to insert photo annotations
+CREATE POLICY "Allow authenticated users to insert photo annotations"
+ON photo_annotations
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow authenticated users to update photo annotations
+CREATE POLICY "Allow authenticated users to update photo annotations"
+ON photo_annotations
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- Add comments to explain the purpose of this table
+COMMENT ON TABLE photo_annotations IS 'Arrows, circles and text labels drawn over an inspection photo, stored as JSON next to its storage path.';
+COMMENT ON COLUMN photo_annotations.annotations IS 'Coordinates are fractions of the image width and height, so they do not depend on the displayed size';
+COMMENT ON COLUMN photo_annotations.flattened_path IS 'Cleared when the annotations change, until a new copy is exported';
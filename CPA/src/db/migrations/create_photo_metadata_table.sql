@@ -0,0 +1,59 @@
+-- Migration to create the photo_metadata table and cache appointment coordinates
+
+-- Create the photo_metadata table; capture details are read from the photo's EXIF data in the browser before upload
+CREATE TABLE IF NOT EXISTS photo_metadata (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bucket_name TEXT NOT NULL DEFAULT 'claim-attachments',
+  file_path TEXT NOT NULL, -- The photo as stored on its record (storage path or public URL)
+  claim_id UUID REFERENCES claims(id) ON DELETE CASCADE,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL, -- The appointment the photo was checked against
+  captured_at TIMESTAMPTZ, -- EXIF DateTimeOriginal
+  latitude DOUBLE PRECISION, -- EXIF GPS position in decimal degrees
+  longitude DOUBLE PRECISION,
+  camera_make TEXT,
+  camera_model TEXT,
+  distance_km DOUBLE PRECISION, -- Distance from the appointment location, when both are known
+  warnings JSONB NOT NULL DEFAULT '[]'::jsonb, -- Array of { type, message }
+  recorded_by_employee_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (bucket_name, file_path)
+);
+
+-- Create index for the claim's photo verification list
+CREATE INDEX IF NOT EXISTS idx_photo_metadata_claim_id ON photo_metadata(claim_id);
+
+-- Cache the geocoded appointment address so it is only looked up once
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS location_latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS location_longitude DOUBLE PRECISION;
+
+-- Add RLS policies for the photo_metadata table
+ALTER TABLE photo_metadata ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to select photo metadata
+CREATE POLICY "Allow authenticated users to select photo metadata"
+ON photo_metadata
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to insert photo metadata
+CREATE POLICY "Allow authenticated users to insert photo metadata"
+ON photo_metadata
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow authenticated users to update photo metadata
+CREATE POLICY "Allow authenticated users to update photo metadata"
+ON photo_metadata
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- Add comments to explain the purpose of this table
+COMMENT ON TABLE photo_metadata IS 'EXIF capture time and GPS position of inspection photos, checked against the appointment for fraud control.';
+COMMENT ON COLUMN photo_metadata.warnings IS 'Photos taken before the appointment, far from its address, or without capture details';
+COMMENT ON COLUMN appointments.location_latitude IS 'Geocoded from location_address; cleared when the appointment is updated';
+COMMENT ON COLUMN appointments.location_longitude IS 'Geocoded from location_address; cleared when the appointment is updated';
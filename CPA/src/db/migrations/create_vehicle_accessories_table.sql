@@ -0,0 +1,54 @@
+-- Migration to create the vehicle_accessories table and add inspection photos
+
+-- Create the vehicle_accessories table as defined in the schema
+CREATE TABLE IF NOT EXISTS vehicle_accessories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  accessory_type TEXT NOT NULL, -- e.g. Tow Bar, Mags, Bull Bar, Canopy
+  description TEXT, -- Specific details (e.g. brand, model)
+  condition TEXT, -- good, damaged or missing
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add the photo taken during the inspection and the update timestamp
+ALTER TABLE vehicle_accessories
+ADD COLUMN IF NOT EXISTS photo_path TEXT,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_accessories_vehicle_id ON vehicle_accessories(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_vehicle_accessories_type ON vehicle_accessories(accessory_type);
+
+-- Add RLS policies for the vehicle_accessories table
+ALTER TABLE vehicle_accessories ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to select vehicle accessories
+CREATE POLICY "Allow authenticated users to select vehicle accessories"
+ON vehicle_accessories
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to insert vehicle accessories
+CREATE POLICY "Allow authenticated users to insert vehicle accessories"
+ON vehicle_accessories
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- Allow authenticated users to update vehicle accessories
+CREATE POLICY "Allow authenticated users to update vehicle accessories"
+ON vehicle_accessories
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- Allow authenticated users to delete vehicle accessories
+CREATE POLICY "Allow authenticated users to delete vehicle accessories"
+ON vehicle_accessories
+FOR DELETE
+TO authenticated
+USING (true);
+
+-- Add comments to explain the purpose of this table
+COMMENT ON TABLE vehicle_accessories IS 'Lists specific non-standard accessories fitted to a vehicle.';
+COMMENT ON COLUMN vehicle_accessories.photo_path IS 'Storage path of the accessory photo taken during the inspection';
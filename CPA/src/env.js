@@ -8,6 +8,8 @@ export const env = createEnv({
 	 */
 	server: {
 		NODE_ENV: z.enum(["development", "test", "production"]),
+		// Nominatim-compatible search endpoint used to geocode appointment addresses
+		GEOCODING_API_URL: z.string().url().default("https://nominatim.openstreetmap.org/search"),
 	},
 
 	/**
@@ -18,6 +20,11 @@ export const env = createEnv({
 	client: {
 		NEXT_PUBLIC_SUPABASE_URL: z.string().url(),
 		NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().min(1),
+		// Legal minimum tyre tread depth in millimetres; shallower tyres are flagged as unroadworthy
+		NEXT_PUBLIC_TYRE_MIN_TREAD_DEPTH_MM: z.coerce.number().positive().default(1),
+		// Photos are resized to this longest side and recompressed before upload
+		NEXT_PUBLIC_PHOTO_MAX_DIMENSION_PX: z.coerce.number().int().positive().default(1920),
+		NEXT_PUBLIC_PHOTO_JPEG_QUALITY: z.coerce.number().min(0.1).max(1).default(0.8),
 	},
 
 	/**
@@ -26,8 +33,12 @@ export const env = createEnv({
 	 */
 	runtimeEnv: {
 		NODE_ENV: process.env.NODE_ENV,
+		GEOCODING_API_URL: process.env.GEOCODING_API_URL,
 		NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
 		NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+		NEXT_PUBLIC_TYRE_MIN_TREAD_DEPTH_MM: process.env.NEXT_PUBLIC_TYRE_MIN_TREAD_DEPTH_MM,
+		NEXT_PUBLIC_PHOTO_MAX_DIMENSION_PX: process.env.NEXT_PUBLIC_PHOTO_MAX_DIMENSION_PX,
+		NEXT_PUBLIC_PHOTO_JPEG_QUALITY: process.env.NEXT_PUBLIC_PHOTO_JPEG_QUALITY,
 	},
 	/**
 	 * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
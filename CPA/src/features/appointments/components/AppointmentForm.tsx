@@ -22,6 +22,8 @@ import {
 } from '@/lib/api/domains/appointments';
 import { api } from '@/trpc/react';
 import { EnhancedSelect } from "@/components/ui/enhanced-select";
+import { RepairerPicker } from "@/components/repairers/RepairerPicker";
+import { type Repairer } from "@/lib/api/domains/repairers/types";
 import {
   Form,
   FormControl,
@@ -61,6 +63,7 @@ const appointmentFormSchema = z.object({
   appointment_contact_phone: z.string().min(10, "Please enter a valid phone number"),
   special_instructions: z.string().optional(),
   appointment_status: z.string().default("pending"),
+  repairer_id: z.string().uuid().nullable().optional(),
 });
 
 // Infer the type from the schema
@@ -116,6 +119,7 @@ export function AppointmentForm({ claim, appointment, mode = 'create', onSuccess
     appointment_contact_phone: mode === 'edit' ? appointment?.appointment_contact_phone || '' : claim?.insured_contact || '',
     special_instructions: mode === 'edit' ? appointment?.special_instructions || '' : '',
     appointment_status: mode === 'edit' ? appointment?.appointment_status || 'pending' : 'pending',
+    repairer_id: mode === 'edit' ? appointment?.repairer_id ?? null : null,
   };
 
   // Initialize the form
@@ -147,10 +151,19 @@ export function AppointmentForm({ claim, appointment, mode = 'create', onSuccess
         appointment_contact_phone: appointment.appointment_contact_phone || '',
         special_instructions: appointment.special_instructions || '',
         appointment_status: appointment.appointment_status || 'pending',
+        repairer_id: appointment.repairer_id ?? null,
       });
     }
   }, [appointment, form, mode]);
 
+  // Use the repairer's address for workshop appointments when no address has been entered
+  const handleRepairerChange = (repairer: Repairer | null) => {
+    form.setValue('repairer_id', repairer?.id ?? null);
+    if (repairer?.address && form.getValues('location_type') === 'workshop' && !form.getValues('location_address')) {
+      form.setValue('location_address', repairer.address, { shouldValidate: true });
+    }
+  };
+
   // Handle form submission
   const onSubmit = async (data: AppointmentFormValues) => {
     setIsSubmitting(true);
@@ -182,6 +195,7 @@ export function AppointmentForm({ claim, appointment, mode = 'create', onSuccess
           appointment_contact_phone: data.appointment_contact_phone,
           special_instructions: data.special_instructions || null,
           appointment_status: data.appointment_status,
+          repairer_id: data.repairer_id ?? null,
         };
 
         // Submit the appointment data
@@ -213,6 +227,7 @@ export function AppointmentForm({ claim, appointment, mode = 'create', onSuccess
           appointment_contact_phone: data.appointment_contact_phone,
           special_instructions: data.special_instructions || null,
           appointment_status: data.appointment_status,
+          repairer_id: data.repairer_id ?? null,
         };
 
         // Submit the appointment data
@@ -394,6 +409,29 @@ export function AppointmentForm({ claim, appointment, mode = 'create', onSuccess
                 )}
               />
 
+              {/* Repairer Field */}
+              <FormField
+                control={form.control}
+                name="repairer_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repairer</FormLabel>
+                    <FormControl>
+                      <RepairerPicker
+                        value={field.value}
+                        onChange={handleRepairerChange}
+                        disabled={isSubmitting}
+                        placeholder="No repairer"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Repairer where the vehicle will be inspected, if any
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* Province Field (Read-only) */}
               <ProvinceDisplay provinceId={claim?.province_id} />
 
@@ -0,0 +1,186 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { TRPCClientError } from '@trpc/client';
+import { toast } from 'sonner';
+import { api } from '@/trpc/react';
+import { useSupabaseStorage } from '@/hooks/useSupabaseStorage';
+import { useSyncStatusStore } from '@/stores/syncStatusStore';
+import { formatUnpersistedFields } from '@/lib/api/domains/inspections/persistence';
+import {
+  getQueuedOperations,
+  isOffline,
+  publishQueueStatus,
+  removeQueuedOperation,
+  updateQueuedOperation,
+  type OfflineOperation,
+  type OfflineQueueEntry,
+} from '@/utils/offline-queue';
+
+export type ConflictResolution = 'overwrite' | 'discard';
+
+// The replayed save went through, but the server did not keep some of its fields
+const warnUnpersistedFields = ({ unpersisted_fields }: { unpersisted_fields: string[] }) => {
+  if (unpersisted_fields.length > 0) {
+    toast.error(formatUnpersistedFields(unpersisted_fields));
+  }
+};
+
+/**
+ * Hook that replays the offline queue in order whenever the browser comes back online
+ * Queue status is published through the sync status store
+ * @returns Functions to replay the queue and to resolve operations the server rejected
+ */
+export function useOfflineSync() {
+  // The utils type is unusable because the `client` router collides with a built-in method
+  const utils = api.useUtils() as any;
+  const createInspection = api.inspection.create.useMutation();
+  const updateInspection = api.inspection.update.useMutation();
+  const recordPhotoMetadata = api.photoMetadata.record.useMutation();
+  const queryClient = useQueryClient();
+  const { uploadToPath } = useSupabaseStorage();
+  const isReplaying = useRef(false);
+
+  const replayOperation = useCallback(
+    async (operation: OfflineOperation) => {
+      switch (operation.kind) {
+        case 'inspection.create':
+          warnUnpersistedFields(await createInspection.mutateAsync(operation.input));
+          break;
+        case 'inspection.update':
+          warnUnpersistedFields(await updateInspection.mutateAsync(operation.input));
+          break;
+        case 'photo.upload':
+          await uploadToPath(operation);
+          break;
+        case 'photo.metadata':
+          await recordPhotoMetadata.mutateAsync(operation.input);
+          break;
+      }
+    },
+    [createInspection.mutateAsync, updateInspection.mutateAsync, recordPhotoMetadata.mutateAsync, uploadToPath]
+  );
+
+  const replayQueue = useCallback(async () => {
+    if (isReplaying.current || isOffline()) return;
+    isReplaying.current = true;
+
+    const operationId = `offline-queue-${Date.now()}`;
+    let isTracked = false;
+    let replayed = 0;
+
+    try {
+      const entries = (await getQueuedOperations()).filter((entry) => entry.status === 'pending');
+      if (entries.length === 0) return;
+
+      useSyncStatusStore.getState().addOperation(operationId);
+      isTracked = true;
+
+      for (const entry of entries) {
+        try {
+          await replayOperation(entry.operation);
+          await removeQueuedOperation(entry);
+          replayed++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+
+          // The connection dropped again: stop so later operations keep their order
+          if (isOffline() || (error instanceof TRPCClientError && !error.data)) {
+            console.error('Offline queue replay interrupted:', error);
+            break;
+          }
+
+          // The server rejected the operation; hold it for the user instead of blocking the queue
+          const isConflict = error instanceof TRPCClientError && error.data?.code === 'CONFLICT';
+          console.error('Offline queue operation rejected:', error);
+          await updateQueuedOperation({ ...entry, status: isConflict ? 'conflict' : 'failed', error: message });
+          toast.error(
+            isConflict
+              ? `An offline change conflicts with newer changes on the server: ${message}`
+              : `An offline change could not be saved: ${message}`
+          );
+        } finally {
+          await publishQueueStatus();
+        }
+      }
+    } catch (error) {
+      console.error('Error replaying offline queue:', error);
+      useSyncStatusStore.getState().setError('Failed to sync offline changes');
+    } finally {
+      if (isTracked) {
+        useSyncStatusStore.getState().removeOperation(operationId);
+      }
+      isReplaying.current = false;
+    }
+
+    if (replayed > 0) {
+      toast.success(`Synced ${replayed} offline change${replayed === 1 ? '' : 's'}`);
+      // Replayed operations touch inspections, photos and claim status
+      queryClient.invalidateQueries();
+    }
+  }, [replayOperation, queryClient]);
+
+  /**
+   * Resolve every operation the server rejected
+   * Overwriting drops the version check, so the offline change replaces the newer server change
+   * @param resolution Whether to overwrite the server or discard the offline changes
+   */
+  const resolveRejected = useCallback(
+    async (resolution: ConflictResolution) => {
+      const rejected = (await getQueuedOperations()).filter((entry) => entry.status !== 'pending');
+
+      for (const entry of rejected) {
+        if (resolution === 'discard') {
+          await removeQueuedOperation(entry);
+          continue;
+        }
+
+        const retry: OfflineQueueEntry = { ...entry, status: 'pending', error: undefined };
+        const { operation } = entry;
+        if (operation.kind === 'inspection.update') {
+          const { expected_updated_at, ...input } = operation.input;
+          retry.operation = { ...operation, input };
+        } else if (operation.kind === 'inspection.create') {
+          // The claim got an inspection in the meantime, so the draft is saved into it instead
+          const [existing] = await utils.inspection.getByClaim.fetch({ claim_id: operation.input.claim_id });
+          if (existing) {
+            const { claim_id, vehicle_id, ...input } = operation.input;
+            retry.operation = { kind: 'inspection.update', input: { ...input, id: existing.id } };
+          }
+        }
+        await updateQueuedOperation(retry);
+      }
+
+      await publishQueueStatus();
+      await replayQueue();
+    },
+    [utils, replayQueue]
+  );
+
+  // The listeners are registered once and always call the latest replay function
+  const replayQueueRef = useRef(replayQueue);
+  replayQueueRef.current = replayQueue;
+
+  useEffect(() => {
+    const handleOnline = () => {
+      useSyncStatusStore.getState().setQueueStatus({ isOnline: true });
+      replayQueueRef.current();
+    };
+    const handleOffline = () => {
+      useSyncStatusStore.getState().setQueueStatus({ isOnline: false });
+    };
+
+    useSyncStatusStore.getState().setQueueStatus({ isOnline: !isOffline() });
+    publishQueueStatus().then(() => replayQueueRef.current());
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { replayQueue, resolveRejected };
+}
@@ -7,6 +7,7 @@ export type QueryOptions<T> = {
   onSuccess?: (data: T) => void;
   onError?: (error: Error) => void;
   staleTime?: number;
+  gcTime?: number;
   refetchInterval?: number;
   refetchOnWindowFocus?: boolean;
 };
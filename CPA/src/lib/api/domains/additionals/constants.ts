@@ -0,0 +1,37 @@
+// src/lib/api/domains/additionals/constants.ts
+
+/**
+ * Constants for additionals domain
+ * Centralizes all cache-related constants for easier maintenance
+ */
+
+// Cache times
+export const CACHE_TIMES = {
+  // How long data stays fresh before refetching (when accessed)
+  STALE_TIME: {
+    LINES: 5 * 60 * 1000,  // 5 minutes - repairers add these while work is under way
+  },
+
+  // How long data stays in cache after becoming unused
+  GC_TIME: {
+    LINES: 30 * 60 * 1000, // 30 minutes
+  },
+};
+
+// Query keys for consistent cache management
+export const QUERY_KEYS = {
+  // Base key for all additional line queries
+  BASE: 'additionals' as const,
+  ALL: ['additionals'] as const,
+
+  // Keys for additional lines by estimate ID
+  BY_ESTIMATE_ID: (estimateId: string) => ['additionals', 'byEstimateId', estimateId] as const,
+
+  // tRPC-compatible query keys
+  TRPC: {
+    GET_BY_ESTIMATE_ID: (estimateId: string) => [
+      ['trpc', 'additional', 'getByEstimateId'],
+      { input: { estimate_id: estimateId }, type: 'query' }
+    ] as const,
+  }
+};
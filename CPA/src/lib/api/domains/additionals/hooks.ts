@@ -0,0 +1,110 @@
+// src/lib/api/domains/additionals/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { additionalQueries } from "./queries";
+import { additionalMutations } from "./mutations";
+import { QUERY_KEYS } from "./constants";
+import { type AdditionalLine } from "./types";
+
+/**
+ * Hook for fetching additional lines by estimate ID
+ * @param estimateId The estimate ID
+ * @param options Additional query options
+ */
+export function useAdditionalLines(estimateId: string, options?: any) {
+  return additionalQueries.getByEstimateId(estimateId, options);
+}
+
+/**
+ * Returns a callback that refreshes everything an additional line decision touches:
+ * the estimate's additional lines, the claim lists (has_pending_additionals drives
+ * the additionals filter and counts) and the claim logs
+ */
+function useInvalidateAdditionals() {
+  const queryClient = useQueryClient();
+
+  return (estimateId: string) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.additional.getByEstimateId, { estimate_id: estimateId }, "query")
+    });
+    queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.BY_ESTIMATE_ID(estimateId)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.claim.list)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.claim.getCounts)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.log.getByClaim)
+    });
+  };
+}
+
+/**
+ * Hook for requesting a new additional line
+ */
+export function useRequestAdditional() {
+  const invalidateAdditionals = useInvalidateAdditionals();
+
+  return additionalMutations.request({
+    onSuccess: (data) => {
+      invalidateAdditionals(data.estimate_id);
+    }
+  });
+}
+
+/**
+ * Hook for updating a requested additional line
+ */
+export function useUpdateAdditional() {
+  const invalidateAdditionals = useInvalidateAdditionals();
+
+  return additionalMutations.update({
+    onSuccess: (data) => {
+      invalidateAdditionals(data.estimate_id);
+    }
+  });
+}
+
+/**
+ * Hook for deleting a requested additional line
+ * @param estimateId The estimate the additional line belongs to
+ */
+export function useDeleteAdditional(estimateId: string) {
+  const invalidateAdditionals = useInvalidateAdditionals();
+
+  return additionalMutations.delete({
+    onSuccess: () => {
+      invalidateAdditionals(estimateId);
+    }
+  });
+}
+
+/**
+ * Hook for approving a requested additional line
+ */
+export function useApproveAdditional() {
+  const invalidateAdditionals = useInvalidateAdditionals();
+
+  return additionalMutations.approve({
+    onSuccess: (data: AdditionalLine) => {
+      invalidateAdditionals(data.estimate_id);
+    }
+  });
+}
+
+/**
+ * Hook for rejecting a requested additional line
+ */
+export function useRejectAdditional() {
+  const invalidateAdditionals = useInvalidateAdditionals();
+
+  return additionalMutations.reject({
+    onSuccess: (data: AdditionalLine) => {
+      invalidateAdditionals(data.estimate_id);
+    }
+  });
+}
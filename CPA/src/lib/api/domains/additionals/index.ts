@@ -0,0 +1,14 @@
+// src/lib/api/domains/additionals/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './constants';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { additionalQueries } from './queries';
+import { additionalMutations } from './mutations';
+
+export const additionalApi = {
+  queries: additionalQueries,
+  mutations: additionalMutations
+};
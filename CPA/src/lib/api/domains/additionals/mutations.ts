@@ -0,0 +1,112 @@
+// src/lib/api/domains/additionals/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import {
+  type AdditionalLine,
+  type AdditionalLineRequest,
+  type AdditionalLineUpdate,
+  type AdditionalLineReject
+} from "./types";
+
+export const additionalMutations = {
+  /**
+   * Request a new additional line
+   * @param options Mutation options
+   */
+  request: (options?: MutationOptions<AdditionalLine, AdditionalLineRequest>) =>
+    apiClient.mutation<AdditionalLine, AdditionalLineRequest>(
+      (mutationOptions) => apiClient.raw.additional.request.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Additional requested successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to request additional: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update a requested additional line
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<AdditionalLine, AdditionalLineUpdate>) =>
+    apiClient.mutation<AdditionalLine, AdditionalLineUpdate>(
+      (mutationOptions) => apiClient.raw.additional.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Additional updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update additional: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Delete a requested additional line
+   * @param options Mutation options
+   */
+  delete: (options?: MutationOptions<{ success: boolean }, { id: string }>) =>
+    apiClient.mutation<{ success: boolean }, { id: string }>(
+      (mutationOptions) => apiClient.raw.additional.delete.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Additional deleted successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to delete additional: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Approve a requested additional line
+   * @param options Mutation options
+   */
+  approve: (options?: MutationOptions<AdditionalLine, { id: string }>) =>
+    apiClient.mutation<AdditionalLine, { id: string }>(
+      (mutationOptions) => apiClient.raw.additional.approve.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Additional approved");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to approve additional: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Reject a requested additional line
+   * @param options Mutation options
+   */
+  reject: (options?: MutationOptions<AdditionalLine, AdditionalLineReject>) =>
+    apiClient.mutation<AdditionalLine, AdditionalLineReject>(
+      (mutationOptions) => apiClient.raw.additional.reject.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Additional rejected");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to reject additional: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
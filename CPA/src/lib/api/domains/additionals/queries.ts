@@ -0,0 +1,23 @@
+// src/lib/api/domains/additionals/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type AdditionalLine } from "./types";
+import { CACHE_TIMES } from "./constants";
+
+export const additionalQueries = {
+  /**
+   * Get additional lines by estimate ID
+   * @param estimateId The estimate ID
+   * @param options Additional query options
+   */
+  getByEstimateId: (estimateId: string, options?: QueryOptions<AdditionalLine[]>) =>
+    apiClient.query<AdditionalLine[]>(
+      (queryOptions) => apiClient.raw.additional.getByEstimateId.useQuery({ estimate_id: estimateId }, queryOptions),
+      {
+        enabled: !!estimateId,
+        staleTime: CACHE_TIMES.STALE_TIME.LINES,
+        gcTime: CACHE_TIMES.GC_TIME.LINES,
+        ...options
+      }
+    ),
+};
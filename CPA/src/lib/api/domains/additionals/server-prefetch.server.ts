@@ -0,0 +1,44 @@
+// src/lib/api/domains/additionals/server-prefetch.server.ts
+import 'server-only';
+import { cache } from "react";
+import { getQueryClient } from "@/trpc/query-client";
+import { createServerCaller } from "@/lib/api/utils/createServerCaller";
+import { QUERY_KEYS } from "./constants";
+
+/**
+ * Server-side prefetch for the additional lines of an estimate
+ * This function is cached using React's cache() to deduplicate requests
+ *
+ * @param estimateId The estimate ID to prefetch additional lines for
+ * @returns The prefetched additional lines
+ */
+export const prefetchAdditionalsByEstimateServer = cache(async (estimateId: string) => {
+  console.log(`[Server Prefetch] Prefetching additional lines for estimate ${estimateId}`);
+
+  try {
+    // Create a tRPC caller for server-side
+    const caller = await createServerCaller();
+    const queryClient = getQueryClient();
+
+    const additionalLines = await caller.additional.getByEstimateId({ estimate_id: estimateId });
+
+    // Cache the additional lines with both client-side and tRPC query keys
+    queryClient.setQueryData(
+      QUERY_KEYS.BY_ESTIMATE_ID(estimateId),
+      additionalLines
+    );
+
+    queryClient.setQueryData(
+      QUERY_KEYS.TRPC.GET_BY_ESTIMATE_ID(estimateId),
+      additionalLines
+    );
+
+    console.log(`[Server Prefetch] Prefetched ${additionalLines.length} additional lines for estimate ${estimateId}`);
+
+    return additionalLines;
+  } catch (error) {
+    console.error(`[Server Prefetch] Error prefetching additional lines for estimate ${estimateId}:`, error);
+    // Return empty array instead of throwing to prevent the page from failing to render
+    return [];
+  }
+});
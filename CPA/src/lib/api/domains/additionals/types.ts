@@ -0,0 +1,88 @@
+// src/lib/api/domains/additionals/types.ts
+import { z } from "zod";
+import { type RouterInputs } from "@/lib/api/types";
+import { LaborTrade, OperationCode, PartType } from "@/lib/api/domains/estimates/types";
+
+// Additional line status enum
+export enum AdditionalLineStatus {
+  REQUESTED = "requested",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+}
+
+// Zod schema for requesting an additional line
+// Mirrors EstimateLineCreateSchema, minus the damage link
+export const AdditionalLineRequestSchema = z.object({
+  estimate_id: z.string().uuid(),
+  requested_by_repairer_id: z.string().uuid().optional(), // Defaults to the estimate's authorized repairer
+  sequence_number: z.number().int().positive().optional(),
+  description: z.string().min(1, "Description is required"),
+  operation_code: z.nativeEnum(OperationCode),
+  part_type: z.nativeEnum(PartType).optional(),
+  part_number: z.string().optional(),
+  part_cost: z.number().nonnegative().optional(),
+  quantity: z.number().positive().default(1),
+  labor_trade: z.nativeEnum(LaborTrade).optional(), // Defaults to panel
+  strip_fit_hours: z.number().nonnegative().optional(),
+  repair_hours: z.number().nonnegative().optional(),
+  paint_hours: z.number().nonnegative().optional(),
+  sublet_cost: z.number().nonnegative().optional(),
+  is_included: z.boolean().default(true),
+  line_notes: z.string().optional(),
+});
+
+// Zod schema for updating a requested additional line
+export const AdditionalLineUpdateSchema = AdditionalLineRequestSchema
+  .omit({ estimate_id: true, requested_by_repairer_id: true })
+  .partial()
+  .extend({
+    id: z.string().uuid(),
+  });
+
+// Zod schema for rejecting an additional line
+export const AdditionalLineRejectSchema = z.object({
+  id: z.string().uuid(),
+  rejection_reason: z.string().min(1, "A rejection reason is required"),
+});
+
+// Zod schema for additional line output
+export const AdditionalLineOutputSchema = z.object({
+  id: z.string().uuid(),
+  estimate_id: z.string().uuid(),
+  requested_by_repairer_id: z.string().uuid(),
+  requested_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  status: z.nativeEnum(AdditionalLineStatus),
+  approved_or_rejected_by_employee_id: z.string().uuid().nullable(),
+  approved_or_rejected_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  rejection_reason: z.string().nullable(),
+  sequence_number: z.number().int(),
+  description: z.string(),
+  operation_code: z.nativeEnum(OperationCode),
+  part_type: z.nativeEnum(PartType).nullable(),
+  part_number: z.string().nullable(),
+  part_cost: z.number().nullable(),
+  quantity: z.number(),
+  labor_trade: z.nativeEnum(LaborTrade),
+  strip_fit_hours: z.number().nullable(),
+  repair_hours: z.number().nullable(),
+  paint_hours: z.number().nullable(),
+  sublet_cost: z.number().nullable(),
+  is_included: z.boolean(),
+  line_notes: z.string().nullable(),
+  calculated_part_total: z.number().nullable(),
+  calculated_labor_total: z.number().nullable(),
+  calculated_paint_material_total: z.number().nullable(),
+  calculated_sublet_total: z.number().nullable(),
+  calculated_line_total: z.number().nullable(),
+  created_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  updated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+});
+
+// TypeScript types based on Zod schemas
+export type AdditionalLineRequest = z.infer<typeof AdditionalLineRequestSchema>;
+export type AdditionalLineUpdate = z.infer<typeof AdditionalLineUpdateSchema>;
+export type AdditionalLineReject = z.infer<typeof AdditionalLineRejectSchema>;
+export type AdditionalLine = z.infer<typeof AdditionalLineOutputSchema>;
+
+// Export types derived from tRPC
+export type AdditionalGetByEstimateInput = RouterInputs["additional"]["getByEstimateId"];
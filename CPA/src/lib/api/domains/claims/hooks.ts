@@ -13,7 +13,8 @@ import {
   ClaimStatus,
   type ClaimCreateInputWithOptionalFields,
   type ClaimSummary,
-  type ClaimDetails
+  type ClaimDetails,
+  type ClaimUpdateStatusInput
 } from "./types";
 import { getQueryKey, combineQueryData, createEntityQueryKey } from "@/lib/api/utils";
 import { useQueryState, useInfiniteData, useDependentQuery, useParallelQueries } from "@/lib/api/hooks";
@@ -337,7 +338,7 @@ export function useOptimisticUpdateClaimStatus() {
   const mutation = apiClient.raw.claim.updateStatus.useMutation();
 
   return useMutation({
-    mutationFn: (variables: { id: string; status: ClaimStatus }) =>
+    mutationFn: (variables: ClaimUpdateStatusInput) =>
       mutation.mutateAsync(variables),
 
     // Optimistic update
@@ -450,6 +451,10 @@ export function useOptimisticUpdateClaimStatus() {
       queryClient.invalidateQueries({
         queryKey: getQueryKey(apiClient.raw.claim.getCounts)
       });
+      // The server logs every status change
+      queryClient.invalidateQueries({
+        queryKey: getQueryKey(apiClient.raw.log.getByClaim)
+      });
 
       if (!error && data) {
         toast.success(`Claim status updated successfully`);
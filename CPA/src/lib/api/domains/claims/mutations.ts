@@ -6,7 +6,7 @@ import {
   type ClaimWithRelations,
   type ClaimCreateInput,
   type ClaimUpdateInput,
-  type ClaimStatus,
+  type ClaimUpdateStatusInput,
   type ClaimCreateInputWithOptionalFields, // Import the new type
   type ClaimWithVehicleInput
 } from "./types";
@@ -86,29 +86,14 @@ export const claimMutations = {
    * Update claim status
    */
   updateStatus: (
-    options?: MutationOptions<ClaimWithRelations, { id: string, status: ClaimStatus }>
+    options?: MutationOptions<ClaimWithRelations, ClaimUpdateStatusInput>
   ) =>
-    apiClient.mutation<ClaimWithRelations, { id: string, status: ClaimStatus }>(
+    apiClient.mutation<ClaimWithRelations, ClaimUpdateStatusInput>(
       () => apiClient.raw.claim.updateStatus.useMutation(),
       {
-        onMutate: async (variables) => {
-          // Store the old status for logging
-          const queryKey = ["claim", "getById", { id: variables.id }];
-          const previousClaim = apiClient.getQueryData<ClaimWithRelations>(queryKey);
-          return { previousClaim };
-        },
-        onSuccess: async (data, variables, context) => {
+        // The status change is logged by the server
+        onSuccess: (data, variables) => {
           toast.success(`Claim status updated to ${data.status}`);
-
-          // Log the status change
-          try {
-            const oldStatus = context?.previousClaim?.status || "Unknown";
-            const { logClaimStatusChanged } = await import("@/lib/api/domains/logs/mutations");
-            await logClaimStatusChanged(data.id, oldStatus, data.status).mutateAsync({} as any);
-          } catch (error) {
-            console.error("Failed to log claim status change:", error);
-          }
-
           options?.onSuccess?.(data, variables);
         },
         ...options
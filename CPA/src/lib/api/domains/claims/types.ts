@@ -10,6 +10,7 @@ export const ClaimFilterSchema = z.enum([
   'frc',
   'finalized',
   'history',
+  'all', // No status filter, used for a client's claim history
 ]);
 
 export const ClaimListParamsSchema = z.object({
@@ -17,6 +18,7 @@ export const ClaimListParamsSchema = z.object({
   page: z.number().default(1),
   limit: z.number().default(10),
   search: z.string().optional(),
+  client_id: z.string().uuid().optional(),
   sortBy: z.string().optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   _refresh: z.number().optional(), // Internal property to force refresh
@@ -131,6 +133,45 @@ export enum ClaimStatus {
   CANCELED = 'Canceled'
 }
 
+// Allowed claim status transitions, shared by the claim router and the status update UI
+// A claim can be inspected without an appointment, so starting the inspection moves a new claim
+// straight to In Progress; an appointed claim goes back to New when its appointments are cancelled
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  [ClaimStatus.NEW]: [ClaimStatus.APPOINTED, ClaimStatus.IN_PROGRESS, ClaimStatus.CANCELED],
+  [ClaimStatus.APPOINTED]: [ClaimStatus.IN_PROGRESS, ClaimStatus.NEW, ClaimStatus.CANCELED],
+  [ClaimStatus.IN_PROGRESS]: [ClaimStatus.REPORT_SENT, ClaimStatus.CANCELED],
+  [ClaimStatus.REPORT_SENT]: [ClaimStatus.AUTHORIZED, ClaimStatus.CANCELED],
+  [ClaimStatus.AUTHORIZED]: [ClaimStatus.FRC_REQUESTED, ClaimStatus.CANCELED],
+  [ClaimStatus.FRC_REQUESTED]: [ClaimStatus.FRC_ACTIVE, ClaimStatus.CANCELED],
+  [ClaimStatus.FRC_ACTIVE]: [ClaimStatus.FRC_FINALIZED, ClaimStatus.CANCELED],
+  [ClaimStatus.FRC_FINALIZED]: [],
+  [ClaimStatus.CANCELED]: [],
+};
+
+// Get the statuses a claim can move to from its current status
+export function getAvailableClaimStatuses(current: ClaimStatus): ClaimStatus[] {
+  return CLAIM_STATUS_TRANSITIONS[current] ?? [];
+}
+
+// Check whether a claim can move from one status to another
+export function isValidClaimStatusTransition(from: ClaimStatus, to: ClaimStatus): boolean {
+  return getAvailableClaimStatuses(from).includes(to);
+}
+
+// Schema for updating a claim's status; canceling a claim requires a reason
+export const ClaimUpdateStatusInputSchema = z
+  .object({
+    id: z.string().uuid(),
+    status: z.nativeEnum(ClaimStatus),
+    reason: z.string().optional(),
+  })
+  .refine((data) => data.status !== ClaimStatus.CANCELED || !!data.reason?.trim(), {
+    message: "A reason is required when canceling a claim",
+    path: ["reason"],
+  });
+
+export type ClaimUpdateStatusInput = z.infer<typeof ClaimUpdateStatusInputSchema>;
+
 // Claim instruction enum (matching database enum)
 export enum ClaimInstruction {
   AGREE_ONLY = 'Agree Only',
@@ -0,0 +1,68 @@
+// src/lib/api/domains/client-contacts/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { clientContactQueries } from "./queries";
+import { clientContactMutations } from "./mutations";
+import { type ClientContactListParams } from "./types";
+
+/**
+ * Hook for fetching the contacts of a client
+ * @param params The client and whether to include inactive contacts
+ * @param options Additional query options
+ */
+export function useClientContacts(params: ClientContactListParams, options?: any) {
+  return clientContactQueries.listByClient(params, options);
+}
+
+/**
+ * Returns a callback that refreshes the contact lists and pickers
+ */
+function useInvalidateClientContacts() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.clientContact.listByClient)
+    });
+  };
+}
+
+/**
+ * Hook for creating a client contact
+ */
+export function useCreateClientContact() {
+  const invalidateClientContacts = useInvalidateClientContacts();
+
+  return clientContactMutations.create({
+    onSuccess: () => {
+      invalidateClientContacts();
+    }
+  });
+}
+
+/**
+ * Hook for updating a client contact
+ */
+export function useUpdateClientContact() {
+  const invalidateClientContacts = useInvalidateClientContacts();
+
+  return clientContactMutations.update({
+    onSuccess: () => {
+      invalidateClientContacts();
+    }
+  });
+}
+
+/**
+ * Hook for deactivating a client contact
+ */
+export function useDeactivateClientContact() {
+  const invalidateClientContacts = useInvalidateClientContacts();
+
+  return clientContactMutations.deactivate({
+    onSuccess: () => {
+      invalidateClientContacts();
+    }
+  });
+}
@@ -0,0 +1,13 @@
+// src/lib/api/domains/client-contacts/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { clientContactQueries } from './queries';
+import { clientContactMutations } from './mutations';
+
+export const clientContactApi = {
+  queries: clientContactQueries,
+  mutations: clientContactMutations
+};
@@ -0,0 +1,67 @@
+// src/lib/api/domains/client-contacts/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type ClientContact, type ClientContactCreate, type ClientContactUpdate } from "./types";
+
+export const clientContactMutations = {
+  /**
+   * Create a new client contact
+   * @param options Mutation options
+   */
+  create: (options?: MutationOptions<ClientContact, ClientContactCreate>) =>
+    apiClient.mutation<ClientContact, ClientContactCreate>(
+      (mutationOptions) => apiClient.raw.clientContact.create.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Contact created successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to create contact: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update a client contact
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<ClientContact, ClientContactUpdate>) =>
+    apiClient.mutation<ClientContact, ClientContactUpdate>(
+      (mutationOptions) => apiClient.raw.clientContact.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Contact updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update contact: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Deactivate a client contact
+   * @param options Mutation options
+   */
+  deactivate: (options?: MutationOptions<ClientContact, { id: string }>) =>
+    apiClient.mutation<ClientContact, { id: string }>(
+      (mutationOptions) => apiClient.raw.clientContact.deactivate.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Contact deactivated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to deactivate contact: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
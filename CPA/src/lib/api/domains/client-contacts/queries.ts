@@ -0,0 +1,20 @@
+// src/lib/api/domains/client-contacts/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type ClientContact, type ClientContactListParams } from "./types";
+
+export const clientContactQueries = {
+  /**
+   * Get the contacts of a client
+   * @param params The client and whether to include inactive contacts
+   * @param options Additional query options
+   */
+  listByClient: (params: ClientContactListParams, options?: QueryOptions<ClientContact[]>) =>
+    apiClient.query<ClientContact[]>(
+      (queryOptions) => apiClient.raw.clientContact.listByClient.useQuery(params, queryOptions),
+      {
+        enabled: !!params.client_id,
+        ...options
+      }
+    ),
+};
@@ -0,0 +1,43 @@
+// src/lib/api/domains/client-contacts/types.ts
+import { z } from "zod";
+
+// Zod schema for listing the contacts of a client
+export const ClientContactListParamsSchema = z.object({
+  client_id: z.string().uuid(),
+  include_inactive: z.boolean().default(false),
+});
+
+// Zod schema for client contact creation
+export const ClientContactCreateSchema = z.object({
+  client_id: z.string().uuid(),
+  full_name: z.string().min(1, "Contact name is required"),
+  job_title: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email("Please enter a valid email").optional().or(z.literal("")),
+  is_primary: z.boolean().default(false),
+});
+
+// Zod schema for client contact update
+export const ClientContactUpdateSchema = ClientContactCreateSchema.omit({ client_id: true }).partial().extend({
+  id: z.string().uuid(),
+});
+
+// Zod schema for client contact output
+export const ClientContactOutputSchema = z.object({
+  id: z.string().uuid(),
+  client_id: z.string().uuid(),
+  full_name: z.string(),
+  job_title: z.string().nullable(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  is_primary: z.boolean(),
+  is_active: z.boolean(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type ClientContact = z.infer<typeof ClientContactOutputSchema>;
+export type ClientContactCreate = z.infer<typeof ClientContactCreateSchema>;
+export type ClientContactUpdate = z.infer<typeof ClientContactUpdateSchema>;
+export type ClientContactListParams = z.input<typeof ClientContactListParamsSchema>;
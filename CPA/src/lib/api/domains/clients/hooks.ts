@@ -1,6 +1,16 @@
 // src/lib/api/domains/clients/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
 import { clientQueries } from "./queries";
-import { type ClientListParams } from "./types";
+import { clientMutations } from "./mutations";
+import {
+  type Client,
+  type ClientListParams,
+  type ClientListResponse,
+  type ClientStats,
+  type ClientCodeAvailabilityInput,
+} from "./types";
 import { useQueryState } from "@/lib/api/hooks";
 
 /**
@@ -16,7 +26,7 @@ export function useClients() {
  */
 export function useClientsList(params: ClientListParams) {
   const query = clientQueries.list(params);
-  return useQueryState(() => query);
+  return useQueryState<ClientListResponse>(() => query);
 }
 
 /**
@@ -24,5 +34,84 @@ export function useClientsList(params: ClientListParams) {
  */
 export function useClient(id: string) {
   const query = clientQueries.getById(id);
-  return useQueryState(() => query);
+  return useQueryState<Client>(() => query);
+}
+
+/**
+ * Hook for fetching the claim KPIs of a client
+ */
+export function useClientStats(id: string) {
+  const query = clientQueries.getStats(id);
+  return useQueryState<ClientStats>(() => query);
+}
+
+/**
+ * Hook for checking whether a client code is free to use
+ * @param input The code and the client being edited
+ * @param enabled Whether the check should run
+ */
+export function useClientCodeAvailability(input: ClientCodeAvailabilityInput, enabled = true) {
+  const query = clientQueries.isCodeAvailable(input, { enabled });
+  return useQueryState<boolean>(() => query);
+}
+
+/**
+ * Returns a callback that refreshes the client lists, pickers and the changed client
+ */
+function useInvalidateClients() {
+  const queryClient = useQueryClient();
+
+  return (id: string) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.client.getAll)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.client.list)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.client.isCodeAvailable)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.client.getById, { id }, "query")
+    });
+  };
+}
+
+/**
+ * Hook for creating a client
+ */
+export function useCreateClient() {
+  const invalidateClients = useInvalidateClients();
+
+  return clientMutations.create({
+    onSuccess: (data) => {
+      invalidateClients(data.id);
+    }
+  });
+}
+
+/**
+ * Hook for updating a client
+ */
+export function useUpdateClient() {
+  const invalidateClients = useInvalidateClients();
+
+  return clientMutations.update({
+    onSuccess: (data) => {
+      invalidateClients(data.id);
+    }
+  });
+}
+
+/**
+ * Hook for deleting a client
+ */
+export function useDeleteClient() {
+  const invalidateClients = useInvalidateClients();
+
+  return clientMutations.delete({
+    onSuccess: (_data, variables) => {
+      invalidateClients(variables.id);
+    }
+  });
 }
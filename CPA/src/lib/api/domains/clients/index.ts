@@ -5,7 +5,9 @@ export * from './hooks';
 
 // Export raw queries for advanced use cases
 import { clientQueries } from './queries';
+import { clientMutations } from './mutations';
 
 export const clientsApi = {
-  queries: clientQueries
+  queries: clientQueries,
+  mutations: clientMutations
 };
@@ -0,0 +1,67 @@
+// src/lib/api/domains/clients/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type Client, type ClientCreate, type ClientUpdate } from "./types";
+
+export const clientMutations = {
+  /**
+   * Create a new client
+   * @param options Mutation options
+   */
+  create: (options?: MutationOptions<Client, ClientCreate>) =>
+    apiClient.mutation<Client, ClientCreate>(
+      (mutationOptions) => apiClient.raw.client.create.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Client created successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to create client: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update a client
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<Client, ClientUpdate>) =>
+    apiClient.mutation<Client, ClientUpdate>(
+      (mutationOptions) => apiClient.raw.client.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Client updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update client: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Delete a client that has no claims
+   * @param options Mutation options
+   */
+  delete: (options?: MutationOptions<{ success: boolean }, { id: string }>) =>
+    apiClient.mutation<{ success: boolean }, { id: string }>(
+      (mutationOptions) => apiClient.raw.client.delete.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Client deleted successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to delete client: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
@@ -1,7 +1,13 @@
 // src/lib/api/domains/clients/queries.ts
 import { apiClient } from "../../client";
 import { type QueryOptions } from "../../client";
-import { type Client, type ClientListParams, type ClientListResponse } from "./types";
+import {
+  type Client,
+  type ClientListParams,
+  type ClientListResponse,
+  type ClientStats,
+  type ClientCodeAvailabilityInput,
+} from "./types";
 
 export const clientQueries = {
   /**
@@ -33,4 +39,25 @@ export const clientQueries = {
         ...options
       }
     ),
+
+  /**
+   * Get the claim KPIs of a client
+   */
+  getStats: (id: string, options?: QueryOptions<ClientStats>) =>
+    apiClient.query<ClientStats>(
+      (queryOptions) => apiClient.raw.client.getStats.useQuery({ id }, queryOptions),
+      {
+        enabled: !!id,
+        ...options
+      }
+    ),
+
+  /**
+   * Check whether a client code is free to use
+   */
+  isCodeAvailable: (input: ClientCodeAvailabilityInput, options?: QueryOptions<boolean>) =>
+    apiClient.query<boolean>(
+      (queryOptions) => apiClient.raw.client.isCodeAvailable.useQuery(input, queryOptions),
+      options
+    ),
 };
@@ -12,7 +12,79 @@ export const ClientListParamsSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional(),
 });
 
+// Client code, used as the prefix of the client's job numbers
+export const ClientCodeSchema = z
+  .string()
+  .trim()
+  .min(2, "Code must be at least 2 characters")
+  .max(5, "Code must be at most 5 characters")
+  .regex(/^[A-Za-z0-9]+$/, "Code may only contain letters and numbers")
+  .transform((code) => code.toUpperCase());
+
+// Zod schema for client creation
+export const ClientCreateSchema = z.object({
+  name: z.string().min(1, "Client name is required"),
+  code: ClientCodeSchema,
+  address: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email("Please enter a valid email").optional().or(z.literal("")),
+  contact_person: z.string().optional(),
+});
+
+// Zod schema for client update
+export const ClientUpdateSchema = ClientCreateSchema.partial().extend({
+  id: z.string().uuid(),
+});
+
+// Zod schema for the code availability check
+export const ClientCodeAvailabilitySchema = z.object({
+  code: ClientCodeSchema,
+  // The client being edited, whose own code does not count as taken
+  exclude_id: z.string().uuid().optional(),
+});
+
+// Zod schema for client output
+export const ClientOutputSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  code: z.string().nullable().optional(),
+  address: z.string().nullable().optional(),
+  phone: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  contact_person: z.string().nullable().optional(),
+  // Maintained by the job number trigger, never written by the app
+  last_claim_sequence: z.number().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+});
+
+// Zod schema for client list response
+export const ClientListResponseSchema = z.object({
+  items: z.array(ClientOutputSchema),
+  pagination: z.object({
+    total: z.number(),
+    pages: z.number(),
+    current: z.number(),
+    hasMore: z.boolean()
+  })
+});
+
+// Zod schema for the client KPIs shown on the client detail page
+export const ClientStatsSchema = z.object({
+  total_claims: z.number(),
+  open_claims: z.number(),
+  finalized_claims: z.number(),
+  canceled_claims: z.number(),
+  last_claim_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type ClientCreate = z.infer<typeof ClientCreateSchema>;
+export type ClientUpdate = z.infer<typeof ClientUpdateSchema>;
+export type ClientStats = z.infer<typeof ClientStatsSchema>;
+
 // Export types derived from tRPC
 export type Client = RouterOutputs["client"]["getById"];
 export type ClientListParams = z.infer<typeof ClientListParamsSchema>;
 export type ClientListResponse = PaginatedResponse<Client>;
+export type ClientCodeAvailabilityInput = RouterInputs["client"]["isCodeAvailable"];
@@ -0,0 +1,47 @@
+// src/lib/api/domains/damages/constants.ts
+
+/**
+ * Constants for damages domain
+ * Centralizes all cache-related constants for easier maintenance
+ */
+
+// Cache times
+export const CACHE_TIMES = {
+  // How long data stays fresh before refetching (when accessed)
+  STALE_TIME: {
+    LIST: 10 * 60 * 1000,    // 10 minutes
+    DETAILS: 20 * 60 * 1000, // 20 minutes
+  },
+
+  // How long data stays in cache after becoming unused
+  GC_TIME: {
+    LIST: 30 * 60 * 1000,    // 30 minutes
+    DETAILS: 60 * 60 * 1000, // 60 minutes
+  },
+};
+
+// Query keys for consistent cache management
+export const QUERY_KEYS = {
+  // Base key for all damage queries
+  BASE: 'damages' as const,
+  ALL: ['damages'] as const,
+
+  // Keys for damage by ID
+  BY_ID: (id: string) => ['damages', 'byId', id] as const,
+
+  // Keys for damages by claim ID
+  BY_CLAIM_ID: (claimId: string) => ['damages', 'byClaimId', claimId] as const,
+
+  // tRPC-compatible query keys
+  TRPC: {
+    GET_BY_CLAIM_ID: (claimId: string) => [
+      ['trpc', 'damage', 'getByClaimId'],
+      { input: { claim_id: claimId }, type: 'query' }
+    ] as const,
+
+    GET_BY_ID: (id: string) => [
+      ['trpc', 'damage', 'getById'],
+      { input: { id }, type: 'query' }
+    ] as const,
+  }
+};
@@ -0,0 +1,112 @@
+// src/lib/api/domains/damages/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { damageQueries } from "./queries";
+import { damageMutations } from "./mutations";
+import { QUERY_KEYS } from "./constants";
+
+/**
+ * Hook for fetching all damages recorded for a claim
+ * @param claimId The claim ID
+ * @param options Additional query options
+ */
+export function useDamages(claimId: string, options?: any) {
+  return damageQueries.getByClaimId(claimId, options);
+}
+
+/**
+ * Hook for fetching a single damage
+ * @param id The damage ID
+ * @param options Additional query options
+ */
+export function useDamage(id: string, options?: any) {
+  return damageQueries.getById(id, options);
+}
+
+/**
+ * Returns a callback that invalidates every cached damage query for a claim
+ */
+function useInvalidateClaimDamages() {
+  const queryClient = useQueryClient();
+
+  return (claimId: string) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.damage.getByClaimId, { claim_id: claimId }, "query")
+    });
+    queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.BY_CLAIM_ID(claimId)
+    });
+  };
+}
+
+/**
+ * Hook for recording a new damage
+ */
+export function useCreateDamage() {
+  const invalidateClaimDamages = useInvalidateClaimDamages();
+
+  return damageMutations.create({
+    onSuccess: (data) => {
+      invalidateClaimDamages(data.claim_id);
+    }
+  });
+}
+
+/**
+ * Hook for updating a damage
+ */
+export function useUpdateDamage() {
+  const queryClient = useQueryClient();
+  const invalidateClaimDamages = useInvalidateClaimDamages();
+
+  return damageMutations.update({
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: getQueryKey(apiClient.raw.damage.getById, { id: data.id }, "query")
+      });
+      invalidateClaimDamages(data.claim_id);
+    }
+  });
+}
+
+/**
+ * Hook for deleting a damage
+ */
+export function useDeleteDamage() {
+  const invalidateClaimDamages = useInvalidateClaimDamages();
+
+  return damageMutations.delete({
+    onSuccess: (data) => {
+      invalidateClaimDamages(data.claim_id);
+    }
+  });
+}
+
+/**
+ * Hook for attaching an uploaded photo to a damage
+ * @param claimId The claim the damage belongs to
+ */
+export function useAddDamagePhoto(claimId: string) {
+  const invalidateClaimDamages = useInvalidateClaimDamages();
+
+  return damageMutations.addPhoto({
+    onSuccess: () => {
+      invalidateClaimDamages(claimId);
+    }
+  });
+}
+
+/**
+ * Hook for removing a photo from a damage
+ * @param claimId The claim the damage belongs to
+ */
+export function useRemoveDamagePhoto(claimId: string) {
+  const invalidateClaimDamages = useInvalidateClaimDamages();
+
+  return damageMutations.removePhoto({
+    onSuccess: () => {
+      invalidateClaimDamages(claimId);
+    }
+  });
+}
@@ -0,0 +1,14 @@
+// src/lib/api/domains/damages/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './constants';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { damageQueries } from './queries';
+import { damageMutations } from './mutations';
+
+export const damageApi = {
+  queries: damageQueries,
+  mutations: damageMutations
+};
@@ -0,0 +1,105 @@
+// src/lib/api/domains/damages/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import {
+  type Damage,
+  type DamageCreate,
+  type DamageUpdate,
+  type DamagePhoto,
+  type DamagePhotoCreate
+} from "./types";
+
+export const damageMutations = {
+  /**
+   * Create a new damage record
+   * @param options Mutation options
+   */
+  create: (options?: MutationOptions<Damage, DamageCreate>) =>
+    apiClient.mutation<Damage, DamageCreate>(
+      (mutationOptions) => apiClient.raw.damage.create.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Damage recorded successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to record damage: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update a damage record
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<Damage, DamageUpdate>) =>
+    apiClient.mutation<Damage, DamageUpdate>(
+      (mutationOptions) => apiClient.raw.damage.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Damage updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update damage: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Delete a damage record
+   * @param options Mutation options
+   */
+  delete: (options?: MutationOptions<{ success: boolean; claim_id: string }, { id: string }>) =>
+    apiClient.mutation<{ success: boolean; claim_id: string }, { id: string }>(
+      (mutationOptions) => apiClient.raw.damage.delete.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Damage deleted successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to delete damage: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Attach an uploaded photo to a damage
+   * @param options Mutation options
+   */
+  addPhoto: (options?: MutationOptions<DamagePhoto, DamagePhotoCreate>) =>
+    apiClient.mutation<DamagePhoto, DamagePhotoCreate>(
+      (mutationOptions) => apiClient.raw.damage.addPhoto.useMutation(mutationOptions),
+      {
+        ...options,
+        onError: (error, variables) => {
+          toast.error(`Failed to save damage photo: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Remove a photo from a damage
+   * @param options Mutation options
+   */
+  removePhoto: (options?: MutationOptions<{ success: boolean }, { id: string }>) =>
+    apiClient.mutation<{ success: boolean }, { id: string }>(
+      (mutationOptions) => apiClient.raw.damage.removePhoto.useMutation(mutationOptions),
+      {
+        ...options,
+        onError: (error, variables) => {
+          toast.error(`Failed to remove damage photo: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
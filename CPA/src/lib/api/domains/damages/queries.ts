@@ -0,0 +1,39 @@
+// src/lib/api/domains/damages/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type Damage } from "./types";
+import { CACHE_TIMES } from "./constants";
+
+export const damageQueries = {
+  /**
+   * Get all damages for a claim
+   * @param claimId The claim ID
+   * @param options Additional query options
+   */
+  getByClaimId: (claimId: string, options?: QueryOptions<Damage[]>) =>
+    apiClient.query<Damage[]>(
+      (queryOptions) => apiClient.raw.damage.getByClaimId.useQuery({ claim_id: claimId }, queryOptions),
+      {
+        enabled: !!claimId,
+        staleTime: CACHE_TIMES.STALE_TIME.LIST,
+        gcTime: CACHE_TIMES.GC_TIME.LIST,
+        ...options
+      }
+    ),
+
+  /**
+   * Get damage by ID
+   * @param id The damage ID
+   * @param options Additional query options
+   */
+  getById: (id: string, options?: QueryOptions<Damage>) =>
+    apiClient.query<Damage>(
+      (queryOptions) => apiClient.raw.damage.getById.useQuery({ id }, queryOptions),
+      {
+        enabled: !!id,
+        staleTime: CACHE_TIMES.STALE_TIME.DETAILS,
+        gcTime: CACHE_TIMES.GC_TIME.DETAILS,
+        ...options
+      }
+    ),
+};
@@ -0,0 +1,44 @@
+// src/lib/api/domains/damages/server-prefetch.server.ts
+import 'server-only';
+import { cache } from "react";
+import { getQueryClient } from "@/trpc/query-client";
+import { createServerCaller } from "@/lib/api/utils/createServerCaller";
+import { QUERY_KEYS } from "./constants";
+
+/**
+ * Server-side prefetch for the damages recorded on a claim
+ * This function is cached using React's cache() to deduplicate requests
+ *
+ * @param claimId The claim ID to prefetch damages for
+ * @returns The prefetched damages
+ */
+export const prefetchDamagesByClaimServer = cache(async (claimId: string) => {
+  console.log(`[Server Prefetch] Prefetching damages for claim ${claimId}`);
+
+  try {
+    // Create a tRPC caller for server-side
+    const caller = await createServerCaller();
+    const queryClient = getQueryClient();
+
+    const damages = await caller.damage.getByClaimId({ claim_id: claimId });
+
+    // Cache the damages with both client-side and tRPC query keys
+    queryClient.setQueryData(
+      QUERY_KEYS.BY_CLAIM_ID(claimId),
+      damages
+    );
+
+    queryClient.setQueryData(
+      QUERY_KEYS.TRPC.GET_BY_CLAIM_ID(claimId),
+      damages
+    );
+
+    console.log(`[Server Prefetch] Prefetched ${damages.length} damages for claim ${claimId}`);
+
+    return damages;
+  } catch (error) {
+    console.error(`[Server Prefetch] Error prefetching damages for claim ${claimId}:`, error);
+    // Return empty array instead of throwing to prevent the page from failing to render
+    return [];
+  }
+});
@@ -0,0 +1,126 @@
+// src/lib/api/domains/damages/types.ts
+import { z } from "zod";
+import { type RouterOutputs, type RouterInputs } from "@/lib/api/types";
+
+// Damage severity enum
+export enum DamageSeverity {
+  MINOR = "minor",
+  MODERATE = "moderate",
+  SEVERE = "severe",
+}
+
+// Damage cause enum
+export enum DamageCause {
+  ACCIDENT = "accident",
+  HAIL = "hail",
+  VANDALISM = "vandalism",
+  FIRE = "fire",
+  FLOOD = "flood",
+  THEFT = "theft",
+  OTHER = "other",
+}
+
+// Point of impact enum
+export enum PointOfImpact {
+  FRONT = "front",
+  REAR = "rear",
+  LEFT_SIDE = "left_side",
+  RIGHT_SIDE = "right_side",
+  ROOF = "roof",
+  UNDERSIDE = "underside",
+  MULTIPLE = "multiple",
+}
+
+// Options for select inputs
+export const DamageSeverityOptions = [
+  { value: DamageSeverity.MINOR, label: "Minor" },
+  { value: DamageSeverity.MODERATE, label: "Moderate" },
+  { value: DamageSeverity.SEVERE, label: "Severe" },
+];
+
+export const DamageCauseOptions = [
+  { value: DamageCause.ACCIDENT, label: "Accident" },
+  { value: DamageCause.HAIL, label: "Hail" },
+  { value: DamageCause.VANDALISM, label: "Vandalism" },
+  { value: DamageCause.FIRE, label: "Fire" },
+  { value: DamageCause.FLOOD, label: "Flood" },
+  { value: DamageCause.THEFT, label: "Theft" },
+  { value: DamageCause.OTHER, label: "Other" },
+];
+
+export const PointOfImpactOptions = [
+  { value: PointOfImpact.FRONT, label: "Front" },
+  { value: PointOfImpact.REAR, label: "Rear" },
+  { value: PointOfImpact.LEFT_SIDE, label: "Left Side" },
+  { value: PointOfImpact.RIGHT_SIDE, label: "Right Side" },
+  { value: PointOfImpact.ROOF, label: "Roof" },
+  { value: PointOfImpact.UNDERSIDE, label: "Underside" },
+  { value: PointOfImpact.MULTIPLE, label: "Multiple" },
+];
+
+// Zod schema for damage creation
+export const DamageCreateSchema = z.object({
+  claim_id: z.string().uuid(),
+  damage_location: z.string().min(1, "Damage location is required"),
+  damage_description: z.string().min(1, "Damage description is required"),
+  severity: z.nativeEnum(DamageSeverity).optional(),
+  damage_cause: z.nativeEnum(DamageCause).optional(),
+  point_of_impact: z.nativeEnum(PointOfImpact).optional(),
+  is_structural: z.boolean().default(false),
+  estimated_repair_cost: z.number().nonnegative().optional(),
+});
+
+// Zod schema for damage update
+export const DamageUpdateSchema = DamageCreateSchema.partial().extend({
+  id: z.string().uuid(),
+  claim_id: z.string().uuid(),
+});
+
+// Zod schema for attaching a photo to a damage
+export const DamagePhotoCreateSchema = z.object({
+  damage_id: z.string().uuid(),
+  claim_id: z.string().uuid(),
+  file_path: z.string(),
+  file_name: z.string(),
+  mime_type: z.string(),
+  file_size: z.number(),
+});
+
+// Zod schema for damage photo output (rows from attachments linked by damage_id)
+export const DamagePhotoOutputSchema = z.object({
+  id: z.string().uuid(),
+  damage_id: z.string().uuid(),
+  file_path: z.string(),
+  file_name: z.string(),
+  mime_type: z.string(),
+  file_size: z.number(),
+  created_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+});
+
+// Zod schema for damage output
+export const DamageOutputSchema = z.object({
+  id: z.string().uuid(),
+  claim_id: z.string().uuid(),
+  damage_location: z.string(),
+  damage_description: z.string(),
+  severity: z.nativeEnum(DamageSeverity).nullable(),
+  damage_cause: z.nativeEnum(DamageCause).nullable(),
+  point_of_impact: z.nativeEnum(PointOfImpact).nullable(),
+  is_structural: z.boolean().nullable(),
+  estimated_repair_cost: z.number().nullable(),
+  photos: z.array(DamagePhotoOutputSchema).nullable().transform(val => val ?? []),
+  created_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  updated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+});
+
+// TypeScript types based on Zod schemas
+export type DamageCreate = z.infer<typeof DamageCreateSchema>;
+export type DamageUpdate = z.infer<typeof DamageUpdateSchema>;
+export type Damage = z.infer<typeof DamageOutputSchema>;
+export type DamagePhotoCreate = z.infer<typeof DamagePhotoCreateSchema>;
+export type DamagePhoto = z.infer<typeof DamagePhotoOutputSchema>;
+
+// Export types derived from tRPC
+export type DamageGetByClaimInput = RouterInputs["damage"]["getByClaimId"];
+export type DamageGetByIdInput = RouterInputs["damage"]["getById"];
+export type DamageList = RouterOutputs["damage"]["getByClaimId"];
@@ -0,0 +1,233 @@
+// src/lib/api/domains/estimates/calculation.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  type EstimateCalculationLine,
+  type EstimateCalculationRates,
+  calculateEstimateTotals,
+  calculateLineTotals,
+  getLineCalculatedColumns,
+  getTradeLaborRate,
+  roundCurrency,
+} from "./calculation";
+import { LaborTrade, OperationCode } from "./types";
+
+// Rates of a typical estimate; electrical work uses the panel rate
+const rates: EstimateCalculationRates = {
+  vat_rate_percentage: 15,
+  panel_labor_rate: 350,
+  strip_fit_labor_rate: 300,
+  mechanical_labor_rate: 450,
+  electrical_labor_rate: null,
+  part_markup_percentage: 25,
+  paint_material_rate: 200,
+  special_markup_percentage: 25,
+};
+
+const emptyLine: EstimateCalculationLine = {
+  operation_code: OperationCode.NEW,
+  part_cost: null,
+  quantity: 1,
+  strip_fit_hours: null,
+  repair_hours: null,
+  paint_hours: null,
+  sublet_cost: null,
+  labor_trade: LaborTrade.PANEL,
+};
+
+// A new panel with strip/fit, repair and paint work
+const panelLine: EstimateCalculationLine = {
+  ...emptyLine,
+  part_cost: 1000,
+  quantity: 2,
+  strip_fit_hours: 1.5,
+  repair_hours: 2,
+  paint_hours: 3,
+};
+
+const mechanicalLine: EstimateCalculationLine = {
+  ...emptyLine,
+  operation_code: OperationCode.REPAIR,
+  strip_fit_hours: 1,
+  repair_hours: 2,
+  labor_trade: LaborTrade.MECHANICAL,
+};
+
+const specialLine: EstimateCalculationLine = {
+  ...emptyLine,
+  operation_code: OperationCode.SPECIAL,
+  sublet_cost: 400,
+};
+
+describe("roundCurrency", () => {
+  it("rounds half away from zero despite floating point errors", () => {
+    expect(roundCurrency(1.005)).toBe(1.01);
+    expect(roundCurrency(2.675)).toBe(2.68);
+    expect(roundCurrency(-1.005)).toBe(-1.01);
+    expect(roundCurrency(1234.5649)).toBe(1234.56);
+  });
+
+  it("removes drift from sums", () => {
+    expect(roundCurrency(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it("never returns negative zero", () => {
+    expect(Object.is(roundCurrency(-0.001), 0)).toBe(true);
+  });
+});
+
+describe("getTradeLaborRate", () => {
+  it("uses the trade's rate when it is set", () => {
+    expect(getTradeLaborRate(rates, LaborTrade.MECHANICAL)).toBe(450);
+  });
+
+  it("falls back to the panel labor rate", () => {
+    expect(getTradeLaborRate(rates, LaborTrade.ELECTRICAL)).toBe(350);
+    expect(getTradeLaborRate({ ...rates, panel_labor_rate: null }, LaborTrade.ELECTRICAL)).toBe(0);
+  });
+});
+
+describe("calculateLineTotals", () => {
+  it("calculates a panel line", () => {
+    expect(calculateLineTotals(rates, panelLine)).toEqual({
+      partTotal: 2500,
+      laborTotal: 1150,
+      panelLabor: 700,
+      stripFitLabor: 450,
+      mechanicalLabor: 0,
+      electricalLabor: 0,
+      paintMaterialTotal: 600,
+      subletTotal: 0,
+      specialTotal: 0,
+      lineTotal: 4250,
+    });
+  });
+
+  it("bills strip/fit hours at the panel rate when no strip/fit rate is set", () => {
+    const totals = calculateLineTotals({ ...rates, strip_fit_labor_rate: null }, panelLine);
+    expect(totals.stripFitLabor).toBe(525);
+    expect(totals.laborTotal).toBe(1225);
+  });
+
+  it("treats lines without a trade as panel work", () => {
+    expect(calculateLineTotals(rates, { ...panelLine, labor_trade: null })).toEqual(
+      calculateLineTotals(rates, panelLine)
+    );
+  });
+
+  it("bills mechanical strip/fit and repair hours at the mechanical rate", () => {
+    const totals = calculateLineTotals(rates, mechanicalLine);
+    expect(totals.mechanicalLabor).toBe(1350);
+    expect(totals.panelLabor).toBe(0);
+    expect(totals.stripFitLabor).toBe(0);
+    expect(totals.laborTotal).toBe(1350);
+  });
+
+  it("bills electrical hours at the panel rate when no electrical rate is set", () => {
+    const totals = calculateLineTotals(rates, {
+      ...mechanicalLine,
+      strip_fit_hours: 0.5,
+      repair_hours: 1,
+      labor_trade: LaborTrade.ELECTRICAL,
+    });
+    expect(totals.electricalLabor).toBe(525);
+    expect(totals.mechanicalLabor).toBe(0);
+  });
+
+  it("bills painted panels as paint materials only, without paint labor", () => {
+    const totals = calculateLineTotals(rates, { ...emptyLine, operation_code: OperationCode.PAINT, paint_hours: 2 });
+    expect(totals.laborTotal).toBe(0);
+    expect(totals.paintMaterialTotal).toBe(400);
+    expect(totals.lineTotal).toBe(400);
+  });
+
+  it("applies the 25% default markups when an estimate has none set", () => {
+    const defaultRates = { ...rates, part_markup_percentage: null, special_markup_percentage: null };
+    expect(calculateLineTotals(defaultRates, panelLine).partTotal).toBe(2500);
+    expect(calculateLineTotals(defaultRates, specialLine).specialTotal).toBe(500);
+  });
+
+  it("keeps a markup of zero", () => {
+    const noMarkupRates = { ...rates, part_markup_percentage: 0, special_markup_percentage: 0 };
+    expect(calculateLineTotals(noMarkupRates, panelLine).partTotal).toBe(2000);
+    expect(calculateLineTotals(noMarkupRates, specialLine).specialTotal).toBe(400);
+  });
+
+  it("counts special services once, marked up, instead of as sublet", () => {
+    const totals = calculateLineTotals(rates, specialLine);
+    expect(totals.specialTotal).toBe(500);
+    expect(totals.subletTotal).toBe(0);
+    expect(totals.lineTotal).toBe(500);
+  });
+
+  it("counts sublet costs of other lines without markup", () => {
+    const totals = calculateLineTotals(rates, { ...specialLine, operation_code: OperationCode.OTHER });
+    expect(totals.subletTotal).toBe(400);
+    expect(totals.specialTotal).toBe(0);
+    expect(totals.lineTotal).toBe(400);
+  });
+
+  it("rounds each amount to cents", () => {
+    const totals = calculateLineTotals(rates, { ...emptyLine, part_cost: 10.01, quantity: 3, repair_hours: 0.33 });
+    expect(totals.partTotal).toBe(37.54);
+    expect(totals.panelLabor).toBe(115.5);
+    expect(totals.lineTotal).toBe(153.04);
+  });
+});
+
+describe("calculateEstimateTotals", () => {
+  it("sums the line totals and adds VAT", () => {
+    expect(calculateEstimateTotals(rates, [panelLine, mechanicalLine, specialLine])).toEqual({
+      subtotalParts: 2500,
+      subtotalLabor: 2500,
+      subtotalPanelLabor: 700,
+      subtotalStripFitLabor: 450,
+      subtotalMechanicalLabor: 1350,
+      subtotalElectricalLabor: 0,
+      subtotalPaintMaterials: 600,
+      subtotalSublet: 0,
+      subtotalOther: 0,
+      subtotalSpecial: 500,
+      totalBeforeVat: 6100,
+      totalVat: 915,
+      totalAmount: 7015,
+    });
+  });
+
+  it("calculates VAT once on the total, not per line", () => {
+    const line = { ...emptyLine, part_cost: 0.1 };
+    const totals = calculateEstimateTotals({ ...rates, part_markup_percentage: 0 }, [line, line, line]);
+    expect(totals.totalBeforeVat).toBe(0.3);
+    // Rounding the VAT of each line would give 0.06
+    expect(totals.totalVat).toBe(0.05);
+    expect(totals.totalAmount).toBe(0.35);
+  });
+
+  it("gives zero totals for an estimate without lines", () => {
+    const totals = calculateEstimateTotals(rates, []);
+    expect(totals.totalBeforeVat).toBe(0);
+    expect(totals.totalVat).toBe(0);
+    expect(totals.totalAmount).toBe(0);
+  });
+});
+
+describe("getLineCalculatedColumns", () => {
+  it("stores special services as the line's sublet total, including their markup", () => {
+    expect(getLineCalculatedColumns(rates, specialLine)).toEqual({
+      calculated_part_total: 0,
+      calculated_labor_total: 0,
+      calculated_paint_material_total: 0,
+      calculated_sublet_total: 500,
+      calculated_line_total: 500,
+    });
+  });
+
+  it("stores the totals of a panel line", () => {
+    expect(getLineCalculatedColumns(rates, panelLine)).toEqual({
+      calculated_part_total: 2500,
+      calculated_labor_total: 1150,
+      calculated_paint_material_total: 600,
+      calculated_sublet_total: 0,
+      calculated_line_total: 4250,
+    });
+  });
+});
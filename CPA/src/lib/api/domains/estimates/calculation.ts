@@ -0,0 +1,231 @@
+// src/lib/api/domains/estimates/calculation.ts
+import {
+  type Estimate,
+  type EstimateLine,
+  LaborTrade,
+  OperationCode,
+} from "./types";
+
+/**
+ * Estimate calculation shared by the estimate router and the estimate lines table
+ * Pure and deterministic: the same rates and lines always give the same totals
+ */
+
+// Markups used when an estimate has none set; estimates are created with these
+export const DEFAULT_PART_MARKUP_PERCENTAGE = 25;
+export const DEFAULT_SPECIAL_MARKUP_PERCENTAGE = 25;
+
+// Estimate fields the calculation reads
+export type EstimateCalculationRates = Pick<
+  Estimate,
+  | "vat_rate_percentage"
+  | "panel_labor_rate"
+  | "strip_fit_labor_rate"
+  | "mechanical_labor_rate"
+  | "electrical_labor_rate"
+  | "part_markup_percentage"
+  | "paint_material_rate"
+  | "special_markup_percentage"
+>;
+
+// Line fields the calculation reads; additional lines have the same fields
+export type EstimateCalculationLine = Pick<
+  EstimateLine,
+  | "operation_code"
+  | "part_cost"
+  | "quantity"
+  | "strip_fit_hours"
+  | "repair_hours"
+  | "paint_hours"
+  | "sublet_cost"
+> & {
+  labor_trade?: LaborTrade | null;
+};
+
+export interface EstimateLineTotals {
+  partTotal: number;
+  laborTotal: number;
+  panelLabor: number;
+  stripFitLabor: number;
+  mechanicalLabor: number;
+  electricalLabor: number;
+  paintMaterialTotal: number;
+  subletTotal: number;
+  specialTotal: number;
+  lineTotal: number;
+}
+
+export interface EstimateTotals {
+  subtotalParts: number;
+  subtotalLabor: number;
+  subtotalPanelLabor: number;
+  subtotalStripFitLabor: number;
+  subtotalMechanicalLabor: number;
+  subtotalElectricalLabor: number;
+  subtotalPaintMaterials: number;
+  subtotalSublet: number;
+  subtotalOther: number;
+  subtotalSpecial: number;
+  totalBeforeVat: number;
+  totalVat: number;
+  totalAmount: number;
+}
+
+/**
+ * Round an amount to cents, half away from zero
+ * The amount is trimmed to 15 significant digits first, so binary floating point
+ * errors (1.005 * 100 = 100.49999...) don't round the wrong way
+ * @param value The amount to round
+ */
+export function roundCurrency(value: number): number {
+  const cents = Math.round(Number((Math.abs(value) * 100).toPrecision(15)));
+  // Adding zero turns -0 into 0
+  return (Math.sign(value) * cents) / 100 + 0;
+}
+
+// Sum amounts and round the result, so many small lines don't accumulate drift
+const sumCurrency = (values: number[]) => roundCurrency(values.reduce((sum, value) => sum + value, 0));
+
+/**
+ * Get the hourly rate for a trade, falling back to the panel labor rate
+ * @param rates The estimate's rates
+ * @param trade The line's labor trade
+ */
+export function getTradeLaborRate(rates: EstimateCalculationRates, trade: LaborTrade): number {
+  const rate = {
+    [LaborTrade.PANEL]: rates.panel_labor_rate,
+    [LaborTrade.MECHANICAL]: rates.mechanical_labor_rate,
+    [LaborTrade.ELECTRICAL]: rates.electrical_labor_rate,
+  }[trade];
+  return rate ?? rates.panel_labor_rate ?? 0;
+}
+
+/**
+ * Calculate a single line's totals, each rounded to cents
+ * Panel lines bill strip/fit hours at the strip/fit rate and repair hours at the panel rate;
+ * mechanical and electrical lines bill both at their trade's rate
+ * Special services (SC) lines are marked up and counted as special services instead of sublet
+ * @param rates The estimate's rates
+ * @param line The line to calculate
+ */
+export function calculateLineTotals(
+  rates: EstimateCalculationRates,
+  line: EstimateCalculationLine
+): EstimateLineTotals {
+  const trade = line.labor_trade || LaborTrade.PANEL;
+  const stripFitHours = line.strip_fit_hours || 0;
+  const repairHours = line.repair_hours || 0;
+  // Paint hours represents the number of painted panels
+  const paintedPanels = line.paint_hours || 0;
+
+  // Markup applies to parts only
+  const partMarkup = rates.part_markup_percentage ?? DEFAULT_PART_MARKUP_PERCENTAGE;
+  const partCost = (line.part_cost || 0) * (line.quantity || 0);
+  const partTotal = roundCurrency(partCost + partCost * (partMarkup / 100));
+
+  let panelLabor = 0;
+  let stripFitLabor = 0;
+  let mechanicalLabor = 0;
+  let electricalLabor = 0;
+  if (trade === LaborTrade.PANEL) {
+    stripFitLabor = roundCurrency(stripFitHours * (rates.strip_fit_labor_rate ?? rates.panel_labor_rate ?? 0));
+    panelLabor = roundCurrency(repairHours * (rates.panel_labor_rate ?? 0));
+  } else if (trade === LaborTrade.MECHANICAL) {
+    mechanicalLabor = roundCurrency((stripFitHours + repairHours) * getTradeLaborRate(rates, trade));
+  } else {
+    electricalLabor = roundCurrency((stripFitHours + repairHours) * getTradeLaborRate(rates, trade));
+  }
+
+  // Painting is billed through the paint materials only, which have no markup
+  const paintMaterialTotal = roundCurrency(paintedPanels * (rates.paint_material_rate ?? 0));
+
+  let subletTotal = 0;
+  let specialTotal = 0;
+  if (line.operation_code === OperationCode.SPECIAL) {
+    const specialMarkup = rates.special_markup_percentage ?? DEFAULT_SPECIAL_MARKUP_PERCENTAGE;
+    const specialCost = line.sublet_cost || 0;
+    specialTotal = roundCurrency(specialCost + specialCost * (specialMarkup / 100));
+  } else {
+    subletTotal = roundCurrency(line.sublet_cost || 0);
+  }
+
+  const laborTotal = sumCurrency([panelLabor, stripFitLabor, mechanicalLabor, electricalLabor]);
+
+  return {
+    partTotal,
+    laborTotal,
+    panelLabor,
+    stripFitLabor,
+    mechanicalLabor,
+    electricalLabor,
+    paintMaterialTotal,
+    subletTotal,
+    specialTotal,
+    lineTotal: sumCurrency([partTotal, laborTotal, paintMaterialTotal, subletTotal, specialTotal]),
+  };
+}
+
+/**
+ * Calculate estimate totals from the rounded totals of its lines
+ * VAT is calculated once on the total, not per line
+ * @param rates The estimate's rates
+ * @param lines The lines to include; excluded lines should be left out
+ */
+export function calculateEstimateTotals(
+  rates: EstimateCalculationRates,
+  lines: EstimateCalculationLine[]
+): EstimateTotals {
+  const lineTotals = lines.map((line) => calculateLineTotals(rates, line));
+  const sumOf = (key: keyof EstimateLineTotals) => sumCurrency(lineTotals.map((totals) => totals[key]));
+
+  const subtotalParts = sumOf("partTotal");
+  const subtotalLabor = sumOf("laborTotal");
+  const subtotalPaintMaterials = sumOf("paintMaterialTotal");
+  const subtotalSublet = sumOf("subletTotal");
+  const subtotalSpecial = sumOf("specialTotal");
+  // No line type is counted as other yet
+  const subtotalOther = 0;
+
+  const totalBeforeVat = sumCurrency([
+    subtotalParts,
+    subtotalLabor,
+    subtotalPaintMaterials,
+    subtotalSublet,
+    subtotalOther,
+    subtotalSpecial,
+  ]);
+  const totalVat = roundCurrency(totalBeforeVat * ((rates.vat_rate_percentage ?? 0) / 100));
+
+  return {
+    subtotalParts,
+    subtotalLabor,
+    subtotalPanelLabor: sumOf("panelLabor"),
+    subtotalStripFitLabor: sumOf("stripFitLabor"),
+    subtotalMechanicalLabor: sumOf("mechanicalLabor"),
+    subtotalElectricalLabor: sumOf("electricalLabor"),
+    subtotalPaintMaterials,
+    subtotalSublet,
+    subtotalOther,
+    subtotalSpecial,
+    totalBeforeVat,
+    totalVat,
+    totalAmount: sumCurrency([totalBeforeVat, totalVat]),
+  };
+}
+
+/**
+ * Get the calculated_* columns stored on a line
+ * Special services are stored as the line's sublet total, including their markup
+ * @param rates The estimate's rates
+ * @param line The line to calculate
+ */
+export function getLineCalculatedColumns(rates: EstimateCalculationRates, line: EstimateCalculationLine) {
+  const totals = calculateLineTotals(rates, line);
+  return {
+    calculated_part_total: totals.partTotal,
+    calculated_labor_total: totals.laborTotal,
+    calculated_paint_material_total: totals.paintMaterialTotal,
+    calculated_sublet_total: roundCurrency(totals.subletTotal + totals.specialTotal),
+    calculated_line_total: totals.lineTotal,
+  };
+}
@@ -34,6 +34,9 @@ export const QUERY_KEYS = {
   // Keys for estimate by claim ID
   BY_CLAIM_ID: (claimId: string) => ['estimates', 'byClaimId', claimId] as const,
 
+  // Keys for all estimate versions of a claim
+  VERSIONS_BY_CLAIM_ID: (claimId: string) => ['estimates', 'versions', claimId] as const,
+
   // Keys for estimate lines by estimate ID
   LINES_BY_ESTIMATE_ID: (estimateId: string) => ['estimates', 'lines', estimateId] as const,
 
@@ -49,6 +52,11 @@ export const QUERY_KEYS = {
       { input: { id }, type: 'query' }
     ] as const,
 
+    GET_VERSIONS_BY_CLAIM_ID: (claimId: string) => [
+      ['trpc', 'estimate', 'getVersionsByClaimId'],
+      { input: { claim_id: claimId }, type: 'query' }
+    ] as const,
+
     GET_LINES_BY_ESTIMATE_ID: (estimateId: string) => [
       ['trpc', 'estimate', 'getLinesByEstimateId'],
       { input: { estimate_id: estimateId }, type: 'query' }
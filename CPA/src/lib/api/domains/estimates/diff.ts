@@ -0,0 +1,143 @@
+// src/lib/api/domains/estimates/diff.ts
+import { type Estimate, type EstimateLine } from "./types";
+
+// Line fields compared between two estimate versions
+export const DIFF_LINE_FIELDS = [
+  "description",
+  "operation_code",
+  "part_type",
+  "part_number",
+  "part_cost",
+  "quantity",
+  "labor_trade",
+  "strip_fit_hours",
+  "repair_hours",
+  "paint_hours",
+  "sublet_cost",
+  "is_included",
+] as const satisfies readonly (keyof EstimateLine)[];
+
+// Estimate totals compared between two estimate versions
+export const DIFF_TOTAL_FIELDS = [
+  { field: "subtotal_parts", label: "Parts" },
+  { field: "subtotal_labor", label: "Labor" },
+  { field: "subtotal_paint_materials", label: "Paint Materials" },
+  { field: "subtotal_sublet", label: "Specialist" },
+  { field: "subtotal_special", label: "Special Services" },
+  { field: "subtotal_other", label: "Other" },
+  { field: "total_before_vat", label: "Total (excl. VAT)" },
+  { field: "total_vat", label: "VAT" },
+  { field: "total_amount", label: "Total (incl. VAT)" },
+] as const satisfies readonly { field: keyof Estimate; label: string }[];
+
+export type EstimateLineDiffType = "added" | "removed" | "changed" | "unchanged";
+
+export interface EstimateLineFieldChange {
+  field: (typeof DIFF_LINE_FIELDS)[number];
+  from: unknown;
+  to: unknown;
+}
+
+export interface EstimateLineDiff {
+  key: string;
+  type: EstimateLineDiffType;
+  sequence_number: number;
+  base: EstimateLine | null;
+  compare: EstimateLine | null;
+  changes: EstimateLineFieldChange[];
+  lineTotalDelta: number;
+}
+
+export interface EstimateTotalDiff {
+  field: (typeof DIFF_TOTAL_FIELDS)[number]["field"];
+  label: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+// Lines without a link to their source are matched on their description and operation
+const lineMatchKey = (line: EstimateLine) => `${line.description.trim().toLowerCase()}|${line.operation_code}`;
+
+/**
+ * Compare the lines of two estimate versions
+ * Lines are matched on the source line they were copied from when the revision was created,
+ * then on their description and operation, so reordered lines are not shown as changed
+ * @param baseLines Lines of the older version
+ * @param compareLines Lines of the newer version
+ */
+export function diffEstimateLines(
+  baseLines: EstimateLine[],
+  compareLines: EstimateLine[]
+): EstimateLineDiff[] {
+  const unmatchedBase = new Map(baseLines.map((line) => [line.id, line]));
+  const matches = new Map<string, EstimateLine>();
+
+  for (const line of compareLines) {
+    const base = line.source_line_id ? unmatchedBase.get(line.source_line_id) : undefined;
+    if (base) {
+      matches.set(line.id, base);
+      unmatchedBase.delete(base.id);
+    }
+  }
+
+  for (const line of compareLines) {
+    if (matches.has(line.id)) continue;
+    const base = Array.from(unmatchedBase.values()).find((candidate) => lineMatchKey(candidate) === lineMatchKey(line));
+    if (base) {
+      matches.set(line.id, base);
+      unmatchedBase.delete(base.id);
+    }
+  }
+
+  const pairs = [
+    ...compareLines.map((compare) => ({ base: matches.get(compare.id) ?? null, compare })),
+    ...Array.from(unmatchedBase.values()).map((base) => ({ base, compare: null })),
+  ];
+
+  return pairs
+    .map(({ base, compare }): EstimateLineDiff => {
+      const line = (compare ?? base) as EstimateLine;
+      const lineTotalDelta = (compare?.calculated_line_total || 0) - (base?.calculated_line_total || 0);
+
+      if (!base || !compare) {
+        return {
+          key: line.id,
+          type: base ? "removed" : "added",
+          sequence_number: line.sequence_number,
+          base,
+          compare,
+          changes: [],
+          lineTotalDelta,
+        };
+      }
+
+      const changes = DIFF_LINE_FIELDS
+        .filter((field) => (base[field] ?? null) !== (compare[field] ?? null))
+        .map((field) => ({ field, from: base[field], to: compare[field] }));
+
+      return {
+        key: line.id,
+        type: changes.length > 0 ? "changed" : "unchanged",
+        sequence_number: line.sequence_number,
+        base,
+        compare,
+        changes,
+        lineTotalDelta,
+      };
+    })
+    .sort((a, b) => a.sequence_number - b.sequence_number);
+}
+
+/**
+ * Compare the totals of two estimate versions
+ * @param base The older version
+ * @param compare The newer version
+ */
+export function diffEstimateTotals(base: Estimate, compare: Estimate): EstimateTotalDiff[] {
+  return DIFF_TOTAL_FIELDS.map(({ field, label }) => {
+    const from = base[field] || 0;
+    const to = compare[field] || 0;
+    return { field, label, from, to, delta: to - from };
+  });
+}
@@ -1,6 +1,8 @@
 // src/lib/api/domains/estimates/hooks.ts
 import { useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
 import { estimateQueries } from "./queries";
 import { estimateMutations } from "./mutations";
 import { QUERY_KEYS } from "./constants";
@@ -11,7 +13,8 @@ import {
   type EstimateCreate,
   type EstimateLine,
   type EstimateLineCreate,
-  type EstimateLineUpdate
+  type EstimateLineUpdate,
+  LaborTrade
 } from "./types";
 
 /**
@@ -23,6 +26,15 @@ export function useEstimate(claimId: string, options?: any) {
   return estimateQueries.getByClaimId(claimId, options);
 }
 
+/**
+ * Hook for fetching every version of a claim's estimate
+ * @param claimId The claim ID
+ * @param options Additional query options
+ */
+export function useEstimateVersions(claimId: string, options?: any) {
+  return estimateQueries.getVersionsByClaimId(claimId, options);
+}
+
 /**
  * Hook for fetching estimate lines by estimate ID
  * @param estimateId The estimate ID
@@ -107,11 +119,13 @@ export function useAddEstimateLine() {
         damage_id: newLine.damage_id || null,
         part_number: newLine.part_number || null,
         part_cost: newLine.part_cost || null,
+        labor_trade: newLine.labor_trade || LaborTrade.PANEL,
         strip_fit_hours: newLine.strip_fit_hours || null,
         repair_hours: newLine.repair_hours || null,
         paint_hours: newLine.paint_hours || null,
         sublet_cost: newLine.sublet_cost || null,
         line_notes: null,
+        source_line_id: null,
         calculated_part_total: null,
         calculated_labor_total: null,
         calculated_paint_material_total: null,
@@ -368,3 +382,145 @@ export function useDeleteEstimateLine() {
     isLineLoading: (lineId: string) => loadingLines[lineId] || false
   };
 }
+
+/**
+ * Hook for applying many line changes in one request, e.g. reordering or pasting rows
+ * The server recalculates the totals once for the whole batch and returns every line
+ */
+export function useBatchUpsertEstimateLines() {
+  const queryClient = useQueryClient();
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.batchUpsertLines({
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        getQueryKey(apiClient.raw.estimate.getLinesByEstimateId, { estimate_id: data.estimate.id }, "query"),
+        data.lines
+      );
+      invalidateEstimate(data.estimate);
+    }
+  });
+}
+
+/**
+ * Hook for importing a third-party repairer's quote into an estimate, or into a new estimate
+ */
+export function useImportThirdPartyQuote() {
+  const queryClient = useQueryClient();
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.importThirdPartyQuote({
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        getQueryKey(apiClient.raw.estimate.getLinesByEstimateId, { estimate_id: data.estimate.id }, "query"),
+        data.lines
+      );
+      invalidateEstimate(data.estimate);
+    }
+  });
+}
+
+/**
+ * Returns a callback that refreshes the claim's estimate and its versions after a
+ * change, along with the claim logs the server writes for it
+ */
+function useInvalidateEstimate() {
+  const queryClient = useQueryClient();
+
+  return (estimate: Estimate) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.estimate.getByClaimId, { claim_id: estimate.claim_id }, "query")
+    });
+    queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.BY_CLAIM_ID(estimate.claim_id)
+    });
+    queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.BY_ID(estimate.id)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.estimate.getVersionsByClaimId, { claim_id: estimate.claim_id }, "query")
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.log.getByClaim)
+    });
+  };
+}
+
+/**
+ * Hook for creating a new draft version of an estimate
+ */
+export function useCreateEstimateRevision() {
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.createRevision({
+    onSuccess: (data) => {
+      invalidateEstimate(data);
+    }
+  });
+}
+
+/**
+ * Hook for submitting an estimate for approval
+ */
+export function useSubmitEstimate() {
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.submit({
+    onSuccess: (data) => {
+      invalidateEstimate(data);
+    }
+  });
+}
+
+/**
+ * Hook for approving a submitted estimate
+ */
+export function useApproveEstimate() {
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.approve({
+    onSuccess: (data) => {
+      invalidateEstimate(data);
+    }
+  });
+}
+
+/**
+ * Hook for rejecting a submitted estimate
+ */
+export function useRejectEstimate() {
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.reject({
+    onSuccess: (data) => {
+      invalidateEstimate(data);
+    }
+  });
+}
+
+/**
+ * Hook for authorizing an approved estimate to a repairer
+ */
+export function useAuthorizeEstimate() {
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.authorize({
+    onSuccess: (data) => {
+      invalidateEstimate(data);
+    }
+  });
+}
+
+/**
+ * Hook for calculating the final repair costing of an estimate
+ * Refreshes the claim's estimate so the FRC view picks up the new figures
+ */
+export function useCalculateFinalCosting() {
+  const invalidateEstimate = useInvalidateEstimate();
+
+  return estimateMutations.calculateFinalCosting({
+    onSuccess: (data) => {
+      invalidateEstimate(data);
+    }
+  });
+}
@@ -3,6 +3,8 @@
 export * from './types';
 export * from './constants';
 export * from './hooks';
+export * from './diff';
+export * from './calculation';
 
 // Export raw queries and mutations for advanced use cases
 import { estimateQueries } from './queries';
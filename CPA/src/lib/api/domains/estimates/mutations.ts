@@ -7,7 +7,12 @@ import {
   type EstimateCreate,
   type EstimateLine,
   type EstimateLineCreate,
-  type EstimateLineUpdate
+  type EstimateLineUpdate,
+  type EstimateLineBatchUpsert,
+  type EstimateLineBatchResult,
+  type EstimateImport,
+  type EstimateReject,
+  type EstimateAuthorize
 } from "./types";
 
 export const estimateMutations = {
@@ -92,4 +97,163 @@ export const estimateMutations = {
         ...options
       }
     ),
+
+  /**
+   * Create, update and delete many estimate lines in one request
+   * @param options Mutation options
+   */
+  batchUpsertLines: (options?: MutationOptions<EstimateLineBatchResult, EstimateLineBatchUpsert>) =>
+    apiClient.mutation<EstimateLineBatchResult, EstimateLineBatchUpsert>(
+      (mutationOptions) => apiClient.raw.estimate.batchUpsertLines.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to save estimate lines: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Import the lines of a third-party repairer's quote
+   * @param options Mutation options
+   */
+  importThirdPartyQuote: (options?: MutationOptions<EstimateLineBatchResult, EstimateImport>) =>
+    apiClient.mutation<EstimateLineBatchResult, EstimateImport>(
+      (mutationOptions) => apiClient.raw.estimate.importThirdPartyQuote.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success(`${data.lines.length} estimate lines imported`);
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to import quote: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Create a new draft version of an estimate
+   * @param options Mutation options
+   */
+  createRevision: (options?: MutationOptions<Estimate, { id: string }>) =>
+    apiClient.mutation<Estimate, { id: string }>(
+      (mutationOptions) => apiClient.raw.estimate.createRevision.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success(`Estimate version ${data.version} created`);
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to create estimate revision: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Submit an estimate for approval
+   * @param options Mutation options
+   */
+  submit: (options?: MutationOptions<Estimate, { id: string }>) =>
+    apiClient.mutation<Estimate, { id: string }>(
+      (mutationOptions) => apiClient.raw.estimate.submit.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Estimate submitted for approval");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to submit estimate: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Approve a submitted estimate
+   * @param options Mutation options
+   */
+  approve: (options?: MutationOptions<Estimate, { id: string }>) =>
+    apiClient.mutation<Estimate, { id: string }>(
+      (mutationOptions) => apiClient.raw.estimate.approve.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Estimate approved");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to approve estimate: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Reject a submitted estimate with a reason
+   * @param options Mutation options
+   */
+  reject: (options?: MutationOptions<Estimate, EstimateReject>) =>
+    apiClient.mutation<Estimate, EstimateReject>(
+      (mutationOptions) => apiClient.raw.estimate.reject.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Estimate rejected");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to reject estimate: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Authorize an approved estimate to a repairer
+   * @param options Mutation options
+   */
+  authorize: (options?: MutationOptions<Estimate, EstimateAuthorize>) =>
+    apiClient.mutation<Estimate, EstimateAuthorize>(
+      (mutationOptions) => apiClient.raw.estimate.authorize.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Estimate authorized to repairer");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to authorize estimate: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Calculate the final repair costing for an authorized estimate
+   * @param options Mutation options
+   */
+  calculateFinalCosting: (options?: MutationOptions<Estimate, { estimate_id: string }>) =>
+    apiClient.mutation<Estimate, { estimate_id: string }>(
+      (mutationOptions) => apiClient.raw.estimate.calculateFinalCosting.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Final costing calculated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to calculate final costing: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
 };
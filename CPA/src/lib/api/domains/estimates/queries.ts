@@ -21,6 +21,22 @@ export const estimateQueries = {
       }
     ),
 
+  /**
+   * Get every version of a claim's estimate, newest first
+   * @param claimId The claim ID
+   * @param options Additional query options
+   */
+  getVersionsByClaimId: (claimId: string, options?: QueryOptions<Estimate[]>) =>
+    apiClient.query<Estimate[]>(
+      (queryOptions) => apiClient.raw.estimate.getVersionsByClaimId.useQuery({ claim_id: claimId }, queryOptions),
+      {
+        enabled: !!claimId,
+        staleTime: CACHE_TIMES.STALE_TIME.DETAILS,
+        gcTime: CACHE_TIMES.GC_TIME.DETAILS,
+        ...options
+      }
+    ),
+
   /**
    * Get estimate by ID
    * @param id The estimate ID
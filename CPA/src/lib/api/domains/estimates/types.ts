@@ -21,6 +21,13 @@ export enum PartType {
   OTHER = "O",
 }
 
+// Labor trade enum; decides which rate a line's labor hours are billed at
+export enum LaborTrade {
+  PANEL = "panel",
+  MECHANICAL = "mechanical",
+  ELECTRICAL = "electrical",
+}
+
 // Estimate status enum
 export enum EstimateStatus {
   DRAFT = "draft",
@@ -30,6 +37,13 @@ export enum EstimateStatus {
   AUTHORIZED = "authorized",
 }
 
+// Lines can only be changed while an estimate is a draft or has been sent back
+export const EDITABLE_ESTIMATE_STATUSES = [EstimateStatus.DRAFT, EstimateStatus.REJECTED];
+
+export function isEstimateLocked(status: EstimateStatus): boolean {
+  return !EDITABLE_ESTIMATE_STATUSES.includes(status);
+}
+
 // Estimate type enum
 export enum EstimateType {
   INCIDENT = "incident",
@@ -50,7 +64,10 @@ export const EstimateCreateSchema = z.object({
   estimate_source: z.nativeEnum(EstimateSource).default(EstimateSource.IN_HOUSE),
   repairer_id: z.string().uuid().optional(),
   vat_rate_percentage: z.number().default(15), // Default VAT rate
-  panel_labor_rate: z.number().optional(), // Single labor rate for all labor types
+  panel_labor_rate: z.number().optional(), // Repair hours on panel lines, and the fallback for the other trades
+  strip_fit_labor_rate: z.number().nonnegative().optional(),
+  mechanical_labor_rate: z.number().nonnegative().optional(),
+  electrical_labor_rate: z.number().nonnegative().optional(),
   part_markup_percentage: z.number().optional(),
   paint_material_rate: z.number().optional(), // Per panel rate
   special_markup_percentage: z.number().optional(), // New field for special markup
@@ -68,12 +85,20 @@ export const EstimateOutputSchema = z.object({
   version: z.number(),
   repairer_id: z.string().uuid().nullable(),
   vat_rate_percentage: z.number(),
-  panel_labor_rate: z.number().nullable(), // Single labor rate for all labor types
+  panel_labor_rate: z.number().nullable(), // Repair hours on panel lines, and the fallback for the other trades
+  strip_fit_labor_rate: z.number().nullable(),
+  mechanical_labor_rate: z.number().nullable(),
+  electrical_labor_rate: z.number().nullable(),
   part_markup_percentage: z.number().nullable(),
   paint_material_rate: z.number().nullable(), // Per panel rate
   special_markup_percentage: z.number().nullable(), // New field for special markup
   subtotal_parts: z.number().nullable(),
   subtotal_labor: z.number().nullable(),
+  // Labor per trade; these add up to subtotal_labor
+  subtotal_panel_labor: z.number().nullable(),
+  subtotal_strip_fit_labor: z.number().nullable(),
+  subtotal_mechanical_labor: z.number().nullable(),
+  subtotal_electrical_labor: z.number().nullable(),
   subtotal_paint_materials: z.number().nullable(),
   subtotal_sublet: z.number().nullable(),
   subtotal_other: z.number().nullable(),
@@ -81,11 +106,42 @@ export const EstimateOutputSchema = z.object({
   total_before_vat: z.number().nullable(),
   total_vat: z.number().nullable(),
   total_amount: z.number().nullable(),
+  // Internal approval and repairer authorization
+  approved_by_employee_id: z.string().uuid().nullable(),
+  approved_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  authorized_repairer_id: z.string().uuid().nullable(),
+  authorized_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  authorized_by_employee_id: z.string().uuid().nullable(),
+  // Final costing (original lines plus approved additionals)
+  final_subtotal_parts: z.number().nullable(),
+  final_subtotal_labor: z.number().nullable(),
+  final_subtotal_paint_materials: z.number().nullable(),
+  final_subtotal_sublet: z.number().nullable(),
+  final_subtotal_other: z.number().nullable(),
+  final_subtotal_special: z.number().nullable(),
+  final_total_before_vat: z.number().nullable(),
+  final_total_vat: z.number().nullable(),
+  final_total_amount: z.number().nullable(),
+  variance_amount: z.number().nullable(),
+  final_costing_calculated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  final_costing_calculated_by_employee_id: z.string().uuid().nullable(),
   notes: z.string().nullable(),
   created_at: z.string().nullable().transform(val => val ? new Date(val) : null),
   updated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
 });
 
+// Zod schema for rejecting a submitted estimate
+export const EstimateRejectSchema = z.object({
+  id: z.string().uuid(),
+  reason: z.string().min(1, "A reason is required to reject an estimate"),
+});
+
+// Zod schema for authorizing an approved estimate to a repairer
+export const EstimateAuthorizeSchema = z.object({
+  id: z.string().uuid(),
+  repairer_id: z.string().uuid().optional(), // Defaults to the estimate's repairer
+});
+
 // Zod schema for estimate line creation
 export const EstimateLineCreateSchema = z.object({
   estimate_id: z.string().uuid(),
@@ -97,6 +153,7 @@ export const EstimateLineCreateSchema = z.object({
   part_number: z.string().optional(),
   part_cost: z.number().nonnegative().optional(),
   quantity: z.number().positive().default(1),
+  labor_trade: z.nativeEnum(LaborTrade).optional(), // Defaults to panel
   strip_fit_hours: z.number().nonnegative().optional(),
   repair_hours: z.number().nonnegative().optional(),
   paint_hours: z.number().nonnegative().optional(),
@@ -110,6 +167,27 @@ export const EstimateLineUpdateSchema = EstimateLineCreateSchema.partial().exten
   id: z.string().uuid(),
 });
 
+// Zod schema for applying many line changes to an estimate in one request
+// Updates only change the fields they include; a line in both update and delete_ids is deleted
+export const EstimateLineBatchUpsertSchema = z.object({
+  estimate_id: z.string().uuid(),
+  create: z.array(EstimateLineCreateSchema.omit({ estimate_id: true })).default([]),
+  update: z.array(EstimateLineUpdateSchema.omit({ estimate_id: true })).default([]),
+  delete_ids: z.array(z.string().uuid()).default([]),
+});
+
+// Zod schema for importing the lines of a third-party repairer's quote in one batch
+// Without an estimate_id a new third-party estimate is created for the claim
+export const EstimateImportSchema = z.object({
+  claim_id: z.string().uuid(),
+  estimate_id: z.string().uuid().optional(),
+  repairer_id: z.string().uuid(),
+  replace_existing_lines: z.boolean().default(false),
+  lines: z
+    .array(EstimateLineCreateSchema.omit({ estimate_id: true, sequence_number: true }))
+    .min(1, "The quote has no lines to import"),
+});
+
 // Zod schema for estimate line output
 export const EstimateLineOutputSchema = z.object({
   id: z.string().uuid(),
@@ -122,12 +200,14 @@ export const EstimateLineOutputSchema = z.object({
   part_number: z.string().nullable(),
   part_cost: z.number().nullable(),
   quantity: z.number(),
+  labor_trade: z.nativeEnum(LaborTrade),
   strip_fit_hours: z.number().nullable(),
   repair_hours: z.number().nullable(),
   paint_hours: z.number().nullable(),
   sublet_cost: z.number().nullable(),
   is_included: z.boolean(),
   line_notes: z.string().nullable(),
+  source_line_id: z.string().uuid().nullable(), // Line of the previous version this line was copied from
   calculated_part_total: z.number().nullable(),
   calculated_labor_total: z.number().nullable(),
   calculated_paint_material_total: z.number().nullable(),
@@ -137,12 +217,23 @@ export const EstimateLineOutputSchema = z.object({
   updated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
 });
 
+// Zod schema for the result of a batch of line changes: the recalculated estimate and all its lines
+export const EstimateLineBatchResultSchema = z.object({
+  estimate: EstimateOutputSchema,
+  lines: z.array(EstimateLineOutputSchema),
+});
+
 // TypeScript types based on Zod schemas
 export type EstimateCreate = z.infer<typeof EstimateCreateSchema>;
 export type Estimate = z.infer<typeof EstimateOutputSchema>;
+export type EstimateReject = z.infer<typeof EstimateRejectSchema>;
+export type EstimateAuthorize = z.infer<typeof EstimateAuthorizeSchema>;
 export type EstimateLineCreate = z.infer<typeof EstimateLineCreateSchema>;
 export type EstimateLineUpdate = z.infer<typeof EstimateLineUpdateSchema>;
 export type EstimateLine = z.infer<typeof EstimateLineOutputSchema>;
+export type EstimateLineBatchUpsert = z.input<typeof EstimateLineBatchUpsertSchema>;
+export type EstimateLineBatchResult = z.infer<typeof EstimateLineBatchResultSchema>;
+export type EstimateImport = z.input<typeof EstimateImportSchema>;
 
 // Export types derived from tRPC
 export type EstimateGetByClaimInput = RouterInputs["estimate"]["getByClaimId"];
@@ -0,0 +1,66 @@
+// src/lib/api/domains/inspection-templates/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { inspectionTemplateQueries } from "./queries";
+import { inspectionTemplateMutations } from "./mutations";
+
+/**
+ * Hook for fetching the inspection template of a client
+ * @param clientId The client ID
+ * @param options Additional query options
+ */
+export function useInspectionTemplate(clientId: string, options?: any) {
+  return inspectionTemplateQueries.getByClient(clientId, options);
+}
+
+/**
+ * Hook for fetching the inspection template that applies to a claim
+ * @param claimId The claim ID
+ * @param options Additional query options
+ */
+export function useClaimInspectionTemplate(claimId: string, options?: any) {
+  return inspectionTemplateQueries.getByClaim(claimId, options);
+}
+
+/**
+ * Returns a callback that refreshes the templates of clients and claims
+ */
+function useInvalidateInspectionTemplates() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.inspectionTemplate.getByClient)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.inspectionTemplate.getByClaim)
+    });
+  };
+}
+
+/**
+ * Hook for saving the inspection template of a client
+ */
+export function useSaveInspectionTemplate() {
+  const invalidateInspectionTemplates = useInvalidateInspectionTemplates();
+
+  return inspectionTemplateMutations.upsert({
+    onSuccess: () => {
+      invalidateInspectionTemplates();
+    }
+  });
+}
+
+/**
+ * Hook for resetting a client to the default inspection checklist
+ */
+export function useResetInspectionTemplate() {
+  const invalidateInspectionTemplates = useInvalidateInspectionTemplates();
+
+  return inspectionTemplateMutations.delete({
+    onSuccess: () => {
+      invalidateInspectionTemplates();
+    }
+  });
+}
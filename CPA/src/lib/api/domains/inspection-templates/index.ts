@@ -0,0 +1,13 @@
+// src/lib/api/domains/inspection-templates/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { inspectionTemplateQueries } from './queries';
+import { inspectionTemplateMutations } from './mutations';
+
+export const inspectionTemplateApi = {
+  queries: inspectionTemplateQueries,
+  mutations: inspectionTemplateMutations
+};
@@ -0,0 +1,47 @@
+// src/lib/api/domains/inspection-templates/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type InspectionTemplate, type InspectionTemplateUpsert } from "./types";
+
+export const inspectionTemplateMutations = {
+  /**
+   * Create or replace the inspection template of a client
+   * @param options Mutation options
+   */
+  upsert: (options?: MutationOptions<InspectionTemplate, InspectionTemplateUpsert>) =>
+    apiClient.mutation<InspectionTemplate, InspectionTemplateUpsert>(
+      (mutationOptions) => apiClient.raw.inspectionTemplate.upsert.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Inspection template saved successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to save inspection template: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Delete the inspection template of a client, restoring the default checklist
+   * @param options Mutation options
+   */
+  delete: (options?: MutationOptions<{ success: boolean }, { client_id: string }>) =>
+    apiClient.mutation<{ success: boolean }, { client_id: string }>(
+      (mutationOptions) => apiClient.raw.inspectionTemplate.delete.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Inspection template reset to the default checklist");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to reset inspection template: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
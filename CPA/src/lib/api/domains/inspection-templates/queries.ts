@@ -0,0 +1,34 @@
+// src/lib/api/domains/inspection-templates/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type InspectionTemplate } from "./types";
+
+export const inspectionTemplateQueries = {
+  /**
+   * Get the inspection template of a client
+   * @param clientId The client ID
+   * @param options Additional query options
+   */
+  getByClient: (clientId: string, options?: QueryOptions<InspectionTemplate | null>) =>
+    apiClient.query<InspectionTemplate | null>(
+      (queryOptions) => apiClient.raw.inspectionTemplate.getByClient.useQuery({ client_id: clientId }, queryOptions),
+      {
+        enabled: !!clientId,
+        ...options
+      }
+    ),
+
+  /**
+   * Get the inspection template that applies to a claim
+   * @param claimId The claim ID
+   * @param options Additional query options
+   */
+  getByClaim: (claimId: string, options?: QueryOptions<InspectionTemplate | null>) =>
+    apiClient.query<InspectionTemplate | null>(
+      (queryOptions) => apiClient.raw.inspectionTemplate.getByClaim.useQuery({ claim_id: claimId }, queryOptions),
+      {
+        enabled: !!claimId,
+        ...options
+      }
+    ),
+};
@@ -0,0 +1,56 @@
+// src/lib/api/domains/inspection-templates/types.ts
+import { z } from "zod";
+
+// The inspection sections a template can switch on or off
+export const InspectionSectionKeySchema = z.enum([
+  "registration",
+  "vin",
+  "threeSixty",
+  "interior",
+  "mechanical",
+  "tyres",
+]);
+
+// Whether a photo slot must be filled before the inspection can be completed
+export const InspectionPhotoRequirementSchema = z.enum(["required", "optional"]);
+
+// Zod schema for a photo slot a template adds to a section, e.g. the extra angles of a 12-point 360
+// Its photo is stored in the inspection's extra_photos under the slot key
+export const InspectionExtraPhotoSlotSchema = z.object({
+  key: z.string().min(1),
+  label: z.string().trim().min(1, "Photo name is required"),
+  requirement: InspectionPhotoRequirementSchema,
+});
+
+// Zod schema for the configuration of one section, photo requirements keyed by inspection column
+export const InspectionTemplateSectionSchema = z.object({
+  section: InspectionSectionKeySchema,
+  enabled: z.boolean(),
+  photos: z.record(z.string(), InspectionPhotoRequirementSchema),
+  extra_photos: z.array(InspectionExtraPhotoSlotSchema).default([]),
+});
+
+// Zod schema for saving the template of a client
+export const InspectionTemplateUpsertSchema = z.object({
+  client_id: z.string().uuid(),
+  name: z.string().min(1, "Template name is required"),
+  sections: z.array(InspectionTemplateSectionSchema),
+});
+
+// Zod schema for inspection template output
+export const InspectionTemplateOutputSchema = z.object({
+  id: z.string().uuid(),
+  client_id: z.string().uuid(),
+  name: z.string(),
+  sections: z.array(InspectionTemplateSectionSchema),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type InspectionSectionKey = z.infer<typeof InspectionSectionKeySchema>;
+export type InspectionPhotoRequirement = z.infer<typeof InspectionPhotoRequirementSchema>;
+export type InspectionExtraPhotoSlot = z.infer<typeof InspectionExtraPhotoSlotSchema>;
+export type InspectionTemplateSection = z.infer<typeof InspectionTemplateSectionSchema>;
+export type InspectionTemplate = z.infer<typeof InspectionTemplateOutputSchema>;
+export type InspectionTemplateUpsert = z.infer<typeof InspectionTemplateUpsertSchema>;
@@ -1,5 +1,6 @@
 // src/lib/api/domains/inspections/hooks.ts
 import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
 import { apiClient } from "@/lib/api/client";
 import { useQueryState } from "@/lib/api/hooks";
 import { inspectionMutations } from "./mutations";
@@ -40,33 +41,64 @@ export function useInspectionsByClaim(
   );
 }
 
+/**
+ * Hook for checking whether the current user may reopen completed inspections
+ * @returns Query result with a boolean
+ */
+export function useCanReopenInspection() {
+  return apiClient.raw.inspection.canReopen.useQuery(undefined, {
+    staleTime: INSPECTION_CACHE_TIMES.STALE_TIME,
+  });
+}
+
+/**
+ * Returns a callback that refreshes an inspection, its claim and the claim's logs
+ */
+function useInvalidateInspection() {
+  const queryClient = useQueryClient();
+
+  return (inspection: Inspection) => {
+    queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.byClaim(inspection.claim_id),
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.inspection.getByClaim, { claim_id: inspection.claim_id }, "query"),
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.inspection.getById, { id: inspection.id }, "query"),
+    });
+
+    // Invalidate claim queries to reflect updated status
+    queryClient.invalidateQueries({
+      queryKey: CLAIM_QUERY_KEYS.detail(inspection.claim_id),
+    });
+
+    queryClient.invalidateQueries({
+      queryKey: CLAIM_QUERY_KEYS.summary(inspection.claim_id),
+    });
+
+    // Invalidate claim lists that might contain this claim
+    queryClient.invalidateQueries({
+      queryKey: CLAIM_QUERY_KEYS.lists(),
+    });
+
+    // The server logs inspection lifecycle changes
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.log.getByClaim),
+    });
+  };
+}
+
 /**
  * Hook for creating an inspection
  * @returns Mutation object for creating an inspection
  */
 export function useCreateInspection() {
-  const queryClient = useQueryClient();
+  const invalidateInspection = useInvalidateInspection();
 
   return inspectionMutations.createInspection({
     onSuccess: (data) => {
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({
-        queryKey: QUERY_KEYS.byClaim(data.claim_id),
-      });
-
-      // Invalidate claim queries to reflect updated status
-      queryClient.invalidateQueries({
-        queryKey: CLAIM_QUERY_KEYS.detail(data.claim_id),
-      });
-
-      queryClient.invalidateQueries({
-        queryKey: CLAIM_QUERY_KEYS.summary(data.claim_id),
-      });
-
-      // Invalidate claim lists that might contain this claim
-      queryClient.invalidateQueries({
-        queryKey: CLAIM_QUERY_KEYS.lists(),
-      });
+      invalidateInspection(data);
     },
   });
 }
@@ -103,32 +135,43 @@ export function useRecordInspection() {
 }
 
 /**
- * Hook for updating an inspection
+ * Hook for saving changes to a draft inspection
  * @returns Mutation object for updating an inspection
  */
 export function useUpdateInspection() {
-  const queryClient = useQueryClient();
+  const invalidateInspection = useInvalidateInspection();
 
   return inspectionMutations.updateInspection({
     onSuccess: (data) => {
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({
-        queryKey: QUERY_KEYS.byClaim(data.claim_id),
-      });
+      invalidateInspection(data);
+    },
+  });
+}
 
-      // Invalidate claim queries to reflect updated status
-      queryClient.invalidateQueries({
-        queryKey: CLAIM_QUERY_KEYS.detail(data.claim_id),
-      });
+/**
+ * Hook for completing an inspection
+ * @returns Mutation object for completing an inspection
+ */
+export function useCompleteInspection() {
+  const invalidateInspection = useInvalidateInspection();
 
-      queryClient.invalidateQueries({
-        queryKey: CLAIM_QUERY_KEYS.summary(data.claim_id),
-      });
+  return inspectionMutations.completeInspection({
+    onSuccess: (data) => {
+      invalidateInspection(data);
+    },
+  });
+}
 
-      // Invalidate claim lists that might contain this claim
-      queryClient.invalidateQueries({
-        queryKey: CLAIM_QUERY_KEYS.lists(),
-      });
+/**
+ * Hook for reopening a completed inspection (admin only)
+ * @returns Mutation object for reopening an inspection
+ */
+export function useReopenInspection() {
+  const invalidateInspection = useInvalidateInspection();
+
+  return inspectionMutations.reopenInspection({
+    onSuccess: (data) => {
+      invalidateInspection(data);
     },
   });
 }
@@ -2,6 +2,8 @@
 // Re-export everything for convenient imports
 export * from './types';
 export * from './constants';
+export * from './requirements';
+export * from './persistence';
 export * from './hooks';
 
 // Export raw mutations for advanced use cases
@@ -1,12 +1,22 @@
 // src/lib/api/domains/inspections/mutations.ts
 import { apiClient } from "@/lib/api/client";
 import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
 import {
   type Inspection,
   type InspectionCreateInput,
   type InspectionRecordInput,
+  type InspectionSaveOutput,
   type InspectionUpdateInput
 } from "./types";
+import { formatUnpersistedFields } from "./persistence";
+
+// Tell the user about fields the server did not keep; the rest of the save went through
+const warnUnpersistedFields = (data: InspectionSaveOutput) => {
+  if (data.unpersisted_fields.length > 0) {
+    toast.error(formatUnpersistedFields(data.unpersisted_fields));
+  }
+};
 
 /**
  * Mutations for the inspections domain
@@ -18,29 +28,22 @@ export const inspectionMutations = {
    * @returns Mutation object
    */
   createInspection: (
-    options?: MutationOptions<Inspection, InspectionCreateInput>
+    options?: MutationOptions<InspectionSaveOutput, InspectionCreateInput>
   ) =>
-    apiClient.mutation<Inspection, InspectionCreateInput>(
-      () => apiClient.raw.inspection.create.useMutation(),
+    apiClient.mutation<InspectionSaveOutput, InspectionCreateInput>(
+      (mutationOptions) => apiClient.raw.inspection.create.useMutation(mutationOptions),
       {
-        onSuccess: async (data, variables) => {
+        ...options,
+        onSuccess: (data, variables) => {
+          // The server logs the inspection as started
           console.log("Inspection created successfully:", data);
-
-          // Log the inspection started
-          try {
-            const { logInspectionStarted } = await import("@/lib/api/domains/logs/mutations");
-            await logInspectionStarted(data.claim_id, data).mutateAsync({} as any);
-          } catch (error) {
-            console.error("Failed to log inspection started:", error);
-          }
-
+          warnUnpersistedFields(data);
           options?.onSuccess?.(data, variables);
         },
         onError: (error, variables) => {
           console.error("Error creating inspection:", error);
           options?.onError?.(error, variables);
         },
-        ...options,
       }
     ),
 
@@ -77,36 +80,72 @@ export const inspectionMutations = {
     ),
 
   /**
-   * Update an existing inspection
+   * Save changes to a draft inspection
    * @param options Mutation options
    * @returns Mutation object
    */
   updateInspection: (
-    options?: MutationOptions<Inspection, InspectionUpdateInput>
+    options?: MutationOptions<InspectionSaveOutput, InspectionUpdateInput>
   ) =>
-    apiClient.mutation<Inspection, InspectionUpdateInput>(
-      () => apiClient.raw.inspection.update.useMutation(),
+    apiClient.mutation<InspectionSaveOutput, InspectionUpdateInput>(
+      (mutationOptions) => apiClient.raw.inspection.update.useMutation(mutationOptions),
       {
-        onSuccess: async (data, variables) => {
+        ...options,
+        onSuccess: (data, variables) => {
           console.log("Inspection updated successfully:", data);
-
-          // Log the inspection completed if the inspection is being marked as completed
-          if (variables.is_completed) {
-            try {
-              const { logInspectionCompleted } = await import("@/lib/api/domains/logs/mutations");
-              await logInspectionCompleted(data.claim_id, data).mutateAsync({} as any);
-            } catch (error) {
-              console.error("Failed to log inspection completed:", error);
-            }
-          }
-
+          warnUnpersistedFields(data);
           options?.onSuccess?.(data, variables);
         },
         onError: (error, variables) => {
           console.error("Error updating inspection:", error);
           options?.onError?.(error, variables);
         },
+      }
+    ),
+
+  /**
+   * Complete an inspection, after which it is read-only
+   * @param options Mutation options
+   * @returns Mutation object
+   */
+  completeInspection: (
+    options?: MutationOptions<Inspection, { id: string }>
+  ) =>
+    apiClient.mutation<Inspection, { id: string }>(
+      (mutationOptions) => apiClient.raw.inspection.complete.useMutation(mutationOptions),
+      {
         ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Inspection completed");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to complete inspection: ${error.message}`);
+          options?.onError?.(error, variables);
+        },
+      }
+    ),
+
+  /**
+   * Reopen a completed inspection (admin only)
+   * @param options Mutation options
+   * @returns Mutation object
+   */
+  reopenInspection: (
+    options?: MutationOptions<Inspection, { id: string }>
+  ) =>
+    apiClient.mutation<Inspection, { id: string }>(
+      (mutationOptions) => apiClient.raw.inspection.reopen.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Inspection reopened");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to reopen inspection: ${error.message}`);
+          options?.onError?.(error, variables);
+        },
       }
     ),
 };
@@ -0,0 +1,47 @@
+// src/lib/api/domains/inspections/persistence.test.ts
+import { describe, expect, it } from "vitest";
+import { findUnpersistedFields, formatUnpersistedFields } from "./persistence";
+
+describe("findUnpersistedFields", () => {
+  it("reports a field the saved row does not have", () => {
+    const row = { registration_number: "CA 123-456", engine_bay_photo_path: "claims/1/engine.jpg" };
+    const persisted = { id: "1", registration_number: "CA 123-456" };
+    expect(findUnpersistedFields(row, persisted)).toEqual(["engine_bay_photo_path"]);
+  });
+
+  it("reports a field that was saved with another value", () => {
+    expect(findUnpersistedFields({ notes: "Scratched door" }, { notes: null })).toEqual(["notes"]);
+  });
+
+  it("accepts values in the notation their columns read back with", () => {
+    const row = {
+      tyre_rf_tread_inner_mm: 4.5,
+      completed_at: new Date("2025-03-01T10:00:00Z"),
+      inspection_datetime: "2025-03-01T12:00:00+02:00",
+      registration_photo_path: null,
+    };
+    const persisted = {
+      tyre_rf_tread_inner_mm: "4.5",
+      completed_at: "2025-03-01T10:00:00+00:00",
+      inspection_datetime: "2025-03-01T10:00:00.000Z",
+    };
+    expect(findUnpersistedFields(row, persisted)).toEqual([]);
+  });
+
+  it("compares JSON columns regardless of key order and missing null keys", () => {
+    const row = { additional_tyres: [{ id: "t1", label: "Tag axle left", make: null }] };
+    const persisted = { additional_tyres: [{ label: "Tag axle left", id: "t1" }] };
+    expect(findUnpersistedFields(row, persisted)).toEqual([]);
+    expect(findUnpersistedFields(row, { additional_tyres: [] })).toEqual(["additional_tyres"]);
+  });
+
+  it("ignores fields that were not submitted", () => {
+    expect(findUnpersistedFields({ notes: undefined }, {})).toEqual([]);
+  });
+});
+
+describe("formatUnpersistedFields", () => {
+  it("names the fields in words", () => {
+    expect(formatUnpersistedFields(["engine_bay_photo_path", "notes"])).toContain("engine bay photo, notes");
+  });
+});
@@ -0,0 +1,47 @@
+// src/lib/api/domains/inspections/persistence.ts
+
+// Normalise a value the way its column reads back
+// NUMERIC columns may come back as strings and timestamps with another offset notation
+function toColumnValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toISOString();
+  }
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value);
+  return value ?? null;
+}
+
+// Compare values structurally; JSONB columns do not keep the key order they were written with
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameValue(item, b[index]));
+  }
+  if (a && b && typeof a === "object" && typeof b === "object" && !(a instanceof Date) && !(b instanceof Date)) {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return Array.from(keys).every((key) => isSameValue(left[key] ?? null, right[key] ?? null));
+  }
+  return toColumnValue(a) === toColumnValue(b);
+}
+
+/**
+ * List the fields of a written row that did not read back with the value sent
+ * e.g. a column missing from the table or a value a trigger changed
+ * @param row The columns that were written
+ * @param persisted The row as read back after the write
+ */
+export function findUnpersistedFields(row: Record<string, unknown>, persisted: Record<string, unknown>): string[] {
+  return Object.entries(row)
+    .filter(([field, value]) => value !== undefined && !isSameValue(value, persisted[field]))
+    .map(([field]) => field);
+}
+
+/**
+ * Describe the fields an inspection save did not keep, for the user
+ * @param fields The unpersisted inspection columns
+ */
+export function formatUnpersistedFields(fields: string[]): string {
+  const labels = fields.map((field) => field.replace(/_path$/, "").replace(/_/g, " "));
+  return `The inspection was saved, but these fields were not kept: ${labels.join(", ")}. Please check them and save again.`;
+}
@@ -0,0 +1,52 @@
+// src/lib/api/domains/inspections/requirements.test.ts
+import { describe, expect, it } from "vitest";
+import type { InspectionTemplateSection } from "../inspection-templates/types";
+import { getDefaultTemplateSections, getMissingInspectionPhotos, resolveInspectionTemplate } from "./requirements";
+
+// A client whose 360 view also asks for the roof and the undercarriage
+const extraPhotoSections: InspectionTemplateSection[] = getDefaultTemplateSections().map((section) =>
+  section.section === "threeSixty"
+    ? {
+        ...section,
+        extra_photos: [
+          { key: "roof", label: "Roof", requirement: "required" },
+          { key: "undercarriage", label: "Undercarriage", requirement: "optional" },
+        ],
+      }
+    : section
+);
+
+describe("resolveInspectionTemplate", () => {
+  it("gives sections of templates saved without extra photos none", () => {
+    const sections = getDefaultTemplateSections().map(({ extra_photos, ...section }) => section);
+    const resolved = resolveInspectionTemplate(sections as InspectionTemplateSection[]);
+    expect(resolved.every((section) => section.extraPhotos.length === 0)).toBe(true);
+  });
+
+  it("keeps the photo slots a template adds to a section", () => {
+    const threeSixty = resolveInspectionTemplate(extraPhotoSections).find(
+      (section) => section.section === "threeSixty"
+    );
+    expect(threeSixty?.extraPhotos.map((slot) => slot.key)).toEqual(["roof", "undercarriage"]);
+  });
+});
+
+describe("getMissingInspectionPhotos", () => {
+  it("reports required template photos that were not taken", () => {
+    const missing = getMissingInspectionPhotos({ extra_photos: { undercarriage: "claims/1/under.jpg" } }, extraPhotoSections);
+    expect(missing.filter((photo) => photo.section === "threeSixty").map((photo) => photo.label)).toContain("Roof");
+    expect(missing.map((photo) => photo.label)).not.toContain("Undercarriage");
+  });
+
+  it("does not report template photos that were taken", () => {
+    const missing = getMissingInspectionPhotos({ extra_photos: { roof: "claims/1/roof.jpg" } }, extraPhotoSections);
+    expect(missing.map((photo) => photo.label)).not.toContain("Roof");
+  });
+
+  it("ignores template photos of disabled sections", () => {
+    const sections = extraPhotoSections.map((section) =>
+      section.section === "threeSixty" ? { ...section, enabled: false } : section
+    );
+    expect(getMissingInspectionPhotos({}, sections).map((photo) => photo.label)).not.toContain("Roof");
+  });
+});
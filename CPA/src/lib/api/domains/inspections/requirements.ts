@@ -0,0 +1,206 @@
+// src/lib/api/domains/inspections/requirements.ts
+import { type Inspection } from "./types";
+import {
+  type InspectionExtraPhotoSlot,
+  type InspectionPhotoRequirement,
+  type InspectionSectionKey,
+  type InspectionTemplateSection,
+} from "../inspection-templates/types";
+
+// The inspection fields the requirements are checked against
+type InspectionPhotoSource = Partial<Record<keyof Inspection, unknown>>;
+
+export interface InspectionPhotoSlot {
+  field: keyof Inspection;
+  label: string;
+  // Requirement used when the client has no template or the template does not mention the slot
+  defaultRequirement: InspectionPhotoRequirement;
+  // Only applies when the inspection records the item, e.g. a radio being present
+  when?: (inspection: InspectionPhotoSource) => boolean;
+}
+
+export interface InspectionSectionDefinition {
+  section: InspectionSectionKey;
+  label: string;
+  photos: InspectionPhotoSlot[];
+}
+
+export interface ResolvedInspectionPhotoSlot extends InspectionPhotoSlot {
+  requirement: InspectionPhotoRequirement;
+}
+
+export interface ResolvedInspectionSection extends InspectionSectionDefinition {
+  enabled: boolean;
+  photos: ResolvedInspectionPhotoSlot[];
+  // Photo slots the template adds to the section
+  extraPhotos: InspectionExtraPhotoSlot[];
+}
+
+export interface MissingInspectionPhoto {
+  section: InspectionSectionKey;
+  sectionLabel: string;
+  label: string;
+}
+
+const STANDARD_TYRES = [
+  { prefix: "tyre_rf", label: "Right front" },
+  { prefix: "tyre_rr", label: "Right rear" },
+  { prefix: "tyre_lr", label: "Left rear" },
+  { prefix: "tyre_lf", label: "Left front" },
+] as const;
+
+const srsActivated = (inspection: InspectionPhotoSource) => !!inspection.srs_activated;
+
+// Every photo slot of the inspection sections, with the requirement used when no template applies
+export const INSPECTION_SECTIONS: InspectionSectionDefinition[] = [
+  {
+    section: "registration",
+    label: "Registration & License Disc",
+    photos: [
+      { field: "registration_photo_path", label: "Registration", defaultRequirement: "required" },
+      {
+        field: "license_disc_photo_path",
+        label: "License disc",
+        defaultRequirement: "required",
+        when: (inspection) => !!inspection.license_disc_present,
+      },
+    ],
+  },
+  {
+    section: "vin",
+    label: "VIN",
+    photos: [
+      { field: "vin_dash_photo_path", label: "VIN on dash", defaultRequirement: "required" },
+      { field: "vin_plate_photo_path", label: "VIN plate", defaultRequirement: "required" },
+      { field: "vin_number_photo_path", label: "Chassis number", defaultRequirement: "optional" },
+    ],
+  },
+  {
+    section: "threeSixty",
+    label: "360° View",
+    photos: [
+      { field: "front_view_photo_path", label: "Front", defaultRequirement: "required" },
+      { field: "right_front_view_photo_path", label: "Right front", defaultRequirement: "required" },
+      { field: "right_side_view_photo_path", label: "Right side", defaultRequirement: "required" },
+      { field: "right_rear_view_photo_path", label: "Right rear", defaultRequirement: "required" },
+      { field: "rear_view_photo_path", label: "Rear", defaultRequirement: "required" },
+      { field: "left_rear_view_photo_path", label: "Left rear", defaultRequirement: "required" },
+      { field: "left_side_view_photo_path", label: "Left side", defaultRequirement: "required" },
+      { field: "left_front_view_photo_path", label: "Left front", defaultRequirement: "required" },
+    ],
+  },
+  {
+    section: "interior",
+    label: "Interior",
+    photos: [
+      { field: "mileage_photo_path", label: "Odometer", defaultRequirement: "required" },
+      { field: "interior_front_photo_path", label: "Interior front", defaultRequirement: "required" },
+      { field: "interior_rear_photo_path", label: "Interior rear", defaultRequirement: "required" },
+      {
+        field: "radio_photo_path",
+        label: "Radio",
+        defaultRequirement: "required",
+        when: (inspection) => !!inspection.radio_present,
+      },
+      { field: "srs_damage_photo_path_1", label: "SRS damage", defaultRequirement: "required", when: srsActivated },
+      { field: "srs_damage_photo_path_2", label: "SRS damage 2", defaultRequirement: "optional", when: srsActivated },
+      { field: "srs_damage_photo_path_3", label: "SRS damage 3", defaultRequirement: "optional", when: srsActivated },
+      { field: "srs_damage_photo_path_4", label: "SRS damage 4", defaultRequirement: "optional", when: srsActivated },
+      {
+        field: "jack_tools_photo_path",
+        label: "Jack & tools",
+        defaultRequirement: "required",
+        when: (inspection) => !!inspection.jack_tools_present,
+      },
+    ],
+  },
+  {
+    section: "mechanical",
+    label: "Mechanical",
+    photos: [
+      { field: "engine_bay_photo_path", label: "Engine bay", defaultRequirement: "required" },
+      { field: "battery_photo_path", label: "Battery", defaultRequirement: "required" },
+    ],
+  },
+  {
+    section: "tyres",
+    label: "Tyres",
+    photos: [
+      ...STANDARD_TYRES.flatMap(({ prefix, label }): InspectionPhotoSlot[] => [
+        { field: `${prefix}_face_photo_path`, label: `${label} tyre face`, defaultRequirement: "required" },
+        { field: `${prefix}_tread_photo_path`, label: `${label} tyre tread`, defaultRequirement: "required" },
+        {
+          field: `${prefix}_measurement_photo_path`,
+          label: `${label} tyre measurement`,
+          defaultRequirement: "optional",
+        },
+      ]),
+      { field: "tyre_spare_face_photo_path", label: "Spare tyre face", defaultRequirement: "optional" },
+      { field: "tyre_spare_tread_photo_path", label: "Spare tyre tread", defaultRequirement: "optional" },
+      { field: "tyre_spare_measurement_photo_path", label: "Spare tyre measurement", defaultRequirement: "optional" },
+    ],
+  },
+];
+
+/**
+ * Apply a client's template to the inspection sections
+ * Sections and photo slots the template does not mention keep their defaults
+ * @param templateSections The sections of the client's template, if it has one
+ */
+export function resolveInspectionTemplate(
+  templateSections?: InspectionTemplateSection[] | null
+): ResolvedInspectionSection[] {
+  return INSPECTION_SECTIONS.map((definition) => {
+    const configured = templateSections?.find((section) => section.section === definition.section);
+
+    return {
+      ...definition,
+      enabled: configured?.enabled ?? true,
+      photos: definition.photos.map((photo) => ({
+        ...photo,
+        requirement: configured?.photos[photo.field] ?? photo.defaultRequirement,
+      })),
+      // Templates saved before extra photo slots existed have none
+      extraPhotos: configured?.extra_photos ?? [],
+    };
+  });
+}
+
+/**
+ * Build template sections that match the default requirements
+ * Used as the starting point when a client's template is first edited
+ */
+export function getDefaultTemplateSections(): InspectionTemplateSection[] {
+  return INSPECTION_SECTIONS.map(({ section, photos }) => ({
+    section,
+    enabled: true,
+    photos: Object.fromEntries(photos.map((photo) => [photo.field, photo.defaultRequirement])),
+    extra_photos: [],
+  }));
+}
+
+/**
+ * List the required photos an inspection is still missing
+ * Used by the complete mutation and by the inspection tab to show what is outstanding
+ * @param inspection The saved inspection
+ * @param templateSections The sections of the client's template, if it has one
+ */
+export function getMissingInspectionPhotos(
+  inspection: InspectionPhotoSource,
+  templateSections?: InspectionTemplateSection[] | null
+): MissingInspectionPhoto[] {
+  const extraPhotos = (inspection.extra_photos ?? {}) as Record<string, string | undefined>;
+
+  return resolveInspectionTemplate(templateSections)
+    .filter((section) => section.enabled)
+    .flatMap(({ section, label: sectionLabel, photos, extraPhotos: extraSlots }) => [
+      ...photos
+        .filter((photo) => photo.requirement === "required")
+        .filter((photo) => (photo.when ? photo.when(inspection) : true))
+        .filter((photo) => !inspection[photo.field])
+        .map((photo) => ({ section, sectionLabel, label: photo.label })),
+      ...extraSlots
+        .filter((slot) => slot.requirement === "required" && !extraPhotos[slot.key])
+        .map((slot) => ({ section, sectionLabel, label: slot.label })),
+    ]);
+}
@@ -2,16 +2,46 @@
 import { z } from "zod";
 import { ClaimStatus } from "@/lib/api/domains/claims/types";
 
+// Inspections are saved as drafts until they are completed, after which they are read-only
+export enum InspectionStatus {
+  DRAFT = "draft",
+  COMPLETED = "completed",
+}
+
+// Tread depth in millimetres and DOT manufacture date of a tyre
+// Tread depth columns are NUMERIC(3,1), so depths with more decimals would be rounded when saved
+const treadDepthMm = z
+  .number()
+  .min(0, "Tread depth cannot be negative")
+  .max(30, "Tread depth is too deep")
+  .refine((value) => Math.abs(Math.round(value * 10) - value * 10) < 1e-9, "Tread depth can have one decimal at most");
+const dotWeek = z.number().int().min(1, "DOT week must be between 1 and 53").max(53, "DOT week must be between 1 and 53");
+const dotYear = z.number().int().min(1990, "DOT year is too early").max(2100, "DOT year is too late");
+
 // Define the schema for additional tyres
 export const AdditionalTyreSchema = z.object({
   id: z.string(),
   label: z.string(),
+  // Tyres with the same axle are checked for mismatches
+  axle: z.string().nullable().optional(),
   face_photo_path: z.string().nullable(),
   measurement_photo_path: z.string().nullable(),
   tread_photo_path: z.string().nullable(),
   make: z.string(),
   size: z.string(),
   load_speed: z.string(),
+  tread_inner_mm: treadDepthMm.nullable().optional(),
+  tread_centre_mm: treadDepthMm.nullable().optional(),
+  tread_outer_mm: treadDepthMm.nullable().optional(),
+  dot_week: dotWeek.nullable().optional(),
+  dot_year: dotYear.nullable().optional(),
+  condition: z.string().nullable().optional(),
+});
+
+// Define the schema for a problem found during the inspection, e.g. a VIN that does not match the vehicle
+export const InspectionFlagSchema = z.object({
+  type: z.string(),
+  message: z.string(),
 });
 
 // Define the schema for creating an inspection
@@ -77,6 +107,12 @@ export const InspectionCreateInputSchema = z.object({
   tyre_rf_make: z.string().optional(),
   tyre_rf_size: z.string().optional(),
   tyre_rf_load_speed: z.string().optional(),
+  tyre_rf_tread_inner_mm: treadDepthMm.nullable().optional(),
+  tyre_rf_tread_centre_mm: treadDepthMm.nullable().optional(),
+  tyre_rf_tread_outer_mm: treadDepthMm.nullable().optional(),
+  tyre_rf_dot_week: dotWeek.nullable().optional(),
+  tyre_rf_dot_year: dotYear.nullable().optional(),
+  tyre_rf_condition: z.string().optional(),
 
   tyre_rr_face_photo_path: z.string().optional(),
   tyre_rr_measurement_photo_path: z.string().optional(),
@@ -84,6 +120,12 @@ export const InspectionCreateInputSchema = z.object({
   tyre_rr_make: z.string().optional(),
   tyre_rr_size: z.string().optional(),
   tyre_rr_load_speed: z.string().optional(),
+  tyre_rr_tread_inner_mm: treadDepthMm.nullable().optional(),
+  tyre_rr_tread_centre_mm: treadDepthMm.nullable().optional(),
+  tyre_rr_tread_outer_mm: treadDepthMm.nullable().optional(),
+  tyre_rr_dot_week: dotWeek.nullable().optional(),
+  tyre_rr_dot_year: dotYear.nullable().optional(),
+  tyre_rr_condition: z.string().optional(),
 
   tyre_lr_face_photo_path: z.string().optional(),
   tyre_lr_measurement_photo_path: z.string().optional(),
@@ -91,6 +133,12 @@ export const InspectionCreateInputSchema = z.object({
   tyre_lr_make: z.string().optional(),
   tyre_lr_size: z.string().optional(),
   tyre_lr_load_speed: z.string().optional(),
+  tyre_lr_tread_inner_mm: treadDepthMm.nullable().optional(),
+  tyre_lr_tread_centre_mm: treadDepthMm.nullable().optional(),
+  tyre_lr_tread_outer_mm: treadDepthMm.nullable().optional(),
+  tyre_lr_dot_week: dotWeek.nullable().optional(),
+  tyre_lr_dot_year: dotYear.nullable().optional(),
+  tyre_lr_condition: z.string().optional(),
 
   tyre_lf_face_photo_path: z.string().optional(),
   tyre_lf_measurement_photo_path: z.string().optional(),
@@ -98,6 +146,12 @@ export const InspectionCreateInputSchema = z.object({
   tyre_lf_make: z.string().optional(),
   tyre_lf_size: z.string().optional(),
   tyre_lf_load_speed: z.string().optional(),
+  tyre_lf_tread_inner_mm: treadDepthMm.nullable().optional(),
+  tyre_lf_tread_centre_mm: treadDepthMm.nullable().optional(),
+  tyre_lf_tread_outer_mm: treadDepthMm.nullable().optional(),
+  tyre_lf_dot_week: dotWeek.nullable().optional(),
+  tyre_lf_dot_year: dotYear.nullable().optional(),
+  tyre_lf_condition: z.string().optional(),
 
   tyre_spare_face_photo_path: z.string().optional(),
   tyre_spare_measurement_photo_path: z.string().optional(),
@@ -105,10 +159,19 @@ export const InspectionCreateInputSchema = z.object({
   tyre_spare_make: z.string().optional(),
   tyre_spare_size: z.string().optional(),
   tyre_spare_load_speed: z.string().optional(),
+  tyre_spare_tread_inner_mm: treadDepthMm.nullable().optional(),
+  tyre_spare_tread_centre_mm: treadDepthMm.nullable().optional(),
+  tyre_spare_tread_outer_mm: treadDepthMm.nullable().optional(),
+  tyre_spare_dot_week: dotWeek.nullable().optional(),
+  tyre_spare_dot_year: dotYear.nullable().optional(),
+  tyre_spare_condition: z.string().optional(),
 
   // Additional tyres for larger vehicles
   additional_tyres: z.array(AdditionalTyreSchema).optional(),
 
+  // Photos of the slots the client's template adds, keyed by slot key
+  extra_photos: z.record(z.string(), z.string()).optional(),
+
   // Notes
   notes: z.string().optional(),
 });
@@ -179,6 +242,12 @@ export const InspectionOutputSchema = z.object({
   tyre_rf_make: z.string().nullable(),
   tyre_rf_size: z.string().nullable(),
   tyre_rf_load_speed: z.string().nullable(),
+  tyre_rf_tread_inner_mm: z.coerce.number().nullable().optional(),
+  tyre_rf_tread_centre_mm: z.coerce.number().nullable().optional(),
+  tyre_rf_tread_outer_mm: z.coerce.number().nullable().optional(),
+  tyre_rf_dot_week: z.number().nullable().optional(),
+  tyre_rf_dot_year: z.number().nullable().optional(),
+  tyre_rf_condition: z.string().nullable().optional(),
 
   tyre_rr_face_photo_path: z.string().nullable(),
   tyre_rr_measurement_photo_path: z.string().nullable(),
@@ -186,6 +255,12 @@ export const InspectionOutputSchema = z.object({
   tyre_rr_make: z.string().nullable(),
   tyre_rr_size: z.string().nullable(),
   tyre_rr_load_speed: z.string().nullable(),
+  tyre_rr_tread_inner_mm: z.coerce.number().nullable().optional(),
+  tyre_rr_tread_centre_mm: z.coerce.number().nullable().optional(),
+  tyre_rr_tread_outer_mm: z.coerce.number().nullable().optional(),
+  tyre_rr_dot_week: z.number().nullable().optional(),
+  tyre_rr_dot_year: z.number().nullable().optional(),
+  tyre_rr_condition: z.string().nullable().optional(),
 
   tyre_lr_face_photo_path: z.string().nullable(),
   tyre_lr_measurement_photo_path: z.string().nullable(),
@@ -193,6 +268,12 @@ export const InspectionOutputSchema = z.object({
   tyre_lr_make: z.string().nullable(),
   tyre_lr_size: z.string().nullable(),
   tyre_lr_load_speed: z.string().nullable(),
+  tyre_lr_tread_inner_mm: z.coerce.number().nullable().optional(),
+  tyre_lr_tread_centre_mm: z.coerce.number().nullable().optional(),
+  tyre_lr_tread_outer_mm: z.coerce.number().nullable().optional(),
+  tyre_lr_dot_week: z.number().nullable().optional(),
+  tyre_lr_dot_year: z.number().nullable().optional(),
+  tyre_lr_condition: z.string().nullable().optional(),
 
   tyre_lf_face_photo_path: z.string().nullable(),
   tyre_lf_measurement_photo_path: z.string().nullable(),
@@ -200,6 +281,12 @@ export const InspectionOutputSchema = z.object({
   tyre_lf_make: z.string().nullable(),
   tyre_lf_size: z.string().nullable(),
   tyre_lf_load_speed: z.string().nullable(),
+  tyre_lf_tread_inner_mm: z.coerce.number().nullable().optional(),
+  tyre_lf_tread_centre_mm: z.coerce.number().nullable().optional(),
+  tyre_lf_tread_outer_mm: z.coerce.number().nullable().optional(),
+  tyre_lf_dot_week: z.number().nullable().optional(),
+  tyre_lf_dot_year: z.number().nullable().optional(),
+  tyre_lf_condition: z.string().nullable().optional(),
 
   tyre_spare_face_photo_path: z.string().nullable(),
   tyre_spare_measurement_photo_path: z.string().nullable(),
@@ -207,13 +294,30 @@ export const InspectionOutputSchema = z.object({
   tyre_spare_make: z.string().nullable(),
   tyre_spare_size: z.string().nullable(),
   tyre_spare_load_speed: z.string().nullable(),
+  tyre_spare_tread_inner_mm: z.coerce.number().nullable().optional(),
+  tyre_spare_tread_centre_mm: z.coerce.number().nullable().optional(),
+  tyre_spare_tread_outer_mm: z.coerce.number().nullable().optional(),
+  tyre_spare_dot_week: z.number().nullable().optional(),
+  tyre_spare_dot_year: z.number().nullable().optional(),
+  tyre_spare_condition: z.string().nullable().optional(),
 
   // Additional tyres for larger vehicles
   additional_tyres: z.array(AdditionalTyreSchema).nullable(),
 
+  // Photos of the slots the client's template adds, keyed by slot key
+  extra_photos: z.record(z.string(), z.string()).nullable().optional(),
+
+  // Set by the server when the inspection is saved
+  flags: z.array(InspectionFlagSchema).nullable().optional(),
+
   // Notes
   notes: z.string().nullable(),
 
+  // Lifecycle
+  status: z.nativeEnum(InspectionStatus).default(InspectionStatus.DRAFT),
+  completed_at: z.coerce.date().nullable().optional(),
+  completed_by_employee_id: z.string().uuid().nullable().optional(),
+
   // Metadata
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
@@ -242,117 +346,31 @@ export const InspectionRecordInputSchema = z.object({
   path: ["claim_id"]
 });
 
-// Define the schema for updating an inspection
-export const InspectionUpdateInputSchema = z.object({
-  id: z.string().uuid(),
-  claim_id: z.string().uuid(),
-  vehicle_id: z.string().uuid(),
-
-  // Registration details
-  registration_number: z.string().optional(),
-  registration_photo_path: z.string().optional(),
-
-  // License disc details
-  license_disc_present: z.boolean().optional(),
-  license_disc_expiry: z.date().optional().nullable(),
-  license_disc_photo_path: z.string().optional(),
-
-  // VIN details
-  vin_number: z.string().optional(),
-  vin_dash_photo_path: z.string().optional(),
-  vin_plate_photo_path: z.string().optional(),
-  vin_number_photo_path: z.string().optional(),
-
-  // 360 view photos
-  front_view_photo_path: z.string().optional(),
-  right_front_view_photo_path: z.string().optional(),
-  right_side_view_photo_path: z.string().optional(),
-  right_rear_view_photo_path: z.string().optional(),
-  rear_view_photo_path: z.string().optional(),
-  left_rear_view_photo_path: z.string().optional(),
-  left_side_view_photo_path: z.string().optional(),
-  left_front_view_photo_path: z.string().optional(),
-  overall_condition: z.enum(["excellent", "good", "fair", "poor", "very_poor"]).optional(),
-
-  // Interior section
-  mileage_photo_path: z.string().optional(),
-  radio_present: z.boolean().optional(),
-  radio_make: z.string().optional(),
-  radio_model: z.string().optional(),
-  radio_photo_path: z.string().optional(),
-  gear_type: z.enum(["manual", "automatic", "other"]).optional(),
-  interior_front_photo_path: z.string().optional(),
-  interior_rear_photo_path: z.string().optional(),
-  leather_seats: z.boolean().optional(),
-  interior_condition: z.enum(["no_damage", "good", "poor", "very_poor"]).optional(),
-  srs_activated: z.boolean().optional(),
-  srs_damage_photo_path_1: z.string().optional(),
-  srs_damage_photo_path_2: z.string().optional(),
-  srs_damage_photo_path_3: z.string().optional(),
-  srs_damage_photo_path_4: z.string().optional(),
-  jack_tools_present: z.boolean().optional(),
-  jack_tools_photo_path: z.string().optional(),
-
-  // Mechanical section
-  engine_bay_photo_path: z.string().optional(),
-  battery_photo_path: z.string().optional(),
-  mechanical_condition: z.enum(["working", "not_working", "other"]).optional(),
-  electrical_condition: z.enum(["working", "not_working", "other"]).optional(),
-
-  // Tyres section - standard tyres
-  tyre_rf_face_photo_path: z.string().optional(),
-  tyre_rf_measurement_photo_path: z.string().optional(),
-  tyre_rf_tread_photo_path: z.string().optional(),
-  tyre_rf_make: z.string().optional(),
-  tyre_rf_size: z.string().optional(),
-  tyre_rf_load_speed: z.string().optional(),
-
-  tyre_rr_face_photo_path: z.string().optional(),
-  tyre_rr_measurement_photo_path: z.string().optional(),
-  tyre_rr_tread_photo_path: z.string().optional(),
-  tyre_rr_make: z.string().optional(),
-  tyre_rr_size: z.string().optional(),
-  tyre_rr_load_speed: z.string().optional(),
-
-  tyre_lr_face_photo_path: z.string().optional(),
-  tyre_lr_measurement_photo_path: z.string().optional(),
-  tyre_lr_tread_photo_path: z.string().optional(),
-  tyre_lr_make: z.string().optional(),
-  tyre_lr_size: z.string().optional(),
-  tyre_lr_load_speed: z.string().optional(),
-
-  tyre_lf_face_photo_path: z.string().optional(),
-  tyre_lf_measurement_photo_path: z.string().optional(),
-  tyre_lf_tread_photo_path: z.string().optional(),
-  tyre_lf_make: z.string().optional(),
-  tyre_lf_size: z.string().optional(),
-  tyre_lf_load_speed: z.string().optional(),
-
-  tyre_spare_face_photo_path: z.string().optional(),
-  tyre_spare_measurement_photo_path: z.string().optional(),
-  tyre_spare_tread_photo_path: z.string().optional(),
-  tyre_spare_make: z.string().optional(),
-  tyre_spare_size: z.string().optional(),
-  tyre_spare_load_speed: z.string().optional(),
-
-  // Additional tyres for larger vehicles
-  additional_tyres: z.array(AdditionalTyreSchema).optional(),
-
-  // Damage assessment
-  damage_description: z.string().optional(),
-  damage_photo1_path: z.string().optional(),
-  damage_photo2_path: z.string().optional(),
-  damage_photo3_path: z.string().optional(),
-  damage_photo4_path: z.string().optional(),
-
-  // Notes
-  notes: z.string().optional(),
+// Define the schema for updating a draft inspection
+// Any subset of the sections can be sent; empty strings clear a text field
+export const InspectionUpdateInputSchema = InspectionCreateInputSchema
+  .omit({ claim_id: true, vehicle_id: true })
+  .partial()
+  .extend({
+    id: z.string().uuid(),
+    // updated_at of the inspection the change was made against; the update is rejected
+    // when the inspection has changed since, e.g. while the change was queued offline
+    expected_updated_at: z.string().datetime({ offset: true }).optional(),
+  });
+
+// Define the schema for the result of creating or updating an inspection
+// Lists the submitted fields that did not read back as sent, so the user can be told to check them
+export const InspectionSaveOutputSchema = InspectionOutputSchema.extend({
+  unpersisted_fields: z.array(z.string()),
 });
 
 // Export types
 export type InspectionCreateInput = z.infer<typeof InspectionCreateInputSchema>;
 export type InspectionUpdateInput = z.infer<typeof InspectionUpdateInputSchema>;
 export type Inspection = z.infer<typeof InspectionOutputSchema>;
+export type InspectionSaveOutput = z.infer<typeof InspectionSaveOutputSchema>;
 export type InspectionGetByClaimInput = z.infer<typeof InspectionGetByClaimInputSchema>;
 export type InspectionGetByIdInput = z.infer<typeof InspectionGetByIdInputSchema>;
 export type InspectionRecordInput = z.infer<typeof InspectionRecordInputSchema>;
+export type AdditionalTyreRecord = z.infer<typeof AdditionalTyreSchema>;
+export type InspectionFlag = z.infer<typeof InspectionFlagSchema>;
@@ -0,0 +1,210 @@
+// src/lib/api/domains/inspections/tyres.ts
+import { env } from "@/env";
+import { type Inspection } from "./types";
+
+export const TYRE_CONDITIONS = [
+  { value: "good", label: "Good" },
+  { value: "fair", label: "Fair" },
+  { value: "worn", label: "Worn" },
+  { value: "damaged", label: "Damaged" },
+] as const;
+
+// Tread depth, DOT manufacture date and condition recorded for each tyre
+export interface TyreMeasurements {
+  treadInnerMm: number | null;
+  treadCentreMm: number | null;
+  treadOuterMm: number | null;
+  dotWeek: number | null;
+  dotYear: number | null;
+  condition: string;
+}
+
+export const EMPTY_TYRE_MEASUREMENTS: TyreMeasurements = {
+  treadInnerMm: null,
+  treadCentreMm: null,
+  treadOuterMm: null,
+  dotWeek: null,
+  dotYear: null,
+  condition: "",
+};
+
+export type StandardTyrePosition = "rf" | "rr" | "lr" | "lf" | "spare";
+
+// The axle each standard tyre is mounted on; the spare is not on an axle
+export const STANDARD_TYRES: { position: StandardTyrePosition; label: string; axle: string | null }[] = [
+  { position: "rf", label: "Right front", axle: "Front" },
+  { position: "rr", label: "Right rear", axle: "Rear" },
+  { position: "lr", label: "Left rear", axle: "Rear" },
+  { position: "lf", label: "Left front", axle: "Front" },
+  { position: "spare", label: "Spare", axle: null },
+];
+
+// A tyre as checked for roadworthiness
+export interface TyreReading {
+  key: string;
+  label: string;
+  axle: string | null;
+  size: string;
+  measurements: TyreMeasurements;
+}
+
+export type TyreFlagType = "below_minimum" | "axle_size_mismatch" | "axle_tread_mismatch";
+
+export interface TyreFlag {
+  type: TyreFlagType;
+  tyreKeys: string[];
+  message: string;
+}
+
+export interface TyreFlagOptions {
+  minTreadDepthMm: number;
+  // Largest tread depth difference allowed between the tyres of one axle
+  maxAxleTreadDifferenceMm: number;
+}
+
+export const DEFAULT_TYRE_FLAG_OPTIONS: TyreFlagOptions = {
+  minTreadDepthMm: env.NEXT_PUBLIC_TYRE_MIN_TREAD_DEPTH_MM,
+  maxAxleTreadDifferenceMm: 2,
+};
+
+/**
+ * Get the shallowest of the recorded tread depths of a tyre
+ * @param measurements The tyre measurements
+ * @returns The depth in millimetres, or null when no depth was recorded
+ */
+export function getMinimumTreadDepth(measurements: TyreMeasurements): number | null {
+  const depths = [measurements.treadInnerMm, measurements.treadCentreMm, measurements.treadOuterMm].filter(
+    (depth): depth is number => depth !== null && depth !== undefined
+  );
+  return depths.length > 0 ? Math.min(...depths) : null;
+}
+
+// Sizes are compared without spacing or case, e.g. "205/55 r16" matches "205/55R16"
+const normalizeSize = (size: string) => size.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Check tyres for roadworthiness: tread below the legal minimum and mismatched tyres on an axle
+ * @param tyres The tyres of the inspection
+ * @param options The legal minimum and allowed tread difference
+ */
+export function getTyreFlags(tyres: TyreReading[], options: TyreFlagOptions = DEFAULT_TYRE_FLAG_OPTIONS): TyreFlag[] {
+  const flags: TyreFlag[] = [];
+
+  for (const tyre of tyres) {
+    const depth = getMinimumTreadDepth(tyre.measurements);
+    if (depth !== null && depth < options.minTreadDepthMm) {
+      flags.push({
+        type: "below_minimum",
+        tyreKeys: [tyre.key],
+        message: `${tyre.label}: tread depth ${depth} mm is below the legal minimum of ${options.minTreadDepthMm} mm`,
+      });
+    }
+  }
+
+  const axles = new Map<string, TyreReading[]>();
+  for (const tyre of tyres) {
+    const axle = tyre.axle?.trim();
+    if (!axle) continue;
+    axles.set(axle.toLowerCase(), [...(axles.get(axle.toLowerCase()) || []), tyre]);
+  }
+
+  for (const [, axleTyres] of axles) {
+    const axleName = axleTyres[0]?.axle?.trim();
+    if (axleTyres.length < 2 || !axleName) continue;
+
+    const tyreKeys = axleTyres.map((tyre) => tyre.key);
+    const labels = axleTyres.map((tyre) => tyre.label).join(", ");
+
+    const sizes = new Set(axleTyres.map((tyre) => normalizeSize(tyre.size)).filter(Boolean));
+    if (sizes.size > 1) {
+      flags.push({
+        type: "axle_size_mismatch",
+        tyreKeys,
+        message: `${axleName} axle: tyre sizes do not match (${labels})`,
+      });
+    }
+
+    const depths = axleTyres
+      .map((tyre) => getMinimumTreadDepth(tyre.measurements))
+      .filter((depth): depth is number => depth !== null);
+    if (depths.length > 1 && Math.max(...depths) - Math.min(...depths) > options.maxAxleTreadDifferenceMm) {
+      flags.push({
+        type: "axle_tread_mismatch",
+        tyreKeys,
+        message: `${axleName} axle: tread depths differ by more than ${options.maxAxleTreadDifferenceMm} mm (${labels})`,
+      });
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Map the measurements of a standard tyre onto its vehicle_inspections columns
+ * Empty values are sent as null so a draft update clears them
+ * @param position The standard tyre position
+ * @param measurements The tyre measurements
+ */
+export function toTyreMeasurementColumns(position: StandardTyrePosition, measurements: TyreMeasurements) {
+  return {
+    [`tyre_${position}_tread_inner_mm`]: measurements.treadInnerMm,
+    [`tyre_${position}_tread_centre_mm`]: measurements.treadCentreMm,
+    [`tyre_${position}_tread_outer_mm`]: measurements.treadOuterMm,
+    [`tyre_${position}_dot_week`]: measurements.dotWeek,
+    [`tyre_${position}_dot_year`]: measurements.dotYear,
+    [`tyre_${position}_condition`]: measurements.condition || undefined,
+  };
+}
+
+/**
+ * Read the measurements of a standard tyre from a saved inspection
+ * @param position The standard tyre position
+ * @param inspection The saved inspection
+ */
+export function fromTyreMeasurementColumns(
+  position: StandardTyrePosition,
+  inspection: Partial<Record<keyof Inspection, unknown>>
+): TyreMeasurements {
+  const row = inspection as Record<string, unknown>;
+  const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+  return {
+    treadInnerMm: toNumber(row[`tyre_${position}_tread_inner_mm`]),
+    treadCentreMm: toNumber(row[`tyre_${position}_tread_centre_mm`]),
+    treadOuterMm: toNumber(row[`tyre_${position}_tread_outer_mm`]),
+    dotWeek: toNumber(row[`tyre_${position}_dot_week`]),
+    dotYear: toNumber(row[`tyre_${position}_dot_year`]),
+    condition: (row[`tyre_${position}_condition`] as string | null) || "",
+  };
+}
+
+/**
+ * Collect the standard and additional tyres of a saved inspection for the roadworthiness checks
+ * @param inspection The saved inspection
+ */
+export function getInspectionTyreReadings(inspection: Inspection): TyreReading[] {
+  const standardTyres = STANDARD_TYRES.map(({ position, label, axle }) => ({
+    key: position,
+    label,
+    axle,
+    size: (inspection[`tyre_${position}_size`] as string | null) || "",
+    measurements: fromTyreMeasurementColumns(position, inspection),
+  }));
+
+  const additionalTyres = (inspection.additional_tyres || []).map((tyre) => ({
+    key: tyre.id,
+    label: tyre.label,
+    axle: tyre.axle || null,
+    size: tyre.size,
+    measurements: {
+      treadInnerMm: tyre.tread_inner_mm ?? null,
+      treadCentreMm: tyre.tread_centre_mm ?? null,
+      treadOuterMm: tyre.tread_outer_mm ?? null,
+      dotWeek: tyre.dot_week ?? null,
+      dotYear: tyre.dot_year ?? null,
+      condition: tyre.condition || "",
+    },
+  }));
+
+  return [...standardTyres, ...additionalTyres];
+}
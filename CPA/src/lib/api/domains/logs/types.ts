@@ -11,6 +11,7 @@ export enum ClaimLogType {
   APPOINTMENT_RESCHEDULED = "appointment_rescheduled",
   INSPECTION_STARTED = "inspection_started",
   INSPECTION_COMPLETED = "inspection_completed",
+  INSPECTION_REOPENED = "inspection_reopened",
   ESTIMATE_CREATED = "estimate_created",
   ESTIMATE_UPDATED = "estimate_updated",
   ADDITIONAL_CREATED = "additional_created",
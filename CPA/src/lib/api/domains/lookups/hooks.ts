@@ -19,6 +19,13 @@ export function useLossAdjusters() {
   return lookupQueries.listLossAdjusters();
 }
 
+/**
+ * Hook for fetching all active employees
+ */
+export function useEmployees() {
+  return lookupQueries.listEmployees();
+}
+
 /**
  * Hook for fetching clients
  */
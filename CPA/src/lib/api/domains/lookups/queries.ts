@@ -28,6 +28,16 @@ export const lookupQueries = {
       retry: 2,
     }),
 
+  /**
+   * Get all active employees - direct tRPC call
+   */
+  listEmployees: () =>
+    apiClient.raw.lookup.getEmployees.useQuery(undefined, {
+      initialData: [],
+      staleTime: 1000 * 60 * 5, // 5 min
+      retry: 2,
+    }),
+
   /**
    * Get all provinces - direct tRPC call
    */
@@ -4,4 +4,5 @@ import { type RouterOutputs } from "@/lib/api/types";
 // Export types derived from tRPC
 export type Province = RouterOutputs["lookup"]["getProvinces"][number];
 export type LossAdjuster = RouterOutputs["lookup"]["getLossAdjusters"][number];
+export type Employee = RouterOutputs["lookup"]["getEmployees"][number];
 export type Client = RouterOutputs["client"]["getAll"][number];
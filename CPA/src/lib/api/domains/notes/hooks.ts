@@ -0,0 +1,81 @@
+// src/lib/api/domains/notes/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { noteQueries } from "./queries";
+import { noteMutations } from "./mutations";
+
+/**
+ * Hook for fetching the notes of a claim
+ * @param claimId The claim ID
+ * @param options Additional query options
+ */
+export function useClaimNotes(claimId: string, options?: any) {
+  return noteQueries.getByClaim(claimId, options);
+}
+
+/**
+ * Returns a callback that refreshes the notes of a claim
+ */
+function useInvalidateClaimNotes() {
+  const queryClient = useQueryClient();
+
+  return (claimId: string) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.note.getByClaim, { claim_id: claimId }, "query")
+    });
+  };
+}
+
+/**
+ * Hook for adding a note to a claim
+ */
+export function useCreateClaimNote() {
+  const invalidateClaimNotes = useInvalidateClaimNotes();
+
+  return noteMutations.create({
+    onSuccess: (data) => {
+      invalidateClaimNotes(data.claim_id);
+    }
+  });
+}
+
+/**
+ * Hook for editing a claim note
+ */
+export function useUpdateClaimNote() {
+  const invalidateClaimNotes = useInvalidateClaimNotes();
+
+  return noteMutations.update({
+    onSuccess: (data) => {
+      invalidateClaimNotes(data.claim_id);
+    }
+  });
+}
+
+/**
+ * Hook for pinning or unpinning a claim note
+ */
+export function useSetClaimNotePinned() {
+  const invalidateClaimNotes = useInvalidateClaimNotes();
+
+  return noteMutations.setPinned({
+    onSuccess: (data) => {
+      invalidateClaimNotes(data.claim_id);
+    }
+  });
+}
+
+/**
+ * Hook for deleting a claim note
+ * @param claimId The claim the note belongs to
+ */
+export function useDeleteClaimNote(claimId: string) {
+  const invalidateClaimNotes = useInvalidateClaimNotes();
+
+  return noteMutations.delete({
+    onSuccess: () => {
+      invalidateClaimNotes(claimId);
+    }
+  });
+}
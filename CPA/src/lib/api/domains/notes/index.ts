@@ -0,0 +1,13 @@
+// src/lib/api/domains/notes/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { noteQueries } from './queries';
+import { noteMutations } from './mutations';
+
+export const noteApi = {
+  queries: noteQueries,
+  mutations: noteMutations
+};
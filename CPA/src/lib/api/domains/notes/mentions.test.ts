@@ -0,0 +1,31 @@
+// src/lib/api/domains/notes/mentions.test.ts
+import { describe, expect, it } from "vitest";
+import { findMentionedEmployees, getNoteText } from "./mentions";
+
+const jan = { id: "1", name: "Jan Smith" };
+const janSmithers = { id: "2", name: "Jan Smithers" };
+const anne = { id: "3", name: "Anne O'Neill & Co" };
+
+describe("getNoteText", () => {
+  it("removes the markup and decodes the entities the editor writes", () => {
+    expect(getNoteText("<p>Call&nbsp;<strong>Anne</strong> &amp; Co</p>").trim()).toBe("Call Anne & Co");
+  });
+});
+
+describe("findMentionedEmployees", () => {
+  it("keeps the employees named in the note", () => {
+    expect(findMentionedEmployees("<p>Please check, @Jan Smith.</p>", [jan, anne])).toEqual([jan]);
+  });
+
+  it("drops employees who are picked but not named", () => {
+    expect(findMentionedEmployees("<p>Please check the quote</p>", [jan])).toEqual([]);
+  });
+
+  it("does not count a mention for an employee whose name it starts with", () => {
+    expect(findMentionedEmployees("<p>@Jan Smithers</p>", [jan, janSmithers])).toEqual([janSmithers]);
+  });
+
+  it("matches names with characters the editor escapes, regardless of case", () => {
+    expect(findMentionedEmployees("<p>@anne o&#39;neill &amp; co</p>", [anne])).toEqual([anne]);
+  });
+});
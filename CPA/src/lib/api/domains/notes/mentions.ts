@@ -0,0 +1,44 @@
+// src/lib/api/domains/notes/mentions.ts
+
+// Entities the note editor writes for characters that can appear in a name
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+/**
+ * Write the mention of an employee the way it appears in a note
+ * @param name The employee's full name
+ */
+export function formatMention(name: string): string {
+  return `@${name}`;
+}
+
+/**
+ * Get the text of a note body without its markup
+ * @param body The rich text (HTML) of the note
+ */
+export function getNoteText(body: string): string {
+  return body
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Keep the employees whose mention appears in a note body
+ * @param body The rich text (HTML) of the note
+ * @param employees The employees picked as mentioned
+ */
+export function findMentionedEmployees<T extends { name: string }>(body: string, employees: T[]): T[] {
+  const text = getNoteText(body);
+  return employees.filter((employee) => {
+    // A mention of "Jan Smith" must not count for "Jan Smithers"
+    const mention = formatMention(employee.name.trim()).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`${mention}(?![\\p{L}\\p{N}])`, "iu").test(text);
+  });
+}
@@ -0,0 +1,87 @@
+// src/lib/api/domains/notes/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type ClaimNote, type ClaimNoteCreate, type ClaimNoteUpdate, type ClaimNotePin } from "./types";
+
+export const noteMutations = {
+  /**
+   * Create a new claim note
+   * @param options Mutation options
+   */
+  create: (options?: MutationOptions<ClaimNote, ClaimNoteCreate>) =>
+    apiClient.mutation<ClaimNote, ClaimNoteCreate>(
+      (mutationOptions) => apiClient.raw.note.create.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Note added successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to add note: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update a claim note
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<ClaimNote, ClaimNoteUpdate>) =>
+    apiClient.mutation<ClaimNote, ClaimNoteUpdate>(
+      (mutationOptions) => apiClient.raw.note.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Note updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update note: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Pin or unpin a claim note
+   * @param options Mutation options
+   */
+  setPinned: (options?: MutationOptions<ClaimNote, ClaimNotePin>) =>
+    apiClient.mutation<ClaimNote, ClaimNotePin>(
+      (mutationOptions) => apiClient.raw.note.setPinned.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success(data.is_pinned ? "Note pinned" : "Note unpinned");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to pin note: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Delete a claim note
+   * @param options Mutation options
+   */
+  delete: (options?: MutationOptions<{ success: boolean }, { id: string }>) =>
+    apiClient.mutation<{ success: boolean }, { id: string }>(
+      (mutationOptions) => apiClient.raw.note.delete.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Note deleted successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to delete note: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
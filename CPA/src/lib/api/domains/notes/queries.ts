@@ -0,0 +1,20 @@
+// src/lib/api/domains/notes/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type ClaimNote } from "./types";
+
+export const noteQueries = {
+  /**
+   * Get the notes of a claim, pinned notes first
+   * @param claimId The claim ID
+   * @param options Additional query options
+   */
+  getByClaim: (claimId: string, options?: QueryOptions<ClaimNote[]>) =>
+    apiClient.query<ClaimNote[]>(
+      (queryOptions) => apiClient.raw.note.getByClaim.useQuery({ claim_id: claimId }, queryOptions),
+      {
+        enabled: !!claimId,
+        ...options
+      }
+    ),
+};
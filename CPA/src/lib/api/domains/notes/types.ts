@@ -0,0 +1,44 @@
+// src/lib/api/domains/notes/types.ts
+import { z } from "zod";
+
+// Zod schema for note creation
+export const ClaimNoteCreateSchema = z.object({
+  claim_id: z.string().uuid(),
+  // Rich text (HTML) produced by the note editor
+  body: z.string().min(1, "Note cannot be empty"),
+  is_internal: z.boolean().default(true),
+  mentioned_user_ids: z.array(z.string().uuid()).default([]),
+});
+
+// Zod schema for note update
+export const ClaimNoteUpdateSchema = ClaimNoteCreateSchema.omit({ claim_id: true }).partial().extend({
+  id: z.string().uuid(),
+});
+
+// Zod schema for pinning or unpinning a note
+export const ClaimNotePinSchema = z.object({
+  id: z.string().uuid(),
+  is_pinned: z.boolean(),
+});
+
+// Zod schema for note output
+export const ClaimNoteOutputSchema = z.object({
+  id: z.string().uuid(),
+  claim_id: z.string().uuid(),
+  author_id: z.string().uuid().nullable(),
+  author_name: z.string().nullable(),
+  // Whether the current user wrote the note and may edit or delete it
+  is_author: z.boolean(),
+  body: z.string(),
+  is_internal: z.boolean(),
+  is_pinned: z.boolean(),
+  mentioned_user_ids: z.array(z.string().uuid()),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type ClaimNote = z.infer<typeof ClaimNoteOutputSchema>;
+export type ClaimNoteCreate = z.input<typeof ClaimNoteCreateSchema>;
+export type ClaimNoteUpdate = z.input<typeof ClaimNoteUpdateSchema>;
+export type ClaimNotePin = z.infer<typeof ClaimNotePinSchema>;
@@ -0,0 +1,11 @@
+// src/lib/api/domains/part-catalogue/constants.ts
+
+// Cache times for catalogue searches; the catalogue only changes when an estimate is authorized
+export const CACHE_TIMES = {
+  STALE_TIME: {
+    SEARCH: 5 * 60 * 1000, // 5 minutes
+  },
+  GC_TIME: {
+    SEARCH: 15 * 60 * 1000, // 15 minutes
+  },
+};
@@ -0,0 +1,13 @@
+// src/lib/api/domains/part-catalogue/hooks.ts
+import { partCatalogueQueries } from "./queries";
+
+/**
+ * Hook for the catalogue suggestions of an estimate line being typed
+ * Searches start from two characters
+ * @param claimId The claim ID
+ * @param query The description or part number typed so far
+ * @param options Additional query options
+ */
+export function usePartCatalogueSearch(claimId: string, query: string, options?: any) {
+  return partCatalogueQueries.search(claimId, query, options);
+}
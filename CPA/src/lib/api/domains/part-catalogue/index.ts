@@ -0,0 +1,11 @@
+// src/lib/api/domains/part-catalogue/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+
+// Export raw queries for advanced use cases
+import { partCatalogueQueries } from './queries';
+
+export const partCatalogueApi = {
+  queries: partCatalogueQueries
+};
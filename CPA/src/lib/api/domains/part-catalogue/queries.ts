@@ -0,0 +1,24 @@
+// src/lib/api/domains/part-catalogue/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type PartCatalogueItem } from "./types";
+import { CACHE_TIMES } from "./constants";
+
+export const partCatalogueQueries = {
+  /**
+   * Search the catalogue entries that apply to a claim's vehicle
+   * @param claimId The claim ID
+   * @param query The description or part number typed so far
+   * @param options Additional query options
+   */
+  search: (claimId: string, query: string, options?: QueryOptions<PartCatalogueItem[]>) =>
+    apiClient.query<PartCatalogueItem[]>(
+      (queryOptions) => apiClient.raw.partCatalogue.search.useQuery({ claim_id: claimId, query }, queryOptions),
+      {
+        enabled: !!claimId && query.trim().length >= 2,
+        staleTime: CACHE_TIMES.STALE_TIME.SEARCH,
+        gcTime: CACHE_TIMES.GC_TIME.SEARCH,
+        ...options
+      }
+    ),
+};
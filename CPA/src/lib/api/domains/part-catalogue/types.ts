@@ -0,0 +1,37 @@
+// src/lib/api/domains/part-catalogue/types.ts
+import { z } from "zod";
+import { LaborTrade, OperationCode, PartType } from "@/lib/api/domains/estimates/types";
+
+// Zod schema for searching the catalogue while typing an estimate line
+export const PartCatalogueSearchSchema = z.object({
+  // The claim whose vehicle decides which make/model entries apply
+  claim_id: z.string().uuid(),
+  // Matched against descriptions and part numbers
+  query: z.string().trim().min(2),
+  limit: z.number().int().positive().max(20).default(8),
+});
+
+// Zod schema for catalogue item output
+export const PartCatalogueItemOutputSchema = z.object({
+  id: z.string().uuid(),
+  description: z.string(),
+  operation_code: z.nativeEnum(OperationCode),
+  part_type: z.nativeEnum(PartType).nullable(),
+  part_number: z.string().nullable(),
+  labor_trade: z.nativeEnum(LaborTrade),
+  // Lower-cased; null when the entry applies to every vehicle or every model of the make
+  vehicle_make: z.string().nullable(),
+  vehicle_model: z.string().nullable(),
+  typical_strip_fit_hours: z.number().nullable(),
+  typical_repair_hours: z.number().nullable(),
+  typical_paint_hours: z.number().nullable(),
+  last_part_cost: z.number().nullable(),
+  usage_count: z.number(),
+  last_used_at: z.string().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type PartCatalogueSearch = z.input<typeof PartCatalogueSearchSchema>;
+export type PartCatalogueItem = z.infer<typeof PartCatalogueItemOutputSchema>;
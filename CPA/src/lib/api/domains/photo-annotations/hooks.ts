@@ -0,0 +1,35 @@
+// src/lib/api/domains/photo-annotations/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { photoAnnotationQueries } from "./queries";
+import { photoAnnotationMutations } from "./mutations";
+
+/**
+ * Hook for fetching the annotations of a photo
+ * @param bucketName The storage bucket of the photo
+ * @param filePath The photo as stored on its record
+ * @param options Additional query options
+ */
+export function usePhotoAnnotations(bucketName: string, filePath: string, options?: any) {
+  return photoAnnotationQueries.getByPath(bucketName, filePath, options);
+}
+
+/**
+ * Hook for saving the annotations of a photo, or its exported annotated copy
+ */
+export function useSavePhotoAnnotations() {
+  const queryClient = useQueryClient();
+
+  return photoAnnotationMutations.upsert({
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: getQueryKey(
+          apiClient.raw.photoAnnotation.getByPath,
+          { bucket_name: data.bucket_name, file_path: data.file_path },
+          "query"
+        )
+      });
+    }
+  });
+}
@@ -0,0 +1,14 @@
+// src/lib/api/domains/photo-annotations/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+export * from './render';
+
+// Export raw queries and mutations for advanced use cases
+import { photoAnnotationQueries } from './queries';
+import { photoAnnotationMutations } from './mutations';
+
+export const photoAnnotationApi = {
+  queries: photoAnnotationQueries,
+  mutations: photoAnnotationMutations
+};
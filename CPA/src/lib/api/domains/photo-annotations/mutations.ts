@@ -0,0 +1,27 @@
+// src/lib/api/domains/photo-annotations/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type PhotoAnnotation, type PhotoAnnotationUpsert } from "./types";
+
+export const photoAnnotationMutations = {
+  /**
+   * Save the annotations of a photo
+   * @param options Mutation options
+   */
+  upsert: (options?: MutationOptions<PhotoAnnotation, PhotoAnnotationUpsert>) =>
+    apiClient.mutation<PhotoAnnotation, PhotoAnnotationUpsert>(
+      (mutationOptions) => apiClient.raw.photoAnnotation.upsert.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success(variables.flattened_path ? "Annotated copy exported successfully" : "Annotations saved successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to save annotations: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
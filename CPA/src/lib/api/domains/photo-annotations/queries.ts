@@ -0,0 +1,24 @@
+// src/lib/api/domains/photo-annotations/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type PhotoAnnotation } from "./types";
+
+export const photoAnnotationQueries = {
+  /**
+   * Get the annotations of a photo
+   * @param bucketName The storage bucket of the photo
+   * @param filePath The photo as stored on its record
+   * @param options Additional query options
+   */
+  getByPath: (bucketName: string, filePath: string, options?: QueryOptions<PhotoAnnotation | null>) =>
+    apiClient.query<PhotoAnnotation | null>(
+      (queryOptions) => apiClient.raw.photoAnnotation.getByPath.useQuery(
+        { bucket_name: bucketName, file_path: filePath },
+        queryOptions
+      ),
+      {
+        enabled: !!bucketName && !!filePath,
+        ...options
+      }
+    ),
+};
@@ -0,0 +1,126 @@
+// src/lib/api/domains/photo-annotations/render.ts
+import { type ImageAnnotation } from "./types";
+
+// Line width, label size and arrow head length grow with the image so annotations
+// look the same on the overlay and on the exported copy
+export function getAnnotationStyle(width: number, height: number) {
+  const base = Math.max(width, height);
+  return {
+    strokeWidth: Math.max(2, base * 0.004),
+    fontSize: Math.max(12, base * 0.03),
+    arrowHeadLength: Math.max(8, base * 0.025),
+  };
+}
+
+/**
+ * Get the two outer points of an arrow head, in pixels
+ * @param annotation The arrow
+ * @param width The image width
+ * @param height The image height
+ */
+export function getArrowHeadPoints(
+  annotation: Extract<ImageAnnotation, { type: "arrow" }>,
+  width: number,
+  height: number
+): [number, number][] {
+  const { arrowHeadLength } = getAnnotationStyle(width, height);
+  const x2 = annotation.x2 * width;
+  const y2 = annotation.y2 * height;
+  const angle = Math.atan2(y2 - annotation.y1 * height, x2 - annotation.x1 * width);
+
+  return [angle - Math.PI / 6, angle + Math.PI / 6].map((side) => [
+    x2 - arrowHeadLength * Math.cos(side),
+    y2 - arrowHeadLength * Math.sin(side),
+  ]);
+}
+
+/**
+ * Draw annotations onto a canvas that holds the image at its natural size
+ * @param context The canvas context
+ * @param annotations The annotations to draw
+ * @param width The image width
+ * @param height The image height
+ */
+export function drawAnnotations(
+  context: CanvasRenderingContext2D,
+  annotations: ImageAnnotation[],
+  width: number,
+  height: number
+) {
+  const { strokeWidth, fontSize } = getAnnotationStyle(width, height);
+  context.lineWidth = strokeWidth;
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.font = `bold ${fontSize}px sans-serif`;
+
+  for (const annotation of annotations) {
+    context.strokeStyle = annotation.color;
+    context.fillStyle = annotation.color;
+
+    if (annotation.type === "arrow") {
+      const head = getArrowHeadPoints(annotation, width, height);
+      context.beginPath();
+      context.moveTo(annotation.x1 * width, annotation.y1 * height);
+      context.lineTo(annotation.x2 * width, annotation.y2 * height);
+      for (const [x, y] of head) {
+        context.moveTo(annotation.x2 * width, annotation.y2 * height);
+        context.lineTo(x, y);
+      }
+      context.stroke();
+    } else if (annotation.type === "circle") {
+      context.beginPath();
+      context.ellipse(
+        annotation.cx * width,
+        annotation.cy * height,
+        annotation.rx * width,
+        annotation.ry * height,
+        0,
+        0,
+        Math.PI * 2
+      );
+      context.stroke();
+    } else {
+      // Dark outline keeps light labels readable on any background
+      context.strokeStyle = "rgba(0, 0, 0, 0.6)";
+      context.strokeText(annotation.text, annotation.x * width, annotation.y * height);
+      context.fillText(annotation.text, annotation.x * width, annotation.y * height);
+    }
+  }
+}
+
+/**
+ * Render a copy of an image with its annotations drawn on it, e.g. for reports
+ * The image must be served with CORS headers, as public storage URLs are
+ * @param imageUrl The URL of the original image
+ * @param annotations The annotations to draw
+ * @returns A JPEG of the image at its natural size
+ */
+export async function renderAnnotatedImage(imageUrl: string, annotations: ImageAnnotation[]): Promise<Blob> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load the image"));
+    img.src = imageUrl;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not supported in this browser");
+  }
+
+  context.drawImage(image, 0, 0);
+  drawAnnotations(context, annotations, canvas.width, canvas.height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to export the annotated image"))),
+      "image/jpeg",
+      0.92
+    );
+  });
+}
@@ -0,0 +1,81 @@
+// src/lib/api/domains/photo-annotations/types.ts
+import { z } from "zod";
+import { type RouterOutputs } from "@/lib/api/types";
+
+// Positions and sizes are fractions of the image width and height
+const fraction = z.number().min(0).max(1);
+
+export const AnnotationColorOptions = [
+  { value: "#ef4444", label: "Red" },
+  { value: "#facc15", label: "Yellow" },
+  { value: "#3b82f6", label: "Blue" },
+  { value: "#ffffff", label: "White" },
+];
+
+// Arrow from its tail (x1, y1) to the point it marks (x2, y2)
+export const ArrowAnnotationSchema = z.object({
+  id: z.string(),
+  type: z.literal("arrow"),
+  color: z.string(),
+  x1: fraction,
+  y1: fraction,
+  x2: fraction,
+  y2: fraction,
+});
+
+// Ellipse around an area, from its centre and radii
+export const CircleAnnotationSchema = z.object({
+  id: z.string(),
+  type: z.literal("circle"),
+  color: z.string(),
+  cx: fraction,
+  cy: fraction,
+  rx: fraction,
+  ry: fraction,
+});
+
+// Text label anchored at its bottom left corner
+export const TextAnnotationSchema = z.object({
+  id: z.string(),
+  type: z.literal("text"),
+  color: z.string(),
+  x: fraction,
+  y: fraction,
+  text: z.string().min(1, "Label text is required"),
+});
+
+export const ImageAnnotationSchema = z.discriminatedUnion("type", [
+  ArrowAnnotationSchema,
+  CircleAnnotationSchema,
+  TextAnnotationSchema,
+]);
+
+// Zod schema for saving the annotations of a photo
+export const PhotoAnnotationUpsertSchema = z.object({
+  bucket_name: z.string().min(1),
+  file_path: z.string().min(1),
+  annotations: z.array(ImageAnnotationSchema),
+  // Omitted when the annotations change, which clears the stale exported copy
+  flattened_path: z.string().nullable().optional(),
+});
+
+// Zod schema for photo annotation output
+export const PhotoAnnotationOutputSchema = z.object({
+  id: z.string().uuid(),
+  bucket_name: z.string(),
+  file_path: z.string(),
+  annotations: z.array(ImageAnnotationSchema),
+  flattened_path: z.string().nullable(),
+  updated_by_employee_id: z.string().uuid().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type ImageAnnotation = z.infer<typeof ImageAnnotationSchema>;
+export type ImageAnnotationType = ImageAnnotation["type"];
+export type PhotoAnnotationUpsert = z.infer<typeof PhotoAnnotationUpsertSchema>;
+export type PhotoAnnotation = z.infer<typeof PhotoAnnotationOutputSchema>;
+
+// Export types derived from tRPC
+export type PhotoAnnotationResult = RouterOutputs["photoAnnotation"]["getByPath"];
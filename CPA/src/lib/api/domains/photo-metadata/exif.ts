@@ -0,0 +1,184 @@
+// src/lib/api/domains/photo-metadata/exif.ts
+
+// Minimal EXIF reader for JPEG photos: capture time, GPS position and camera
+
+export interface PhotoExifData {
+  // ISO timestamp; EXIF times without an offset are read in the browser's time zone
+  capturedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+}
+
+const EMPTY_EXIF: PhotoExifData = {
+  capturedAt: null,
+  latitude: null,
+  longitude: null,
+  cameraMake: null,
+  cameraModel: null,
+};
+
+// The APP1 segment holding EXIF data sits at the start of the file and is at most 64KB
+const EXIF_SEARCH_BYTES = 128 * 1024;
+
+// TIFF tags used by the reader
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// TIFF field types
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+type TiffValue = string | number | number[];
+
+/**
+ * Read the entries of an image file directory into a map of tag to value
+ * @param view The file contents
+ * @param tiffStart Offset of the TIFF header, which IFD offsets are relative to
+ * @param ifdOffset Offset of the directory from the TIFF header
+ * @param littleEndian Byte order of the TIFF data
+ */
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): Map<number, TiffValue> {
+  const entries = new Map<number, TiffValue>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+
+    if (type === TYPE_ASCII) {
+      // Values of up to 4 bytes are stored in the entry itself
+      const offset = valueCount <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+      if (offset + valueCount > view.byteLength) continue;
+      let text = "";
+      for (let j = 0; j < valueCount; j++) {
+        const code = view.getUint8(offset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      entries.set(tag, text.trim());
+    } else if (type === TYPE_SHORT) {
+      entries.set(tag, view.getUint16(entry + 8, littleEndian));
+    } else if (type === TYPE_LONG) {
+      entries.set(tag, view.getUint32(entry + 8, littleEndian));
+    } else if (type === TYPE_RATIONAL) {
+      const offset = tiffStart + view.getUint32(entry + 8, littleEndian);
+      if (offset + valueCount * 8 > view.byteLength) continue;
+      const values: number[] = [];
+      for (let j = 0; j < valueCount; j++) {
+        const numerator = view.getUint32(offset + j * 8, littleEndian);
+        const denominator = view.getUint32(offset + j * 8 + 4, littleEndian);
+        values.push(denominator === 0 ? 0 : numerator / denominator);
+      }
+      entries.set(tag, values);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Convert an EXIF date ("YYYY:MM:DD HH:MM:SS") to an ISO timestamp
+ * @param value The EXIF date
+ * @param offset The EXIF time zone offset ("+02:00"), when the camera recorded one
+ */
+function parseExifDate(value: TiffValue | undefined, offset: TiffValue | undefined): string | null {
+  if (typeof value !== "string") return null;
+
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const date = typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+    : new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Convert EXIF degrees, minutes and seconds to signed decimal degrees
+ * @param value The three rationals
+ * @param ref The hemisphere (N, S, E or W)
+ */
+function parseGpsCoordinate(value: TiffValue | undefined, ref: TiffValue | undefined): number | null {
+  if (!Array.isArray(value) || value.length < 3) return null;
+
+  const [degrees = 0, minutes = 0, seconds = 0] = value;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === "S" || ref === "W" ? -decimal : decimal;
+}
+
+const asText = (value: TiffValue | undefined) => (typeof value === "string" && value ? value : null);
+
+/**
+ * Read the EXIF capture details of a photo
+ * Files that are not JPEGs or have no EXIF data, e.g. screenshots or photos sent
+ * through messaging apps, return empty details
+ * @param file The photo as selected by the user
+ */
+export async function readPhotoExif(file: Blob): Promise<PhotoExifData> {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return EMPTY_EXIF;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Image data follows the start of scan marker, so there is no EXIF segment
+      if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+
+      const length = view.getUint16(offset + 2);
+      // APP1 segments start with "Exif\0\0" followed by the TIFF header
+      if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+        const tiffStart = offset + 10;
+        const littleEndian = view.getUint16(tiffStart) === 0x4949;
+        const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+
+        const exifOffset = ifd0.get(TAG_EXIF_IFD);
+        const exif = typeof exifOffset === "number" ? readIfd(view, tiffStart, exifOffset, littleEndian) : new Map();
+        const gpsOffset = ifd0.get(TAG_GPS_IFD);
+        const gps = typeof gpsOffset === "number" ? readIfd(view, tiffStart, gpsOffset, littleEndian) : new Map();
+
+        const latitude = parseGpsCoordinate(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF));
+        const longitude = parseGpsCoordinate(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF));
+        // Cameras without a GPS fix write 0, 0
+        const hasPosition = latitude !== null && longitude !== null && (latitude !== 0 || longitude !== 0);
+
+        return {
+          capturedAt:
+            parseExifDate(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL)) ??
+            parseExifDate(ifd0.get(TAG_DATE_TIME), undefined),
+          latitude: hasPosition ? latitude : null,
+          longitude: hasPosition ? longitude : null,
+          cameraMake: asText(ifd0.get(TAG_MAKE)),
+          cameraModel: asText(ifd0.get(TAG_MODEL)),
+        };
+      }
+
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.error("Error reading photo EXIF data:", error);
+  }
+
+  return EMPTY_EXIF;
+}
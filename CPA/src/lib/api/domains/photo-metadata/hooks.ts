@@ -0,0 +1,50 @@
+// src/lib/api/domains/photo-metadata/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { photoMetadataQueries } from "./queries";
+import { photoMetadataMutations } from "./mutations";
+
+/**
+ * Hook for fetching the capture details of a photo
+ * @param bucketName The storage bucket of the photo
+ * @param filePath The photo as stored on its record
+ * @param options Additional query options
+ */
+export function usePhotoMetadata(bucketName: string, filePath: string, options?: any) {
+  return photoMetadataQueries.getByPath(bucketName, filePath, options);
+}
+
+/**
+ * Hook for fetching the capture details of every photo on a claim
+ * @param claimId The claim ID
+ * @param options Additional query options
+ */
+export function useClaimPhotoMetadata(claimId: string, options?: any) {
+  return photoMetadataQueries.getByClaim(claimId, options);
+}
+
+/**
+ * Hook for recording the capture details of an uploaded photo
+ */
+export function useRecordPhotoMetadata() {
+  const queryClient = useQueryClient();
+
+  return photoMetadataMutations.record({
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: getQueryKey(
+          apiClient.raw.photoMetadata.getByPath,
+          { bucket_name: data.bucket_name, file_path: data.file_path },
+          "query"
+        )
+      });
+
+      if (data.claim_id) {
+        queryClient.invalidateQueries({
+          queryKey: getQueryKey(apiClient.raw.photoMetadata.getByClaim, { claim_id: data.claim_id }, "query")
+        });
+      }
+    }
+  });
+}
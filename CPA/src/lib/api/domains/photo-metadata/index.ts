@@ -0,0 +1,15 @@
+// src/lib/api/domains/photo-metadata/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+export * from './exif';
+export * from './verification';
+
+// Export raw queries and mutations for advanced use cases
+import { photoMetadataQueries } from './queries';
+import { photoMetadataMutations } from './mutations';
+
+export const photoMetadataApi = {
+  queries: photoMetadataQueries,
+  mutations: photoMetadataMutations
+};
@@ -0,0 +1,30 @@
+// src/lib/api/domains/photo-metadata/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type PhotoMetadata, type PhotoMetadataRecord } from "./types";
+
+export const photoMetadataMutations = {
+  /**
+   * Record the capture details of an uploaded photo
+   * Warnings are shown instead of a success message, as recording happens with every upload
+   * @param options Mutation options
+   */
+  record: (options?: MutationOptions<PhotoMetadata, PhotoMetadataRecord>) =>
+    apiClient.mutation<PhotoMetadata, PhotoMetadataRecord>(
+      (mutationOptions) => apiClient.raw.photoMetadata.record.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          for (const warning of data.warnings) {
+            toast.warning(warning.message);
+          }
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to record photo details: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
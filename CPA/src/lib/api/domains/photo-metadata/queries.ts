@@ -0,0 +1,41 @@
+// src/lib/api/domains/photo-metadata/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type PhotoMetadata } from "./types";
+
+export const photoMetadataQueries = {
+  /**
+   * Get the capture details of a photo
+   * @param bucketName The storage bucket of the photo
+   * @param filePath The photo as stored on its record
+   * @param options Additional query options
+   */
+  getByPath: (bucketName: string, filePath: string, options?: QueryOptions<PhotoMetadata | null>) =>
+    apiClient.query<PhotoMetadata | null>(
+      (queryOptions) => apiClient.raw.photoMetadata.getByPath.useQuery(
+        { bucket_name: bucketName, file_path: filePath },
+        queryOptions
+      ),
+      {
+        enabled: !!bucketName && !!filePath,
+        ...options
+      }
+    ),
+
+  /**
+   * Get the capture details of every photo on a claim
+   * @param claimId The claim ID
+   * @param options Additional query options
+   */
+  getByClaim: (claimId: string, options?: QueryOptions<PhotoMetadata[]>) =>
+    apiClient.query<PhotoMetadata[]>(
+      (queryOptions) => apiClient.raw.photoMetadata.getByClaim.useQuery(
+        { claim_id: claimId },
+        queryOptions
+      ),
+      {
+        enabled: !!claimId,
+        ...options
+      }
+    ),
+};
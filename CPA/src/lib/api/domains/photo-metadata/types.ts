@@ -0,0 +1,55 @@
+// src/lib/api/domains/photo-metadata/types.ts
+import { z } from "zod";
+import { type RouterOutputs } from "@/lib/api/types";
+
+export const PhotoMetadataWarningTypeSchema = z.enum([
+  "missing_metadata",
+  "captured_before_appointment",
+  "far_from_appointment",
+]);
+
+export const PhotoMetadataWarningSchema = z.object({
+  type: PhotoMetadataWarningTypeSchema,
+  message: z.string(),
+});
+
+// Zod schema for recording the capture details of an uploaded photo
+export const PhotoMetadataRecordSchema = z.object({
+  bucket_name: z.string().min(1),
+  file_path: z.string().min(1),
+  // Photos outside a claim are recorded without appointment checks
+  claim_id: z.string().uuid().nullable(),
+  captured_at: z.string().datetime({ offset: true }).nullable(),
+  latitude: z.number().min(-90).max(90).nullable(),
+  longitude: z.number().min(-180).max(180).nullable(),
+  camera_make: z.string().nullable(),
+  camera_model: z.string().nullable(),
+});
+
+// Zod schema for photo metadata output
+export const PhotoMetadataOutputSchema = z.object({
+  id: z.string().uuid(),
+  bucket_name: z.string(),
+  file_path: z.string(),
+  claim_id: z.string().uuid().nullable(),
+  appointment_id: z.string().uuid().nullable(),
+  captured_at: z.string().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  camera_make: z.string().nullable(),
+  camera_model: z.string().nullable(),
+  distance_km: z.number().nullable(),
+  warnings: z.array(PhotoMetadataWarningSchema),
+  recorded_by_employee_id: z.string().uuid().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+// TypeScript types based on Zod schemas
+export type PhotoMetadataWarningType = z.infer<typeof PhotoMetadataWarningTypeSchema>;
+export type PhotoMetadataWarning = z.infer<typeof PhotoMetadataWarningSchema>;
+export type PhotoMetadataRecord = z.infer<typeof PhotoMetadataRecordSchema>;
+export type PhotoMetadata = z.infer<typeof PhotoMetadataOutputSchema>;
+
+// Export types derived from tRPC
+export type PhotoMetadataResult = RouterOutputs["photoMetadata"]["getByPath"];
@@ -0,0 +1,75 @@
+// src/lib/api/domains/photo-metadata/verification.ts
+import { type PhotoMetadataWarning } from "./types";
+
+// Photos taken further than this from the appointment address are flagged
+export const PHOTO_MAX_DISTANCE_KM = 2;
+
+// Allowance for assessors who arrive early and camera clocks that drift
+export const PHOTO_CAPTURE_GRACE_MINUTES = 60;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two coordinates
+ * @returns The distance in kilometres
+ */
+export function getDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Check a photo's capture details against its appointment
+ * Checks that need a detail the photo or appointment does not have are skipped
+ * @param photo The EXIF capture time and position of the photo
+ * @param appointment The appointment time and geocoded address
+ * @param distanceKm The distance between the photo and the appointment, when both positions are known
+ */
+export function getPhotoMetadataWarnings(
+  photo: { captured_at: string | null; latitude: number | null; longitude: number | null },
+  appointment: { appointment_datetime: string | null } | null,
+  distanceKm: number | null
+): PhotoMetadataWarning[] {
+  const warnings: PhotoMetadataWarning[] = [];
+
+  if (!photo.captured_at && (photo.latitude === null || photo.longitude === null)) {
+    warnings.push({
+      type: "missing_metadata",
+      message: "Photo has no capture time or GPS position; it may be a screenshot or an edited copy",
+    });
+  }
+
+  if (photo.captured_at && appointment?.appointment_datetime) {
+    const capturedAt = new Date(photo.captured_at);
+    const appointmentAt = new Date(appointment.appointment_datetime);
+    const minutesBefore = (appointmentAt.getTime() - capturedAt.getTime()) / (60 * 1000);
+    if (minutesBefore > PHOTO_CAPTURE_GRACE_MINUTES) {
+      // Messages are built on the server, so they state the gap rather than a local time
+      const gap = minutesBefore >= 48 * 60
+        ? `${Math.floor(minutesBefore / (24 * 60))} days`
+        : `${Math.floor(minutesBefore / 60)} hours`;
+      warnings.push({
+        type: "captured_before_appointment",
+        message: `Photo was taken ${gap} before the appointment`,
+      });
+    }
+  }
+
+  if (distanceKm !== null && distanceKm > PHOTO_MAX_DISTANCE_KM) {
+    warnings.push({
+      type: "far_from_appointment",
+      message: `Photo was taken ${distanceKm.toFixed(1)} km from the appointment address`,
+    });
+  }
+
+  return warnings;
+}
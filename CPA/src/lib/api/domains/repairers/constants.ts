@@ -0,0 +1,39 @@
+// src/lib/api/domains/repairers/constants.ts
+
+/**
+ * Constants for repairers domain
+ * Centralizes all cache-related constants for easier maintenance
+ */
+
+// Cache times
+export const CACHE_TIMES = {
+  // How long data stays fresh before refetching (when accessed)
+  STALE_TIME: {
+    LIST: 5 * 60 * 1000,     // 5 minutes
+    DETAILS: 20 * 60 * 1000, // 20 minutes
+  },
+
+  // How long data stays in cache after becoming unused
+  GC_TIME: {
+    LIST: 15 * 60 * 1000,    // 15 minutes
+    DETAILS: 60 * 60 * 1000, // 60 minutes
+  },
+};
+
+// Query keys for consistent cache management
+export const QUERY_KEYS = {
+  // Base key for all repairer queries
+  BASE: 'repairers' as const,
+  ALL: ['repairers'] as const,
+
+  // Keys for repairer by ID
+  BY_ID: (id: string) => ['repairers', 'byId', id] as const,
+
+  // tRPC-compatible query keys
+  TRPC: {
+    GET_BY_ID: (id: string) => [
+      ['trpc', 'repairer', 'getById'],
+      { input: { id }, type: 'query' }
+    ] as const,
+  }
+};
@@ -0,0 +1,96 @@
+// src/lib/api/domains/repairers/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { repairerQueries } from "./queries";
+import { repairerMutations } from "./mutations";
+import { QUERY_KEYS } from "./constants";
+import { type Repairer, type RepairerListParams } from "./types";
+
+/**
+ * Hook for fetching repairers with search and pagination
+ * @param params List parameters
+ * @param options Additional query options
+ */
+export function useRepairersList(params: RepairerListParams, options?: any) {
+  return repairerQueries.list(params, options);
+}
+
+/**
+ * Hook for searching active repairers, used by the repairer pickers
+ * @param query The search text
+ * @param options Additional query options
+ */
+export function useRepairerSearch(query: string, options?: any) {
+  return repairerQueries.search(query, options);
+}
+
+/**
+ * Hook for fetching a single repairer
+ * @param id The repairer ID
+ * @param options Additional query options
+ */
+export function useRepairer(id: string, options?: any) {
+  return repairerQueries.getById(id, options);
+}
+
+/**
+ * Returns a callback that refreshes the repairer lists, pickers and the changed repairer
+ */
+function useInvalidateRepairers() {
+  const queryClient = useQueryClient();
+
+  return (repairer: Repairer) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.repairer.list)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.repairer.search)
+    });
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.repairer.getById, { id: repairer.id }, "query")
+    });
+    queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.BY_ID(repairer.id)
+    });
+  };
+}
+
+/**
+ * Hook for creating a repairer
+ */
+export function useCreateRepairer() {
+  const invalidateRepairers = useInvalidateRepairers();
+
+  return repairerMutations.create({
+    onSuccess: (data) => {
+      invalidateRepairers(data);
+    }
+  });
+}
+
+/**
+ * Hook for updating a repairer
+ */
+export function useUpdateRepairer() {
+  const invalidateRepairers = useInvalidateRepairers();
+
+  return repairerMutations.update({
+    onSuccess: (data) => {
+      invalidateRepairers(data);
+    }
+  });
+}
+
+/**
+ * Hook for deactivating a repairer
+ */
+export function useDeactivateRepairer() {
+  const invalidateRepairers = useInvalidateRepairers();
+
+  return repairerMutations.deactivate({
+    onSuccess: (data) => {
+      invalidateRepairers(data);
+    }
+  });
+}
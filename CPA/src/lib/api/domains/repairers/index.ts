@@ -0,0 +1,14 @@
+// src/lib/api/domains/repairers/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './constants';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { repairerQueries } from './queries';
+import { repairerMutations } from './mutations';
+
+export const repairerApi = {
+  queries: repairerQueries,
+  mutations: repairerMutations
+};
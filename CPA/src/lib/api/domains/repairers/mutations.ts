@@ -0,0 +1,67 @@
+// src/lib/api/domains/repairers/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import { type Repairer, type RepairerCreate, type RepairerUpdate } from "./types";
+
+export const repairerMutations = {
+  /**
+   * Create a new repairer
+   * @param options Mutation options
+   */
+  create: (options?: MutationOptions<Repairer, RepairerCreate>) =>
+    apiClient.mutation<Repairer, RepairerCreate>(
+      (mutationOptions) => apiClient.raw.repairer.create.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Repairer created successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to create repairer: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update a repairer
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<Repairer, RepairerUpdate>) =>
+    apiClient.mutation<Repairer, RepairerUpdate>(
+      (mutationOptions) => apiClient.raw.repairer.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Repairer updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update repairer: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Deactivate a repairer
+   * @param options Mutation options
+   */
+  deactivate: (options?: MutationOptions<Repairer, { id: string }>) =>
+    apiClient.mutation<Repairer, { id: string }>(
+      (mutationOptions) => apiClient.raw.repairer.deactivate.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Repairer deactivated");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to deactivate repairer: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
@@ -0,0 +1,53 @@
+// src/lib/api/domains/repairers/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type Repairer, type RepairerListParams, type RepairerListResponse } from "./types";
+import { CACHE_TIMES } from "./constants";
+
+export const repairerQueries = {
+  /**
+   * Get repairers with search and pagination
+   * @param params List parameters
+   * @param options Additional query options
+   */
+  list: (params: RepairerListParams, options?: QueryOptions<RepairerListResponse>) =>
+    apiClient.query<RepairerListResponse>(
+      (queryOptions) => apiClient.raw.repairer.list.useQuery(params, queryOptions),
+      {
+        staleTime: CACHE_TIMES.STALE_TIME.LIST,
+        gcTime: CACHE_TIMES.GC_TIME.LIST,
+        ...options
+      }
+    ),
+
+  /**
+   * Search active repairers by name
+   * @param query The search text
+   * @param options Additional query options
+   */
+  search: (query: string, options?: QueryOptions<Repairer[]>) =>
+    apiClient.query<Repairer[]>(
+      (queryOptions) => apiClient.raw.repairer.search.useQuery({ query }, queryOptions),
+      {
+        staleTime: CACHE_TIMES.STALE_TIME.LIST,
+        gcTime: CACHE_TIMES.GC_TIME.LIST,
+        ...options
+      }
+    ),
+
+  /**
+   * Get repairer by ID
+   * @param id The repairer ID
+   * @param options Additional query options
+   */
+  getById: (id: string, options?: QueryOptions<Repairer>) =>
+    apiClient.query<Repairer>(
+      (queryOptions) => apiClient.raw.repairer.getById.useQuery({ id }, queryOptions),
+      {
+        enabled: !!id,
+        staleTime: CACHE_TIMES.STALE_TIME.DETAILS,
+        gcTime: CACHE_TIMES.GC_TIME.DETAILS,
+        ...options
+      }
+    ),
+};
@@ -0,0 +1,127 @@
+// src/lib/api/domains/repairers/types.ts
+import { z } from "zod";
+import { type RouterOutputs, type RouterInputs } from "@/lib/api/types";
+import { type PaginatedResponse } from "@/lib/api/types";
+
+// Types of services a repairer offers
+export enum RepairerType {
+  BODY_SHOP = "Body Shop",
+  MECHANICAL = "Mechanical",
+  ELECTRICAL = "Electrical",
+  SPECIALIST = "Specialist",
+}
+
+// Options for select inputs
+export const RepairerTypeOptions = [
+  { value: RepairerType.BODY_SHOP, label: "Body Shop" },
+  { value: RepairerType.MECHANICAL, label: "Mechanical" },
+  { value: RepairerType.ELECTRICAL, label: "Electrical" },
+  { value: RepairerType.SPECIALIST, label: "Specialist" },
+];
+
+// Estimate rates and the repairer default each one is pre-filled from
+export const REPAIRER_DEFAULT_RATE_FIELDS = {
+  panel_labor_rate: "default_panel_labor_rate",
+  strip_fit_labor_rate: "default_strip_fit_labor_rate",
+  mechanical_labor_rate: "default_mechanical_labor_rate",
+  electrical_labor_rate: "default_electrical_labor_rate",
+  paint_material_rate: "default_paint_material_rate",
+} as const;
+
+export type EstimateRateField = keyof typeof REPAIRER_DEFAULT_RATE_FIELDS;
+type RepairerDefaultRateField = (typeof REPAIRER_DEFAULT_RATE_FIELDS)[EstimateRateField];
+
+// Get the estimate rates a repairer has defaults for
+export function getRepairerDefaultRates(
+  repairer: Partial<Record<RepairerDefaultRateField, number | null>>
+): Partial<Record<EstimateRateField, number>> {
+  return Object.fromEntries(
+    Object.entries(REPAIRER_DEFAULT_RATE_FIELDS)
+      .map(([field, defaultField]) => [field, repairer[defaultField]])
+      .filter(([, rate]) => rate !== null && rate !== undefined)
+  );
+}
+
+// Zod schema for repairer list params
+export const RepairerListParamsSchema = z.object({
+  page: z.number().default(1),
+  limit: z.number().default(10),
+  search: z.string().optional(),
+  include_inactive: z.boolean().default(false),
+  sortBy: z.string().optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+// Zod schema for the repairer picker search
+export const RepairerSearchSchema = z.object({
+  query: z.string().default(""),
+  limit: z.number().int().positive().max(50).default(20),
+});
+
+// Zod schema for repairer creation
+export const RepairerCreateSchema = z.object({
+  name: z.string().min(1, "Repairer name is required"),
+  address: z.string().optional(),
+  province_id: z.string().uuid().optional(),
+  contact_person: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email("Please enter a valid email").optional().or(z.literal("")),
+  types: z.array(z.nativeEnum(RepairerType)).optional(),
+  is_globally_approved: z.boolean().default(false),
+  // Default rates, used to pre-fill estimates for this repairer
+  default_panel_labor_rate: z.number().nonnegative().optional(),
+  default_strip_fit_labor_rate: z.number().nonnegative().optional(),
+  default_mechanical_labor_rate: z.number().nonnegative().optional(),
+  default_electrical_labor_rate: z.number().nonnegative().optional(),
+  default_paint_material_rate: z.number().nonnegative().optional(),
+  notes: z.string().optional(),
+});
+
+// Zod schema for repairer update
+export const RepairerUpdateSchema = RepairerCreateSchema.partial().extend({
+  id: z.string().uuid(),
+});
+
+// Zod schema for repairer output
+export const RepairerOutputSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  address: z.string().nullable(),
+  province_id: z.string().uuid().nullable(),
+  contact_person: z.string().nullable(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  types: z.array(z.string()).nullable(),
+  is_globally_approved: z.boolean(),
+  is_active: z.boolean(),
+  default_panel_labor_rate: z.number().nullable(),
+  default_strip_fit_labor_rate: z.number().nullable(),
+  default_mechanical_labor_rate: z.number().nullable(),
+  default_electrical_labor_rate: z.number().nullable(),
+  default_paint_material_rate: z.number().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  updated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+});
+
+// Zod schema for repairer list response
+export const RepairerListResponseSchema = z.object({
+  items: z.array(RepairerOutputSchema),
+  pagination: z.object({
+    total: z.number(),
+    pages: z.number(),
+    current: z.number(),
+    hasMore: z.boolean()
+  })
+});
+
+// TypeScript types based on Zod schemas
+export type RepairerCreate = z.infer<typeof RepairerCreateSchema>;
+export type RepairerUpdate = z.infer<typeof RepairerUpdateSchema>;
+export type Repairer = z.infer<typeof RepairerOutputSchema>;
+export type RepairerListParams = z.input<typeof RepairerListParamsSchema>;
+export type RepairerListResponse = PaginatedResponse<Repairer>;
+
+// Export types derived from tRPC
+export type RepairerGetByIdInput = RouterInputs["repairer"]["getById"];
+export type RepairerSearchResult = RouterOutputs["repairer"]["search"];
@@ -0,0 +1,67 @@
+// src/lib/api/domains/vehicle-accessories/hooks.ts
+import { useQueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { apiClient } from "@/lib/api/client";
+import { vehicleAccessoryQueries } from "./queries";
+import { vehicleAccessoryMutations } from "./mutations";
+
+/**
+ * Hook for fetching the accessories fitted to a vehicle
+ * @param vehicleId The vehicle ID
+ * @param options Additional query options
+ */
+export function useVehicleAccessories(vehicleId: string, options?: any) {
+  return vehicleAccessoryQueries.getByVehicleId(vehicleId, options);
+}
+
+/**
+ * Returns a callback that invalidates the cached accessories of a vehicle
+ */
+function useInvalidateVehicleAccessories() {
+  const queryClient = useQueryClient();
+
+  return (vehicleId: string) => {
+    queryClient.invalidateQueries({
+      queryKey: getQueryKey(apiClient.raw.vehicleAccessory.getByVehicleId, { vehicle_id: vehicleId }, "query")
+    });
+  };
+}
+
+/**
+ * Hook for recording a new accessory
+ */
+export function useCreateVehicleAccessory() {
+  const invalidateVehicleAccessories = useInvalidateVehicleAccessories();
+
+  return vehicleAccessoryMutations.create({
+    onSuccess: (data) => {
+      invalidateVehicleAccessories(data.vehicle_id);
+    }
+  });
+}
+
+/**
+ * Hook for updating an accessory
+ */
+export function useUpdateVehicleAccessory() {
+  const invalidateVehicleAccessories = useInvalidateVehicleAccessories();
+
+  return vehicleAccessoryMutations.update({
+    onSuccess: (data) => {
+      invalidateVehicleAccessories(data.vehicle_id);
+    }
+  });
+}
+
+/**
+ * Hook for deleting an accessory
+ */
+export function useDeleteVehicleAccessory() {
+  const invalidateVehicleAccessories = useInvalidateVehicleAccessories();
+
+  return vehicleAccessoryMutations.delete({
+    onSuccess: (data) => {
+      invalidateVehicleAccessories(data.vehicle_id);
+    }
+  });
+}
@@ -0,0 +1,13 @@
+// src/lib/api/domains/vehicle-accessories/index.ts
+// Re-export everything for convenient imports
+export * from './types';
+export * from './hooks';
+
+// Export raw queries and mutations for advanced use cases
+import { vehicleAccessoryQueries } from './queries';
+import { vehicleAccessoryMutations } from './mutations';
+
+export const vehicleAccessoryApi = {
+  queries: vehicleAccessoryQueries,
+  mutations: vehicleAccessoryMutations
+};
@@ -0,0 +1,71 @@
+// src/lib/api/domains/vehicle-accessories/mutations.ts
+import { apiClient } from "@/lib/api/client";
+import { type MutationOptions } from "@/lib/api/client";
+import { toast } from "sonner";
+import {
+  type VehicleAccessory,
+  type VehicleAccessoryCreate,
+  type VehicleAccessoryUpdate
+} from "./types";
+
+export const vehicleAccessoryMutations = {
+  /**
+   * Record an accessory fitted to a vehicle
+   * @param options Mutation options
+   */
+  create: (options?: MutationOptions<VehicleAccessory, VehicleAccessoryCreate>) =>
+    apiClient.mutation<VehicleAccessory, VehicleAccessoryCreate>(
+      (mutationOptions) => apiClient.raw.vehicleAccessory.create.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Accessory added successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to add accessory: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Update an accessory
+   * @param options Mutation options
+   */
+  update: (options?: MutationOptions<VehicleAccessory, VehicleAccessoryUpdate>) =>
+    apiClient.mutation<VehicleAccessory, VehicleAccessoryUpdate>(
+      (mutationOptions) => apiClient.raw.vehicleAccessory.update.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Accessory updated successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to update accessory: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+
+  /**
+   * Delete an accessory
+   * @param options Mutation options
+   */
+  delete: (options?: MutationOptions<{ success: boolean; vehicle_id: string }, { id: string; vehicle_id: string }>) =>
+    apiClient.mutation<{ success: boolean; vehicle_id: string }, { id: string; vehicle_id: string }>(
+      (mutationOptions) => apiClient.raw.vehicleAccessory.delete.useMutation(mutationOptions),
+      {
+        ...options,
+        onSuccess: (data, variables) => {
+          toast.success("Accessory deleted successfully");
+          options?.onSuccess?.(data, variables);
+        },
+        onError: (error, variables) => {
+          toast.error(`Failed to delete accessory: ${error.message}`);
+          options?.onError?.(error, variables);
+        }
+      }
+    ),
+};
@@ -0,0 +1,20 @@
+// src/lib/api/domains/vehicle-accessories/queries.ts
+import { apiClient } from "@/lib/api/client";
+import { type QueryOptions } from "@/lib/api/client";
+import { type VehicleAccessory } from "./types";
+
+export const vehicleAccessoryQueries = {
+  /**
+   * Get all accessories fitted to a vehicle
+   * @param vehicleId The vehicle ID
+   * @param options Additional query options
+   */
+  getByVehicleId: (vehicleId: string, options?: QueryOptions<VehicleAccessory[]>) =>
+    apiClient.query<VehicleAccessory[]>(
+      (queryOptions) => apiClient.raw.vehicleAccessory.getByVehicleId.useQuery({ vehicle_id: vehicleId }, queryOptions),
+      {
+        enabled: !!vehicleId,
+        ...options
+      }
+    ),
+};
@@ -0,0 +1,65 @@
+// src/lib/api/domains/vehicle-accessories/types.ts
+import { z } from "zod";
+import { type RouterOutputs, type RouterInputs } from "@/lib/api/types";
+
+// Accessory condition enum
+export enum AccessoryCondition {
+  GOOD = "good",
+  DAMAGED = "damaged",
+  MISSING = "missing",
+}
+
+// Common accessory types; accessory_type is free text so anything else can be recorded
+export const AccessoryTypeOptions = [
+  { value: "Tow Bar", label: "Tow Bar" },
+  { value: "Mags", label: "Mags" },
+  { value: "Bull Bar", label: "Bull Bar" },
+  { value: "Nudge Bar", label: "Nudge Bar" },
+  { value: "Canopy", label: "Canopy" },
+  { value: "Tonneau Cover", label: "Tonneau Cover" },
+  { value: "Roof Rack", label: "Roof Rack" },
+  { value: "Spotlights", label: "Spotlights" },
+  { value: "Side Steps", label: "Side Steps" },
+];
+
+export const AccessoryConditionOptions = [
+  { value: AccessoryCondition.GOOD, label: "Good" },
+  { value: AccessoryCondition.DAMAGED, label: "Damaged" },
+  { value: AccessoryCondition.MISSING, label: "Missing" },
+];
+
+// Zod schema for accessory creation
+export const VehicleAccessoryCreateSchema = z.object({
+  vehicle_id: z.string().uuid(),
+  accessory_type: z.string().min(1, "Accessory type is required"),
+  description: z.string().nullable().optional(),
+  condition: z.nativeEnum(AccessoryCondition).nullable().optional(),
+  photo_path: z.string().nullable().optional(),
+});
+
+// Zod schema for accessory update
+export const VehicleAccessoryUpdateSchema = VehicleAccessoryCreateSchema.partial().extend({
+  id: z.string().uuid(),
+  vehicle_id: z.string().uuid(),
+});
+
+// Zod schema for accessory output
+export const VehicleAccessoryOutputSchema = z.object({
+  id: z.string().uuid(),
+  vehicle_id: z.string().uuid(),
+  accessory_type: z.string(),
+  description: z.string().nullable(),
+  condition: z.nativeEnum(AccessoryCondition).nullable(),
+  photo_path: z.string().nullable(),
+  created_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+  updated_at: z.string().nullable().transform(val => val ? new Date(val) : null),
+});
+
+// TypeScript types based on Zod schemas
+export type VehicleAccessoryCreate = z.infer<typeof VehicleAccessoryCreateSchema>;
+export type VehicleAccessoryUpdate = z.infer<typeof VehicleAccessoryUpdateSchema>;
+export type VehicleAccessory = z.infer<typeof VehicleAccessoryOutputSchema>;
+
+// Export types derived from tRPC
+export type VehicleAccessoryListInput = RouterInputs["vehicleAccessory"]["getByVehicleId"];
+export type VehicleAccessoryList = RouterOutputs["vehicleAccessory"]["getByVehicleId"];
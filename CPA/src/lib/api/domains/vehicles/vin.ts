@@ -0,0 +1,275 @@
+// src/lib/api/domains/vehicles/vin.ts
+
+// Offline VIN decoding (ISO 3779): format, check digit, manufacturer and model year
+
+// I, O and Q are never used in a VIN so they cannot be confused with 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// Check digit transliteration and position weights (49 CFR 565)
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year characters in position 10; the cycle repeats every 30 years
+const MODEL_YEAR_CHARACTERS = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+interface WmiManufacturer {
+  manufacturer: string;
+  // Vehicle makes sold under this manufacturer, compared with vehicles.make
+  makes: string[];
+}
+
+const TOYOTA: WmiManufacturer = { manufacturer: "Toyota", makes: ["toyota", "lexus"] };
+const VOLKSWAGEN: WmiManufacturer = { manufacturer: "Volkswagen", makes: ["volkswagen", "vw"] };
+const MERCEDES: WmiManufacturer = { manufacturer: "Mercedes-Benz", makes: ["mercedes", "mercedesbenz", "benz"] };
+const BMW: WmiManufacturer = { manufacturer: "BMW", makes: ["bmw"] };
+const FORD: WmiManufacturer = { manufacturer: "Ford", makes: ["ford"] };
+const NISSAN: WmiManufacturer = { manufacturer: "Nissan", makes: ["nissan", "datsun", "infiniti"] };
+const ISUZU: WmiManufacturer = { manufacturer: "Isuzu", makes: ["isuzu"] };
+const HYUNDAI: WmiManufacturer = { manufacturer: "Hyundai", makes: ["hyundai"] };
+const KIA: WmiManufacturer = { manufacturer: "Kia", makes: ["kia"] };
+const SUZUKI: WmiManufacturer = { manufacturer: "Suzuki", makes: ["suzuki", "maruti"] };
+const MITSUBISHI: WmiManufacturer = { manufacturer: "Mitsubishi", makes: ["mitsubishi"] };
+const HONDA: WmiManufacturer = { manufacturer: "Honda", makes: ["honda", "acura"] };
+const MAZDA: WmiManufacturer = { manufacturer: "Mazda", makes: ["mazda"] };
+const GENERAL_MOTORS: WmiManufacturer = { manufacturer: "General Motors", makes: ["chevrolet", "opel", "gmc", "buick", "cadillac", "holden"] };
+
+// World manufacturer identifiers (positions 1-3), with 2 character prefixes where a
+// manufacturer uses every third character
+const WMI_MANUFACTURERS: Record<string, WmiManufacturer> = {
+  // South Africa
+  AAV: VOLKSWAGEN,
+  AHT: TOYOTA,
+  AFA: FORD,
+  ADN: NISSAN,
+  ADM: GENERAL_MOTORS,
+  ACV: ISUZU,
+  ADB: MERCEDES,
+  ADD: BMW,
+  // Germany
+  WBA: BMW,
+  WBS: BMW,
+  WBY: BMW,
+  WMW: { manufacturer: "MINI", makes: ["mini"] },
+  WDB: MERCEDES,
+  WDC: MERCEDES,
+  WDD: MERCEDES,
+  W1K: MERCEDES,
+  W1N: MERCEDES,
+  W1V: MERCEDES,
+  WVW: VOLKSWAGEN,
+  WVG: VOLKSWAGEN,
+  WV1: VOLKSWAGEN,
+  WV2: VOLKSWAGEN,
+  WAU: { manufacturer: "Audi", makes: ["audi"] },
+  WUA: { manufacturer: "Audi", makes: ["audi"] },
+  WF0: FORD,
+  WP0: { manufacturer: "Porsche", makes: ["porsche"] },
+  WP1: { manufacturer: "Porsche", makes: ["porsche"] },
+  W0L: GENERAL_MOTORS,
+  // Rest of Europe
+  VF1: { manufacturer: "Renault", makes: ["renault"] },
+  VF3: { manufacturer: "Peugeot", makes: ["peugeot"] },
+  VF7: { manufacturer: "Citroën", makes: ["citroen"] },
+  ZFA: { manufacturer: "Fiat", makes: ["fiat"] },
+  ZAR: { manufacturer: "Alfa Romeo", makes: ["alfaromeo", "alfa"] },
+  TMB: { manufacturer: "Škoda", makes: ["skoda"] },
+  VSS: { manufacturer: "SEAT", makes: ["seat", "cupra"] },
+  YV1: { manufacturer: "Volvo", makes: ["volvo"] },
+  SAL: { manufacturer: "Land Rover", makes: ["landrover", "rangerover"] },
+  SAJ: { manufacturer: "Jaguar", makes: ["jaguar"] },
+  // Asia
+  JT: TOYOTA,
+  MR0: TOYOTA,
+  MHF: TOYOTA,
+  JN: NISSAN,
+  MNT: NISSAN,
+  JH: HONDA,
+  JM: MAZDA,
+  MM8: MAZDA,
+  JS: SUZUKI,
+  MA3: SUZUKI,
+  JF: { manufacturer: "Subaru", makes: ["subaru"] },
+  JA: ISUZU,
+  MPA: ISUZU,
+  JMB: MITSUBISHI,
+  JMY: MITSUBISHI,
+  MMB: MITSUBISHI,
+  MMC: MITSUBISHI,
+  KMH: HYUNDAI,
+  MAL: HYUNDAI,
+  KNA: KIA,
+  KND: KIA,
+  MAT: { manufacturer: "Tata", makes: ["tata"] },
+  MA1: { manufacturer: "Mahindra", makes: ["mahindra"] },
+  LGW: { manufacturer: "Great Wall", makes: ["greatwall", "gwm", "haval"] },
+  LVV: { manufacturer: "Chery", makes: ["chery"] },
+  // North America
+  "1FA": FORD,
+  "1FT": FORD,
+  "1FM": FORD,
+  "1G": GENERAL_MOTORS,
+  "1HG": HONDA,
+  "2T": TOYOTA,
+  "4T": TOYOTA,
+  "5YJ": { manufacturer: "Tesla", makes: ["tesla"] },
+};
+
+export interface DecodedVin {
+  vin: string;
+  // Format problems; a VIN with errors is not decoded further
+  errors: string[];
+  // null when the check digit is not mandatory for the region and does not match
+  checkDigitValid: boolean | null;
+  wmi: string | null;
+  manufacturer: string | null;
+  // Possible model years for position 10, newest first; only decoded when the check digit
+  // matches, as many manufacturers outside North America do not encode the year
+  modelYears: number[];
+}
+
+export type VinFlagType = "vin_invalid" | "vin_make_mismatch" | "vin_year_mismatch";
+
+export interface VinFlag {
+  type: VinFlagType;
+  message: string;
+}
+
+export const VIN_FLAG_TYPES: VinFlagType[] = ["vin_invalid", "vin_make_mismatch", "vin_year_mismatch"];
+
+// Upper case with spaces and dashes removed, as VINs are often captured in groups
+export const normalizeVin = (vin: string) => vin.replace(/[\s-]/g, "").toUpperCase();
+
+// Makes are compared without spacing, punctuation or case, e.g. "Mercedes-Benz" matches "mercedes benz"
+const normalizeMake = (make: string) => make.toLowerCase().normalize("NFD").replace(/[^a-z0-9]/g, "");
+
+/**
+ * Calculate the check digit (position 9) of a VIN
+ * @param vin A 17 character VIN
+ */
+export function calculateVinCheckDigit(vin: string): string {
+  const sum = vin.split("").reduce((total, character, index) => {
+    const value = /\d/.test(character) ? Number(character) : (TRANSLITERATION[character] ?? 0);
+    return total + value * (WEIGHTS[index] ?? 0);
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+/**
+ * Look up the manufacturer of a VIN from its world manufacturer identifier
+ * @param vin A normalized VIN
+ */
+function findManufacturer(vin: string): WmiManufacturer | null {
+  return WMI_MANUFACTURERS[vin.slice(0, 3)] ?? WMI_MANUFACTURERS[vin.slice(0, 2)] ?? null;
+}
+
+// The check digit is only mandatory for vehicles built for North America
+const isNorthAmerican = (vin: string) => /^[1-5]/.test(vin);
+
+/**
+ * Get the model years position 10 can stand for
+ * North American VINs use a letter in position 7 from 2010, which settles the 30 year cycle
+ * @param vin A normalized VIN
+ * @param latestYear The latest model year to consider
+ */
+function getModelYears(vin: string, latestYear: number): number[] {
+  const index = MODEL_YEAR_CHARACTERS.indexOf(vin.charAt(9));
+  if (index === -1) return [];
+
+  const years = [1980 + index, 2010 + index, 2040 + index].filter((year) => year <= latestYear);
+
+  if (isNorthAmerican(vin)) {
+    const isLaterCycle = /[A-Z]/.test(vin.charAt(6));
+    const cycleYears = years.filter((year) => (isLaterCycle ? year >= 2010 : year < 2010));
+    if (cycleYears.length > 0) return cycleYears.reverse();
+  }
+
+  return years.reverse();
+}
+
+/**
+ * Decode a VIN without any network lookup
+ * @param value The VIN as captured
+ */
+export function decodeVin(value: string): DecodedVin {
+  const vin = normalizeVin(value);
+  const decoded: DecodedVin = {
+    vin,
+    errors: [],
+    checkDigitValid: null,
+    wmi: null,
+    manufacturer: null,
+    modelYears: [],
+  };
+
+  if (vin.length !== 17) {
+    decoded.errors.push(`VIN must be 17 characters (${vin.length} entered)`);
+  }
+  if (/[IOQ]/.test(vin)) {
+    decoded.errors.push("VIN cannot contain the letters I, O or Q");
+  } else if (vin.length === 17 && !VIN_PATTERN.test(vin)) {
+    decoded.errors.push("VIN can only contain letters and digits");
+  }
+  if (decoded.errors.length > 0) return decoded;
+
+  const checkDigitMatches = calculateVinCheckDigit(vin) === vin.charAt(8);
+  if (isNorthAmerican(vin)) {
+    decoded.checkDigitValid = checkDigitMatches;
+    if (!checkDigitMatches) {
+      decoded.errors.push("VIN check digit does not match; a character may have been misread");
+    }
+  } else if (checkDigitMatches) {
+    decoded.checkDigitValid = true;
+  }
+
+  const manufacturer = findManufacturer(vin);
+  decoded.wmi = vin.slice(0, 3);
+  decoded.manufacturer = manufacturer?.manufacturer ?? null;
+  if (decoded.checkDigitValid) {
+    decoded.modelYears = getModelYears(vin, new Date().getFullYear() + 1);
+  }
+
+  return decoded;
+}
+
+/**
+ * Compare a VIN with the vehicle captured at claim creation
+ * Unknown manufacturers and missing vehicle details are not flagged
+ * @param value The VIN as captured during the inspection
+ * @param vehicle The make and year of the vehicle record
+ */
+export function getVinFlags(
+  value: string | null | undefined,
+  vehicle: { make?: string | null; year?: number | null }
+): VinFlag[] {
+  if (!value?.trim()) return [];
+
+  const decoded = decodeVin(value);
+  if (decoded.errors.length > 0) {
+    return [{ type: "vin_invalid", message: `VIN is not valid: ${decoded.errors.join("; ")}` }];
+  }
+
+  const flags: VinFlag[] = [];
+
+  const manufacturer = findManufacturer(decoded.vin);
+  const make = vehicle.make ? normalizeMake(vehicle.make) : "";
+  if (manufacturer && make && !manufacturer.makes.some((alias) => make.includes(alias) || alias.includes(make))) {
+    flags.push({
+      type: "vin_make_mismatch",
+      message: `VIN belongs to ${manufacturer.manufacturer} but the vehicle make is ${vehicle.make}`,
+    });
+  }
+
+  if (vehicle.year && decoded.modelYears.length > 0 && !decoded.modelYears.includes(vehicle.year)) {
+    flags.push({
+      type: "vin_year_mismatch",
+      message: `VIN model year is ${decoded.modelYears.join(" or ")} but the vehicle year is ${vehicle.year}`,
+    });
+  }
+
+  return flags;
+}
@@ -9,6 +9,16 @@ import { lookupRouter } from "@/server/api/routers/lookup";
 import { inspectionRouter } from "@/server/api/routers/inspection";
 import { logRouter } from "@/server/api/routers/log";
 import { estimateRouter } from "@/server/api/routers/estimate";
+import { damageRouter } from "@/server/api/routers/damage";
+import { additionalRouter } from "@/server/api/routers/additional";
+import { repairerRouter } from "@/server/api/routers/repairer";
+import { clientContactRouter } from "@/server/api/routers/clientContact";
+import { noteRouter } from "@/server/api/routers/note";
+import { inspectionTemplateRouter } from "@/server/api/routers/inspectionTemplate";
+import { vehicleAccessoryRouter } from "@/server/api/routers/vehicleAccessory";
+import { photoAnnotationRouter } from "@/server/api/routers/photoAnnotation";
+import { photoMetadataRouter } from "@/server/api/routers/photoMetadata";
+import { partCatalogueRouter } from "@/server/api/routers/partCatalogue";
 
 /**
  * This is the primary router for your server.
@@ -26,6 +36,16 @@ export const appRouter = createTRPCRouter({
 	inspection: inspectionRouter,
 	log: logRouter,
 	estimate: estimateRouter,
+	damage: damageRouter,
+	additional: additionalRouter,
+	repairer: repairerRouter,
+	clientContact: clientContactRouter,
+	note: noteRouter,
+	inspectionTemplate: inspectionTemplateRouter,
+	vehicleAccessory: vehicleAccessoryRouter,
+	photoAnnotation: photoAnnotationRouter,
+	photoMetadata: photoMetadataRouter,
+	partCatalogue: partCatalogueRouter,
 });
 
 // export type definition of API
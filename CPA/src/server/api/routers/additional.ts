@@ -0,0 +1,384 @@
+// src/server/api/routers/additional.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  AdditionalLineStatus,
+  AdditionalLineRequestSchema,
+  AdditionalLineUpdateSchema,
+  AdditionalLineRejectSchema,
+  AdditionalLineOutputSchema,
+} from "@/lib/api/domains/additionals/types";
+import { EstimateStatus } from "@/lib/api/domains/estimates/types";
+import { ClaimLogType } from "@/lib/api/domains/logs/types";
+import { createClaimLog } from "@/server/api/routers/log";
+import { TRPCError } from "@trpc/server";
+
+export const additionalRouter = createTRPCRouter({
+  // Get additional lines by estimate ID
+  getByEstimateId: publicProcedure
+    .input(z.object({ estimate_id: z.string().uuid() }))
+    .output(z.array(AdditionalLineOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("additional_lines")
+          .select("*")
+          .eq("estimate_id", input.estimate_id)
+          .order("sequence_number", { ascending: true });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch additional lines: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching additional lines:", error);
+        throw error;
+      }
+    }),
+
+  // Request a new additional line against an authorized estimate
+  request: protectedProcedure
+    .input(AdditionalLineRequestSchema)
+    .output(AdditionalLineOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data: estimate, error: estimateError } = await ctx.supabase
+          .from("estimates")
+          .select("id, claim_id, status, repairer_id, authorized_repairer_id")
+          .eq("id", input.estimate_id)
+          .single();
+
+        if (estimateError || !estimate) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Estimate not found",
+          });
+        }
+
+        if (estimate.status !== EstimateStatus.AUTHORIZED) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Additional lines can only be requested against an authorized estimate",
+          });
+        }
+
+        const requestedByRepairerId =
+          input.requested_by_repairer_id || estimate.authorized_repairer_id || estimate.repairer_id;
+
+        if (!requestedByRepairerId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "No repairer is linked to this estimate to request the additional",
+          });
+        }
+
+        // Get the next sequence number if not provided
+        let sequenceNumber = input.sequence_number;
+        if (!sequenceNumber) {
+          const { data: maxSeq, error: seqError } = await ctx.supabase
+            .from("additional_lines")
+            .select("sequence_number")
+            .eq("estimate_id", input.estimate_id)
+            .order("sequence_number", { ascending: false })
+            .limit(1)
+            .single();
+
+          if (seqError && seqError.code !== "PGRST116") { // PGRST116 is "no rows returned" which is fine
+            console.error("[additionalRouter.request] Error fetching max sequence number:", seqError);
+          }
+
+          sequenceNumber = (maxSeq?.sequence_number || 0) + 1;
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("additional_lines")
+          .insert({
+            ...input,
+            requested_by_repairer_id: requestedByRepairerId,
+            sequence_number: sequenceNumber,
+            status: AdditionalLineStatus.REQUESTED,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          console.error("[additionalRouter.request] Supabase error:", error);
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to request additional line: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await updateClaimPendingAdditionals(ctx, estimate.claim_id);
+        await createClaimLog(ctx, {
+          claim_id: estimate.claim_id,
+          log_type: ClaimLogType.ADDITIONAL_CREATED,
+          message: `Additional requested: ${data.description}`,
+          details: { additional_line_id: data.id, estimate_id: data.estimate_id },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("[additionalRouter.request] Error requesting additional line:", error);
+        throw error;
+      }
+    }),
+
+  // Update an additional line that is still awaiting a decision
+  update: protectedProcedure
+    .input(AdditionalLineUpdateSchema)
+    .output(AdditionalLineOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, ...updateData } = input;
+        await getRequestedAdditional(ctx, id);
+
+        const { data, error } = await ctx.supabase
+          .from("additional_lines")
+          .update(updateData)
+          .eq("id", id)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update additional line: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error updating additional line:", error);
+        throw error;
+      }
+    }),
+
+  // Delete an additional line that is still awaiting a decision
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const line = await getRequestedAdditional(ctx, input.id);
+
+        const { error } = await ctx.supabase
+          .from("additional_lines")
+          .delete()
+          .eq("id", input.id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to delete additional line: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await updateClaimPendingAdditionals(ctx, line.claim_id);
+
+        return { success: true };
+      } catch (error) {
+        console.error("Error deleting additional line:", error);
+        throw error;
+      }
+    }),
+
+  // Approve a requested additional line
+  approve: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(AdditionalLineOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const line = await getRequestedAdditional(ctx, input.id);
+
+        const { data, error } = await ctx.supabase
+          .from("additional_lines")
+          .update({
+            status: AdditionalLineStatus.APPROVED,
+            approved_or_rejected_by_employee_id: ctx.user.id,
+            approved_or_rejected_at: new Date().toISOString(),
+            rejection_reason: null,
+          })
+          .eq("id", input.id)
+          // Only the first of two concurrent decisions finds the line still requested
+          .eq("status", AdditionalLineStatus.REQUESTED)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: "A decision has already been made on this additional line",
+            });
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to approve additional line: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await updateClaimPendingAdditionals(ctx, line.claim_id);
+        await createClaimLog(ctx, {
+          claim_id: line.claim_id,
+          log_type: ClaimLogType.ADDITIONAL_APPROVED,
+          message: `Additional approved: ${data.description}`,
+          details: { additional_line_id: data.id, estimate_id: data.estimate_id },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error approving additional line:", error);
+        throw error;
+      }
+    }),
+
+  // Reject a requested additional line with a reason
+  reject: protectedProcedure
+    .input(AdditionalLineRejectSchema)
+    .output(AdditionalLineOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const line = await getRequestedAdditional(ctx, input.id);
+
+        const { data, error } = await ctx.supabase
+          .from("additional_lines")
+          .update({
+            status: AdditionalLineStatus.REJECTED,
+            approved_or_rejected_by_employee_id: ctx.user.id,
+            approved_or_rejected_at: new Date().toISOString(),
+            rejection_reason: input.rejection_reason,
+          })
+          .eq("id", input.id)
+          // Only the first of two concurrent decisions finds the line still requested
+          .eq("status", AdditionalLineStatus.REQUESTED)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: "A decision has already been made on this additional line",
+            });
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to reject additional line: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await updateClaimPendingAdditionals(ctx, line.claim_id);
+        await createClaimLog(ctx, {
+          claim_id: line.claim_id,
+          log_type: ClaimLogType.ADDITIONAL_REJECTED,
+          message: `Additional rejected: ${data.description}`,
+          details: {
+            additional_line_id: data.id,
+            estimate_id: data.estimate_id,
+            rejection_reason: input.rejection_reason,
+          },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error rejecting additional line:", error);
+        throw error;
+      }
+    }),
+});
+
+// Helper function to load an additional line that is still awaiting a decision,
+// together with the claim it belongs to
+async function getRequestedAdditional(ctx: any, id: string) {
+  const { data, error } = await ctx.supabase
+    .from("additional_lines")
+    .select("id, status, estimate_id, estimates(claim_id)")
+    .eq("id", id)
+    .single();
+
+  if (error || !data) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Additional line not found",
+    });
+  }
+
+  if (data.status !== AdditionalLineStatus.REQUESTED) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Additional line has already been ${data.status}`,
+    });
+  }
+
+  return {
+    id: data.id as string,
+    estimate_id: data.estimate_id as string,
+    claim_id: data.estimates.claim_id as string,
+  };
+}
+
+// Helper function to keep claims.has_pending_additionals in step with the
+// requested additional lines across all of the claim's estimates
+async function updateClaimPendingAdditionals(ctx: any, claimId: string) {
+  try {
+    const { data: estimates, error: estimatesError } = await ctx.supabase
+      .from("estimates")
+      .select("id")
+      .eq("claim_id", claimId);
+
+    if (estimatesError) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Failed to fetch estimates for claim ${claimId}: ${estimatesError.message}`,
+        cause: estimatesError,
+      });
+    }
+
+    const estimateIds = (estimates || []).map((estimate: { id: string }) => estimate.id);
+
+    let hasPendingAdditionals = false;
+    if (estimateIds.length > 0) {
+      const { count, error: countError } = await ctx.supabase
+        .from("additional_lines")
+        .select("id", { count: "exact", head: true })
+        .in("estimate_id", estimateIds)
+        .eq("status", AdditionalLineStatus.REQUESTED);
+
+      if (countError) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to count pending additionals for claim ${claimId}: ${countError.message}`,
+          cause: countError,
+        });
+      }
+
+      hasPendingAdditionals = (count || 0) > 0;
+    }
+
+    const { error: updateError } = await ctx.supabase
+      .from("claims")
+      .update({ has_pending_additionals: hasPendingAdditionals })
+      .eq("id", claimId);
+
+    if (updateError) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Failed to update pending additionals for claim ${claimId}: ${updateError.message}`,
+        cause: updateError,
+      });
+    }
+  } catch (error) {
+    console.error("Error updating claim pending additionals:", error);
+    throw error;
+  }
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { TRPCError } from "@trpc/server";
+import { ClaimStatus } from "@/lib/api/domains/claims/types";
+import { advanceClaimStatus } from "@/server/api/routers/claim";
 
 // Define location type enum
 const LocationTypeEnum = z.enum(["client", "tow yard", "workshop"]);
@@ -30,6 +32,7 @@ const AppointmentUpdateInputSchema = z.object({
   appointment_contact_phone: z.string(),
   special_instructions: z.string().nullable().optional(),
   appointment_status: z.string(),
+  repairer_id: z.string().uuid().nullable().optional(),
 });
 
 // Define input schema for updating just the appointment status
@@ -104,22 +107,8 @@ export const appointmentRouter = createTRPCRouter({
           });
         }
 
-        // Update claim status to "Appointed" if it's currently "New"
-        const { data: claimData, error: claimError } = await ctx.supabase
-          .from('claims')
-          .select('status')
-          .eq('id', input.claim_id)
-          .single();
-
-        if (!claimError && claimData && claimData.status === 'New') {
-          await ctx.supabase
-            .from('claims')
-            .update({
-              status: 'Appointed',
-              updated_by_employee_id: ctx.user.id
-            })
-            .eq('id', input.claim_id);
-        }
+        // Booking an appointment moves a new claim to "Appointed"
+        await advanceClaimStatus(ctx, input.claim_id, ClaimStatus.APPOINTED);
 
         // Validate the data against the schema
         return AppointmentOutputSchema.parse(data);
@@ -175,6 +164,10 @@ export const appointmentRouter = createTRPCRouter({
             appointment_contact_phone: updateData.appointment_contact_phone,
             special_instructions: updateData.special_instructions,
             appointment_status: updateData.appointment_status,
+            ...(updateData.repairer_id !== undefined ? { repairer_id: updateData.repairer_id } : {}),
+            // The address may have changed, so it is geocoded again when the next photo is checked
+            location_latitude: null,
+            location_longitude: null,
             updated_at: new Date().toISOString()
           })
           .eq('id', id)
@@ -259,23 +252,17 @@ export const appointmentRouter = createTRPCRouter({
             .neq('appointment_status', 'cancelled')
             .neq('appointment_status', 'completed');
 
-          // If no other active appointments and claim status is "Appointed", update to "New"
-          if (!countError && (!otherAppointments || otherAppointments.length === 0)) {
-            const { data: claimData, error: claimError } = await ctx.supabase
-              .from('claims')
-              .select('status')
-              .eq('id', claim_id)
-              .single();
+          if (countError) {
+            throw new TRPCError({
+              code: 'INTERNAL_SERVER_ERROR',
+              message: `Failed to check other appointments: ${countError.message}`,
+              cause: countError
+            });
+          }
 
-            if (!claimError && claimData && claimData.status === 'Appointed') {
-              await ctx.supabase
-                .from('claims')
-                .update({
-                  status: 'New',
-                  updated_by_employee_id: ctx.user.id
-                })
-                .eq('id', claim_id);
-            }
+          // Without other active appointments an "Appointed" claim goes back to "New"
+          if (!otherAppointments || otherAppointments.length === 0) {
+            await advanceClaimStatus(ctx, claim_id, ClaimStatus.NEW);
           }
         }
 
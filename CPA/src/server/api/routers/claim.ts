@@ -1,6 +1,14 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
-import { ClaimStatus, ClaimInstruction } from "@/lib/api/domains/claims/types";
+import {
+  ClaimStatus,
+  ClaimInstruction,
+  ClaimUpdateStatusInputSchema,
+  isValidClaimStatusTransition,
+} from "@/lib/api/domains/claims/types";
+import { EstimateStatus } from "@/lib/api/domains/estimates/types";
+import { ClaimLogType } from "@/lib/api/domains/logs/types";
+import { createClaimLog } from "@/server/api/routers/log";
 import { TRPCError } from "@trpc/server";
 
 // Define type of loss enum
@@ -115,10 +123,11 @@ const ClaimCountsOutputSchema = z.object({
 
 // Define schema for claim list params
 const ClaimListParamsSchema = z.object({
-  filter: z.enum(['active', 'additionals', 'frc', 'finalized', 'history']).default('active'),
+  filter: z.enum(['active', 'additionals', 'frc', 'finalized', 'history', 'all']).default('active'),
   page: z.number().default(1),
   limit: z.number().default(10),
   search: z.string().optional(),
+  client_id: z.string().uuid().optional(),
   sortBy: z.string().optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   _refresh: z.number().optional(), // Internal property to force refresh - ignored in the query
@@ -178,6 +187,7 @@ const ClaimWithVehicleInputSchema = z.object({
     time_of_loss: z.string().optional().nullable(),
     type_of_loss: TypeOfLossEnum.optional().nullable(),
     accident_description: z.string().optional().nullable(),
+    primary_client_contact_id: z.string().uuid().optional().nullable(),
     claims_handler_name: z.string().optional().nullable(),
     claims_handler_contact: z.string().optional().nullable(),
     claims_handler_email: z.string().email("Invalid email").optional().nullable(),
@@ -196,12 +206,6 @@ const ClaimUpdateInputSchema = z.object({
   instruction: z.nativeEnum(ClaimInstruction).optional(),
 });
 
-// Define input schema for updating status
-const ClaimUpdateStatusInputSchema = z.object({
-  id: z.string().uuid(),
-  status: z.nativeEnum(ClaimStatus),
-});
-
 // Define input schema for recording inspection
 // Note: This is kept for backward compatibility but new code should use the schema in the inspections domain
 const ClaimRecordInspectionInputSchema = z.object({
@@ -251,6 +255,18 @@ export const claimRouter = createTRPCRouter({
 
         console.log("[claimRouter] Successfully created claim with vehicle:", data);
 
+        // create_claim_with_vehicle does not know the contact column, so link the contact afterwards
+        if (input.claim.primary_client_contact_id) {
+          const { error: contactError } = await ctx.supabase
+            .from('claims')
+            .update({ primary_client_contact_id: input.claim.primary_client_contact_id })
+            .eq('id', data.id);
+
+          if (contactError) {
+            console.error("[claimRouter] Error linking client contact to claim:", contactError);
+          }
+        }
+
         // Fetch the created claim with its relations
         const { data: claimData, error: claimError } = await ctx.supabase
           .from('claims')
@@ -444,6 +460,11 @@ export const claimRouter = createTRPCRouter({
             break;
         }
 
+        // Limit to a single client's claims if provided
+        if (input.client_id) {
+          query = query.eq('client_id', input.client_id);
+        }
+
         // Add search condition if provided
         if (input.search) {
           // Use or() for search conditions
@@ -709,7 +730,31 @@ export const claimRouter = createTRPCRouter({
     .output(ClaimWithRelationsOutputSchema)
     .mutation(async ({ ctx, input }) => {
       try {
-        const { id, status } = input;
+        const { id, status, reason } = input;
+
+        const { data: currentClaim, error: currentError } = await ctx.supabase
+          .from('claims')
+          .select('id, status')
+          .eq('id', id)
+          .single();
+
+        if (currentError || !currentClaim) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `Claim ${id} not found`
+          });
+        }
+
+        const previousStatus = currentClaim.status as ClaimStatus;
+
+        if (!isValidClaimStatusTransition(previousStatus, status)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Cannot change claim status from "${previousStatus}" to "${status}"`
+          });
+        }
+
+        await assertClaimStatusGuards(ctx, id, status);
 
         // Add audit trail
         const { data, error } = await ctx.supabase
@@ -738,6 +783,13 @@ export const claimRouter = createTRPCRouter({
           });
         }
 
+        await createClaimLog(ctx, {
+          claim_id: id,
+          log_type: ClaimLogType.CLAIM_STATUS_CHANGED,
+          message: `Claim status changed from "${previousStatus}" to "${status}"`,
+          details: { from: previousStatus, to: status, ...(reason ? { reason } : {}) },
+        });
+
         // Map plural keys to singular and validate
         const mappedItem = {
           ...data,
@@ -947,3 +999,120 @@ export const claimRouter = createTRPCRouter({
       }
     }),
 });
+
+// Helper function to check the conditions a claim must meet before moving to a status
+async function assertClaimStatusGuards(ctx: any, claimId: string, status: ClaimStatus) {
+  if (status === ClaimStatus.REPORT_SENT) {
+    const { count: inspectionCount, error: inspectionError } = await ctx.supabase
+      .from('vehicle_inspections')
+      .select('id', { count: 'exact', head: true })
+      .eq('claim_id', claimId);
+
+    if (inspectionError) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: `Failed to check inspections for claim ${claimId}: ${inspectionError.message}`,
+        cause: inspectionError
+      });
+    }
+
+    if (!inspectionCount) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Cannot send the report before the vehicle has been inspected'
+      });
+    }
+
+    if (!(await hasEstimateWithStatus(ctx, claimId, [
+      EstimateStatus.SUBMITTED,
+      EstimateStatus.APPROVED,
+      EstimateStatus.AUTHORIZED,
+    ]))) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Cannot send the report before an estimate has been submitted'
+      });
+    }
+  }
+
+  if (status === ClaimStatus.AUTHORIZED) {
+    if (!(await hasEstimateWithStatus(ctx, claimId, [EstimateStatus.APPROVED, EstimateStatus.AUTHORIZED]))) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Cannot authorize the claim before an estimate has been approved'
+      });
+    }
+  }
+}
+
+// Helper function to check whether a claim has an estimate in one of the given statuses
+async function hasEstimateWithStatus(ctx: any, claimId: string, statuses: EstimateStatus[]) {
+  const { count, error } = await ctx.supabase
+    .from('estimates')
+    .select('id', { count: 'exact', head: true })
+    .eq('claim_id', claimId)
+    .in('status', statuses);
+
+  if (error) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: `Failed to check estimates for claim ${claimId}: ${error.message}`,
+      cause: error
+    });
+  }
+
+  return (count || 0) > 0;
+}
+
+// Move a claim to a status as a side effect of other work, such as booking an appointment or starting its inspection
+// The claim is left as it is when the transition table doesn't allow the move,
+// e.g. when it is already at or past the status or has been canceled
+export async function advanceClaimStatus(ctx: any, claimId: string, status: ClaimStatus) {
+  const { data: claim, error } = await ctx.supabase
+    .from('claims')
+    .select('id, status')
+    .eq('id', claimId)
+    .single();
+
+  if (error || !claim) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Claim ${claimId} not found`
+    });
+  }
+
+  const previousStatus = claim.status as ClaimStatus;
+  if (!isValidClaimStatusTransition(previousStatus, status)) return false;
+
+  await assertClaimStatusGuards(ctx, claimId, status);
+
+  // Only move the claim from the status that was checked
+  const { data: updated, error: updateError } = await ctx.supabase
+    .from('claims')
+    .update({
+      status: status,
+      updated_by_employee_id: ctx.user.id
+    })
+    .eq('id', claimId)
+    .eq('status', previousStatus)
+    .select('id');
+
+  if (updateError) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: `Failed to update status for claim ${claimId}: ${updateError.message}`,
+      cause: updateError
+    });
+  }
+
+  if (!updated || updated.length === 0) return false;
+
+  await createClaimLog(ctx, {
+    claim_id: claimId,
+    log_type: ClaimLogType.CLAIM_STATUS_CHANGED,
+    message: `Claim status changed from "${previousStatus}" to "${status}"`,
+    details: { from: previousStatus, to: status },
+  });
+
+  return true;
+}
@@ -1,33 +1,66 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  ClientListParamsSchema,
+  ClientListResponseSchema,
+  ClientOutputSchema,
+  ClientCreateSchema,
+  ClientUpdateSchema,
+  ClientCodeAvailabilitySchema,
+  ClientStatsSchema,
+} from "@/lib/api/domains/clients/types";
+import { ClaimStatus } from "@/lib/api/domains/claims/types";
 
-// Define schema for client output
-const ClientOutputSchema = z.object({
-  id: z.string().uuid(),
-  name: z.string(),
-  // Add more fields as needed
-});
+// Claim statuses that still need work
+const OPEN_CLAIM_STATUSES: ClaimStatus[] = [
+  ClaimStatus.NEW,
+  ClaimStatus.APPOINTED,
+  ClaimStatus.IN_PROGRESS,
+  ClaimStatus.REPORT_SENT,
+  ClaimStatus.AUTHORIZED,
+  ClaimStatus.FRC_REQUESTED,
+  ClaimStatus.FRC_ACTIVE,
+];
 
-// Define schema for client list response
-const ClientListResponseSchema = z.object({
-  items: z.array(ClientOutputSchema),
-  pagination: z.object({
-    total: z.number(),
-    pages: z.number(),
-    current: z.number(),
-    hasMore: z.boolean()
-  })
-});
+/**
+ * Check whether a client code is free to use
+ * @param excludeId The client being edited, whose own code does not count as taken
+ */
+async function isClientCodeAvailable(ctx: any, code: string, excludeId?: string) {
+  let query = ctx.supabase
+    .from('clients')
+    .select('id')
+    .eq('code', code);
 
-// Define input schema for client list params
-const ClientListParamsSchema = z.object({
-  page: z.number().default(1),
-  limit: z.number().default(10),
-  search: z.string().optional(),
-  sortBy: z.string().optional(),
-  sortOrder: z.enum(['asc', 'desc']).optional(),
-});
+  if (excludeId) {
+    query = query.neq('id', excludeId);
+  }
+
+  const { data, error } = await query.limit(1);
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to check client code: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return (data ?? []).length === 0;
+}
+
+/**
+ * Reject a client code that is already used, since job numbers are generated from it
+ */
+async function assertClientCodeAvailable(ctx: any, code: string, excludeId?: string) {
+  if (!(await isClientCodeAvailable(ctx, code, excludeId))) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `Client code ${code} is already in use`,
+    });
+  }
+}
 
 export const clientRouter = createTRPCRouter({
   // Get all clients
@@ -72,11 +105,11 @@ export const clientRouter = createTRPCRouter({
         // Start building the query
         let query = ctx.supabase
           .from('clients')
-          .select('id, name', { count: 'exact' });
+          .select('*', { count: 'exact' });
 
         // Add search condition if provided
         if (input.search) {
-          query = query.ilike('name', `%${input.search}%`);
+          query = query.or(`name.ilike.%${input.search}%,code.ilike.%${input.search}%`);
         }
 
         // Apply sorting and pagination
@@ -116,11 +149,17 @@ export const clientRouter = createTRPCRouter({
       try {
         const { data, error } = await ctx.supabase
           .from('clients')
-          .select('id, name')
+          .select('*')
           .eq('id', input.id)
           .single();
 
         if (error) {
+          if (error.code === 'PGRST116') {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Client not found",
+            });
+          }
           throw new Error(`Failed to fetch client: ${error.message}`);
         }
 
@@ -130,4 +169,169 @@ export const clientRouter = createTRPCRouter({
         throw error;
       }
     }),
+
+  // Check whether a client code is free, used to validate the client form
+  isCodeAvailable: publicProcedure
+    .input(ClientCodeAvailabilitySchema)
+    .output(z.boolean())
+    .query(async ({ ctx, input }) => {
+      try {
+        return await isClientCodeAvailable(ctx, input.code, input.exclude_id);
+      } catch (error) {
+        console.error("Error checking client code:", error);
+        throw error;
+      }
+    }),
+
+  // Get the claim KPIs of a client
+  getStats: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(ClientStatsSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from('claims')
+          .select('status, created_at')
+          .eq('client_id', input.id)
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch client stats: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        const claims: { status: ClaimStatus; created_at: string | null }[] = data ?? [];
+        const countWhere = (predicate: (status: ClaimStatus) => boolean) =>
+          claims.filter((claim) => predicate(claim.status)).length;
+
+        return {
+          total_claims: claims.length,
+          open_claims: countWhere((status) => OPEN_CLAIM_STATUSES.includes(status)),
+          finalized_claims: countWhere((status) => status === ClaimStatus.FRC_FINALIZED),
+          canceled_claims: countWhere((status) => status === ClaimStatus.CANCELED),
+          last_claim_at: claims[0]?.created_at ?? null,
+        };
+      } catch (error) {
+        console.error("Error fetching client stats:", error);
+        throw error;
+      }
+    }),
+
+  // Create a new client
+  create: protectedProcedure
+    .input(ClientCreateSchema)
+    .output(ClientOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertClientCodeAvailable(ctx, input.code);
+
+        const { data, error } = await ctx.supabase
+          .from('clients')
+          .insert({
+            ...input,
+            email: input.email || null,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create client: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return ClientOutputSchema.parse(data);
+      } catch (error) {
+        console.error("Error creating client:", error);
+        throw error;
+      }
+    }),
+
+  // Update an existing client; last_claim_sequence is left to the job number trigger
+  update: protectedProcedure
+    .input(ClientUpdateSchema)
+    .output(ClientOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, ...updateData } = input;
+
+        if (updateData.code) {
+          await assertClientCodeAvailable(ctx, updateData.code, id);
+        }
+
+        const { data, error } = await ctx.supabase
+          .from('clients')
+          .update({
+            ...updateData,
+            ...(updateData.email !== undefined ? { email: updateData.email || null } : {}),
+          })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update client: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return ClientOutputSchema.parse(data);
+      } catch (error) {
+        console.error("Error updating client:", error);
+        throw error;
+      }
+    }),
+
+  // Delete a client that has no claims
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(z.object({ success: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { count, error: countError } = await ctx.supabase
+          .from('claims')
+          .select('id', { count: 'exact', head: true })
+          .eq('client_id', input.id);
+
+        if (countError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to check client claims: ${countError.message}`,
+            cause: countError,
+          });
+        }
+
+        if ((count ?? 0) > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Clients with claims cannot be deleted",
+          });
+        }
+
+        const { error } = await ctx.supabase
+          .from('clients')
+          .delete()
+          .eq('id', input.id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to delete client: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        console.error("Error deleting client:", error);
+        throw error;
+      }
+    }),
 });
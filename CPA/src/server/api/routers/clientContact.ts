@@ -0,0 +1,172 @@
+// src/server/api/routers/clientContact.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  ClientContactListParamsSchema,
+  ClientContactCreateSchema,
+  ClientContactUpdateSchema,
+  ClientContactOutputSchema,
+} from "@/lib/api/domains/client-contacts/types";
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Clear the primary flag on the other contacts of a client, so each client has one primary contact
+ */
+async function clearOtherPrimaryContacts(ctx: any, clientId: string, contactId: string) {
+  const { error } = await ctx.supabase
+    .from("client_contacts")
+    .update({ is_primary: false })
+    .eq("client_id", clientId)
+    .neq("id", contactId)
+    .eq("is_primary", true);
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to update primary contact: ${error.message}`,
+      cause: error,
+    });
+  }
+}
+
+export const clientContactRouter = createTRPCRouter({
+  // Get the contacts of a client, primary contact first
+  listByClient: publicProcedure
+    .input(ClientContactListParamsSchema)
+    .output(z.array(ClientContactOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        let query = ctx.supabase
+          .from("client_contacts")
+          .select("*")
+          .eq("client_id", input.client_id);
+
+        if (!input.include_inactive) {
+          query = query.eq("is_active", true);
+        }
+
+        const { data, error } = await query
+          .order("is_primary", { ascending: false })
+          .order("full_name", { ascending: true });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch client contacts: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching client contacts:", error);
+        throw error;
+      }
+    }),
+
+  // Create a new client contact
+  create: protectedProcedure
+    .input(ClientContactCreateSchema)
+    .output(ClientContactOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("client_contacts")
+          .insert({
+            ...input,
+            email: input.email || null,
+            is_active: true,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create client contact: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        if (data.is_primary) {
+          await clearOtherPrimaryContacts(ctx, data.client_id, data.id);
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error creating client contact:", error);
+        throw error;
+      }
+    }),
+
+  // Update an existing client contact
+  update: protectedProcedure
+    .input(ClientContactUpdateSchema)
+    .output(ClientContactOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, ...updateData } = input;
+
+        const { data, error } = await ctx.supabase
+          .from("client_contacts")
+          .update({
+            ...updateData,
+            ...(updateData.email !== undefined ? { email: updateData.email || null } : {}),
+          })
+          .eq("id", id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Client contact not found",
+            });
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update client contact: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        if (updateData.is_primary) {
+          await clearOtherPrimaryContacts(ctx, data.client_id, data.id);
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error updating client contact:", error);
+        throw error;
+      }
+    }),
+
+  // Deactivate a client contact; claims keep the handler details copied from it
+  deactivate: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(ClientContactOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("client_contacts")
+          .update({ is_active: false, is_primary: false })
+          .eq("id", input.id)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to deactivate client contact: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error deactivating client contact:", error);
+        throw error;
+      }
+    }),
+});
@@ -0,0 +1,229 @@
+// src/server/api/routers/damage.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  DamageCreateSchema,
+  DamageUpdateSchema,
+  DamageOutputSchema,
+  DamagePhotoCreateSchema,
+  DamagePhotoOutputSchema,
+} from "@/lib/api/domains/damages/types";
+import { TRPCError } from "@trpc/server";
+
+// Photos are stored in the attachments table, linked to the damage by damage_id
+const DAMAGE_SELECT = "*, photos:attachments(id, damage_id, file_path, file_name, mime_type, file_size, created_at)";
+
+export const damageRouter = createTRPCRouter({
+  // Get all damages for a claim
+  getByClaimId: publicProcedure
+    .input(z.object({ claim_id: z.string().uuid() }))
+    .output(z.array(DamageOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("damages")
+          .select(DAMAGE_SELECT)
+          .eq("claim_id", input.claim_id)
+          .order("created_at", { ascending: true });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch damages: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching damages:", error);
+        throw error;
+      }
+    }),
+
+  // Get damage by ID
+  getById: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(DamageOutputSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("damages")
+          .select(DAMAGE_SELECT)
+          .eq("id", input.id)
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Damage not found",
+            });
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch damage: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error fetching damage:", error);
+        throw error;
+      }
+    }),
+
+  // Create a new damage record
+  create: protectedProcedure
+    .input(DamageCreateSchema)
+    .output(DamageOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("damages")
+          .insert(input)
+          .select(DAMAGE_SELECT)
+          .single();
+
+        if (error) {
+          console.error("[damageRouter.create] Supabase error:", error);
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create damage: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("[damageRouter.create] Error creating damage:", error);
+        throw error;
+      }
+    }),
+
+  // Update a damage record
+  update: protectedProcedure
+    .input(DamageUpdateSchema)
+    .output(DamageOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, claim_id, ...updateData } = input;
+
+        const { data, error } = await ctx.supabase
+          .from("damages")
+          .update(updateData)
+          .eq("id", id)
+          .eq("claim_id", claim_id)
+          .select(DAMAGE_SELECT)
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update damage: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error updating damage:", error);
+        throw error;
+      }
+    }),
+
+  // Delete a damage record
+  // Linked estimate lines and attachments keep their rows (ON DELETE SET NULL)
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data: damage } = await ctx.supabase
+          .from("damages")
+          .select("claim_id")
+          .eq("id", input.id)
+          .single();
+
+        if (!damage) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Damage not found",
+          });
+        }
+
+        const { error } = await ctx.supabase
+          .from("damages")
+          .delete()
+          .eq("id", input.id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to delete damage: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { success: true, claim_id: damage.claim_id as string };
+      } catch (error) {
+        console.error("Error deleting damage:", error);
+        throw error;
+      }
+    }),
+
+  // Attach an uploaded photo to a damage
+  addPhoto: protectedProcedure
+    .input(DamagePhotoCreateSchema)
+    .output(DamagePhotoOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("attachments")
+          .insert({
+            ...input,
+            uploaded_by_employee_id: ctx.user.id,
+          })
+          .select("id, damage_id, file_path, file_name, mime_type, file_size, created_at")
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to add damage photo: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error adding damage photo:", error);
+        throw error;
+      }
+    }),
+
+  // Remove a photo from a damage (the storage object is removed by the caller)
+  removePhoto: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { error } = await ctx.supabase
+          .from("attachments")
+          .delete()
+          .eq("id", input.id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to remove damage photo: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        console.error("Error removing damage photo:", error);
+        throw error;
+      }
+    }),
+});
@@ -7,9 +7,50 @@ import {
   EstimateLineCreateSchema,
   EstimateLineUpdateSchema,
   EstimateLineOutputSchema,
+  EstimateLineBatchUpsertSchema,
+  EstimateLineBatchResultSchema,
+  EstimateImportSchema,
+  EstimateSource,
+  EstimateRejectSchema,
+  EstimateAuthorizeSchema,
+  EstimateStatus,
+  isEstimateLocked,
 } from "@/lib/api/domains/estimates/types";
+import {
+  DEFAULT_PART_MARKUP_PERCENTAGE,
+  DEFAULT_SPECIAL_MARKUP_PERCENTAGE,
+  calculateEstimateTotals,
+  getLineCalculatedColumns,
+  roundCurrency,
+} from "@/lib/api/domains/estimates/calculation";
+import { AdditionalLineStatus } from "@/lib/api/domains/additionals/types";
+import { REPAIRER_DEFAULT_RATE_FIELDS, getRepairerDefaultRates } from "@/lib/api/domains/repairers/types";
+import { ClaimLogType } from "@/lib/api/domains/logs/types";
+import { createClaimLog } from "@/server/api/routers/log";
+import { recordEstimateInCatalogue } from "@/server/api/routers/partCatalogue";
 import { TRPCError } from "@trpc/server";
 
+// Workflow and final costing fields that start empty on a new revision
+const CLEARED_REVISION_FIELDS = {
+  approved_by_employee_id: null,
+  approved_at: null,
+  authorized_repairer_id: null,
+  authorized_at: null,
+  authorized_by_employee_id: null,
+  final_subtotal_parts: null,
+  final_subtotal_labor: null,
+  final_subtotal_paint_materials: null,
+  final_subtotal_sublet: null,
+  final_subtotal_other: null,
+  final_subtotal_special: null,
+  final_total_before_vat: null,
+  final_total_vat: null,
+  final_total_amount: null,
+  variance_amount: null,
+  final_costing_calculated_at: null,
+  final_costing_calculated_by_employee_id: null,
+};
+
 export const estimateRouter = createTRPCRouter({
   // Get estimate by claim ID
   getByClaimId: publicProcedure
@@ -44,6 +85,33 @@ export const estimateRouter = createTRPCRouter({
       }
     }),
 
+  // Get every version of a claim's estimate, newest first
+  getVersionsByClaimId: publicProcedure
+    .input(z.object({ claim_id: z.string().uuid() }))
+    .output(z.array(EstimateOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("estimates")
+          .select("*")
+          .eq("claim_id", input.claim_id)
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch estimate versions: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching estimate versions:", error);
+        throw error;
+      }
+    }),
+
   // Get estimate by ID
   getById: publicProcedure
     .input(z.object({ id: z.string().uuid() }))
@@ -83,11 +151,11 @@ export const estimateRouter = createTRPCRouter({
         // Ensure markup percentages have default values
         const estimateData = {
           ...input,
-          special_markup_percentage: input.special_markup_percentage || 25,
-          part_markup_percentage: input.part_markup_percentage || 25,
+          special_markup_percentage: input.special_markup_percentage || DEFAULT_SPECIAL_MARKUP_PERCENTAGE,
+          part_markup_percentage: input.part_markup_percentage || DEFAULT_PART_MARKUP_PERCENTAGE,
           created_by_employee_id: ctx.user.id,
-          status: "draft",
-          version: 1,
+          status: EstimateStatus.DRAFT,
+          version: await getNextEstimateVersion(ctx, input.claim_id, input.estimate_type),
         };
 
         console.log("[estimateRouter] Prepared estimate data:", estimateData);
@@ -116,6 +184,115 @@ export const estimateRouter = createTRPCRouter({
       }
     }),
 
+  // Create a new draft version of an estimate, copying its rates and lines
+  createRevision: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(EstimateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data: source, error: sourceError } = await ctx.supabase
+          .from("estimates")
+          .select("*")
+          .eq("id", input.id)
+          .single();
+
+        if (sourceError || !source) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Estimate not found",
+          });
+        }
+
+        // The authorized estimate stays the claim's working estimate; later changes are requested as additionals
+        if (source.status === EstimateStatus.AUTHORIZED) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "An authorized estimate cannot be revised; request additionals instead",
+          });
+        }
+
+        const { data: sourceLines, error: linesError } = await ctx.supabase
+          .from("estimate_lines")
+          .select("*")
+          .eq("estimate_id", input.id)
+          .order("sequence_number", { ascending: true });
+
+        if (linesError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch estimate lines: ${linesError.message}`,
+            cause: linesError,
+          });
+        }
+
+        const version = await getNextEstimateVersion(ctx, source.claim_id, source.estimate_type);
+
+        // Copy the estimate without its workflow and final costing state
+        const {
+          id: _id,
+          estimate_number: _estimateNumber,
+          created_at: _createdAt,
+          updated_at: _updatedAt,
+          ...estimateData
+        } = source;
+
+        const { data: revision, error } = await ctx.supabase
+          .from("estimates")
+          .insert({
+            ...estimateData,
+            ...CLEARED_REVISION_FIELDS,
+            status: EstimateStatus.DRAFT,
+            version,
+            created_by_employee_id: ctx.user.id,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create estimate revision: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        if (sourceLines && sourceLines.length > 0) {
+          // Copied lines keep a link to their source line, which version diffs match on
+          const lines = sourceLines.map(({ id: lineId, created_at: _lineCreatedAt, updated_at: _lineUpdatedAt, ...line }: any) => ({
+            ...line,
+            estimate_id: revision.id,
+            source_line_id: lineId,
+          }));
+
+          const { error: insertLinesError } = await ctx.supabase
+            .from("estimate_lines")
+            .insert(lines);
+
+          if (insertLinesError) {
+            // Don't leave a half-copied revision behind
+            await ctx.supabase.from("estimates").delete().eq("id", revision.id);
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to copy estimate lines: ${insertLinesError.message}`,
+              cause: insertLinesError,
+            });
+          }
+        }
+
+        await createClaimLog(ctx, {
+          claim_id: source.claim_id,
+          log_type: ClaimLogType.ESTIMATE_CREATED,
+          message: `Estimate revision ${version} created from version ${source.version}`,
+          details: { estimate_id: revision.id, source_estimate_id: source.id, version },
+        });
+
+        return revision;
+      } catch (error) {
+        console.error("Error creating estimate revision:", error);
+        throw error;
+      }
+    }),
+
   // Get estimate lines by estimate ID
   getLinesByEstimateId: publicProcedure
     .input(z.object({ estimate_id: z.string().uuid() }))
@@ -151,6 +328,8 @@ export const estimateRouter = createTRPCRouter({
       try {
         console.log("[estimateRouter.createLine] Creating estimate line with input:", JSON.stringify(input, null, 2));
 
+        await assertEstimateEditable(ctx, input.estimate_id);
+
         // Get the next sequence number if not provided
         if (!input.sequence_number) {
           console.log("[estimateRouter.createLine] Sequence number not provided, calculating next sequence number");
@@ -192,10 +371,10 @@ export const estimateRouter = createTRPCRouter({
         console.log("[estimateRouter.createLine] Line created successfully:", JSON.stringify(data, null, 2));
 
         // Update the estimate totals
-        await updateEstimateTotals(ctx, input.estimate_id);
+        const calculatedByLineId = await updateEstimateTotals(ctx, input.estimate_id, [data.id]);
         console.log("[estimateRouter.createLine] Estimate totals updated");
 
-        return data;
+        return { ...data, ...calculatedByLineId[data.id] };
       } catch (error) {
         console.error("[estimateRouter.createLine] Error creating estimate line:", error);
         throw error;
@@ -210,6 +389,21 @@ export const estimateRouter = createTRPCRouter({
       try {
         const { id, ...updateData } = input;
 
+        const { data: line } = await ctx.supabase
+          .from("estimate_lines")
+          .select("estimate_id")
+          .eq("id", id)
+          .single();
+
+        if (!line) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Estimate line not found",
+          });
+        }
+
+        await assertEstimateEditable(ctx, line.estimate_id);
+
         const { data, error } = await ctx.supabase
           .from("estimate_lines")
           .update(updateData)
@@ -226,9 +420,9 @@ export const estimateRouter = createTRPCRouter({
         }
 
         // Update the estimate totals
-        await updateEstimateTotals(ctx, data.estimate_id);
+        const calculatedByLineId = await updateEstimateTotals(ctx, data.estimate_id, [data.id]);
 
-        return data;
+        return { ...data, ...calculatedByLineId[data.id] };
       } catch (error) {
         console.error("Error updating estimate line:", error);
         throw error;
@@ -254,6 +448,8 @@ export const estimateRouter = createTRPCRouter({
           });
         }
 
+        await assertEstimateEditable(ctx, line.estimate_id);
+
         const { error } = await ctx.supabase
           .from("estimate_lines")
           .delete()
@@ -267,8 +463,8 @@ export const estimateRouter = createTRPCRouter({
           });
         }
 
-        // Update the estimate totals
-        await updateEstimateTotals(ctx, line.estimate_id);
+        // Update the estimate totals; the other lines are unchanged
+        await updateEstimateTotals(ctx, line.estimate_id, []);
 
         return { success: true };
       } catch (error) {
@@ -276,38 +472,614 @@ export const estimateRouter = createTRPCRouter({
         throw error;
       }
     }),
+
+  // Create, update and delete many lines in one request with a single totals recalculation
+  batchUpsertLines: protectedProcedure
+    .input(EstimateLineBatchUpsertSchema)
+    .output(EstimateLineBatchResultSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { estimate_id, create, update, delete_ids } = input;
+
+        await assertEstimateEditable(ctx, estimate_id);
+
+        const { data: existingLines, error: existingError } = await ctx.supabase
+          .from("estimate_lines")
+          .select("*")
+          .eq("estimate_id", estimate_id);
+
+        if (existingError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch estimate lines: ${existingError.message}`,
+            cause: existingError,
+          });
+        }
+
+        // Only lines of this estimate can be changed
+        const existingById = new Map((existingLines || []).map((line: any) => [line.id as string, line]));
+        const unknownIds = [...update.map((line) => line.id), ...delete_ids].filter((id) => !existingById.has(id));
+        if (unknownIds.length > 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Estimate lines not found: ${unknownIds.join(", ")}`,
+          });
+        }
+
+        // Upserts need complete rows, so the changes are merged into the stored lines
+        const updatedRows = update
+          .filter((line) => !delete_ids.includes(line.id))
+          .map(({ id, ...changes }) => ({ ...existingById.get(id), ...changes, id }));
+
+        let createdIds: string[] = [];
+        let failed = false;
+
+        // Undoes the line changes saved before a later step failed
+        const rollback = async () => {
+          if (createdIds.length > 0) {
+            await ctx.supabase.from("estimate_lines").delete().in("id", createdIds);
+          }
+          if (updatedRows.length > 0) {
+            await ctx.supabase
+              .from("estimate_lines")
+              .upsert(updatedRows.map((line) => existingById.get(line.id as string)));
+          }
+        };
+
+        try {
+          if (updatedRows.length > 0) {
+            const { error } = await ctx.supabase
+              .from("estimate_lines")
+              .upsert(updatedRows);
+
+            if (error) {
+              throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: `Failed to update estimate lines: ${error.message}`,
+                cause: error,
+              });
+            }
+          }
+
+          if (create.length > 0) {
+            const { data: created, error } = await ctx.supabase
+              .from("estimate_lines")
+              .insert(create.map((line) => ({ ...line, estimate_id })))
+              .select("id");
+
+            if (error) {
+              throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: `Failed to create estimate lines: ${error.message}`,
+                cause: error,
+              });
+            }
+
+            createdIds = (created || []).map((line: { id: string }) => line.id);
+          }
+
+          // Lines are deleted last, so a failed request can't leave the estimate missing lines
+          if (delete_ids.length > 0) {
+            const { error } = await ctx.supabase
+              .from("estimate_lines")
+              .delete()
+              .in("id", delete_ids);
+
+            if (error) {
+              throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: `Failed to delete estimate lines: ${error.message}`,
+                cause: error,
+              });
+            }
+          }
+        } catch (error) {
+          failed = true;
+          await rollback();
+          throw error;
+        } finally {
+          // The totals are recalculated from the saved lines, also when the changes were rolled back
+          const recalculation = updateEstimateTotals(
+            ctx,
+            estimate_id,
+            failed ? undefined : [...updatedRows.map((line) => line.id as string), ...createdIds]
+          );
+          // A failed recalculation is logged, but must not hide why the changes failed
+          await (failed ? recalculation.catch(() => undefined) : recalculation);
+        }
+
+        return await getEstimateWithLines(ctx, estimate_id);
+      } catch (error) {
+        console.error("Error applying estimate line changes:", error);
+        throw error;
+      }
+    }),
+
+  // Import the lines of a third-party repairer's quote in one batch
+  // Lines are added to an editable estimate, or to a new estimate when none is given
+  importThirdPartyQuote: protectedProcedure
+    .input(EstimateImportSchema)
+    .output(EstimateLineBatchResultSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        let estimateId: string;
+        let nextSequenceNumber = 1;
+        let existingLineIds: string[] = [];
+        // Undoes the estimate changes made before the lines were saved
+        let rollback: () => Promise<void>;
+
+        if (input.estimate_id) {
+          const targetEstimateId = input.estimate_id;
+          estimateId = targetEstimateId;
+          await assertEstimateEditable(ctx, targetEstimateId);
+
+          const { data: estimate, error: estimateError } = await ctx.supabase
+            .from("estimates")
+            .select("claim_id, estimate_source, repairer_id")
+            .eq("id", targetEstimateId)
+            .single();
+
+          if (estimateError || !estimate) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Estimate not found",
+            });
+          }
+
+          if (estimate.claim_id !== input.claim_id) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "The estimate does not belong to this claim",
+            });
+          }
+
+          const { data: existingLines, error: existingError } = await ctx.supabase
+            .from("estimate_lines")
+            .select("id, sequence_number")
+            .eq("estimate_id", targetEstimateId);
+
+          if (existingError) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to fetch estimate lines: ${existingError.message}`,
+              cause: existingError,
+            });
+          }
+
+          existingLineIds = (existingLines || []).map((line: { id: string }) => line.id);
+
+          // Imported lines follow the existing ones, unless those are replaced
+          if (!input.replace_existing_lines) {
+            nextSequenceNumber = Math.max(
+              0,
+              ...(existingLines || []).map((line: { sequence_number: number | null }) => line.sequence_number || 0)
+            ) + 1;
+          }
+
+          const { error: updateError } = await ctx.supabase
+            .from("estimates")
+            .update({
+              estimate_source: EstimateSource.THIRD_PARTY,
+              repairer_id: input.repairer_id,
+            })
+            .eq("id", targetEstimateId);
+
+          if (updateError) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to update estimate: ${updateError.message}`,
+              cause: updateError,
+            });
+          }
+
+          rollback = async () => {
+            await ctx.supabase
+              .from("estimates")
+              .update({
+                estimate_source: estimate.estimate_source,
+                repairer_id: estimate.repairer_id,
+              })
+              .eq("id", targetEstimateId);
+          };
+        } else {
+          // New estimates start from the repairer's default rates
+          const { data: repairer, error: repairerError } = await ctx.supabase
+            .from("repairers")
+            .select(Object.values(REPAIRER_DEFAULT_RATE_FIELDS).join(", "))
+            .eq("id", input.repairer_id)
+            .single();
+
+          if (repairerError || !repairer) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Repairer not found",
+            });
+          }
+
+          const parsedEstimate = EstimateCreateSchema.safeParse({
+            claim_id: input.claim_id,
+            estimate_source: EstimateSource.THIRD_PARTY,
+            repairer_id: input.repairer_id,
+            ...getRepairerDefaultRates(repairer),
+          });
+
+          if (!parsedEstimate.success) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `The repairer's default rates are not valid: ${parsedEstimate.error.issues
+                .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+                .join(", ")}`,
+              cause: parsedEstimate.error,
+            });
+          }
+
+          const estimateInput = parsedEstimate.data;
+
+          const { data: created, error: createError } = await ctx.supabase
+            .from("estimates")
+            .insert({
+              ...estimateInput,
+              special_markup_percentage: DEFAULT_SPECIAL_MARKUP_PERCENTAGE,
+              part_markup_percentage: DEFAULT_PART_MARKUP_PERCENTAGE,
+              created_by_employee_id: ctx.user.id,
+              status: EstimateStatus.DRAFT,
+              version: await getNextEstimateVersion(ctx, input.claim_id, estimateInput.estimate_type),
+            })
+            .select()
+            .single();
+
+          if (createError) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to create estimate: ${createError.message}`,
+              cause: createError,
+            });
+          }
+
+          const createdEstimateId = created.id as string;
+          estimateId = createdEstimateId;
+
+          // Don't leave an empty estimate behind
+          rollback = async () => {
+            await ctx.supabase.from("estimates").delete().eq("id", createdEstimateId);
+          };
+        }
+
+        const { data: importedLines, error: insertError } = await ctx.supabase
+          .from("estimate_lines")
+          .insert(
+            input.lines.map((line, index) => ({
+              ...line,
+              estimate_id: estimateId,
+              sequence_number: nextSequenceNumber + index,
+            }))
+          )
+          .select("id");
+
+        if (insertError) {
+          await rollback();
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to import estimate lines: ${insertError.message}`,
+            cause: insertError,
+          });
+        }
+
+        const importedIds = (importedLines || []).map((line: { id: string }) => line.id);
+
+        // Replaced lines are only deleted once the imported lines have been saved
+        if (input.replace_existing_lines && existingLineIds.length > 0) {
+          const { error: deleteError } = await ctx.supabase
+            .from("estimate_lines")
+            .delete()
+            .in("id", existingLineIds);
+
+          if (deleteError) {
+            await ctx.supabase.from("estimate_lines").delete().in("id", importedIds);
+            await rollback();
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to delete estimate lines: ${deleteError.message}`,
+              cause: deleteError,
+            });
+          }
+        }
+
+        await updateEstimateTotals(ctx, estimateId, importedIds);
+
+        await createClaimLog(ctx, {
+          claim_id: input.claim_id,
+          log_type: input.estimate_id ? ClaimLogType.ESTIMATE_UPDATED : ClaimLogType.ESTIMATE_CREATED,
+          message: `Imported ${input.lines.length} line${input.lines.length === 1 ? "" : "s"} from a third-party quote`,
+          details: {
+            estimate_id: estimateId,
+            repairer_id: input.repairer_id,
+            replaced_existing_lines: input.replace_existing_lines,
+          },
+        });
+
+        return await getEstimateWithLines(ctx, estimateId);
+      } catch (error) {
+        console.error("Error importing third-party quote:", error);
+        throw error;
+      }
+    }),
+
+  // Submit a draft or rejected estimate for internal approval; locks its lines
+  submit: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(EstimateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const estimate = await getEstimateForTransition(
+          ctx,
+          input.id,
+          [EstimateStatus.DRAFT, EstimateStatus.REJECTED],
+          "submitted"
+        );
+
+        const { count } = await ctx.supabase
+          .from("estimate_lines")
+          .select("id", { count: "exact", head: true })
+          .eq("estimate_id", input.id);
+
+        if (!count) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "An estimate needs at least one line before it can be submitted",
+          });
+        }
+
+        const data = await updateEstimateStatus(ctx, input.id, {
+          status: EstimateStatus.SUBMITTED,
+        });
+
+        await createClaimLog(ctx, {
+          claim_id: estimate.claim_id,
+          log_type: ClaimLogType.ESTIMATE_UPDATED,
+          message: "Estimate submitted for approval",
+          details: { estimate_id: input.id, from: estimate.status, to: EstimateStatus.SUBMITTED },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error submitting estimate:", error);
+        throw error;
+      }
+    }),
+
+  // Approve a submitted estimate
+  approve: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(EstimateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const estimate = await getEstimateForTransition(
+          ctx,
+          input.id,
+          [EstimateStatus.SUBMITTED],
+          "approved"
+        );
+
+        const data = await updateEstimateStatus(ctx, input.id, {
+          status: EstimateStatus.APPROVED,
+          approved_by_employee_id: ctx.user.id,
+          approved_at: new Date().toISOString(),
+        });
+
+        await createClaimLog(ctx, {
+          claim_id: estimate.claim_id,
+          log_type: ClaimLogType.ESTIMATE_UPDATED,
+          message: "Estimate approved",
+          details: { estimate_id: input.id, from: estimate.status, to: EstimateStatus.APPROVED },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error approving estimate:", error);
+        throw error;
+      }
+    }),
+
+  // Reject a submitted estimate, sending it back for changes
+  reject: protectedProcedure
+    .input(EstimateRejectSchema)
+    .output(EstimateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const estimate = await getEstimateForTransition(
+          ctx,
+          input.id,
+          [EstimateStatus.SUBMITTED],
+          "rejected"
+        );
+
+        const data = await updateEstimateStatus(ctx, input.id, {
+          status: EstimateStatus.REJECTED,
+          approved_by_employee_id: null,
+          approved_at: null,
+        });
+
+        await createClaimLog(ctx, {
+          claim_id: estimate.claim_id,
+          log_type: ClaimLogType.ESTIMATE_UPDATED,
+          message: `Estimate rejected: ${input.reason}`,
+          details: {
+            estimate_id: input.id,
+            from: estimate.status,
+            to: EstimateStatus.REJECTED,
+            reason: input.reason,
+          },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error rejecting estimate:", error);
+        throw error;
+      }
+    }),
+
+  // Authorize an approved estimate to a repairer
+  authorize: protectedProcedure
+    .input(EstimateAuthorizeSchema)
+    .output(EstimateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const estimate = await getEstimateForTransition(
+          ctx,
+          input.id,
+          [EstimateStatus.APPROVED],
+          "authorized"
+        );
+
+        const repairerId = input.repairer_id || estimate.repairer_id;
+
+        if (!repairerId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "A repairer is required to authorize the estimate",
+          });
+        }
+
+        const data = await updateEstimateStatus(ctx, input.id, {
+          status: EstimateStatus.AUTHORIZED,
+          authorized_repairer_id: repairerId,
+          authorized_at: new Date().toISOString(),
+          authorized_by_employee_id: ctx.user.id,
+        });
+
+        await createClaimLog(ctx, {
+          claim_id: estimate.claim_id,
+          log_type: ClaimLogType.ESTIMATE_UPDATED,
+          message: "Estimate authorized to repairer",
+          details: {
+            estimate_id: input.id,
+            from: estimate.status,
+            to: EstimateStatus.AUTHORIZED,
+            repairer_id: repairerId,
+          },
+        });
+
+        // Authorized lines teach the parts catalogue their descriptions, hours and prices
+        await recordEstimateInCatalogue(ctx, data);
+
+        return data;
+      } catch (error) {
+        console.error("Error authorizing estimate:", error);
+        throw error;
+      }
+    }),
+
+  // Calculate the final repair costing: original lines plus approved additionals
+  calculateFinalCosting: protectedProcedure
+    .input(z.object({ estimate_id: z.string().uuid() }))
+    .output(EstimateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data: estimate, error: estimateError } = await ctx.supabase
+          .from("estimates")
+          .select("*")
+          .eq("id", input.estimate_id)
+          .single();
+
+        if (estimateError || !estimate) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Estimate not found",
+          });
+        }
+
+        if (estimate.status !== EstimateStatus.AUTHORIZED) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Final costing can only be calculated for an authorized estimate",
+          });
+        }
+
+        const { data: lines, error: linesError } = await ctx.supabase
+          .from("estimate_lines")
+          .select("*")
+          .eq("estimate_id", input.estimate_id)
+          .eq("is_included", true);
+
+        if (linesError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch estimate lines: ${linesError.message}`,
+            cause: linesError,
+          });
+        }
+
+        const { data: additionalLines, error: additionalsError } = await ctx.supabase
+          .from("additional_lines")
+          .select("*")
+          .eq("estimate_id", input.estimate_id)
+          .eq("status", AdditionalLineStatus.APPROVED)
+          .eq("is_included", true);
+
+        if (additionalsError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch additional lines: ${additionalsError.message}`,
+            cause: additionalsError,
+          });
+        }
+
+        const totals = calculateEstimateTotals(estimate, [...(lines || []), ...(additionalLines || [])]);
+
+        const { data, error } = await ctx.supabase
+          .from("estimates")
+          .update({
+            final_subtotal_parts: totals.subtotalParts,
+            final_subtotal_labor: totals.subtotalLabor,
+            final_subtotal_paint_materials: totals.subtotalPaintMaterials,
+            final_subtotal_sublet: totals.subtotalSublet,
+            final_subtotal_other: totals.subtotalOther,
+            final_subtotal_special: totals.subtotalSpecial,
+            final_total_before_vat: totals.totalBeforeVat,
+            final_total_vat: totals.totalVat,
+            final_total_amount: totals.totalAmount,
+            variance_amount: roundCurrency(totals.totalAmount - (estimate.total_amount || 0)),
+            final_costing_calculated_at: new Date().toISOString(),
+            final_costing_calculated_by_employee_id: ctx.user.id,
+          })
+          .eq("id", input.estimate_id)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to save final costing: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await createClaimLog(ctx, {
+          claim_id: estimate.claim_id,
+          log_type: ClaimLogType.ESTIMATE_UPDATED,
+          message: "Final repair costing calculated",
+          details: {
+            estimate_id: estimate.id,
+            approved_additionals: additionalLines?.length || 0,
+            final_total_amount: totals.totalAmount,
+            variance_amount: data.variance_amount,
+          },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error calculating final costing:", error);
+        throw error;
+      }
+    }),
 });
 
-// Helper function to update estimate totals
-async function updateEstimateTotals(ctx: any, estimateId: string) {
+// Helper function to update estimate totals and the calculated columns of its lines
+// Only the calculated columns of the given lines are written; all lines when none are given
+// Returns the calculated columns by line ID
+async function updateEstimateTotals(ctx: any, estimateId: string, changedLineIds?: string[]) {
   try {
-    // Get all lines for this estimate
-    const { data: lines } = await ctx.supabase
-      .from("estimate_lines")
-      .select("*")
-      .eq("estimate_id", estimateId)
-      .eq("is_included", true);
-
-    if (!lines || lines.length === 0) {
-      // Reset totals to zero if no lines
-      await ctx.supabase
-        .from("estimates")
-        .update({
-          subtotal_parts: 0,
-          subtotal_labor: 0,
-          subtotal_paint_materials: 0,
-          subtotal_sublet: 0,
-          subtotal_other: 0,
-          subtotal_special: 0,
-          total_before_vat: 0,
-          total_vat: 0,
-          total_amount: 0,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", estimateId);
-      return;
-    }
-
     // Get the estimate for rates
     const { data: estimate } = await ctx.supabase
       .from("estimates")
@@ -322,83 +1094,192 @@ async function updateEstimateTotals(ctx: any, estimateId: string) {
       });
     }
 
-    // Calculate totals
-    let subtotalParts = 0;
-    let subtotalLabor = 0;
-    let subtotalPaintMaterials = 0;
-    let subtotalSublet = 0;
-    let subtotalOther = 0;
-    let subtotalSpecial = 0;
-
-    for (const line of lines) {
-      // Calculate part total with markup
-      if (line.part_cost && line.quantity) {
-        let partTotal = line.part_cost * line.quantity;
-
-        // Apply part markup only to parts
-        if (estimate.part_markup_percentage) {
-          partTotal += partTotal * (estimate.part_markup_percentage / 100);
-        }
-
-        subtotalParts += partTotal;
-      }
-
-      // Calculate labor total using single labor rate
-      const laborHours = (line.strip_fit_hours || 0) + (line.repair_hours || 0);
-      if (laborHours > 0 && estimate.panel_labor_rate) {
-        subtotalLabor += laborHours * estimate.panel_labor_rate;
-      }
-
-      // Calculate paint material total based on panel count, not hours
-      // No markup on paint materials
-      if (line.paint_hours && estimate.paint_material_rate) {
-        // Paint hours now represents panel count
-        subtotalPaintMaterials += line.paint_hours * estimate.paint_material_rate;
-      }
+    // Get all lines for this estimate; excluded lines keep their own totals but don't count
+    const { data: lines, error: fetchLinesError } = await ctx.supabase
+      .from("estimate_lines")
+      .select("*")
+      .eq("estimate_id", estimateId);
 
-      // Add sublet cost
-      if (line.sublet_cost) {
-        subtotalSublet += line.sublet_cost;
-      }
+    if (fetchLinesError) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Failed to fetch estimate lines: ${fetchLinesError.message}`,
+        cause: fetchLinesError,
+      });
+    }
 
-      // Handle special services with special markup
-      if (line.operation_code === 'SC' && line.sublet_cost) {
-        let specialCost = line.sublet_cost;
+    const calculatedByLineId: Record<string, ReturnType<typeof getLineCalculatedColumns>> = {};
+    for (const line of lines || []) {
+      calculatedByLineId[line.id] = getLineCalculatedColumns(estimate, line);
+    }
 
-        // Apply special markup if available
-        // Default to 15% if not set
-        const specialMarkupPercentage = estimate.special_markup_percentage || 15;
-        specialCost += specialCost * (specialMarkupPercentage / 100);
+    const changedLines = (lines || []).filter((line: any) => !changedLineIds || changedLineIds.includes(line.id));
+    if (changedLines.length > 0) {
+      const { error: linesError } = await ctx.supabase
+        .from("estimate_lines")
+        .upsert(changedLines.map((line: any) => ({ ...line, ...calculatedByLineId[line.id] })));
 
-        subtotalSpecial += specialCost;
-        // Remove from sublet since we're counting it in special
-        subtotalSublet -= line.sublet_cost;
+      if (linesError) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to update estimate line totals: ${linesError.message}`,
+          cause: linesError,
+        });
       }
     }
 
-    // Calculate totals
-    const totalBeforeVat = subtotalParts + subtotalLabor + subtotalPaintMaterials + subtotalSublet + subtotalOther + subtotalSpecial;
-    const totalVat = totalBeforeVat * (estimate.vat_rate_percentage / 100);
-    const totalAmount = totalBeforeVat + totalVat;
+    // Totals are reset to zero when no lines are included
+    const totals = calculateEstimateTotals(
+      estimate,
+      (lines || []).filter((line: any) => line.is_included)
+    );
 
     // Update the estimate
-    await ctx.supabase
+    const { error: totalsError } = await ctx.supabase
       .from("estimates")
       .update({
-        subtotal_parts: subtotalParts,
-        subtotal_labor: subtotalLabor,
-        subtotal_paint_materials: subtotalPaintMaterials,
-        subtotal_sublet: subtotalSublet,
-        subtotal_other: subtotalOther,
-        subtotal_special: subtotalSpecial,
-        total_before_vat: totalBeforeVat,
-        total_vat: totalVat,
-        total_amount: totalAmount,
+        subtotal_parts: totals.subtotalParts,
+        subtotal_labor: totals.subtotalLabor,
+        subtotal_panel_labor: totals.subtotalPanelLabor,
+        subtotal_strip_fit_labor: totals.subtotalStripFitLabor,
+        subtotal_mechanical_labor: totals.subtotalMechanicalLabor,
+        subtotal_electrical_labor: totals.subtotalElectricalLabor,
+        subtotal_paint_materials: totals.subtotalPaintMaterials,
+        subtotal_sublet: totals.subtotalSublet,
+        subtotal_other: totals.subtotalOther,
+        subtotal_special: totals.subtotalSpecial,
+        total_before_vat: totals.totalBeforeVat,
+        total_vat: totals.totalVat,
+        total_amount: totals.totalAmount,
         updated_at: new Date().toISOString(),
       })
       .eq("id", estimateId);
+
+    if (totalsError) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Failed to update estimate totals: ${totalsError.message}`,
+        cause: totalsError,
+      });
+    }
+
+    return calculatedByLineId;
   } catch (error) {
     console.error("Error updating estimate totals:", error);
     throw error;
   }
 }
+
+// Helper function to load an estimate and check it can move to a new status
+async function getEstimateForTransition(
+  ctx: any,
+  id: string,
+  allowedStatuses: EstimateStatus[],
+  action: string
+) {
+  const { data, error } = await ctx.supabase
+    .from("estimates")
+    .select("id, claim_id, status, repairer_id")
+    .eq("id", id)
+    .single();
+
+  if (error || !data) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Estimate not found",
+    });
+  }
+
+  if (!allowedStatuses.includes(data.status)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${data.status} estimate cannot be ${action}`,
+    });
+  }
+
+  return data as { id: string; claim_id: string; status: EstimateStatus; repairer_id: string | null };
+}
+
+// Helper function to update an estimate's status fields and return the estimate
+async function updateEstimateStatus(ctx: any, id: string, updateData: Record<string, unknown>) {
+  const { data, error } = await ctx.supabase
+    .from("estimates")
+    .update(updateData)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to update estimate status: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return data;
+}
+
+// Helper function to reject line changes once an estimate has been submitted
+async function assertEstimateEditable(ctx: any, estimateId: string) {
+  const { data: estimate } = await ctx.supabase
+    .from("estimates")
+    .select("status")
+    .eq("id", estimateId)
+    .single();
+
+  if (!estimate) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Estimate not found",
+    });
+  }
+
+  if (isEstimateLocked(estimate.status)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Estimate lines cannot be changed once the estimate is ${estimate.status}`,
+    });
+  }
+}
+
+// Helper function to fetch an estimate with its lines in order, after line changes
+async function getEstimateWithLines(ctx: any, estimateId: string) {
+  const [{ data: estimate, error: estimateError }, { data: lines, error: linesError }] = await Promise.all([
+    ctx.supabase.from("estimates").select("*").eq("id", estimateId).single(),
+    ctx.supabase
+      .from("estimate_lines")
+      .select("*")
+      .eq("estimate_id", estimateId)
+      .order("sequence_number", { ascending: true }),
+  ]);
+
+  if (estimateError || linesError) {
+    const error = estimateError || linesError;
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch the updated estimate: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return { estimate, lines: lines || [] };
+}
+
+// Helper function to get the next version number for a claim's estimates of a type
+async function getNextEstimateVersion(ctx: any, claimId: string, estimateType: string) {
+  const { data, error } = await ctx.supabase
+    .from("estimates")
+    .select("version")
+    .eq("claim_id", claimId)
+    .eq("estimate_type", estimateType)
+    .order("version", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error && error.code !== "PGRST116") { // PGRST116 is "no rows returned" which is fine
+    console.error("Error fetching latest estimate version:", error);
+  }
+
+  return (data?.version || 0) + 1;
+}
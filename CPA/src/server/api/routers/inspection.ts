@@ -4,55 +4,161 @@ import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import {
   InspectionCreateInputSchema,
   InspectionOutputSchema,
+  InspectionSaveOutputSchema,
   InspectionGetByClaimInputSchema,
-  InspectionGetByIdInputSchema
+  InspectionGetByIdInputSchema,
+  InspectionUpdateInputSchema,
+  InspectionStatus,
+  type InspectionCreateInput,
+  type InspectionFlag
 } from "@/lib/api/domains/inspections/types";
+import { getMissingInspectionPhotos } from "@/lib/api/domains/inspections/requirements";
+import { findUnpersistedFields } from "@/lib/api/domains/inspections/persistence";
+import { getVinFlags, VIN_FLAG_TYPES, type VinFlagType } from "@/lib/api/domains/vehicles/vin";
 import { TRPCError } from "@trpc/server";
 import { ClaimStatus } from "@/lib/api/domains/claims/types";
+import { ClaimLogType } from "@/lib/api/domains/logs/types";
+import { createClaimLog } from "@/server/api/routers/log";
+import { advanceClaimStatus } from "@/server/api/routers/claim";
+import { getClaimTemplateSections } from "@/server/api/routers/inspectionTemplate";
+
+// DATE columns are written as YYYY-MM-DD so they read back unchanged
+const toDateColumn = (date: Date) => date.toISOString().split("T")[0];
+
+// Map inspection input onto vehicle_inspections columns; every submitted field is stored as sent
+// Empty strings clear a text column, so a draft update can remove a photo or value
+function toInspectionRow(input: Partial<InspectionCreateInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = Object.fromEntries(
+    Object.entries(input).map(([field, value]) => [field, value === "" ? null : value])
+  );
+
+  if (input.license_disc_expiry !== undefined) {
+    row.license_disc_expiry = input.license_disc_expiry ? toDateColumn(input.license_disc_expiry) : null;
+  }
+
+  return row;
+}
+
+// Log and return the submitted fields that did not read back as sent
+// The write has already been committed, so the client is told which fields to check instead of the save failing
+function checkPersistedFields(inspectionId: string, row: Record<string, unknown>, persisted: Record<string, unknown>) {
+  const unpersistedFields = findUnpersistedFields(row, persisted);
+  if (unpersistedFields.length > 0) {
+    console.error(`Inspection ${inspectionId} was saved without: ${unpersistedFields.join(", ")}`);
+  }
+  return unpersistedFields;
+}
+
+// Fetch an inspection or throw NOT_FOUND
+async function getInspectionOrThrow(ctx: any, id: string) {
+  const { data, error } = await ctx.supabase
+    .from("vehicle_inspections")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Inspection not found",
+      });
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to get inspection: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return data;
+}
+
+// Recheck the captured VIN against the make and year of the vehicle record
+// Flags of other kinds are kept as they are
+async function getInspectionFlags(
+  ctx: any,
+  vehicleId: string,
+  vin: string | null | undefined,
+  currentFlags: InspectionFlag[] = []
+): Promise<InspectionFlag[]> {
+  const { data: vehicle, error } = await ctx.supabase
+    .from("vehicles")
+    .select("make, year")
+    .eq("id", vehicleId)
+    .single();
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch vehicle: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return [
+    ...currentFlags.filter((flag) => !VIN_FLAG_TYPES.includes(flag.type as VinFlagType)),
+    ...getVinFlags(vin, vehicle),
+  ];
+}
+
+// Whether the current user's profile has the admin role
+async function isAdmin(ctx: any) {
+  const { data, error } = await ctx.supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", ctx.user.id)
+    .single();
+
+  if (error) {
+    console.error("Error fetching profile role:", error);
+    return false;
+  }
+
+  return data?.role === "admin";
+}
 
 export const inspectionRouter = createTRPCRouter({
   // Create a new inspection
   create: protectedProcedure
     .input(InspectionCreateInputSchema)
-    .output(InspectionOutputSchema)
+    .output(InspectionSaveOutputSchema)
     .mutation(async ({ ctx, input }) => {
       try {
-        // Start a transaction
+        // A claim has a single inspection, which is saved as a draft until it is completed
+        const { data: existing, error: existingError } = await ctx.supabase
+          .from("vehicle_inspections")
+          .select("id")
+          .eq("claim_id", input.claim_id)
+          .limit(1);
+
+        if (existingError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to check for an existing inspection: ${existingError.message}`,
+            cause: existingError,
+          });
+        }
+
+        if (existing && existing.length > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This claim already has an inspection; update it instead",
+          });
+        }
+
+        const row = {
+          ...toInspectionRow(input),
+          flags: await getInspectionFlags(ctx, input.vehicle_id, input.vin_number),
+        };
+
         const { data: inspection, error: inspectionError } = await ctx.supabase
           .from("vehicle_inspections")
           .insert({
-            claim_id: input.claim_id,
-            vehicle_id: input.vehicle_id,
+            ...row,
             inspection_datetime: new Date().toISOString(),
             inspector_id: ctx.user.id,
-
-            // Registration details
-            registration_number: input.registration_number,
-            registration_photo_path: input.registration_photo_path,
-
-            // License disc details
-            license_disc_present: input.license_disc_present,
-            license_disc_expiry: input.license_disc_expiry,
-            license_disc_photo_path: input.license_disc_photo_path,
-
-            // VIN details
-            vin_number: input.vin_number,
-            vin_dash_photo_path: input.vin_dash_photo_path,
-            vin_plate_photo_path: input.vin_plate_photo_path,
-            vin_number_photo_path: input.vin_number_photo_path,
-
-            // 360 view photos
-            front_view_photo_path: input.front_view_photo_path,
-            right_front_view_photo_path: input.right_front_view_photo_path,
-            right_side_view_photo_path: input.right_side_view_photo_path,
-            right_rear_view_photo_path: input.right_rear_view_photo_path,
-            rear_view_photo_path: input.rear_view_photo_path,
-            left_rear_view_photo_path: input.left_rear_view_photo_path,
-            left_side_view_photo_path: input.left_side_view_photo_path,
-            left_front_view_photo_path: input.left_front_view_photo_path,
-
-            // Notes
-            notes: input.notes,
+            status: InspectionStatus.DRAFT,
           })
           .select("*")
           .single();
@@ -65,30 +171,201 @@ export const inspectionRouter = createTRPCRouter({
           });
         }
 
-        // Update the claim status to IN_PROGRESS
-        const { error: claimError } = await ctx.supabase
-          .from("claims")
+        const unpersistedFields = checkPersistedFields(inspection.id, row, inspection);
+
+        // Starting the inspection moves the claim to IN_PROGRESS when the transition table allows it
+        await advanceClaimStatus(ctx, input.claim_id, ClaimStatus.IN_PROGRESS);
+
+        await createClaimLog(ctx, {
+          claim_id: input.claim_id,
+          log_type: ClaimLogType.INSPECTION_STARTED,
+          message: "Inspection started",
+          details: { inspection_id: inspection.id },
+        });
+
+        return { ...inspection, unpersisted_fields: unpersistedFields };
+      } catch (error) {
+        console.error("Error in create inspection procedure:", error);
+        throw error;
+      }
+    }),
+
+  // Save changes to a draft inspection; only the submitted fields are written
+  update: protectedProcedure
+    .input(InspectionUpdateInputSchema)
+    .output(InspectionSaveOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, expected_updated_at, ...fields } = input;
+        const existing = await getInspectionOrThrow(ctx, id);
+
+        if (existing.status === InspectionStatus.COMPLETED) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Completed inspections are read-only; reopen the inspection to change it",
+          });
+        }
+
+        if (
+          expected_updated_at &&
+          existing.updated_at &&
+          new Date(existing.updated_at).getTime() !== new Date(expected_updated_at).getTime()
+        ) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "The inspection was changed by someone else after these changes were made",
+          });
+        }
+
+        const row = toInspectionRow(fields);
+        if (fields.vin_number !== undefined) {
+          row.flags = await getInspectionFlags(ctx, existing.vehicle_id, fields.vin_number, existing.flags ?? []);
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("vehicle_inspections")
+          .update(row)
+          .eq("id", id)
+          .select("*")
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update inspection: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { ...data, unpersisted_fields: checkPersistedFields(id, row, data) };
+      } catch (error) {
+        console.error("Error in update inspection procedure:", error);
+        throw error;
+      }
+    }),
+
+  // Complete an inspection once every section has its required photos
+  complete: protectedProcedure
+    .input(InspectionGetByIdInputSchema)
+    .output(InspectionOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const inspection = await getInspectionOrThrow(ctx, input.id);
+
+        if (inspection.status === InspectionStatus.COMPLETED) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Inspection is already completed",
+          });
+        }
+
+        // The client's template decides which photos are required
+        const templateSections = await getClaimTemplateSections(ctx, inspection.claim_id);
+        const missingPhotos = getMissingInspectionPhotos(inspection, templateSections);
+        if (missingPhotos.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Missing required photos: ${missingPhotos
+              .map((photo) => `${photo.sectionLabel} - ${photo.label}`)
+              .join(", ")}`,
+          });
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("vehicle_inspections")
           .update({
-            status: ClaimStatus.IN_PROGRESS,
-            updated_by_employee_id: ctx.user.id,
+            status: InspectionStatus.COMPLETED,
+            completed_at: new Date().toISOString(),
+            completed_by_employee_id: ctx.user.id,
           })
-          .eq("id", input.claim_id);
+          .eq("id", input.id)
+          .select("*")
+          .single();
 
-        if (claimError) {
+        if (error) {
           throw new TRPCError({
             code: "INTERNAL_SERVER_ERROR",
-            message: `Failed to update claim status: ${claimError.message}`,
-            cause: claimError,
+            message: `Failed to complete inspection: ${error.message}`,
+            cause: error,
           });
         }
 
-        return inspection;
+        await createClaimLog(ctx, {
+          claim_id: inspection.claim_id,
+          log_type: ClaimLogType.INSPECTION_COMPLETED,
+          message: "Inspection completed",
+          details: { inspection_id: input.id },
+        });
+
+        return data;
       } catch (error) {
-        console.error("Error in create inspection procedure:", error);
+        console.error("Error in complete inspection procedure:", error);
+        throw error;
+      }
+    }),
+
+  // Reopen a completed inspection so it can be changed again (admin only)
+  reopen: protectedProcedure
+    .input(InspectionGetByIdInputSchema)
+    .output(InspectionOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (!(await isAdmin(ctx))) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only admins can reopen inspections",
+          });
+        }
+
+        const inspection = await getInspectionOrThrow(ctx, input.id);
+
+        if (inspection.status !== InspectionStatus.COMPLETED) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only completed inspections can be reopened",
+          });
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("vehicle_inspections")
+          .update({
+            status: InspectionStatus.DRAFT,
+            completed_at: null,
+            completed_by_employee_id: null,
+          })
+          .eq("id", input.id)
+          .select("*")
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to reopen inspection: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await createClaimLog(ctx, {
+          claim_id: inspection.claim_id,
+          log_type: ClaimLogType.INSPECTION_REOPENED,
+          message: "Inspection reopened",
+          details: { inspection_id: input.id, completed_at: inspection.completed_at },
+        });
+
+        return data;
+      } catch (error) {
+        console.error("Error in reopen inspection procedure:", error);
         throw error;
       }
     }),
 
+  // Whether the current user may reopen completed inspections
+  canReopen: protectedProcedure
+    .output(z.boolean())
+    .query(async ({ ctx }) => {
+      return isAdmin(ctx);
+    }),
+
   // Get inspections by claim ID
   getByClaim: protectedProcedure
     .input(InspectionGetByClaimInputSchema)
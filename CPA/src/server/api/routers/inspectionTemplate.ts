@@ -0,0 +1,158 @@
+// src/server/api/routers/inspectionTemplate.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  InspectionTemplateUpsertSchema,
+  InspectionTemplateOutputSchema,
+  type InspectionTemplateSection,
+} from "@/lib/api/domains/inspection-templates/types";
+import { TRPCError } from "@trpc/server";
+
+// Fetch the template of a client, or null when the client uses the default checklist
+async function getClientTemplate(ctx: any, clientId: string) {
+  const { data, error } = await ctx.supabase
+    .from("inspection_templates")
+    .select("*")
+    .eq("client_id", clientId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // No template for this client
+      return null;
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch inspection template: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return data;
+}
+
+// Fetch the template of the client a claim belongs to, or null when it has none
+async function getClaimTemplate(ctx: any, claimId: string) {
+  const { data: claim, error } = await ctx.supabase
+    .from("claims")
+    .select("client_id")
+    .eq("id", claimId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Claim not found",
+      });
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch claim: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return claim.client_id ? getClientTemplate(ctx, claim.client_id) : null;
+}
+
+/**
+ * Get the template sections that apply to the inspection of a claim
+ * Returns null when the claim's client uses the default checklist
+ */
+export async function getClaimTemplateSections(
+  ctx: any,
+  claimId: string
+): Promise<InspectionTemplateSection[] | null> {
+  const template = await getClaimTemplate(ctx, claimId);
+  return template?.sections ?? null;
+}
+
+export const inspectionTemplateRouter = createTRPCRouter({
+  // Get the inspection template of a client
+  getByClient: publicProcedure
+    .input(z.object({ client_id: z.string().uuid() }))
+    .output(InspectionTemplateOutputSchema.nullable())
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getClientTemplate(ctx, input.client_id);
+      } catch (error) {
+        console.error("Error fetching inspection template:", error);
+        throw error;
+      }
+    }),
+
+  // Get the inspection template that applies to a claim, through its client
+  getByClaim: publicProcedure
+    .input(z.object({ claim_id: z.string().uuid() }))
+    .output(InspectionTemplateOutputSchema.nullable())
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getClaimTemplate(ctx, input.claim_id);
+      } catch (error) {
+        console.error("Error fetching claim inspection template:", error);
+        throw error;
+      }
+    }),
+
+  // Create or replace the inspection template of a client
+  upsert: protectedProcedure
+    .input(InspectionTemplateUpsertSchema)
+    .output(InspectionTemplateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("inspection_templates")
+          .upsert(
+            {
+              client_id: input.client_id,
+              name: input.name,
+              sections: input.sections,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "client_id" }
+          )
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to save inspection template: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error saving inspection template:", error);
+        throw error;
+      }
+    }),
+
+  // Delete the template of a client, so its inspections use the default checklist again
+  delete: protectedProcedure
+    .input(z.object({ client_id: z.string().uuid() }))
+    .output(z.object({ success: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { error } = await ctx.supabase
+          .from("inspection_templates")
+          .delete()
+          .eq("client_id", input.client_id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to delete inspection template: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        console.error("Error deleting inspection template:", error);
+        throw error;
+      }
+    }),
+});
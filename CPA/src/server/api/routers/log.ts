@@ -3,7 +3,8 @@ import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { 
   ClaimLogCreateInputSchema, 
   ClaimLogOutputSchema, 
-  ClaimLogsQueryInputSchema 
+  ClaimLogsQueryInputSchema,
+  type ClaimLogCreateInput
 } from "@/lib/api/domains/logs/types";
 import { TRPCError } from "@trpc/server";
 
@@ -118,3 +119,25 @@ export const logRouter = createTRPCRouter({
       }
     }),
 });
+
+// Helper for routers that record claim activity as part of another mutation.
+// A failed log write is reported but never fails the operation that triggered it.
+export async function createClaimLog(ctx: any, input: ClaimLogCreateInput) {
+  try {
+    const { error } = await ctx.supabase
+      .from("claim_logs")
+      .insert({
+        claim_id: input.claim_id,
+        user_id: ctx.user?.id ?? null,
+        log_type: input.log_type,
+        message: input.message,
+        details: input.details || null,
+      });
+
+    if (error) {
+      console.error("Error creating claim log:", error);
+    }
+  } catch (error) {
+    console.error("Error creating claim log:", error);
+  }
+}
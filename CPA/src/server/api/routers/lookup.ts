@@ -73,4 +73,36 @@ export const lookupRouter = createTRPCRouter({
         return [];
       }
     }),
-});
\ No newline at end of file
+
+  // Get all active employees, used to mention colleagues in claim notes
+  getEmployees: publicProcedure
+    .input(z.object({}).optional())
+    .output(z.array(z.object({ id: z.string().uuid(), name: z.string() })))
+    .query(async ({ ctx }) => {
+      try {
+        if (!ctx.user) {
+          return [];
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("profiles")
+          .select("id, full_name")
+          .eq("is_active", true)
+          .order("full_name");
+
+        if (error) {
+          console.error("[lookupRouter] Error fetching employees:", error);
+          throw new Error("Failed to fetch employees");
+        }
+
+        return (data || []).map((employee: { id: string; full_name: string }) => ({
+          id: employee.id,
+          name: employee.full_name
+        }));
+      } catch (error) {
+        console.error("[lookupRouter] Error in getEmployees procedure:", error);
+        // Return empty array instead of throwing to prevent the page from failing to render
+        return [];
+      }
+    }),
+});
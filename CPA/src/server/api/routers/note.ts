@@ -0,0 +1,327 @@
+// src/server/api/routers/note.ts
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  ClaimNoteCreateSchema,
+  ClaimNoteUpdateSchema,
+  ClaimNotePinSchema,
+  ClaimNoteOutputSchema,
+} from "@/lib/api/domains/notes/types";
+import { findMentionedEmployees } from "@/lib/api/domains/notes/mentions";
+import { TRPCError } from "@trpc/server";
+
+// Notes are selected together with the name of their author
+const NOTE_SELECT = "*, author:profiles!claim_notes_author_id_fkey(full_name)";
+
+// Flatten the joined author into the note output
+function toNoteOutput(ctx: any, note: any) {
+  const { author, ...rest } = note;
+  return {
+    ...rest,
+    author_name: author?.full_name ?? null,
+    is_author: note.author_id === ctx.user.id,
+    mentioned_user_ids: note.mentioned_user_ids ?? [],
+  };
+}
+
+// Fetch a note and make sure the current user wrote it
+async function getOwnNote(ctx: any, id: string, action: string) {
+  const { data, error } = await ctx.supabase
+    .from("claim_notes")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Note not found",
+      });
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch note: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  if (data.author_id !== ctx.user.id) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Only the author of a note can ${action} it`,
+    });
+  }
+
+  return data;
+}
+
+// Check the users a note mentions: each must be an active employee named in the note body
+async function getMentionedUserIds(ctx: any, body: string, userIds: string[]): Promise<string[]> {
+  const uniqueIds = Array.from(new Set(userIds));
+  if (uniqueIds.length === 0) return [];
+
+  const { data, error } = await ctx.supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", uniqueIds)
+    .eq("is_active", true);
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch mentioned employees: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  const profiles: { id: string; full_name: string | null }[] = data || [];
+  const employees = profiles.map((profile) => ({ id: profile.id, name: profile.full_name ?? "" }));
+
+  const unknownIds = uniqueIds.filter((userId) => !employees.some((employee) => employee.id === userId));
+  if (unknownIds.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Only active employees can be mentioned: ${unknownIds.join(", ")}`,
+    });
+  }
+
+  const mentioned = findMentionedEmployees(body, employees.filter((employee) => employee.name.trim() !== ""));
+  const unnamed = employees.filter((employee) => !mentioned.includes(employee));
+  if (unnamed.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Mentioned employees must be named in the note: ${unnamed
+        .map((employee) => employee.name || employee.id)
+        .join(", ")}`,
+    });
+  }
+
+  return mentioned.map((employee) => employee.id);
+}
+
+// Notify the users mentioned in a note; the author is never notified of their own mention
+async function notifyMentionedUsers(ctx: any, note: any, userIds: string[]) {
+  const recipients = userIds.filter((userId) => userId !== ctx.user.id);
+  if (recipients.length === 0) return;
+
+  try {
+    const [{ data: claim }, { data: author }] = await Promise.all([
+      ctx.supabase.from("claims").select("job_number").eq("id", note.claim_id).single(),
+      ctx.supabase.from("profiles").select("full_name").eq("id", ctx.user.id).single(),
+    ]);
+
+    const authorName = author?.full_name || "A colleague";
+    const claimLabel = claim?.job_number ? `claim ${claim.job_number}` : "a claim";
+
+    const { error } = await ctx.supabase
+      .from("notifications")
+      .insert(
+        recipients.map((userId) => ({
+          user_id: userId,
+          claim_id: note.claim_id,
+          type: "note_mention",
+          message: `${authorName} mentioned you in a note on ${claimLabel}`,
+          details: { note_id: note.id },
+        }))
+      );
+
+    if (error) {
+      console.error("Error creating mention notifications:", error);
+    }
+  } catch (error) {
+    // A failed notification must not fail saving the note
+    console.error("Error creating mention notifications:", error);
+  }
+}
+
+export const noteRouter = createTRPCRouter({
+  // Get the notes of a claim, pinned notes first and then newest first
+  getByClaim: protectedProcedure
+    .input(z.object({ claim_id: z.string().uuid() }))
+    .output(z.array(ClaimNoteOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("claim_notes")
+          .select(NOTE_SELECT)
+          .eq("claim_id", input.claim_id)
+          .order("is_pinned", { ascending: false })
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch notes: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return (data || []).map((note: any) => toNoteOutput(ctx, note));
+      } catch (error) {
+        console.error("Error fetching notes:", error);
+        throw error;
+      }
+    }),
+
+  // Add a note to a claim
+  create: protectedProcedure
+    .input(ClaimNoteCreateSchema)
+    .output(ClaimNoteOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const mentionedUserIds = await getMentionedUserIds(ctx, input.body, input.mentioned_user_ids);
+
+        const { data, error } = await ctx.supabase
+          .from("claim_notes")
+          .insert({
+            claim_id: input.claim_id,
+            author_id: ctx.user.id,
+            body: input.body,
+            is_internal: input.is_internal,
+            mentioned_user_ids: mentionedUserIds,
+          })
+          .select(NOTE_SELECT)
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create note: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        await notifyMentionedUsers(ctx, data, mentionedUserIds);
+
+        return toNoteOutput(ctx, data);
+      } catch (error) {
+        console.error("Error creating note:", error);
+        throw error;
+      }
+    }),
+
+  // Edit a note; only users newly mentioned by the edit are notified
+  update: protectedProcedure
+    .input(ClaimNoteUpdateSchema)
+    .output(ClaimNoteOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, mentioned_user_ids, ...updateData } = input;
+        const existing = await getOwnNote(ctx, id, "edit");
+
+        const mentionedUserIds = mentioned_user_ids
+          ? await getMentionedUserIds(ctx, updateData.body ?? existing.body, mentioned_user_ids)
+          : undefined;
+
+        const { data, error } = await ctx.supabase
+          .from("claim_notes")
+          .update({
+            ...updateData,
+            ...(mentionedUserIds ? { mentioned_user_ids: mentionedUserIds } : {}),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", id)
+          .select(NOTE_SELECT)
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update note: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        if (mentionedUserIds) {
+          const previous: string[] = existing.mentioned_user_ids ?? [];
+          await notifyMentionedUsers(
+            ctx,
+            data,
+            mentionedUserIds.filter((userId) => !previous.includes(userId))
+          );
+        }
+
+        return toNoteOutput(ctx, data);
+      } catch (error) {
+        console.error("Error updating note:", error);
+        throw error;
+      }
+    }),
+
+  // Pin or unpin a note; any user working on the claim may do so
+  setPinned: protectedProcedure
+    .input(ClaimNotePinSchema)
+    .output(ClaimNoteOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Only authors may update their notes, so the pin is set through a database function
+        const { data: found, error: pinError } = await ctx.supabase.rpc("set_claim_note_pinned", {
+          p_note_id: input.id,
+          p_is_pinned: input.is_pinned,
+        });
+
+        if (pinError) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to pin note: ${pinError.message}`,
+            cause: pinError,
+          });
+        }
+
+        if (!found) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Note not found",
+          });
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("claim_notes")
+          .select(NOTE_SELECT)
+          .eq("id", input.id)
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch note: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return toNoteOutput(ctx, data);
+      } catch (error) {
+        console.error("Error pinning note:", error);
+        throw error;
+      }
+    }),
+
+  // Delete a note
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(z.object({ success: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await getOwnNote(ctx, input.id, "delete");
+
+        const { error } = await ctx.supabase
+          .from("claim_notes")
+          .delete()
+          .eq("id", input.id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to delete note: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        console.error("Error deleting note:", error);
+        throw error;
+      }
+    }),
+});
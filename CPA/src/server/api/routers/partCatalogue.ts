@@ -0,0 +1,221 @@
+// src/server/api/routers/partCatalogue.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import {
+  PartCatalogueSearchSchema,
+  PartCatalogueItemOutputSchema,
+  type PartCatalogueItem,
+} from "@/lib/api/domains/part-catalogue/types";
+import { LaborTrade } from "@/lib/api/domains/estimates/types";
+import { roundCurrency } from "@/lib/api/domains/estimates/calculation";
+import { TRPCError } from "@trpc/server";
+
+// A catalogue row as stored, with the key its description is matched on
+// and the number of lines each typical hours value is averaged over
+type PartCatalogueRow = PartCatalogueItem & {
+  description_key: string;
+  strip_fit_hours_samples: number;
+  repair_hours_samples: number;
+  paint_hours_samples: number;
+};
+
+// Catalogue entries are matched on lower-cased, trimmed text
+const toKey = (value: string | null | undefined) => value?.trim().toLowerCase() || null;
+
+// Fetch the make and model of a claim's vehicle as catalogue keys
+async function getClaimVehicleKeys(ctx: any, claimId: string) {
+  const { data, error } = await ctx.supabase
+    .from("claims")
+    .select("vehicles(make, model)")
+    .eq("id", claimId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Claim not found",
+      });
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch claim vehicle: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return {
+    make: toKey(data.vehicles?.make),
+    model: toKey(data.vehicles?.model),
+  };
+}
+
+// Running average of the hours entered on the lines an entry was learned from
+// Lines without hours are left out, as in the backfill of the catalogue, so they get their own sample count
+const averageHours = (previous: number | null, samples: number, hours: number | null) => {
+  if (!hours) return { average: previous, samples };
+  if (previous === null || samples === 0) return { average: hours, samples: 1 };
+  return { average: roundCurrency((previous * samples + hours) / (samples + 1)), samples: samples + 1 };
+};
+
+/**
+ * Learn the lines of an authorized estimate into the catalogue
+ * Each included line updates the entry for the claim's vehicle and the entry for all vehicles
+ * Failures are logged and don't fail the authorization
+ */
+export async function recordEstimateInCatalogue(
+  ctx: any,
+  estimate: { id: string; claim_id: string; authorized_at?: string | Date | null }
+) {
+  try {
+    const { data: lines, error: linesError } = await ctx.supabase
+      .from("estimate_lines")
+      .select("*")
+      .eq("estimate_id", estimate.id)
+      .eq("is_included", true);
+
+    if (linesError) {
+      console.error("Error fetching lines for the part catalogue:", linesError);
+      return;
+    }
+
+    const learnedLines = (lines || []).filter((line: any) => toKey(line.description));
+    if (learnedLines.length === 0) return;
+
+    const vehicle = await getClaimVehicleKeys(ctx, estimate.claim_id);
+    const descriptionKeys = [...new Set(learnedLines.map((line: any) => toKey(line.description)))];
+
+    const { data: existingItems, error: itemsError } = await ctx.supabase
+      .from("part_catalogue_items")
+      .select("*")
+      .in("description_key", descriptionKeys);
+
+    if (itemsError) {
+      console.error("Error fetching part catalogue items:", itemsError);
+      return;
+    }
+
+    const entryKey = (descriptionKey: string, operationCode: string, make: string | null, model: string | null) =>
+      [descriptionKey, operationCode, make ?? "", model ?? ""].join("|");
+
+    const entries = new Map<string, Omit<PartCatalogueRow, "id" | "created_at">>(
+      (existingItems || []).map((item: PartCatalogueRow) => [
+        entryKey(item.description_key, item.operation_code, item.vehicle_make, item.vehicle_model),
+        item,
+      ])
+    );
+
+    // Keys of the entries this estimate changes
+    const changedKeys = new Set<string>();
+    const usedAt = new Date(estimate.authorized_at ?? Date.now()).toISOString();
+    const scopes = vehicle.make
+      ? [{ make: vehicle.make, model: vehicle.model }, { make: null, model: null }]
+      : [{ make: null, model: null }];
+
+    for (const line of learnedLines) {
+      const descriptionKey = toKey(line.description) as string;
+
+      for (const scope of scopes) {
+        const key = entryKey(descriptionKey, line.operation_code, scope.make, scope.model);
+        const entry = entries.get(key);
+        const count = entry?.usage_count ?? 0;
+        const stripFit = averageHours(entry?.typical_strip_fit_hours ?? null, entry?.strip_fit_hours_samples ?? 0, line.strip_fit_hours);
+        const repair = averageHours(entry?.typical_repair_hours ?? null, entry?.repair_hours_samples ?? 0, line.repair_hours);
+        const paint = averageHours(entry?.typical_paint_hours ?? null, entry?.paint_hours_samples ?? 0, line.paint_hours);
+
+        // Existing entries are matched on their unique key, not their id
+        entries.set(key, {
+          description: line.description.trim(),
+          description_key: descriptionKey,
+          operation_code: line.operation_code,
+          part_type: line.part_type ?? entry?.part_type ?? null,
+          part_number: line.part_number || entry?.part_number || null,
+          labor_trade: line.labor_trade ?? entry?.labor_trade ?? LaborTrade.PANEL,
+          vehicle_make: scope.make,
+          vehicle_model: scope.model,
+          typical_strip_fit_hours: stripFit.average,
+          typical_repair_hours: repair.average,
+          typical_paint_hours: paint.average,
+          strip_fit_hours_samples: stripFit.samples,
+          repair_hours_samples: repair.samples,
+          paint_hours_samples: paint.samples,
+          last_part_cost: line.part_cost ?? entry?.last_part_cost ?? null,
+          usage_count: count + 1,
+          last_used_at: usedAt,
+          updated_at: new Date().toISOString(),
+        });
+        changedKeys.add(key);
+      }
+    }
+
+    const { error } = await ctx.supabase
+      .from("part_catalogue_items")
+      .upsert([...changedKeys].map((key) => entries.get(key)), { onConflict: "description_key,operation_code,vehicle_make,vehicle_model" });
+
+    if (error) {
+      console.error("Error updating the part catalogue:", error);
+    }
+  } catch (error) {
+    console.error("Error updating the part catalogue:", error);
+  }
+}
+
+export const partCatalogueRouter = createTRPCRouter({
+  // Search catalogue entries for a line being typed on a claim's estimate
+  // Entries for the claim's model come first, then its make, then all vehicles
+  search: publicProcedure
+    .input(PartCatalogueSearchSchema)
+    .output(z.array(PartCatalogueItemOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const vehicle = await getClaimVehicleKeys(ctx, input.claim_id);
+
+        // Characters with a meaning in the filter syntax are left out of the search
+        const search = input.query.replace(/[%,()\\]/g, "").trim();
+        if (!search) return [];
+
+        const { data, error } = await ctx.supabase
+          .from("part_catalogue_items")
+          .select("*")
+          .or(`description.ilike.%${search}%,part_number.ilike.%${search}%`)
+          .order("usage_count", { ascending: false })
+          .limit(100);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to search part catalogue: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        // How closely an entry fits the vehicle, or -1 when it is for another vehicle
+        const vehicleFit = (item: PartCatalogueRow) => {
+          if (!item.vehicle_make) return 0;
+          if (item.vehicle_make !== vehicle.make) return -1;
+          if (!item.vehicle_model) return 1;
+          return item.vehicle_model === vehicle.model ? 2 : -1;
+        };
+
+        const ranked = (data || [])
+          .filter((item: PartCatalogueRow) => vehicleFit(item) >= 0)
+          .sort((a: PartCatalogueRow, b: PartCatalogueRow) =>
+            vehicleFit(b) - vehicleFit(a) || b.usage_count - a.usage_count
+          );
+
+        // The best fitting entry of each description and operation is suggested
+        const seen = new Set<string>();
+        return ranked
+          .filter((item: PartCatalogueRow) => {
+            const key = `${item.description_key}|${item.operation_code}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          })
+          .slice(0, input.limit);
+      } catch (error) {
+        console.error("Error searching part catalogue:", error);
+        throw error;
+      }
+    }),
+});
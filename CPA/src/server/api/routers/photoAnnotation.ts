@@ -0,0 +1,79 @@
+// src/server/api/routers/photoAnnotation.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  PhotoAnnotationUpsertSchema,
+  PhotoAnnotationOutputSchema,
+} from "@/lib/api/domains/photo-annotations/types";
+import { TRPCError } from "@trpc/server";
+
+export const photoAnnotationRouter = createTRPCRouter({
+  // Get the annotations of a photo, or null when it has none
+  getByPath: publicProcedure
+    .input(z.object({ bucket_name: z.string().min(1), file_path: z.string().min(1) }))
+    .output(PhotoAnnotationOutputSchema.nullable())
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("photo_annotations")
+          .select("*")
+          .eq("bucket_name", input.bucket_name)
+          .eq("file_path", input.file_path)
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            // The photo has not been annotated
+            return null;
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch photo annotations: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error fetching photo annotations:", error);
+        throw error;
+      }
+    }),
+
+  // Save the annotations of a photo; the photo itself is never changed
+  upsert: protectedProcedure
+    .input(PhotoAnnotationUpsertSchema)
+    .output(PhotoAnnotationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("photo_annotations")
+          .upsert(
+            {
+              bucket_name: input.bucket_name,
+              file_path: input.file_path,
+              annotations: input.annotations,
+              flattened_path: input.flattened_path ?? null,
+              updated_by_employee_id: ctx.user.id,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "bucket_name,file_path" }
+          )
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to save photo annotations: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error saving photo annotations:", error);
+        throw error;
+      }
+    }),
+});
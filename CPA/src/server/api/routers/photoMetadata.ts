@@ -0,0 +1,202 @@
+// src/server/api/routers/photoMetadata.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  PhotoMetadataRecordSchema,
+  PhotoMetadataOutputSchema,
+} from "@/lib/api/domains/photo-metadata/types";
+import { getDistanceKm, getPhotoMetadataWarnings } from "@/lib/api/domains/photo-metadata/verification";
+import { AppointmentStatus } from "@/lib/api/domains/appointments/types";
+import { TRPCError } from "@trpc/server";
+import { env } from "@/env";
+
+interface AppointmentLocation {
+  id: string;
+  appointment_datetime: string | null;
+  location_address: string | null;
+  location_latitude: number | null;
+  location_longitude: number | null;
+}
+
+/**
+ * Get the appointment a claim's photos are checked against: the latest one that
+ * was not cancelled, rescheduled or missed
+ */
+async function getClaimAppointment(ctx: any, claimId: string): Promise<AppointmentLocation | null> {
+  const { data, error } = await ctx.supabase
+    .from("appointments")
+    .select("id, appointment_datetime, location_address, location_latitude, location_longitude")
+    .eq("claim_id", claimId)
+    .not(
+      "appointment_status",
+      "in",
+      `(${[AppointmentStatus.CANCELLED, AppointmentStatus.RESCHEDULED, AppointmentStatus.NO_SHOW].join(",")})`
+    )
+    .order("appointment_datetime", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Failed to fetch claim appointment: ${error.message}`,
+      cause: error,
+    });
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Get the coordinates of an appointment's address, geocoding it once and caching the result
+ * Lookup failures are logged and skip the distance check rather than failing the upload
+ */
+async function getAppointmentCoordinates(
+  ctx: any,
+  appointment: AppointmentLocation
+): Promise<{ latitude: number; longitude: number } | null> {
+  if (appointment.location_latitude !== null && appointment.location_longitude !== null) {
+    return { latitude: appointment.location_latitude, longitude: appointment.location_longitude };
+  }
+  if (!appointment.location_address?.trim()) return null;
+
+  try {
+    const url = new URL(env.GEOCODING_API_URL);
+    url.searchParams.set("q", appointment.location_address);
+    url.searchParams.set("format", "json");
+    url.searchParams.set("limit", "1");
+
+    const response = await fetch(url, { headers: { "User-Agent": "ClaimTech/1.0" } });
+    if (!response.ok) {
+      console.error(`Error geocoding appointment address: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const [result] = (await response.json()) as { lat: string; lon: string }[];
+    if (!result) return null;
+
+    const coordinates = { latitude: Number(result.lat), longitude: Number(result.lon) };
+    if (Number.isNaN(coordinates.latitude) || Number.isNaN(coordinates.longitude)) return null;
+
+    const { error } = await ctx.supabase
+      .from("appointments")
+      .update({ location_latitude: coordinates.latitude, location_longitude: coordinates.longitude })
+      .eq("id", appointment.id);
+
+    if (error) {
+      console.error("Error caching appointment coordinates:", error);
+    }
+
+    return coordinates;
+  } catch (error) {
+    console.error("Error geocoding appointment address:", error);
+    return null;
+  }
+}
+
+export const photoMetadataRouter = createTRPCRouter({
+  // Get the capture details of a photo, or null when none were recorded
+  getByPath: publicProcedure
+    .input(z.object({ bucket_name: z.string().min(1), file_path: z.string().min(1) }))
+    .output(PhotoMetadataOutputSchema.nullable())
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("photo_metadata")
+          .select("*")
+          .eq("bucket_name", input.bucket_name)
+          .eq("file_path", input.file_path)
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            // The photo was uploaded before capture details were recorded
+            return null;
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch photo metadata: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error fetching photo metadata:", error);
+        throw error;
+      }
+    }),
+
+  // Get the capture details of every photo on a claim
+  getByClaim: publicProcedure
+    .input(z.object({ claim_id: z.string().uuid() }))
+    .output(z.array(PhotoMetadataOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("photo_metadata")
+          .select("*")
+          .eq("claim_id", input.claim_id)
+          .order("created_at", { ascending: true });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch photo metadata: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data ?? [];
+      } catch (error) {
+        console.error("Error fetching claim photo metadata:", error);
+        throw error;
+      }
+    }),
+
+  // Record the capture details of an uploaded photo and check them against the claim's appointment
+  record: protectedProcedure
+    .input(PhotoMetadataRecordSchema)
+    .output(PhotoMetadataOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const appointment = input.claim_id ? await getClaimAppointment(ctx, input.claim_id) : null;
+
+        let distanceKm: number | null = null;
+        if (appointment && input.latitude !== null && input.longitude !== null) {
+          const coordinates = await getAppointmentCoordinates(ctx, appointment);
+          if (coordinates) {
+            distanceKm = getDistanceKm({ latitude: input.latitude, longitude: input.longitude }, coordinates);
+          }
+        }
+
+        const { data, error } = await ctx.supabase
+          .from("photo_metadata")
+          .upsert(
+            {
+              ...input,
+              appointment_id: appointment?.id ?? null,
+              distance_km: distanceKm,
+              warnings: getPhotoMetadataWarnings(input, appointment, distanceKm),
+              recorded_by_employee_id: ctx.user.id,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "bucket_name,file_path" }
+          )
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to record photo metadata: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error recording photo metadata:", error);
+        throw error;
+      }
+    }),
+});
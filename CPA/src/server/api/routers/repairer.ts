@@ -0,0 +1,233 @@
+// src/server/api/routers/repairer.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  RepairerListParamsSchema,
+  RepairerListResponseSchema,
+  RepairerSearchSchema,
+  RepairerCreateSchema,
+  RepairerUpdateSchema,
+  RepairerOutputSchema,
+} from "@/lib/api/domains/repairers/types";
+import { TRPCError } from "@trpc/server";
+
+export const repairerRouter = createTRPCRouter({
+  // Get repairers with pagination and search
+  list: publicProcedure
+    .input(RepairerListParamsSchema)
+    .output(RepairerListResponseSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        // Calculate pagination parameters
+        const page = input.page || 1;
+        const limit = input.limit || 10;
+        const offset = (page - 1) * limit;
+
+        // Determine sort order
+        const sortBy = input.sortBy || "name";
+        const sortOrder = input.sortOrder || "asc";
+
+        let query = ctx.supabase
+          .from("repairers")
+          .select("*", { count: "exact" });
+
+        if (!input.include_inactive) {
+          query = query.eq("is_active", true);
+        }
+
+        if (input.search) {
+          query = query.or(
+            `name.ilike.%${input.search}%,contact_person.ilike.%${input.search}%,email.ilike.%${input.search}%`
+          );
+        }
+
+        const { data, error, count } = await query
+          .order(sortBy, { ascending: sortOrder === "asc" })
+          .range(offset, offset + limit - 1);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch repairers: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        // Calculate pagination info
+        const total = count || 0;
+        const pages = Math.ceil(total / limit);
+
+        return {
+          items: data || [],
+          pagination: {
+            total,
+            pages,
+            current: page,
+            hasMore: page < pages,
+          },
+        };
+      } catch (error) {
+        console.error("Error fetching repairers:", error);
+        throw error;
+      }
+    }),
+
+  // Search active repairers by name, used by the repairer pickers
+  search: publicProcedure
+    .input(RepairerSearchSchema)
+    .output(z.array(RepairerOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        let query = ctx.supabase
+          .from("repairers")
+          .select("*")
+          .eq("is_active", true);
+
+        if (input.query) {
+          query = query.ilike("name", `%${input.query}%`);
+        }
+
+        const { data, error } = await query
+          .order("name", { ascending: true })
+          .limit(input.limit);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to search repairers: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data || [];
+      } catch (error) {
+        console.error("Error searching repairers:", error);
+        throw error;
+      }
+    }),
+
+  // Get a single repairer by ID
+  getById: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(RepairerOutputSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("repairers")
+          .select("*")
+          .eq("id", input.id)
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Repairer not found",
+            });
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch repairer: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error fetching repairer:", error);
+        throw error;
+      }
+    }),
+
+  // Create a new repairer
+  create: protectedProcedure
+    .input(RepairerCreateSchema)
+    .output(RepairerOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("repairers")
+          .insert({
+            ...input,
+            email: input.email || null,
+            is_active: true,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create repairer: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error creating repairer:", error);
+        throw error;
+      }
+    }),
+
+  // Update an existing repairer
+  update: protectedProcedure
+    .input(RepairerUpdateSchema)
+    .output(RepairerOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, ...updateData } = input;
+
+        const { data, error } = await ctx.supabase
+          .from("repairers")
+          .update({
+            ...updateData,
+            ...(updateData.email !== undefined ? { email: updateData.email || null } : {}),
+          })
+          .eq("id", id)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update repairer: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error updating repairer:", error);
+        throw error;
+      }
+    }),
+
+  // Deactivate a repairer; it stays linked to existing appointments and estimates
+  deactivate: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .output(RepairerOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("repairers")
+          .update({ is_active: false })
+          .eq("id", input.id)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to deactivate repairer: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error deactivating repairer:", error);
+        throw error;
+      }
+    }),
+});
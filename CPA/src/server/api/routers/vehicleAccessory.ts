@@ -0,0 +1,128 @@
+// src/server/api/routers/vehicleAccessory.ts
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, protectedProcedure } from "@/server/api/trpc";
+import {
+  VehicleAccessoryCreateSchema,
+  VehicleAccessoryUpdateSchema,
+  VehicleAccessoryOutputSchema,
+} from "@/lib/api/domains/vehicle-accessories/types";
+import { TRPCError } from "@trpc/server";
+
+export const vehicleAccessoryRouter = createTRPCRouter({
+  // Get all accessories fitted to a vehicle
+  getByVehicleId: publicProcedure
+    .input(z.object({ vehicle_id: z.string().uuid() }))
+    .output(z.array(VehicleAccessoryOutputSchema))
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("vehicle_accessories")
+          .select("*")
+          .eq("vehicle_id", input.vehicle_id)
+          .order("created_at", { ascending: true });
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch vehicle accessories: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching vehicle accessories:", error);
+        throw error;
+      }
+    }),
+
+  // Record an accessory fitted to a vehicle
+  create: protectedProcedure
+    .input(VehicleAccessoryCreateSchema)
+    .output(VehicleAccessoryOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, error } = await ctx.supabase
+          .from("vehicle_accessories")
+          .insert(input)
+          .select()
+          .single();
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to create vehicle accessory: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error creating vehicle accessory:", error);
+        throw error;
+      }
+    }),
+
+  // Update an accessory, including attaching or clearing its photo
+  update: protectedProcedure
+    .input(VehicleAccessoryUpdateSchema)
+    .output(VehicleAccessoryOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, vehicle_id, ...updateData } = input;
+
+        const { data, error } = await ctx.supabase
+          .from("vehicle_accessories")
+          .update({ ...updateData, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .eq("vehicle_id", vehicle_id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === "PGRST116") {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Vehicle accessory not found",
+            });
+          }
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to update vehicle accessory: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return data;
+      } catch (error) {
+        console.error("Error updating vehicle accessory:", error);
+        throw error;
+      }
+    }),
+
+  // Delete an accessory
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid(), vehicle_id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { error } = await ctx.supabase
+          .from("vehicle_accessories")
+          .delete()
+          .eq("id", input.id)
+          .eq("vehicle_id", input.vehicle_id);
+
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to delete vehicle accessory: ${error.message}`,
+            cause: error,
+          });
+        }
+
+        return { success: true, vehicle_id: input.vehicle_id };
+      } catch (error) {
+        console.error("Error deleting vehicle accessory:", error);
+        throw error;
+      }
+    }),
+});
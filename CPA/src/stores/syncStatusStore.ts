@@ -13,9 +13,21 @@ interface SyncStatusState {
   status: SyncStatus;
   message: string;
   operations: Set<string>;
+  // Offline queue: whether the browser is online, changes waiting to sync and
+  // changes the server rejected because the record changed since
+  isOnline: boolean;
+  queuedCount: number;
+  conflictCount: number;
+  failedCount: number;
   addOperation: (id: string) => void;
   removeOperation: (id: string) => void;
   setError: (message: string) => void;
+  setQueueStatus: (queue: {
+    isOnline?: boolean;
+    queuedCount?: number;
+    conflictCount?: number;
+    failedCount?: number;
+  }) => void;
   reset: () => void;
 }
 
@@ -27,6 +39,10 @@ export const useSyncStatusStore = create<SyncStatusState>((set, get) => ({
   status: 'idle',
   message: '',
   operations: new Set<string>(),
+  isOnline: true,
+  queuedCount: 0,
+  conflictCount: 0,
+  failedCount: 0,
   
   /**
    * Add a new sync operation to track
@@ -95,6 +111,14 @@ export const useSyncStatusStore = create<SyncStatusState>((set, get) => ({
     }, 5000);
   },
   
+  /**
+   * Update the state of the offline queue
+   * @param queue The values that changed
+   */
+  setQueueStatus: (queue) => {
+    set(queue);
+  },
+
   /**
    * Reset the sync status to idle
    */
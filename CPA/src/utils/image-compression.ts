@@ -0,0 +1,97 @@
+import { env } from '@/env'
+
+export interface ImageCompressionOptions {
+  // Longest side of the output image in pixels
+  maxDimension: number
+  // JPEG quality between 0 and 1
+  quality: number
+}
+
+export const DEFAULT_IMAGE_COMPRESSION: ImageCompressionOptions = {
+  maxDimension: env.NEXT_PUBLIC_PHOTO_MAX_DIMENSION_PX,
+  quality: env.NEXT_PUBLIC_PHOTO_JPEG_QUALITY,
+}
+
+// Longest side of the thumbnails shown in lists and photo grids
+export const THUMBNAIL_MAX_DIMENSION = 320
+
+// Formats the browser can redraw onto a canvas without losing anything that matters
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif']
+
+export const isCompressibleImage = (file: Blob) => COMPRESSIBLE_TYPES.includes(file.type)
+
+/**
+ * Get the storage path of a photo's thumbnail, kept in a thumbnails folder next to the original
+ * @param path The storage path of the original
+ */
+export function getThumbnailPath(path: string) {
+  const slash = path.lastIndexOf('/')
+  const directory = slash === -1 ? '' : `${path.slice(0, slash)}/`
+  const name = path.slice(slash + 1).replace(/\.[^.]+$/, '')
+  return `${directory}thumbnails/${name}.jpg`
+}
+
+/**
+ * Redraw an image as a JPEG no larger than the given size
+ * Canvas output has no EXIF data, so capture details must be read from the original
+ * @param file The image as selected by the user
+ * @param options Output size and quality
+ */
+async function resizeImage(file: Blob, { maxDimension, quality }: ImageCompressionOptions): Promise<Blob> {
+  // createImageBitmap applies the EXIF orientation, so portrait phone photos stay upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(bitmap.width * scale)
+    canvas.height = Math.round(bitmap.height * scale)
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser')
+    }
+    // PNGs with transparency would otherwise turn black
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to compress the image'))),
+        'image/jpeg',
+        quality
+      )
+    })
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Resize and recompress a photo before upload
+ * The original is returned when it cannot be decoded or is already smaller
+ * @param file The image as selected by the user
+ * @param options Output size and quality
+ */
+export async function compressImage(file: File, options: ImageCompressionOptions = DEFAULT_IMAGE_COMPRESSION): Promise<File> {
+  if (!isCompressibleImage(file)) return file
+
+  try {
+    const blob = await resizeImage(file, options)
+    if (blob.size >= file.size) return file
+
+    const name = file.name.replace(/\.[^.]+$/, '') || 'photo'
+    return new File([blob], `${name}.jpg`, { type: 'image/jpeg', lastModified: file.lastModified })
+  } catch (error) {
+    console.error('Error compressing image, uploading the original:', error)
+    return file
+  }
+}
+
+/**
+ * Create a small JPEG of a photo for list views
+ * @param file The image to shrink
+ */
+export function createThumbnail(file: Blob): Promise<Blob> {
+  return resizeImage(file, { maxDimension: THUMBNAIL_MAX_DIMENSION, quality: 0.7 })
+}
@@ -0,0 +1,201 @@
+import type { InspectionCreateInput, InspectionUpdateInput } from "@/lib/api/domains/inspections/types";
+import type { PhotoMetadataRecord } from "@/lib/api/domains/photo-metadata/types";
+import { useSyncStatusStore } from "@/stores/syncStatusStore";
+
+// Inspection changes and photos captured without connectivity, kept in IndexedDB
+// until they can be replayed in the order they were made
+
+const DB_NAME = "claimtech-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "queue";
+
+export type OfflineOperation =
+  | { kind: "inspection.create"; input: InspectionCreateInput }
+  // expected_updated_at is the server version the change was made against
+  | { kind: "inspection.update"; input: InspectionUpdateInput }
+  | { kind: "photo.upload"; bucketName: string; path: string; file: Blob; contentType: string; thumbnail: boolean }
+  | { kind: "photo.metadata"; input: PhotoMetadataRecord };
+
+// Conflicting and failed operations were rejected by the server and wait for the user
+export type OfflineQueueStatus = "pending" | "conflict" | "failed";
+
+export interface OfflineQueueEntry {
+  // Auto-incremented, which keeps the queue in the order operations were made
+  id?: number;
+  operation: OfflineOperation;
+  status: OfflineQueueStatus;
+  error?: string;
+  createdAt: number;
+}
+
+export const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+// Object URLs of photos waiting to upload, so they can be shown before they reach storage
+const queuedPhotoUrls = new Map<string, string>();
+
+// Object URLs don't survive a reload, so they are rebuilt from the queued photos once per page load
+let restoredPhotoUrls: Promise<void> | null = null;
+
+function restoreQueuedPhotoUrls(): Promise<void> {
+  if (!restoredPhotoUrls) {
+    restoredPhotoUrls = getQueuedOperations()
+      .then((entries) => {
+        for (const { operation } of entries) {
+          if (operation.kind === "photo.upload" && !queuedPhotoUrls.has(operation.path)) {
+            queuedPhotoUrls.set(operation.path, URL.createObjectURL(operation.file));
+          }
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to restore queued photos:", error);
+      });
+  }
+  return restoredPhotoUrls;
+}
+
+/**
+ * Get a local URL for a photo that is still waiting in the queue
+ * @param path The storage path the photo will be uploaded to
+ */
+export async function getQueuedPhotoUrl(path: string): Promise<string | null> {
+  await restoreQueuedPhotoUrls();
+  return queuedPhotoUrls.get(path) ?? null;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a callback in a transaction on the queue store and wait for it to commit
+ */
+async function withStore<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => Promise<T> | T): Promise<T> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await callback(transaction.objectStore(STORE_NAME));
+    await committed;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Find a pending entry a new operation can be merged into, so repeated saves of the
+ * same draft replay as one change
+ */
+function findMergeTarget(entries: OfflineQueueEntry[], operation: OfflineOperation) {
+  if (operation.kind === "inspection.update") {
+    // Only the last entry qualifies, or the change would be replayed ahead of operations queued since
+    const last = entries[entries.length - 1];
+    if (!last || last.status !== "pending" || last.operation.kind !== "inspection.update") return undefined;
+    return last.operation.input.id === operation.input.id ? last : undefined;
+  }
+
+  return entries.find((entry) => {
+    if (entry.status !== "pending") return false;
+    const queued = entry.operation;
+    if (queued.kind === "inspection.create" && operation.kind === "inspection.create") {
+      return queued.input.claim_id === operation.input.claim_id;
+    }
+    return false;
+  });
+}
+
+/**
+ * Add an operation to the end of the queue
+ * A new inspection is merged into its queued create, and a change into the inspection's
+ * queued update when that is the last operation; merged updates keep the server version
+ * they were first made against
+ * @param operation The operation to replay when back online
+ */
+export async function enqueueOperation(operation: OfflineOperation): Promise<void> {
+  await withStore("readwrite", async (store) => {
+    const entries = await requestToPromise(store.getAll() as IDBRequest<OfflineQueueEntry[]>);
+    const target = findMergeTarget(entries, operation);
+
+    if (target) {
+      // Only inspection changes are merged, and only with a change of the same kind
+      const queued = target.operation as Extract<OfflineOperation, { kind: "inspection.create" | "inspection.update" }>;
+      const input = { ...queued.input, ...(operation as typeof queued).input };
+      if (queued.kind === "inspection.update") {
+        (input as InspectionUpdateInput).expected_updated_at = queued.input.expected_updated_at;
+      }
+      await requestToPromise(store.put({ ...target, operation: { ...queued, input } as OfflineOperation }));
+      return;
+    }
+
+    const entry: OfflineQueueEntry = { operation, status: "pending", createdAt: Date.now() };
+    await requestToPromise(store.add(entry));
+  });
+
+  if (operation.kind === "photo.upload") {
+    const previousUrl = queuedPhotoUrls.get(operation.path);
+    if (previousUrl) URL.revokeObjectURL(previousUrl);
+    queuedPhotoUrls.set(operation.path, URL.createObjectURL(operation.file));
+  }
+
+  await publishQueueStatus();
+}
+
+/**
+ * Get every queued operation, oldest first
+ */
+export async function getQueuedOperations(): Promise<OfflineQueueEntry[]> {
+  if (typeof indexedDB === "undefined") return [];
+  return withStore("readonly", (store) => requestToPromise(store.getAll() as IDBRequest<OfflineQueueEntry[]>));
+}
+
+/**
+ * Publish the number of waiting and rejected operations through the sync status store
+ */
+export async function publishQueueStatus(): Promise<void> {
+  const entries = await getQueuedOperations();
+  useSyncStatusStore.getState().setQueueStatus({
+    queuedCount: entries.filter((entry) => entry.status === "pending").length,
+    conflictCount: entries.filter((entry) => entry.status === "conflict").length,
+    failedCount: entries.filter((entry) => entry.status === "failed").length,
+  });
+}
+
+/**
+ * Save changes to a queued operation, e.g. to mark it as conflicting
+ * @param entry The entry with its id
+ */
+export async function updateQueuedOperation(entry: OfflineQueueEntry): Promise<void> {
+  await withStore("readwrite", (store) => requestToPromise(store.put(entry)));
+}
+
+/**
+ * Remove an operation once it has been replayed or discarded
+ * @param entry The entry with its id
+ */
+export async function removeQueuedOperation(entry: OfflineQueueEntry): Promise<void> {
+  if (entry.id === undefined) return;
+  await withStore("readwrite", (store) => requestToPromise(store.delete(entry.id as number)));
+
+  if (entry.operation.kind === "photo.upload") {
+    const url = queuedPhotoUrls.get(entry.operation.path);
+    if (url) URL.revokeObjectURL(url);
+    queuedPhotoUrls.delete(entry.operation.path);
+  }
+}
@@ -0,0 +1,165 @@
+// Resumable uploads to Supabase Storage over the TUS protocol, so photos taken on weak
+// mobile data survive dropped connections without starting again
+
+// Supabase only accepts 6MB chunks (the last chunk may be smaller)
+const CHUNK_SIZE = 6 * 1024 * 1024
+
+const TUS_VERSION = '1.0.0'
+
+// Delays before each retry of a failed request
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000]
+
+export interface ResumableUploadOptions {
+  supabaseUrl: string
+  apiKey: string
+  // The user's access token, or the anon key when there is no session
+  accessToken: string
+  bucketName: string
+  path: string
+  file: Blob
+  contentType: string
+  cacheControl?: string
+  upsert?: boolean
+  // Called with the percentage of the file stored so far
+  onProgress?: (progress: number) => void
+}
+
+class UploadRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'UploadRequestError'
+  }
+}
+
+// Client errors other than timeouts, conflicts and rate limits will fail again if retried
+const isRetryable = (error: unknown) =>
+  !(error instanceof UploadRequestError) ||
+  error.status === 0 ||
+  error.status === 408 ||
+  error.status === 409 ||
+  error.status === 429 ||
+  error.status >= 500
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// TUS metadata values are base64 encoded UTF-8
+const toBase64 = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${toBase64(value)}`)
+    .join(',')
+
+/**
+ * Send a TUS request; XMLHttpRequest is used because fetch cannot report upload progress
+ */
+function sendRequest(
+  method: 'POST' | 'HEAD' | 'PATCH',
+  url: string,
+  headers: Record<string, string>,
+  body?: Blob,
+  onUploadProgress?: (loaded: number) => void
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open(method, url)
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value)
+    }
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (event) => onUploadProgress(event.loaded)
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr)
+      } else {
+        reject(new UploadRequestError(`Upload request failed (${xhr.status}): ${xhr.responseText}`, xhr.status))
+      }
+    }
+    xhr.onerror = () => reject(new UploadRequestError('Upload request failed: network error', 0))
+    xhr.send(body ?? null)
+  })
+}
+
+/**
+ * Run a request, retrying transient failures with increasing delays
+ */
+async function withRetry<T>(request: (attempt: number) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request(attempt)
+    } catch (error) {
+      const delay = RETRY_DELAYS_MS[attempt]
+      if (delay === undefined || !isRetryable(error)) throw error
+      console.warn(`Upload request failed, retrying in ${delay}ms:`, error)
+      await wait(delay)
+    }
+  }
+}
+
+/**
+ * Upload a file in chunks, resuming from the last stored byte after a failure
+ * @param options Upload options
+ * @returns The storage path of the uploaded file
+ */
+export async function uploadResumable({
+  supabaseUrl,
+  apiKey,
+  accessToken,
+  bucketName,
+  path,
+  file,
+  contentType,
+  cacheControl = '3600',
+  upsert = false,
+  onProgress,
+}: ResumableUploadOptions): Promise<string> {
+  const headers = {
+    authorization: `Bearer ${accessToken}`,
+    apikey: apiKey,
+    'tus-resumable': TUS_VERSION,
+    'x-upsert': String(upsert),
+  }
+
+  const endpoint = `${supabaseUrl}/storage/v1/upload/resumable`
+  const created = await withRetry(() =>
+    sendRequest('POST', endpoint, {
+      ...headers,
+      'upload-length': String(file.size),
+      'upload-metadata': encodeMetadata({ bucketName, objectName: path, contentType, cacheControl }),
+    })
+  )
+  const location = created.getResponseHeader('location')
+  if (!location) {
+    throw new Error('Upload could not be started: no upload URL returned')
+  }
+  const uploadUrl = new URL(location, endpoint).toString()
+
+  let offset = 0
+  onProgress?.(0)
+
+  while (offset < file.size) {
+    offset = await withRetry(async (attempt) => {
+      let start = offset
+      if (attempt > 0) {
+        // The server may have stored part of the failed chunk, so ask where to continue
+        const head = await sendRequest('HEAD', uploadUrl, headers)
+        start = Number(head.getResponseHeader('upload-offset') ?? offset)
+        if (start >= file.size) return start
+      }
+
+      const chunk = file.slice(start, start + CHUNK_SIZE)
+      const patched = await sendRequest(
+        'PATCH',
+        uploadUrl,
+        { ...headers, 'upload-offset': String(start), 'content-type': 'application/offset+octet-stream' },
+        chunk,
+        (loaded) => onProgress?.(Math.min(99, Math.round(((start + loaded) / file.size) * 100)))
+      )
+      return Number(patched.getResponseHeader('upload-offset') ?? start + chunk.size)
+    })
+  }
+
+  onProgress?.(100)
+  return path
+}